@@ -4,9 +4,9 @@ const nextConfig = {
     return [
       {
         // Redirect all traffic to /maintenance except the maintenance page itself,
-        // Next.js static files, and public assets like images and manifest
+        // Next.js static files, and public assets like images, manifest and the service worker
         source:
-          "/((?!maintenance|_next|images|favicon\\.ico|manifest\\.json).*)",
+          "/((?!maintenance|_next|images|favicon\\.ico|manifest\\.json|sw\\.js).*)",
         destination: "/maintenance",
         permanent: false,
       },
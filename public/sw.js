@@ -0,0 +1,35 @@
+// AlertKaro service worker
+//
+// Drives the offline report outbox. Reports queued while offline live in
+// IndexedDB (see src/lib/outbox.ts); when the browser fires a Background Sync
+// event we wake any open AlertKaro tabs so they replay the queue with the
+// signed-in Supabase session.
+
+const OUTBOX_SYNC_TAG = "alertkaro-outbox";
+
+self.addEventListener("install", () => {
+  self.skipWaiting();
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+self.addEventListener("sync", (event) => {
+  if (event.tag !== OUTBOX_SYNC_TAG) return;
+
+  event.waitUntil(
+    self.clients
+      .matchAll({ type: "window", includeUncontrolled: true })
+      .then((clients) => {
+        if (clients.length === 0) {
+          // Nobody to replay the queue yet; rejecting lets the browser
+          // retry the sync later. The app also flushes on its next load.
+          throw new Error("No open clients to flush the outbox");
+        }
+        clients.forEach((client) =>
+          client.postMessage({ type: "outbox-sync" }),
+        );
+      }),
+  );
+});
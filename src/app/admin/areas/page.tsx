@@ -4,6 +4,8 @@ import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { createClient } from '@/lib/supabase/client';
+import { GeocodeResult, searchAddress } from '@/lib/geocoding/client';
+import AreaBoundaryEditor, { AreaBoundary } from '@/components/AreaBoundaryEditor';
 import styles from './page.module.css';
 
 interface Area {
@@ -13,6 +15,7 @@ interface Area {
     state: string;
     pincode: string;
     is_active: boolean;
+    boundary: AreaBoundary | null;
     incident_count?: number;
 }
 
@@ -27,6 +30,12 @@ export default function AdminAreasPage() {
     const [formData, setFormData] = useState({ name: '', city: '', state: '', pincode: '' });
     const [saving, setSaving] = useState(false);
     const [searchQuery, setSearchQuery] = useState('');
+    const [placeResults, setPlaceResults] = useState<GeocodeResult[]>([]);
+    const [placeSearching, setPlaceSearching] = useState(false);
+    const [boundary, setBoundary] = useState<AreaBoundary | null>(null);
+    const [mapCenter, setMapCenter] = useState<{ latitude: number; longitude: number } | null>(null);
+    const [backfilling, setBackfilling] = useState(false);
+    const [backfillMessage, setBackfillMessage] = useState('');
 
     useEffect(() => {
         async function loadData() {
@@ -46,7 +55,7 @@ export default function AdminAreasPage() {
         if (data) {
             const withCounts = await Promise.all(
                 data.map(async (area) => {
-                    const { count } = await supabase.from('incidents').select('*', { count: 'exact', head: true }).eq('area_id', area.id);
+                    const { count } = await supabase.from('incidents').select('id', { count: 'exact', head: true }).eq('area_id', area.id);
                     return { ...area, incident_count: count || 0 };
                 })
             );
@@ -59,10 +68,12 @@ export default function AdminAreasPage() {
         setSaving(true);
         try {
             if (editingArea) {
-                await supabase.from('areas').update(formData).eq('id', editingArea.id);
+                await supabase.from('areas').update({ ...formData, boundary }).eq('id', editingArea.id);
             } else {
-                await supabase.from('areas').insert({ ...formData, is_active: true });
+                await supabase.from('areas').insert({ ...formData, boundary, is_active: true });
             }
+            // Pick up incidents that fall inside the new boundary
+            if (boundary) await backfillAreas(true);
             await loadAreas();
             setShowModal(false);
             resetForm();
@@ -73,6 +84,26 @@ export default function AdminAreasPage() {
         }
     };
 
+    // Assign incidents to areas by their coordinates. With onlyUnassigned
+    // false every incident is recomputed, e.g. after redrawing boundaries.
+    const backfillAreas = async (onlyUnassigned: boolean) => {
+        const { data, error } = await supabase.rpc('backfill_incident_areas', { only_unassigned: onlyUnassigned });
+        if (error) {
+            console.error('Error assigning incident areas:', error);
+            setBackfillMessage('Could not assign incidents to areas');
+            return;
+        }
+        setBackfillMessage(`${data ?? 0} incident${data === 1 ? '' : 's'} assigned to areas`);
+    };
+
+    const handleReassignAll = async () => {
+        if (!confirm('Recompute the area of every incident from the current boundaries?')) return;
+        setBackfilling(true);
+        await backfillAreas(false);
+        await loadAreas();
+        setBackfilling(false);
+    };
+
     const handleToggleActive = async (id: string, isActive: boolean) => {
         await supabase.from('areas').update({ is_active: !isActive }).eq('id', id);
         setAreas(prev => prev.map(a => a.id === id ? { ...a, is_active: !isActive } : a));
@@ -81,12 +112,41 @@ export default function AdminAreasPage() {
     const openEditModal = (area: Area) => {
         setEditingArea(area);
         setFormData({ name: area.name, city: area.city, state: area.state, pincode: area.pincode || '' });
+        setBoundary(area.boundary);
+        setMapCenter(null);
         setShowModal(true);
     };
 
     const resetForm = () => {
         setEditingArea(null);
         setFormData({ name: '', city: '', state: '', pincode: '' });
+        setPlaceResults([]);
+        setBoundary(null);
+        setMapCenter(null);
+    };
+
+    // Look the area name up so city, state and pincode can be filled in
+    const handleLookup = async () => {
+        setPlaceSearching(true);
+        try {
+            const query = [formData.name, formData.city, formData.state].filter(Boolean).join(', ');
+            setPlaceResults(await searchAddress(query));
+        } catch (error) {
+            console.error('Error looking up area:', error);
+        } finally {
+            setPlaceSearching(false);
+        }
+    };
+
+    const applyPlace = (place: GeocodeResult) => {
+        setFormData({
+            ...formData,
+            city: place.details.city || formData.city,
+            state: place.details.state || formData.state,
+            pincode: place.details.postcode || formData.pincode,
+        });
+        setMapCenter({ latitude: place.latitude, longitude: place.longitude });
+        setPlaceResults([]);
     };
 
     const filteredAreas = areas.filter(a =>
@@ -124,7 +184,9 @@ export default function AdminAreasPage() {
                 <header className={styles.header}>
                     <div>
                         <h1 className={styles.pageTitle}>Area Management</h1>
-                        <p className={styles.pageSubtitle}>{areas.length} areas</p>
+                        <p className={styles.pageSubtitle}>
+                            {areas.length} areas{backfillMessage && ` · ${backfillMessage}`}
+                        </p>
                     </div>
                     <div className={styles.headerActions}>
                         <input
@@ -134,6 +196,9 @@ export default function AdminAreasPage() {
                             onChange={(e) => setSearchQuery(e.target.value)}
                             className={styles.searchInput}
                         />
+                        <button onClick={handleReassignAll} disabled={backfilling} className={styles.lookupBtn}>
+                            {backfilling ? 'Assigning...' : 'Reassign Incidents'}
+                        </button>
                         <button onClick={() => { resetForm(); setShowModal(true); }} className={styles.addBtn}>
                             + Add Area
                         </button>
@@ -148,6 +213,7 @@ export default function AdminAreasPage() {
                                 <th>City</th>
                                 <th>State</th>
                                 <th>Pincode</th>
+                                <th>Boundary</th>
                                 <th>Incidents</th>
                                 <th>Status</th>
                                 <th>Actions</th>
@@ -160,6 +226,7 @@ export default function AdminAreasPage() {
                                     <td>{area.city}</td>
                                     <td>{area.state}</td>
                                     <td>{area.pincode || '-'}</td>
+                                    <td>{area.boundary ? 'Drawn' : '-'}</td>
                                     <td>{area.incident_count}</td>
                                     <td>
                                         <label className={styles.toggle}>
@@ -183,7 +250,21 @@ export default function AdminAreasPage() {
                         <h2>{editingArea ? 'Edit Area' : 'Add Area'}</h2>
                         <div className={styles.formGroup}>
                             <label>Area Name *</label>
-                            <input value={formData.name} onChange={(e) => setFormData({ ...formData, name: e.target.value })} />
+                            <div className={styles.lookupRow}>
+                                <input value={formData.name} onChange={(e) => setFormData({ ...formData, name: e.target.value })} />
+                                <button onClick={handleLookup} disabled={placeSearching || formData.name.trim().length < 3} className={styles.lookupBtn}>
+                                    {placeSearching ? 'Looking up...' : 'Look up'}
+                                </button>
+                            </div>
+                            {placeResults.length > 0 && (
+                                <ul className={styles.placeResults}>
+                                    {placeResults.map((place) => (
+                                        <li key={`${place.latitude},${place.longitude}`}>
+                                            <button onClick={() => applyPlace(place)}>{place.address}</button>
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
                         </div>
                         <div className={styles.formRow}>
                             <div className={styles.formGroup}>
@@ -199,6 +280,10 @@ export default function AdminAreasPage() {
                             <label>Pincode</label>
                             <input value={formData.pincode} onChange={(e) => setFormData({ ...formData, pincode: e.target.value })} />
                         </div>
+                        <div className={styles.formGroup}>
+                            <label>Boundary</label>
+                            <AreaBoundaryEditor value={boundary} onChange={setBoundary} center={mapCenter} />
+                        </div>
                         <div className={styles.modalActions}>
                             <button onClick={() => setShowModal(false)} className={styles.cancelBtn}>Cancel</button>
                             <button onClick={handleSave} disabled={saving || !formData.name || !formData.city || !formData.state} className={styles.saveBtn}>
@@ -105,6 +105,7 @@ export default function AdminAuditPage() {
                         <option value="incident_created">Incident Created</option>
                         <option value="status_update">Status Update</option>
                         <option value="role_change">Role Change</option>
+                        <option value="identity_reveal">Identity Reveal</option>
                     </select>
                 </header>
 
@@ -4,18 +4,63 @@ import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { createClient } from '@/lib/supabase/client';
+import {
+    CATEGORY_FIELD_TYPES,
+    CategoryField,
+    CategoryFieldType,
+    fieldKeyFromLabel,
+    parseCategoryFields,
+} from '@/lib/categoryFields';
+import { DEFAULT_LOCALE, LOCALES, Locale } from '@/lib/i18n';
 import styles from './page.module.css';
 
 interface Category {
     id: string;
     name: string;
+    // Name shown to citizens using another language, by language code
+    name_translations: Partial<Record<Locale, string>>;
     description: string;
     icon: string;
     color: string;
     is_active: boolean;
+    form_fields: CategoryField[];
     incident_count?: number;
 }
 
+// A category field as edited in the modal; numbers and options are kept as
+// typed until saved. key is empty until a new field is first saved.
+interface FieldDraft {
+    key: string;
+    label: string;
+    type: CategoryFieldType;
+    required: boolean;
+    placeholder: string;
+    options: string;
+    min: string;
+    max: string;
+    max_length: string;
+}
+
+const emptyFieldDraft = (): FieldDraft => ({
+    key: '', label: '', type: 'text', required: false, placeholder: '', options: '', min: '', max: '', max_length: '',
+});
+
+function toFieldDraft(field: CategoryField): FieldDraft {
+    return {
+        key: field.key,
+        label: field.label,
+        type: field.type,
+        required: field.required,
+        placeholder: field.placeholder || '',
+        options: (field.options || []).join(', '),
+        min: field.min?.toString() ?? '',
+        max: field.max?.toString() ?? '',
+        max_length: field.max_length?.toString() ?? '',
+    };
+}
+
+const toNumber = (value: string) => (value.trim() && Number.isFinite(Number(value)) ? Number(value) : null);
+
 export default function AdminCategoriesPage() {
     const router = useRouter();
     const supabase = createClient();
@@ -25,6 +70,9 @@ export default function AdminCategoriesPage() {
     const [showModal, setShowModal] = useState(false);
     const [editingCategory, setEditingCategory] = useState<Category | null>(null);
     const [formData, setFormData] = useState({ name: '', description: '', icon: '', color: '#D32F2F' });
+    const [nameTranslations, setNameTranslations] = useState<Partial<Record<Locale, string>>>({});
+    const [fieldDrafts, setFieldDrafts] = useState<FieldDraft[]>([]);
+    const [formError, setFormError] = useState('');
     const [saving, setSaving] = useState(false);
 
     useEffect(() => {
@@ -59,28 +107,93 @@ export default function AdminCategoriesPage() {
         if (data) {
             const withCounts = await Promise.all(
                 data.map(async (cat) => {
-                    const { count } = await supabase.from('incidents').select('*', { count: 'exact', head: true }).eq('category_id', cat.id);
+                    const { count } = await supabase.from('incidents').select('id', { count: 'exact', head: true }).eq('category_id', cat.id);
                     return { ...cat, incident_count: count || 0 };
                 })
             );
-            setCategories(withCounts);
+            setCategories(withCounts.map((cat) => ({ ...cat, form_fields: parseCategoryFields(cat.form_fields) })));
         }
         setLoading(false);
     }
 
+    // Turn the edited fields into the stored schema, giving new fields a key
+    // once. Returns an error message instead when a field is incomplete.
+    const buildFormFields = (): CategoryField[] | string => {
+        const taken = fieldDrafts.map((f) => f.key).filter(Boolean);
+        const fields: CategoryField[] = [];
+
+        for (const draft of fieldDrafts) {
+            const label = draft.label.trim();
+            if (!label) return 'Every field needs a label';
+
+            const options = draft.options.split(',').map((o) => o.trim()).filter(Boolean);
+            if (draft.type === 'select' && options.length === 0) return `Add at least one choice for "${label}"`;
+
+            const min = toNumber(draft.min);
+            const max = toNumber(draft.max);
+            if (min !== null && max !== null && min > max) return `Minimum is above maximum for "${label}"`;
+
+            let key = draft.key;
+            if (!key) {
+                key = fieldKeyFromLabel(label, taken);
+                taken.push(key);
+            }
+
+            fields.push({
+                key,
+                label,
+                type: draft.type,
+                required: draft.required,
+                ...(draft.placeholder.trim() && { placeholder: draft.placeholder.trim() }),
+                ...(draft.type === 'select' && { options }),
+                ...(draft.type === 'number' && { min, max }),
+                ...(draft.type === 'text' && { max_length: toNumber(draft.max_length) }),
+            });
+        }
+        return fields;
+    };
+
+    const updateFieldDraft = (index: number, changes: Partial<FieldDraft>) => {
+        setFieldDrafts(prev => prev.map((f, i) => i === index ? { ...f, ...changes } : f));
+    };
+
+    const moveFieldDraft = (index: number, offset: number) => {
+        setFieldDrafts(prev => {
+            const target = index + offset;
+            if (target < 0 || target >= prev.length) return prev;
+            const next = [...prev];
+            [next[index], next[target]] = [next[target], next[index]];
+            return next;
+        });
+    };
+
     const handleSave = async () => {
+        const formFields = buildFormFields();
+        if (typeof formFields === 'string') {
+            setFormError(formFields);
+            return;
+        }
+
         setSaving(true);
+        setFormError('');
         try {
-            if (editingCategory) {
-                await supabase.from('categories').update(formData).eq('id', editingCategory.id);
-            } else {
-                await supabase.from('categories').insert({ ...formData, is_active: true });
-            }
+            // Blank translations fall back to the name
+            const translations = Object.fromEntries(
+                Object.entries(nameTranslations)
+                    .map(([code, name]) => [code, name?.trim()])
+                    .filter(([, name]) => name)
+            );
+            const values = { ...formData, name_translations: translations, form_fields: formFields };
+            const { error } = editingCategory
+                ? await supabase.from('categories').update(values).eq('id', editingCategory.id)
+                : await supabase.from('categories').insert({ ...values, is_active: true });
+            if (error) throw error;
             await loadCategories();
             setShowModal(false);
             resetForm();
         } catch (error) {
             console.error('Error saving category:', error);
+            setFormError('Could not save the category');
         } finally {
             setSaving(false);
         }
@@ -94,12 +207,18 @@ export default function AdminCategoriesPage() {
     const openEditModal = (cat: Category) => {
         setEditingCategory(cat);
         setFormData({ name: cat.name, description: cat.description || '', icon: cat.icon || '', color: cat.color });
+        setNameTranslations(cat.name_translations || {});
+        setFieldDrafts(cat.form_fields.map(toFieldDraft));
+        setFormError('');
         setShowModal(true);
     };
 
     const resetForm = () => {
         setEditingCategory(null);
         setFormData({ name: '', description: '', icon: '', color: '#D32F2F' });
+        setNameTranslations({});
+        setFieldDrafts([]);
+        setFormError('');
     };
 
     if (loading) {
@@ -157,7 +276,10 @@ export default function AdminCategoriesPage() {
                             <h3 className={styles.cardTitle}>{cat.name}</h3>
                             <p className={styles.cardDesc}>{cat.description || 'No description'}</p>
                             <div className={styles.cardFooter}>
-                                <span className={styles.count}>{cat.incident_count} incidents</span>
+                                <span className={styles.count}>
+                                    {cat.incident_count} incidents
+                                    {cat.form_fields.length > 0 && ` · ${cat.form_fields.length} extra ${cat.form_fields.length === 1 ? 'field' : 'fields'}`}
+                                </span>
                                 <button onClick={() => openEditModal(cat)} className={styles.editBtn}>Edit</button>
                             </div>
                         </div>
@@ -173,6 +295,17 @@ export default function AdminCategoriesPage() {
                             <label>Name *</label>
                             <input value={formData.name} onChange={(e) => setFormData({ ...formData, name: e.target.value })} />
                         </div>
+                        {LOCALES.filter(l => l.code !== DEFAULT_LOCALE).map(l => (
+                            <div key={l.code} className={styles.formGroup}>
+                                <label>Name in {l.label}</label>
+                                <input
+                                    value={nameTranslations[l.code] || ''}
+                                    onChange={(e) => setNameTranslations(prev => ({ ...prev, [l.code]: e.target.value }))}
+                                    placeholder={formData.name}
+                                    lang={l.code}
+                                />
+                            </div>
+                        ))}
                         <div className={styles.formGroup}>
                             <label>Description</label>
                             <textarea value={formData.description} onChange={(e) => setFormData({ ...formData, description: e.target.value })} rows={2} />
@@ -187,6 +320,75 @@ export default function AdminCategoriesPage() {
                                 <input type="color" value={formData.color} onChange={(e) => setFormData({ ...formData, color: e.target.value })} />
                             </div>
                         </div>
+                        <div className={styles.fieldsEditor}>
+                            <div className={styles.fieldsHeader}>
+                                <label>Report Fields</label>
+                                <button type="button" onClick={() => setFieldDrafts(prev => [...prev, emptyFieldDraft()])} className={styles.editBtn}>
+                                    + Add Field
+                                </button>
+                            </div>
+                            {fieldDrafts.length === 0 && (
+                                <p className={styles.fieldsHint}>Reports in this category only ask for a title and description.</p>
+                            )}
+                            {fieldDrafts.map((field, index) => (
+                                <div key={index} className={styles.fieldCard}>
+                                    <div className={styles.formRow}>
+                                        <div className={styles.formGroup}>
+                                            <label>Label *</label>
+                                            <input value={field.label} onChange={(e) => updateFieldDraft(index, { label: e.target.value })} placeholder="Vehicle number" />
+                                        </div>
+                                        <div className={styles.formGroup}>
+                                            <label>Type</label>
+                                            <select value={field.type} onChange={(e) => updateFieldDraft(index, { type: e.target.value as CategoryFieldType })}>
+                                                {CATEGORY_FIELD_TYPES.map((t) => (
+                                                    <option key={t.value} value={t.value}>{t.label}</option>
+                                                ))}
+                                            </select>
+                                        </div>
+                                    </div>
+                                    {field.type === 'select' && (
+                                        <div className={styles.formGroup}>
+                                            <label>Choices (comma separated) *</label>
+                                            <input value={field.options} onChange={(e) => updateFieldDraft(index, { options: e.target.value })} placeholder="North, South, East, West" />
+                                        </div>
+                                    )}
+                                    {field.type === 'number' && (
+                                        <div className={styles.formRow}>
+                                            <div className={styles.formGroup}>
+                                                <label>Minimum</label>
+                                                <input type="number" value={field.min} onChange={(e) => updateFieldDraft(index, { min: e.target.value })} />
+                                            </div>
+                                            <div className={styles.formGroup}>
+                                                <label>Maximum</label>
+                                                <input type="number" value={field.max} onChange={(e) => updateFieldDraft(index, { max: e.target.value })} />
+                                            </div>
+                                        </div>
+                                    )}
+                                    {field.type === 'text' && (
+                                        <div className={styles.formGroup}>
+                                            <label>Max length</label>
+                                            <input type="number" min={1} value={field.max_length} onChange={(e) => updateFieldDraft(index, { max_length: e.target.value })} placeholder="200" />
+                                        </div>
+                                    )}
+                                    {field.type !== 'checkbox' && (
+                                        <div className={styles.formGroup}>
+                                            <label>Placeholder</label>
+                                            <input value={field.placeholder} onChange={(e) => updateFieldDraft(index, { placeholder: e.target.value })} />
+                                        </div>
+                                    )}
+                                    <div className={styles.fieldActions}>
+                                        <label className={styles.requiredToggle}>
+                                            <input type="checkbox" checked={field.required} onChange={(e) => updateFieldDraft(index, { required: e.target.checked })} />
+                                            Required
+                                        </label>
+                                        <button type="button" onClick={() => moveFieldDraft(index, -1)} disabled={index === 0} className={styles.fieldActionBtn} title="Move up">↑</button>
+                                        <button type="button" onClick={() => moveFieldDraft(index, 1)} disabled={index === fieldDrafts.length - 1} className={styles.fieldActionBtn} title="Move down">↓</button>
+                                        <button type="button" onClick={() => setFieldDrafts(prev => prev.filter((_, i) => i !== index))} className={styles.fieldActionBtn} title="Remove field">✕</button>
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                        {formError && <p className={styles.formError}>{formError}</p>}
                         <div className={styles.modalActions}>
                             <button onClick={() => setShowModal(false)} className={styles.cancelBtn}>Cancel</button>
                             <button onClick={handleSave} disabled={saving || !formData.name} className={styles.saveBtn}>
@@ -4,6 +4,7 @@ import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
 import { createClient } from "@/lib/supabase/client";
+import { describeFieldValues, parseCategoryFields } from "@/lib/categoryFields";
 import styles from "./page.module.css";
 
 interface Incident {
@@ -13,9 +14,12 @@ interface Incident {
   status: string;
   priority: string;
   created_at: string;
-  user: { full_name: string };
-  category: { name: string; color: string };
+  is_anonymous: boolean;
+  user: { full_name: string } | null;
+  category: { name: string; color: string; form_fields: unknown };
   area: { name: string } | null;
+  // Answers to the category's own fields, by field key
+  field_values: Record<string, unknown> | null;
 }
 
 export default function AdminIncidentsPage() {
@@ -54,11 +58,12 @@ export default function AdminIncidentsPage() {
 
   async function loadIncidents() {
     let query = supabase
-      .from("incidents")
+      .from("police_incidents")
       .select(
-        `id, tracking_id, title, status, priority, created_at,
-        user:profiles!incidents_user_id_fkey(full_name),
-        category:categories(name, color),
+        `id, tracking_id, title, status, priority, created_at, is_anonymous,
+        field_values,
+        user:reporter,
+        category:categories(name, color, form_fields),
         area:areas(name)`,
       )
       .order("created_at", { ascending: false });
@@ -75,6 +80,18 @@ export default function AdminIncidentsPage() {
   }, [statusFilter]);
 
   const handleExportCSV = () => {
+    // One column per category field label, filled for the incidents whose
+    // category has that field
+    const details = incidents.map((i) =>
+      describeFieldValues(
+        parseCategoryFields(i.category?.form_fields),
+        i.field_values,
+      ),
+    );
+    const detailLabels = Array.from(
+      new Set(details.flatMap((d) => d.map((detail) => detail.label))),
+    );
+
     const headers = [
       "Tracking ID",
       "Title",
@@ -84,19 +101,24 @@ export default function AdminIncidentsPage() {
       "Status",
       "Priority",
       "Date",
+      ...detailLabels,
     ];
-    const rows = incidents.map((i) => [
+    const rows = incidents.map((i, index) => [
       i.tracking_id,
       i.title,
       i.category?.name || "",
-      i.user?.full_name || "",
+      i.is_anonymous ? "Anonymous" : i.user?.full_name || "",
       i.area?.name || "",
       i.status,
       i.priority,
       new Date(i.created_at).toLocaleDateString(),
+      ...detailLabels.map(
+        (label) =>
+          details[index].find((detail) => detail.label === label)?.value || "",
+      ),
     ]);
     const csv = [headers, ...rows]
-      .map((r) => r.map((c) => `"${c}"`).join(","))
+      .map((r) => r.map((c) => `"${c.replace(/"/g, '""')}"`).join(","))
       .join("\n");
     const blob = new Blob([csv], { type: "text/csv" });
     const url = URL.createObjectURL(blob);
@@ -236,7 +258,11 @@ export default function AdminIncidentsPage() {
                         {incident.category?.name}
                       </span>
                     </td>
-                    <td>{incident.user?.full_name}</td>
+                    <td>
+                      {incident.is_anonymous
+                        ? "Anonymous"
+                        : incident.user?.full_name}
+                    </td>
                     <td>{incident.area?.name || "-"}</td>
                     <td>
                       {new Date(incident.created_at).toLocaleDateString(
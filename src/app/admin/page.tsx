@@ -49,10 +49,10 @@ export default function AdminDashboardPage() {
             ] = await Promise.all([
                 supabase.from('profiles').select('*', { count: 'exact', head: true }).eq('role', 'citizen'),
                 supabase.from('profiles').select('*', { count: 'exact', head: true }).eq('role', 'police'),
-                supabase.from('incidents').select('*', { count: 'exact', head: true }),
-                supabase.from('incidents').select('*', { count: 'exact', head: true }).eq('status', 'submitted'),
-                supabase.from('incidents').select('*', { count: 'exact', head: true }).eq('status', 'resolved'),
-                supabase.from('incidents').select('*', { count: 'exact', head: true }).gte('created_at', today.toISOString()),
+                supabase.from('incidents').select('id', { count: 'exact', head: true }),
+                supabase.from('incidents').select('id', { count: 'exact', head: true }).eq('status', 'submitted'),
+                supabase.from('incidents').select('id', { count: 'exact', head: true }).eq('status', 'resolved'),
+                supabase.from('incidents').select('id', { count: 'exact', head: true }).gte('created_at', today.toISOString()),
                 supabase.from('categories').select('*', { count: 'exact', head: true }),
                 supabase.from('areas').select('*', { count: 'exact', head: true }),
             ]);
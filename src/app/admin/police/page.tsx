@@ -14,6 +14,15 @@ interface PoliceUser {
     is_active: boolean;
     created_at: string;
     assigned_count?: number;
+    is_on_duty?: boolean;
+    // Auto-assignment coverage; null / empty means any area or category
+    duty_area_id?: string | null;
+    duty_category_ids?: string[];
+}
+
+interface Option {
+    id: string;
+    name: string;
 }
 
 export default function AdminPolicePage() {
@@ -28,6 +37,13 @@ export default function AdminPolicePage() {
     const [searchQuery, setSearchQuery] = useState('');
     const [creating, setCreating] = useState(false);
     const [newPolice, setNewPolice] = useState({ email: '', full_name: '', phone: '' });
+    const [autoAssign, setAutoAssign] = useState(false);
+    const [areas, setAreas] = useState<Option[]>([]);
+    const [categories, setCategories] = useState<Option[]>([]);
+    const [coverageUser, setCoverageUser] = useState<PoliceUser | null>(null);
+    const [coverageArea, setCoverageArea] = useState('');
+    const [coverageCategories, setCoverageCategories] = useState<string[]>([]);
+    const [savingCoverage, setSavingCoverage] = useState(false);
 
     useEffect(() => {
         async function loadData() {
@@ -37,6 +53,15 @@ export default function AdminPolicePage() {
             const { data: profileData } = await supabase.from('profiles').select('role').eq('id', user.id).single();
             if (!profileData || profileData.role !== 'admin') { router.push('/dashboard'); return; }
 
+            const [{ data: settings }, { data: areaData }, { data: categoryData }] = await Promise.all([
+                supabase.from('assignment_settings').select('auto_assign').maybeSingle(),
+                supabase.from('areas').select('id, name').eq('is_active', true).order('name'),
+                supabase.from('categories').select('id, name').eq('is_active', true).order('name'),
+            ]);
+            setAutoAssign(!!settings?.auto_assign);
+            if (areaData) setAreas(areaData);
+            if (categoryData) setCategories(categoryData);
+
             await loadPoliceUsers();
         }
         loadData();
@@ -47,7 +72,7 @@ export default function AdminPolicePage() {
         if (data) {
             const withCounts = await Promise.all(
                 data.map(async (user) => {
-                    const { count } = await supabase.from('incidents').select('*', { count: 'exact', head: true }).eq('assigned_to', user.id);
+                    const { count } = await supabase.from('incidents').select('id', { count: 'exact', head: true }).eq('assigned_to', user.id);
                     return { ...user, assigned_count: count || 0 };
                 })
             );
@@ -77,6 +102,45 @@ export default function AdminPolicePage() {
         setPoliceUsers(prev => prev.map(u => u.id === userId ? { ...u, is_active: isActive } : u));
     };
 
+    const handleAutoAssignChange = async (enabled: boolean) => {
+        const { data: { user } } = await supabase.auth.getUser();
+        const { error } = await supabase
+            .from('assignment_settings')
+            .update({ auto_assign: enabled, updated_at: new Date().toISOString(), updated_by: user?.id })
+            .eq('id', true);
+        if (error) {
+            alert('Error updating auto-assignment: ' + error.message);
+        } else {
+            setAutoAssign(enabled);
+        }
+    };
+
+    const openCoverage = (user: PoliceUser) => {
+        setCoverageUser(user);
+        setCoverageArea(user.duty_area_id || '');
+        setCoverageCategories(user.duty_category_ids || []);
+    };
+
+    const handleSaveCoverage = async () => {
+        if (!coverageUser) return;
+        setSavingCoverage(true);
+        const coverage = { duty_area_id: coverageArea || null, duty_category_ids: coverageCategories };
+        const { error } = await supabase.from('profiles').update(coverage).eq('id', coverageUser.id);
+        setSavingCoverage(false);
+        if (error) {
+            alert('Error saving coverage: ' + error.message);
+            return;
+        }
+        setPoliceUsers(prev => prev.map(u => u.id === coverageUser.id ? { ...u, ...coverage } : u));
+        setCoverageUser(null);
+    };
+
+    const describeCoverage = (user: PoliceUser) => {
+        const area = areas.find(a => a.id === user.duty_area_id)?.name || 'All areas';
+        const count = user.duty_category_ids?.length || 0;
+        return `${area} · ${count === 0 ? 'All categories' : `${count} ${count === 1 ? 'category' : 'categories'}`}`;
+    };
+
     const handleRemovePoliceRole = async (userId: string) => {
         if (confirm('Remove police role from this user? They will become a citizen.')) {
             await supabase.from('profiles').update({ role: 'citizen' }).eq('id', userId);
@@ -163,6 +227,14 @@ export default function AdminPolicePage() {
                         <p className={styles.pageSubtitle}>{policeUsers.length} police officers</p>
                     </div>
                     <div className={styles.headerActions}>
+                        <label className={styles.autoAssign} title="Route new incidents to the least-loaded on-duty officer covering their area and category">
+                            <input
+                                type="checkbox"
+                                checked={autoAssign}
+                                onChange={(e) => handleAutoAssignChange(e.target.checked)}
+                            />
+                            Auto-assign new incidents
+                        </label>
                         <button onClick={() => { loadCitizens(); setShowPromoteModal(true); }} className={styles.promoteBtn}>
                             Promote Citizen
                         </button>
@@ -191,6 +263,12 @@ export default function AdminPolicePage() {
                                 <h3 className={styles.userName}>{user.full_name}</h3>
                                 <p className={styles.userEmail}>{user.email}</p>
                                 <p className={styles.userPhone}>{user.phone}</p>
+                                <p className={styles.coverage}>
+                                    <span className={user.is_on_duty ? styles.onDuty : styles.offDuty}>
+                                        {user.is_on_duty ? 'On duty' : 'Off duty'}
+                                    </span>
+                                    {describeCoverage(user)}
+                                </p>
                                 <div className={styles.stats}>
                                     <div className={styles.stat}>
                                         <span className={styles.statValue}>{user.assigned_count}</span>
@@ -208,6 +286,9 @@ export default function AdminPolicePage() {
                                     >
                                         {user.is_active === false ? 'Activate' : 'Suspend'}
                                     </button>
+                                    <button onClick={() => openCoverage(user)} className={styles.coverageBtn}>
+                                        Coverage
+                                    </button>
                                     <button onClick={() => handleRemovePoliceRole(user.id)} className={styles.removeBtn}>
                                         Remove
                                     </button>
@@ -252,6 +333,48 @@ export default function AdminPolicePage() {
                 </div>
             )}
 
+            {/* Coverage Modal */}
+            {coverageUser && (
+                <div className={styles.modalOverlay} onClick={() => setCoverageUser(null)}>
+                    <div className={styles.modal} onClick={(e) => e.stopPropagation()}>
+                        <h2>Coverage for {coverageUser.full_name}</h2>
+                        <p className={styles.modalDesc}>Auto-assignment only sends this officer incidents in this area and these categories while they are on duty.</p>
+                        <div className={styles.formGroup}>
+                            <label>Area</label>
+                            <select value={coverageArea} onChange={(e) => setCoverageArea(e.target.value)} className={styles.select}>
+                                <option value="">All areas</option>
+                                {areas.map((area) => (
+                                    <option key={area.id} value={area.id}>{area.name}</option>
+                                ))}
+                            </select>
+                        </div>
+                        <div className={styles.formGroup}>
+                            <label>Categories (none selected means all)</label>
+                            <div className={styles.categoryChecks}>
+                                {categories.map((category) => (
+                                    <label key={category.id} className={styles.categoryCheck}>
+                                        <input
+                                            type="checkbox"
+                                            checked={coverageCategories.includes(category.id)}
+                                            onChange={(e) => setCoverageCategories(prev =>
+                                                e.target.checked ? [...prev, category.id] : prev.filter(id => id !== category.id)
+                                            )}
+                                        />
+                                        {category.name}
+                                    </label>
+                                ))}
+                            </div>
+                        </div>
+                        <div className={styles.modalActions}>
+                            <button onClick={() => setCoverageUser(null)} className={styles.cancelBtn}>Cancel</button>
+                            <button onClick={handleSaveCoverage} disabled={savingCoverage} className={styles.createAccountBtn}>
+                                {savingCoverage ? 'Saving...' : 'Save Coverage'}
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            )}
+
             {/* Create Modal */}
             {showCreateModal && (
                 <div className={styles.modalOverlay} onClick={() => setShowCreateModal(false)}>
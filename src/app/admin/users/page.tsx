@@ -13,6 +13,8 @@ interface User {
     phone: string;
     role: string;
     is_active: boolean;
+    // Police officers who may reveal anonymous reporters
+    is_supervisor: boolean;
     avatar_url: string | null;
     created_at: string;
     incident_count?: number;
@@ -66,19 +68,20 @@ export default function AdminUsersPage() {
             query = query.eq('role', roleFilter);
         }
 
-        const { data } = await query;
+        const [{ data }, { data: countData }] = await Promise.all([
+            query,
+            // Reporters' ids are not readable on incidents, so the counts
+            // come from the database in one call
+            supabase.rpc('reporter_incident_counts'),
+        ]);
 
         if (data) {
-            const usersWithCounts = await Promise.all(
-                data.map(async (user) => {
-                    const { count } = await supabase
-                        .from('incidents')
-                        .select('*', { count: 'exact', head: true })
-                        .eq('user_id', user.id);
-                    return { ...user, incident_count: count || 0 };
-                })
+            const counts = new Map<string, number>(
+                ((countData as { user_id: string; incident_count: number }[]) || []).map(
+                    (row) => [row.user_id, row.incident_count]
+                )
             );
-            setUsers(usersWithCounts);
+            setUsers(data.map((user) => ({ ...user, incident_count: counts.get(user.id) || 0 })));
         }
         setLoading(false);
     }
@@ -114,6 +117,28 @@ export default function AdminUsersPage() {
         }
     };
 
+    const handleSupervisorChange = async (userId: string, isSupervisor: boolean) => {
+        setUpdating(true);
+        try {
+            const { error } = await supabase
+                .from('profiles')
+                .update({ is_supervisor: isSupervisor })
+                .eq('id', userId);
+
+            if (error) {
+                console.error('Error updating supervisor status:', error);
+                alert('Failed to update supervisor status: ' + error.message);
+            } else {
+                setUsers(prev => prev.map(u => u.id === userId ? { ...u, is_supervisor: isSupervisor } : u));
+                setSelectedUser(prev => prev ? { ...prev, is_supervisor: isSupervisor } : null);
+            }
+        } catch (error) {
+            console.error('Error updating supervisor status:', error);
+        } finally {
+            setUpdating(false);
+        }
+    };
+
     const handleStatusChange = async (userId: string, isActive: boolean) => {
         setUpdating(true);
         try {
@@ -299,6 +324,28 @@ export default function AdminUsersPage() {
                             </div>
                         </div>
 
+                        {selectedUser.role === 'police' && (
+                            <div className={styles.formGroup}>
+                                <label>Anonymous Reporters</label>
+                                <div className={styles.statusButtons}>
+                                    <button
+                                        onClick={() => handleSupervisorChange(selectedUser.id, false)}
+                                        className={`${styles.statusBtn} ${!selectedUser.is_supervisor ? styles.activeBtn : ''}`}
+                                        disabled={updating}
+                                    >
+                                        Officer
+                                    </button>
+                                    <button
+                                        onClick={() => handleSupervisorChange(selectedUser.id, true)}
+                                        className={`${styles.statusBtn} ${selectedUser.is_supervisor ? styles.activeBtn : ''}`}
+                                        disabled={updating}
+                                    >
+                                        Supervisor (can reveal)
+                                    </button>
+                                </div>
+                            </div>
+                        )}
+
                         <div className={styles.formGroup}>
                             <label>Status</label>
                             <div className={styles.statusButtons}>
@@ -4,6 +4,7 @@ import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
 import { createClient } from "@/lib/supabase/client";
+import { useI18n } from "@/lib/I18nContext";
 import { useNotifications } from "@/lib/NotificationContext";
 import BottomNav from "@/components/BottomNav";
 import { AlertsSkeleton } from "@/components/Skeleton";
@@ -28,6 +29,7 @@ export default function AlertsPage() {
   const router = useRouter();
   const supabase = createClient();
   const { unreadCount, refreshUnreadCount } = useNotifications();
+  const { t, formatTimeAgo, statusLabel } = useI18n();
 
   const [notifications, setNotifications] = useState<Notification[]>([]);
   const [loading, setLoading] = useState(true);
@@ -120,21 +122,6 @@ export default function AlertsPage() {
     }
   };
 
-  const formatTimeAgo = (date: string) => {
-    const now = new Date();
-    const then = new Date(date);
-    const diffMs = now.getTime() - then.getTime();
-    const diffMins = Math.floor(diffMs / 60000);
-    const diffHours = Math.floor(diffMins / 60);
-    const diffDays = Math.floor(diffHours / 24);
-
-    if (diffMins < 1) return "Just now";
-    if (diffMins < 60) return `${diffMins}m ago`;
-    if (diffHours < 24) return `${diffHours}h ago`;
-    if (diffDays < 7) return `${diffDays}d ago`;
-    return then.toLocaleDateString();
-  };
-
   const getNotificationIcon = (type: string, newStatus?: string) => {
     if (type === "resolved" || newStatus === "resolved") {
       return (
@@ -181,14 +168,14 @@ export default function AlertsPage() {
       {/* Header */}
       <header className={styles.header}>
         <h1 className={styles.headerTitle}>
-          Alerts
+          {t("alerts.title")}
           {unreadCount > 0 && (
             <span className={styles.unreadBadge}>{unreadCount}</span>
           )}
         </h1>
         {unreadCount > 0 && (
           <button onClick={markAllAsRead} className={styles.markAllRead}>
-            Mark all as read
+            {t("alerts.markAllRead")}
           </button>
         )}
       </header>
@@ -205,8 +192,8 @@ export default function AlertsPage() {
             >
               <path d="M12 22c1.1 0 2-.9 2-2h-4c0 1.1.89 2 2 2zm6-6v-5c0-3.07-1.64-5.64-4.5-6.32V4c0-.83-.67-1.5-1.5-1.5s-1.5.67-1.5 1.5v.68C7.63 5.36 6 7.92 6 11v5l-2 2v1h16v-1l-2-2z" />
             </svg>
-            <p>No alerts yet</p>
-            <span>You'll receive notifications about your reports here</span>
+            <p>{t("alerts.emptyTitle")}</p>
+            <span>{t("alerts.emptyHint")}</span>
           </div>
         ) : (
           <div className={styles.notificationsList}>
@@ -239,14 +226,7 @@ export default function AlertsPage() {
                       className={styles.statusBadge}
                       data-status={notification.metadata.new_status}
                     >
-                      {notification.metadata.new_status === "in_review" &&
-                        "Under Review"}
-                      {notification.metadata.new_status === "action_taken" &&
-                        "Action Taken"}
-                      {notification.metadata.new_status === "resolved" &&
-                        "Resolved"}
-                      {notification.metadata.new_status === "submitted" &&
-                        "Submitted"}
+                      {statusLabel(notification.metadata.new_status)}
                     </div>
                   )}
                 </div>
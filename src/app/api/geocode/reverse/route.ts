@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { reverseGeocode } from "@/lib/geocoding/server";
+
+export async function GET(request: Request) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const latitude = Number(searchParams.get("lat"));
+  const longitude = Number(searchParams.get("lon"));
+
+  if (
+    !searchParams.get("lat") ||
+    !searchParams.get("lon") ||
+    !Number.isFinite(latitude) ||
+    !Number.isFinite(longitude) ||
+    Math.abs(latitude) > 90 ||
+    Math.abs(longitude) > 180
+  ) {
+    return NextResponse.json(
+      { error: "lat and lon must be valid coordinates" },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const result = await reverseGeocode(latitude, longitude);
+    return NextResponse.json(
+      { result },
+      { headers: { "Cache-Control": "private, max-age=86400" } },
+    );
+  } catch (error) {
+    console.error("Reverse geocode error:", error);
+    return NextResponse.json(
+      { error: "Geocoding provider unavailable" },
+      { status: 502 },
+    );
+  }
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { searchPlaces } from "@/lib/geocoding/server";
+
+export async function GET(request: Request) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const query = searchParams.get("q")?.trim() ?? "";
+
+  if (query.length < 3 || query.length > 200) {
+    return NextResponse.json(
+      { error: "q must be between 3 and 200 characters" },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const results = await searchPlaces(query);
+    return NextResponse.json(
+      { results },
+      { headers: { "Cache-Control": "private, max-age=86400" } },
+    );
+  } catch (error) {
+    console.error("Address search error:", error);
+    return NextResponse.json(
+      { error: "Geocoding provider unavailable" },
+      { status: 502 },
+    );
+  }
+}
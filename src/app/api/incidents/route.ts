@@ -0,0 +1,245 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import {
+  FieldErrors,
+  MAX_MEDIA_FILES,
+  validateReport,
+} from "@/lib/incidentValidation";
+import {
+  normalizeFieldValues,
+  parseCategoryFields,
+} from "@/lib/categoryFields";
+import type { ReportPayload, StagedMedia } from "@/lib/reportSubmission";
+
+const MEDIA_BUCKET = "incident-media";
+
+// Raised by create_incident_with_media when a check fails
+const INVALID_PARAMETER_CODE = "22023";
+
+const SHA256_PATTERN = /^[0-9a-f]{64}$/;
+
+// Capture times as the browser's EXIF reader writes them (toISOString)
+const ISO_TIMESTAMP_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}Z$/;
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function invalid(fieldErrors: FieldErrors) {
+  return NextResponse.json(
+    { error: "Some fields need attention", fieldErrors },
+    { status: 400 },
+  );
+}
+
+function toNullableString(value: unknown) {
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+// Anything other than a number or nothing becomes NaN, which fails
+// validation as an invalid coordinate
+function toNullableNumber(value: unknown) {
+  if (value === null || value === undefined) return null;
+  return typeof value === "number" ? value : NaN;
+}
+
+function isNullableCoordinate(value: unknown, limit: number) {
+  return (
+    value === null ||
+    (typeof value === "number" &&
+      Number.isFinite(value) &&
+      Math.abs(value) <= limit)
+  );
+}
+
+// EXIF details are written to typed columns, so a value of the wrong type
+// would fail the insert rather than the request
+function isExifMetadata(value: unknown) {
+  if (value === undefined || value === null) return true;
+  if (typeof value !== "object" || Array.isArray(value)) return false;
+
+  const { captured_at, gps_latitude, gps_longitude } = value as Record<
+    string,
+    unknown
+  >;
+  return (
+    (captured_at === null ||
+      (typeof captured_at === "string" &&
+        ISO_TIMESTAMP_PATTERN.test(captured_at))) &&
+    isNullableCoordinate(gps_latitude, 90) &&
+    isNullableCoordinate(gps_longitude, 180)
+  );
+}
+
+export async function POST(request: Request) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+  }
+
+  let body: {
+    submission_id?: unknown;
+    payload?: Record<string, unknown>;
+    media?: unknown;
+  };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const submissionId = body.submission_id;
+  if (typeof submissionId !== "string" || !UUID_PATTERN.test(submissionId)) {
+    return NextResponse.json(
+      { error: "submission_id must be a UUID" },
+      { status: 400 },
+    );
+  }
+  if (!body.payload || typeof body.payload !== "object") {
+    return NextResponse.json({ error: "payload is required" }, { status: 400 });
+  }
+
+  const raw = body.payload;
+  const payload = {
+    category_id: raw.category_id,
+    title: typeof raw.title === "string" ? raw.title.trim() : raw.title,
+    description: toNullableString(raw.description),
+    latitude: toNullableNumber(raw.latitude),
+    longitude: toNullableNumber(raw.longitude),
+    address: toNullableString(raw.address),
+    location_source: raw.location_source ?? null,
+    is_anonymous: raw.is_anonymous === true,
+  } as ReportPayload;
+
+  const media = (Array.isArray(body.media) ? body.media : []).filter(
+    (item): item is StagedMedia =>
+      typeof item === "object" &&
+      item !== null &&
+      typeof item.path === "string" &&
+      typeof item.file_name === "string" &&
+      typeof item.file_type === "string" &&
+      typeof item.file_size === "number" &&
+      (item.sha256 === null ||
+        (typeof item.sha256 === "string" &&
+          SHA256_PATTERN.test(item.sha256))) &&
+      (item.poster_path === undefined ||
+        item.poster_path === null ||
+        typeof item.poster_path === "string") &&
+      isExifMetadata(item.metadata),
+  );
+  if (Array.isArray(body.media) && media.length !== body.media.length) {
+    return invalid({ media: { code: "mediaMalformed" } });
+  }
+
+  // The category decides which extra fields the report must answer
+  let category: { id: string; form_fields: unknown } | null = null;
+  let categoryLookupFailed = false;
+  if (typeof payload.category_id === "string" && payload.category_id) {
+    const { data, error: categoryError } = await supabase
+      .from("categories")
+      .select("id, form_fields")
+      .eq("id", payload.category_id)
+      .eq("is_active", true)
+      .maybeSingle();
+
+    category = data;
+    categoryLookupFailed = !!categoryError;
+  }
+
+  const categoryFields = parseCategoryFields(category?.form_fields);
+  payload.field_values = normalizeFieldValues(categoryFields, raw.field_values);
+
+  // Files must have been uploaded by this user for this submission, and
+  // actually be in storage, before records can point at them. Their type
+  // and size are taken from storage rather than from what the client says.
+  let stored: Set<string> | null = null;
+  if (media.length > 0 && media.length <= MAX_MEDIA_FILES) {
+    // Anonymous reports stage under anonymous/ (reporterFolder in
+    // reportSubmission.ts)
+    const folder = `${payload.is_anonymous ? "anonymous" : user.id}/${submissionId}`;
+    const { data: objects, error: listError } = await supabase.storage
+      .from(MEDIA_BUCKET)
+      .list(folder, { limit: 1000 });
+
+    if (listError) {
+      console.error("Incident media lookup error:", listError);
+      return NextResponse.json(
+        { error: "Could not check uploaded files" },
+        { status: 500 },
+      );
+    }
+
+    const objectsByPath = new Map(
+      (objects || []).map((o) => [`${folder}/${o.name}`, o]),
+    );
+    stored = new Set(objectsByPath.keys());
+    media.forEach((item) => {
+      const object = objectsByPath.get(item.path);
+      if (object) {
+        item.file_type = object.metadata?.mimetype ?? "";
+        item.file_size = object.metadata?.size ?? 0;
+      }
+    });
+  }
+
+  const fieldErrors = validateReport(payload, media, categoryFields);
+
+  if (!fieldErrors.category_id && (categoryLookupFailed || !category)) {
+    fieldErrors.category_id = { code: "categoryUnavailable" };
+  }
+
+  if (!fieldErrors.media && stored) {
+    const missing = media.find((item) => !stored.has(item.path));
+    if (missing) {
+      fieldErrors.media = {
+        code: "mediaNotUploaded",
+        params: { name: missing.file_name },
+      };
+    }
+
+    // A poster is only a preview, so one that is not there is dropped
+    // rather than holding up the report
+    media.forEach((item) => {
+      if (item.poster_path && !stored.has(item.poster_path)) {
+        item.poster_path = null;
+      }
+    });
+  }
+
+  if (Object.keys(fieldErrors).length > 0) {
+    return invalid(fieldErrors);
+  }
+
+  // The function checks the report again and reads each file's URL, type
+  // and size from storage itself
+  const { data: incident, error: createError } = await supabase.rpc(
+    "create_incident_with_media",
+    {
+      p_submission_id: submissionId,
+      p_incident: payload,
+      p_media: media.map((item) => ({
+        path: item.path,
+        file_name: item.file_name,
+        metadata: item.metadata ?? null,
+        sha256: item.sha256,
+        poster_path: item.poster_path ?? null,
+      })),
+    },
+  );
+
+  // Only reached if the checks above and the function's disagree
+  if (createError?.code === INVALID_PARAMETER_CODE) {
+    return NextResponse.json({ error: createError.message }, { status: 400 });
+  }
+  if (createError) {
+    console.error("Create incident error:", createError);
+    return NextResponse.json(
+      { error: "Could not create the incident" },
+      { status: 500 },
+    );
+  }
+
+  return NextResponse.json({ incident }, { status: 201 });
+}
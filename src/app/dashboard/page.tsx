@@ -4,8 +4,12 @@ import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
 import { createClient } from "@/lib/supabase/client";
+import MediaPreview from "@/components/MediaPreview";
 import BottomNav from "@/components/BottomNav";
 import { DashboardSkeleton } from "@/components/Skeleton";
+import { ReportDraft, deleteDraft, listDrafts } from "@/lib/drafts";
+import { TranslatableName } from "@/lib/i18n";
+import { useI18n } from "@/lib/I18nContext";
 import styles from "./page.module.css";
 
 interface Profile {
@@ -20,20 +24,23 @@ interface FeedIncident {
   status: string;
   address: string | null;
   created_at: string;
-  category: {
-    name: string;
-    icon: string;
-    color: string;
-  } | null;
+  category:
+    | (TranslatableName & {
+        icon: string;
+        color: string;
+      })
+    | null;
   incident_media: {
     id: string;
     file_url: string;
     file_type: string;
+    thumbnail_url: string | null;
   }[];
   incident_resolutions: {
     id: string;
     resolution_media_url: string;
     resolution_media_type: string;
+    resolution_thumbnail_url: string | null;
   }[];
 }
 
@@ -46,6 +53,7 @@ interface Stats {
 export default function DashboardPage() {
   const router = useRouter();
   const supabase = createClient();
+  const { t, formatTimeAgo, statusLabel, categoryName } = useI18n();
 
   const [profile, setProfile] = useState<Profile | null>(null);
   const [feedIncidents, setFeedIncidents] = useState<FeedIncident[]>([]);
@@ -55,6 +63,8 @@ export default function DashboardPage() {
     pending: 0,
   });
   const [loading, setLoading] = useState(true);
+  const [drafts, setDrafts] = useState<ReportDraft[]>([]);
+  const [draftThumbs, setDraftThumbs] = useState<Record<string, string>>({});
 
   useEffect(() => {
     async function loadData() {
@@ -82,23 +92,27 @@ export default function DashboardPage() {
 
         setProfile(profileData);
 
+        // Unfinished reports saved on this device
+        try {
+          setDrafts(await listDrafts(user.id));
+        } catch (draftError) {
+          console.error("Error reading drafts:", draftError);
+        }
+
         // Get user stats
         const { count: totalActive } = await supabase
-          .from("incidents")
-          .select("*", { count: "exact", head: true })
-          .eq("user_id", user.id)
+          .from("my_incidents")
+          .select("id", { count: "exact", head: true })
           .in("status", ["submitted", "in_review", "action_taken"]);
 
         const { count: totalResolved } = await supabase
-          .from("incidents")
-          .select("*", { count: "exact", head: true })
-          .eq("user_id", user.id)
+          .from("my_incidents")
+          .select("id", { count: "exact", head: true })
           .eq("status", "resolved");
 
         const { count: totalPending } = await supabase
-          .from("incidents")
-          .select("*", { count: "exact", head: true })
-          .eq("user_id", user.id)
+          .from("my_incidents")
+          .select("id", { count: "exact", head: true })
           .eq("status", "submitted");
 
         setStats({
@@ -107,7 +121,8 @@ export default function DashboardPage() {
           pending: totalPending || 0,
         });
 
-        // Load public feed: last 48 hours, fallback to latest 10
+        // Load public feed: last 48 hours, fallback to latest 10. Withdrawn
+        // reports and SOS alerts stay out of it.
         const fortyEightHoursAgo = new Date(
           Date.now() - 48 * 60 * 60 * 1000,
         ).toISOString();
@@ -118,14 +133,16 @@ export default function DashboardPage() {
             status,
             address,
             created_at,
-            category:categories(name, icon, color),
-            incident_media(id, file_url, file_type),
-            incident_resolutions(id, resolution_media_url, resolution_media_type)
+            category:categories(name, name_translations, icon, color),
+            incident_media(id, file_url, file_type, thumbnail_url),
+            incident_resolutions(id, resolution_media_url, resolution_media_type, resolution_thumbnail_url)
           `;
 
         const { data: recentData } = await supabase
           .from("incidents")
           .select(feedSelect)
+          .is("withdrawn_at", null)
+          .eq("is_sos", false)
           .gte("created_at", fortyEightHoursAgo)
           .order("created_at", { ascending: false })
           .limit(50);
@@ -136,6 +153,8 @@ export default function DashboardPage() {
           const { data: latestData } = await supabase
             .from("incidents")
             .select(feedSelect)
+            .is("withdrawn_at", null)
+            .eq("is_sos", false)
             .order("created_at", { ascending: false })
             .limit(10);
 
@@ -151,52 +170,47 @@ export default function DashboardPage() {
     loadData();
   }, [supabase, router]);
 
-  const formatTimeAgo = (date: string) => {
-    const now = new Date();
-    const then = new Date(date);
-    const diffMs = now.getTime() - then.getTime();
-    const diffMins = Math.floor(diffMs / 60000);
-    const diffHours = Math.floor(diffMins / 60);
-    const diffDays = Math.floor(diffHours / 24);
-
-    if (diffMins < 1) return "Just now";
-    if (diffMins < 60) return `${diffMins}m ago`;
-    if (diffHours < 24) return `${diffHours}h ago`;
-    if (diffDays < 7) return `${diffDays}d ago`;
-    return then.toLocaleDateString();
-  };
-
-  const formatDate = (date: string) => {
-    return new Date(date).toLocaleDateString("en-IN", {
-      day: "numeric",
-      month: "short",
-      year: "numeric",
-      hour: "2-digit",
-      minute: "2-digit",
+  // Preview the first photo of each draft
+  useEffect(() => {
+    const thumbs: Record<string, string> = {};
+    drafts.forEach((draft) => {
+      const image = draft.media.find((m) => m.type.startsWith("image/"));
+      if (image) thumbs[draft.id] = URL.createObjectURL(image.blob);
     });
+    setDraftThumbs(thumbs);
+
+    return () => Object.values(thumbs).forEach(URL.revokeObjectURL);
+  }, [drafts]);
+
+  const handleDiscardDraft = async (id: string) => {
+    try {
+      await deleteDraft(id);
+      setDrafts((prev) => prev.filter((draft) => draft.id !== id));
+    } catch (error) {
+      console.error("Error deleting draft:", error);
+    }
   };
 
   const getStatusInfo = (status: string) => {
+    const label = statusLabel(status);
     switch (status) {
-      case "submitted":
-        return { label: "Reported", color: "#757575" };
       case "in_review":
-        return { label: "In Progress", color: "#F57C00" };
+        return { label, color: "#F57C00" };
       case "action_taken":
-        return { label: "Action Taken", color: "#1976D2" };
+        return { label, color: "#1976D2" };
       case "resolved":
-        return { label: "Resolved", color: "#388E3C" };
+        return { label, color: "#388E3C" };
       default:
-        return { label: status, color: "#757575" };
+        return { label, color: "#757575" };
     }
   };
 
   const parseLocation = (address: string | null): string => {
-    if (!address) return "Location not available";
+    if (!address) return t("common.locationUnavailable");
     const parts = address.split(",").map((p) => p.trim());
     if (parts.length >= 3) return `${parts[1]}, ${parts[2]}`;
     if (parts.length >= 2) return `${parts[0]}, ${parts[1]}`;
-    return parts[0] || "Location not available";
+    return parts[0] || t("common.locationUnavailable");
   };
 
   const getStatusBadgeClass = (status: string) => {
@@ -214,21 +228,6 @@ export default function DashboardPage() {
     }
   };
 
-  const getStatusLabel = (status: string) => {
-    switch (status) {
-      case "submitted":
-        return "Received";
-      case "in_review":
-        return "In Progress";
-      case "action_taken":
-        return "Action Taken";
-      case "resolved":
-        return "Resolved";
-      default:
-        return status;
-    }
-  };
-
   const getCategoryIcon = (icon: string) => {
     switch (icon) {
       case "traffic":
@@ -290,7 +289,7 @@ export default function DashboardPage() {
         <div className={styles.headerContent}>
           <div className={styles.headerTop}>
             <div>
-              <p className={styles.greeting}>Welcome back,</p>
+              <p className={styles.greeting}>{t("dashboard.welcomeBack")}</p>
               <h1 className={styles.userName}>{profile?.full_name}</h1>
             </div>
             <Link href="/profile" className={styles.avatarLink}>
@@ -310,15 +309,17 @@ export default function DashboardPage() {
 
           <div className={styles.statsGrid}>
             <div className={styles.statCard}>
-              <span className={styles.statLabel}>Active</span>
+              <span className={styles.statLabel}>{t("dashboard.active")}</span>
               <span className={styles.statValue}>{stats.active}</span>
             </div>
             <div className={styles.statCard}>
-              <span className={styles.statLabel}>Resolved</span>
+              <span className={styles.statLabel}>
+                {t("dashboard.resolved")}
+              </span>
               <span className={styles.statValue}>{stats.resolved}</span>
             </div>
             <div className={styles.statCard}>
-              <span className={styles.statLabel}>Pending</span>
+              <span className={styles.statLabel}>{t("dashboard.pending")}</span>
               <span className={styles.statValue}>{stats.pending}</span>
             </div>
           </div>
@@ -332,8 +333,10 @@ export default function DashboardPage() {
           {/* Report CTA */}
           <Link href="/report" className={styles.reportCta}>
             <div>
-              <h2 className={styles.ctaTitle}>Report Incident</h2>
-              <p className={styles.ctaSubtitle}>Spot an issue? Let us know.</p>
+              <h2 className={styles.ctaTitle}>{t("dashboard.reportTitle")}</h2>
+              <p className={styles.ctaSubtitle}>
+                {t("dashboard.reportSubtitle")}
+              </p>
             </div>
             <div className={styles.ctaIcon}>
               <svg
@@ -346,15 +349,87 @@ export default function DashboardPage() {
               </svg>
             </div>
           </Link>
+
+          {/* SOS */}
+          <Link href="/sos" className={styles.sosCta}>
+            <div>
+              <h2 className={styles.ctaTitle}>{t("dashboard.sosTitle")}</h2>
+              <p className={styles.ctaSubtitle}>{t("dashboard.sosSubtitle")}</p>
+            </div>
+            <div className={styles.sosCtaIcon}>SOS</div>
+          </Link>
         </div>
         {/* end quickActions */}
 
+        {/* Drafts Section */}
+        {drafts.length > 0 && (
+          <section className={styles.section}>
+            <div className={styles.sectionHeader}>
+              <h2 className={styles.sectionTitle}>{t("dashboard.drafts")}</h2>
+            </div>
+
+            <div className={styles.draftsList}>
+              {drafts.map((draft) => (
+                <div key={draft.id} className={styles.draftCard}>
+                  <Link
+                    href={`/report?draft=${draft.id}`}
+                    className={styles.draftLink}
+                  >
+                    <div className={styles.draftThumb}>
+                      {draftThumbs[draft.id] ? (
+                        <img src={draftThumbs[draft.id]} alt="" />
+                      ) : (
+                        <svg
+                          viewBox="0 0 24 24"
+                          fill="currentColor"
+                          width="20"
+                          height="20"
+                        >
+                          <path d="M3 17.25V21h3.75L17.81 9.94l-3.75-3.75L3 17.25zM20.71 7.04a.996.996 0 000-1.41l-2.34-2.34a.996.996 0 00-1.41 0l-1.83 1.83 3.75 3.75 1.83-1.83z" />
+                        </svg>
+                      )}
+                    </div>
+                    <div className={styles.draftInfo}>
+                      <h3 className={styles.draftTitle}>
+                        {draft.title || t("common.untitledReport")}
+                      </h3>
+                      <span className={styles.draftMeta}>
+                        {categoryName(draft.category) || t("common.noCategory")}{" "}
+                        &middot;{" "}
+                        {t("common.files", { count: draft.media.length })}{" "}
+                        &middot;{" "}
+                        {t("dashboard.savedAgo", {
+                          time: formatTimeAgo(draft.updatedAt),
+                        })}
+                      </span>
+                    </div>
+                  </Link>
+                  <button
+                    onClick={() => handleDiscardDraft(draft.id)}
+                    className={styles.draftDiscard}
+                    aria-label={t("dashboard.discardDraft")}
+                  >
+                    <svg
+                      viewBox="0 0 24 24"
+                      fill="currentColor"
+                      width="18"
+                      height="18"
+                    >
+                      <path d="M19 6.41L17.59 5 12 10.59 6.41 5 5 6.41 10.59 12 5 17.59 6.41 19 12 13.41 17.59 19 19 17.59 13.41 12z" />
+                    </svg>
+                  </button>
+                </div>
+              ))}
+            </div>
+          </section>
+        )}
+
         {/* Public Feed Section */}
         <section className={styles.section}>
           <div className={styles.sectionHeader}>
-            <h2 className={styles.sectionTitle}>Public Feed</h2>
+            <h2 className={styles.sectionTitle}>{t("dashboard.publicFeed")}</h2>
             <Link href="/feed" className={styles.viewAllLink}>
-              View All
+              {t("dashboard.viewAll")}
             </Link>
           </div>
 
@@ -366,14 +441,18 @@ export default function DashboardPage() {
                   fill="currentColor"
                 />
               </svg>
-              <p>No incidents yet</p>
-              <span>Community reports will appear here</span>
+              <p>{t("dashboard.emptyTitle")}</p>
+              <span>{t("dashboard.emptyHint")}</span>
             </div>
           ) : (
             <div className={styles.reportsList}>
               {feedIncidents.map((incident) => {
                 const statusInfo = getStatusInfo(incident.status);
-                const citizenMedia = incident.incident_media?.[0] || null;
+                // Voice notes have no image to show on the card
+                const citizenMedia =
+                  incident.incident_media?.find(
+                    (m) => m.file_type !== "audio",
+                  ) || null;
                 const resolution = incident.incident_resolutions?.[0] || null;
                 const isResolved =
                   incident.status === "resolved" && !!resolution;
@@ -406,7 +485,8 @@ export default function DashboardPage() {
                             <circle cx="12" cy="12" r="5" />
                           )}
                         </svg>
-                        {incident.category?.name || "General"} &middot;{" "}
+                        {categoryName(incident.category) || t("common.general")}{" "}
+                        &middot;
                         {statusInfo.label}
                       </span>
                     </div>
@@ -416,8 +496,12 @@ export default function DashboardPage() {
                       <div className={styles.feedMediaSection}>
                         {isResolved && citizenMedia && (
                           <div className={styles.comparisonLabels}>
-                            <span className={styles.labelBefore}>Before</span>
-                            <span className={styles.labelAfter}>After</span>
+                            <span className={styles.labelBefore}>
+                              {t("common.before")}
+                            </span>
+                            <span className={styles.labelAfter}>
+                              {t("common.after")}
+                            </span>
                           </div>
                         )}
                         <div
@@ -430,19 +514,13 @@ export default function DashboardPage() {
                           {citizenMedia && (
                             <div className={styles.feedMediaBlock}>
                               <div className={styles.feedMediaWrapper}>
-                                {citizenMedia.file_type === "video" ? (
-                                  <video
-                                    src={citizenMedia.file_url}
-                                    className={styles.feedMediaVideo}
-                                  />
-                                ) : (
-                                  <img
-                                    src={citizenMedia.file_url}
-                                    alt="Citizen report"
-                                    className={styles.feedMediaImage}
-                                    loading="lazy"
-                                  />
-                                )}
+                                <MediaPreview
+                                  url={citizenMedia.file_url}
+                                  type={citizenMedia.file_type}
+                                  thumbnailUrl={citizenMedia.thumbnail_url}
+                                  alt={t("common.citizenReport")}
+                                  className={styles.feedMediaImage}
+                                />
                               </div>
                             </div>
                           )}
@@ -450,20 +528,15 @@ export default function DashboardPage() {
                           {isResolved && resolution && (
                             <div className={styles.feedMediaBlock}>
                               <div className={styles.feedMediaWrapper}>
-                                {resolution.resolution_media_type ===
-                                "video" ? (
-                                  <video
-                                    src={resolution.resolution_media_url}
-                                    className={styles.feedMediaVideo}
-                                  />
-                                ) : (
-                                  <img
-                                    src={resolution.resolution_media_url}
-                                    alt="Police resolution"
-                                    className={styles.feedMediaImage}
-                                    loading="lazy"
-                                  />
-                                )}
+                                <MediaPreview
+                                  url={resolution.resolution_media_url}
+                                  type={resolution.resolution_media_type}
+                                  thumbnailUrl={
+                                    resolution.resolution_thumbnail_url
+                                  }
+                                  alt={t("common.policeResolution")}
+                                  className={styles.feedMediaImage}
+                                />
                               </div>
                             </div>
                           )}
@@ -512,7 +585,7 @@ export default function DashboardPage() {
                         >
                           <path d="M12 1L3 5v6c0 5.55 3.84 10.74 9 12 5.16-1.26 9-6.45 9-12V5l-9-4z" />
                         </svg>
-                        <span>Incident Resolved</span>
+                        <span>{t("common.incidentResolved")}</span>
                         <svg
                           viewBox="0 0 24 24"
                           fill="currentColor"
@@ -3,6 +3,11 @@
 import { useEffect, useState } from "react";
 import Link from "next/link";
 import { createClient } from "@/lib/supabase/client";
+import MediaPreview from "@/components/MediaPreview";
+import BeforeAfterSlider from "@/components/BeforeAfterSlider";
+import { TranslatableName } from "@/lib/i18n";
+import { useI18n } from "@/lib/I18nContext";
+import { beforeAfterPair, newestFirst } from "@/lib/resolutions";
 import styles from "./page.module.css";
 
 interface FeedIncident {
@@ -11,25 +16,32 @@ interface FeedIncident {
   status: string;
   address: string | null;
   created_at: string;
-  category: {
-    name: string;
-    icon: string;
-    color: string;
-  } | null;
+  category:
+    | (TranslatableName & {
+        icon: string;
+        color: string;
+      })
+    | null;
   incident_media: {
     id: string;
     file_url: string;
     file_type: string;
+    thumbnail_url: string | null;
+    confirmation_id: string | null;
+    feedback_id: string | null;
   }[];
   incident_resolutions: {
     id: string;
     resolution_media_url: string;
     resolution_media_type: string;
+    resolution_thumbnail_url: string | null;
+    created_at: string;
   }[];
 }
 
 export default function FeedPage() {
   const supabase = createClient();
+  const { t, formatDate, statusLabel, categoryName } = useI18n();
 
   const [incidents, setIncidents] = useState<FeedIncident[]>([]);
   const [loading, setLoading] = useState(true);
@@ -48,11 +60,15 @@ export default function FeedPage() {
                         status,
                         address,
                         created_at,
-                        category:categories(name, icon, color),
-                        incident_media(id, file_url, file_type),
-                        incident_resolutions(id, resolution_media_url, resolution_media_type)
+                        category:categories(name, name_translations, icon, color),
+                        incident_media(id, file_url, file_type, thumbnail_url, confirmation_id, feedback_id),
+                        incident_resolutions(id, resolution_media_url, resolution_media_type, resolution_thumbnail_url, created_at)
                     `,
           )
+          // Reports withdrawn by their reporter leave the public feed, and
+          // SOS alerts never reach it
+          .is("withdrawn_at", null)
+          .eq("is_sos", false)
           .order("created_at", { ascending: false })
           .limit(30);
 
@@ -78,33 +94,22 @@ export default function FeedPage() {
     loadFeed();
   }, [supabase, filter]);
 
-  const formatDate = (date: string) => {
-    return new Date(date).toLocaleDateString("en-IN", {
-      day: "numeric",
-      month: "short",
-      year: "numeric",
-      hour: "2-digit",
-      minute: "2-digit",
-    });
-  };
-
   const getStatusInfo = (status: string) => {
+    const label = statusLabel(status);
     switch (status) {
-      case "submitted":
-        return { label: "Reported", color: "#757575" };
       case "in_review":
-        return { label: "In Progress", color: "#F57C00" };
+        return { label, color: "#F57C00" };
       case "action_taken":
-        return { label: "Action Taken", color: "#1976D2" };
+        return { label, color: "#1976D2" };
       case "resolved":
-        return { label: "Resolved", color: "#388E3C" };
+        return { label, color: "#388E3C" };
       default:
-        return { label: status, color: "#757575" };
+        return { label, color: "#757575" };
     }
   };
 
   const parseLocation = (address: string | null): string => {
-    if (!address) return "Location not available";
+    if (!address) return t("common.locationUnavailable");
     const parts = address.split(",").map((p) => p.trim());
     // Address format: "Street, Area, District, State, Pincode, Country"
     if (parts.length >= 3) {
@@ -113,7 +118,7 @@ export default function FeedPage() {
     if (parts.length >= 2) {
       return `${parts[0]}, ${parts[1]}`;
     }
-    return parts[0] || "Location not available";
+    return parts[0] || t("common.locationUnavailable");
   };
 
   const renderSkeleton = () => (
@@ -148,8 +153,8 @@ export default function FeedPage() {
               </svg>
             </Link>
             <div>
-              <h1 className={styles.headerTitle}>Public Feed</h1>
-              <p className={styles.headerSubtitle}>Transparency in action</p>
+              <h1 className={styles.headerTitle}>{t("feed.title")}</h1>
+              <p className={styles.headerSubtitle}>{t("feed.subtitle")}</p>
             </div>
           </div>
         </div>
@@ -161,13 +166,13 @@ export default function FeedPage() {
           onClick={() => setFilter("all")}
           className={`${styles.filterTab} ${filter === "all" ? styles.active : ""}`}
         >
-          All Incidents
+          {t("feed.all")}
         </button>
         <button
           onClick={() => setFilter("resolved")}
           className={`${styles.filterTab} ${filter === "resolved" ? styles.active : ""}`}
         >
-          Resolved
+          {t("feed.resolved")}
         </button>
       </div>
 
@@ -184,20 +189,30 @@ export default function FeedPage() {
             >
               <path d="M12 1L3 5v6c0 5.55 3.84 10.74 9 12 5.16-1.26 9-6.45 9-12V5l-9-4z" />
             </svg>
-            <p>No incidents to display</p>
+            <p>{t("feed.emptyTitle")}</p>
             <span>
               {filter === "resolved"
-                ? "No resolved incidents yet"
-                : "Reported incidents will appear here"}
+                ? t("feed.emptyResolved")
+                : t("feed.emptyAll")}
             </span>
           </div>
         ) : (
           <div className={styles.feedList}>
             {incidents.map((incident) => {
               const statusInfo = getStatusInfo(incident.status);
-              const citizenMedia = incident.incident_media?.[0] || null;
-              const resolution = incident.incident_resolutions?.[0] || null;
+              // Voice notes have no image to show on the card
+              const citizenMedia =
+                incident.incident_media?.find((m) => m.file_type !== "audio") ||
+                null;
+              const resolution =
+                newestFirst(incident.incident_resolutions || [])[0] || null;
               const isResolved = incident.status === "resolved" && resolution;
+              const comparison =
+                isResolved &&
+                beforeAfterPair(
+                  incident.incident_media || [],
+                  incident.incident_resolutions,
+                );
 
               return (
                 <Link
@@ -227,68 +242,74 @@ export default function FeedPage() {
                           <circle cx="12" cy="12" r="5" />
                         )}
                       </svg>
-                      {incident.category?.name || "General"} &middot;{" "}
-                      {statusInfo.label}
+                      {categoryName(incident.category) || t("common.general")}{" "}
+                      &middot; {statusInfo.label}
                     </span>
                   </div>
 
                   {/* Before / After Media */}
-                  {(citizenMedia || resolution) && (
+                  {comparison ? (
                     <div className={styles.mediaSection}>
-                      {isResolved && citizenMedia && (
-                        <div className={styles.comparisonLabels}>
-                          <span className={styles.labelBefore}>Before</span>
-                          <span className={styles.labelAfter}>After</span>
-                        </div>
-                      )}
-                      <div
-                        className={
-                          isResolved
-                            ? styles.mediaComparison
-                            : styles.mediaSingle
-                        }
-                      >
-                        {citizenMedia && (
-                          <div className={styles.mediaBlock}>
-                            <div className={styles.mediaWrapper}>
-                              {citizenMedia.file_type === "video" ? (
-                                <video
-                                  src={citizenMedia.file_url}
-                                  className={styles.mediaVideo}
-                                />
-                              ) : (
-                                <img
-                                  src={citizenMedia.file_url}
-                                  alt="Citizen report"
+                      <BeforeAfterSlider
+                        beforeUrl={comparison.before}
+                        afterUrl={comparison.after}
+                        beforeLabel={t("common.before")}
+                        afterLabel={t("common.after")}
+                        className={styles.mediaSlider}
+                      />
+                    </div>
+                  ) : (
+                    (citizenMedia || resolution) && (
+                      <div className={styles.mediaSection}>
+                        {isResolved && citizenMedia && (
+                          <div className={styles.comparisonLabels}>
+                            <span className={styles.labelBefore}>
+                              {t("common.before")}
+                            </span>
+                            <span className={styles.labelAfter}>
+                              {t("common.after")}
+                            </span>
+                          </div>
+                        )}
+                        <div
+                          className={
+                            isResolved
+                              ? styles.mediaComparison
+                              : styles.mediaSingle
+                          }
+                        >
+                          {citizenMedia && (
+                            <div className={styles.mediaBlock}>
+                              <div className={styles.mediaWrapper}>
+                                <MediaPreview
+                                  url={citizenMedia.file_url}
+                                  type={citizenMedia.file_type}
+                                  thumbnailUrl={citizenMedia.thumbnail_url}
+                                  alt={t("common.citizenReport")}
                                   className={styles.mediaImage}
-                                  loading="lazy"
                                 />
-                              )}
+                              </div>
                             </div>
-                          </div>
-                        )}
+                          )}
 
-                        {isResolved && resolution && (
-                          <div className={styles.mediaBlock}>
-                            <div className={styles.mediaWrapper}>
-                              {resolution.resolution_media_type === "video" ? (
-                                <video
-                                  src={resolution.resolution_media_url}
-                                  className={styles.mediaVideo}
-                                />
-                              ) : (
-                                <img
-                                  src={resolution.resolution_media_url}
-                                  alt="Police resolution"
+                          {isResolved && resolution && (
+                            <div className={styles.mediaBlock}>
+                              <div className={styles.mediaWrapper}>
+                                <MediaPreview
+                                  url={resolution.resolution_media_url}
+                                  type={resolution.resolution_media_type}
+                                  thumbnailUrl={
+                                    resolution.resolution_thumbnail_url
+                                  }
+                                  alt={t("common.policeResolution")}
                                   className={styles.mediaImage}
-                                  loading="lazy"
                                 />
-                              )}
+                              </div>
                             </div>
-                          </div>
-                        )}
+                          )}
+                        </div>
                       </div>
-                    </div>
+                    )
                   )}
 
                   {/* Card Body */}
@@ -316,7 +337,13 @@ export default function FeedPage() {
                         >
                           <path d="M11.99 2C6.47 2 2 6.48 2 12s4.47 10 9.99 10C17.52 22 22 17.52 22 12S17.52 2 11.99 2zM12 20c-4.42 0-8-3.58-8-8s3.58-8 8-8 8 3.58 8 8-3.58 8-8 8zm.5-13H11v6l5.25 3.15.75-1.23-4.5-2.67z" />
                         </svg>
-                        {formatDate(incident.created_at)}
+                        {formatDate(incident.created_at, {
+                          day: "numeric",
+                          month: "short",
+                          year: "numeric",
+                          hour: "2-digit",
+                          minute: "2-digit",
+                        })}
                       </span>
                     </div>
                   </div>
@@ -332,7 +359,7 @@ export default function FeedPage() {
                       >
                         <path d="M12 1L3 5v6c0 5.55 3.84 10.74 9 12 5.16-1.26 9-6.45 9-12V5l-9-4z" />
                       </svg>
-                      <span>Incident Resolved</span>
+                      <span>{t("common.incidentResolved")}</span>
                       <svg
                         viewBox="0 0 24 24"
                         fill="currentColor"
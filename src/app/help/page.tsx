@@ -2,43 +2,12 @@
 
 import { useRouter } from "next/navigation";
 import { useState } from "react";
+import { useI18n } from "@/lib/I18nContext";
 import styles from "./page.module.css";
 
-const faqs = [
-  {
-    question: "How do I report an incident?",
-    answer:
-      'Tap the "Report" button on the bottom navigation bar. Fill in the incident details, add photos if available, allow location access, and submit. Your report will be reviewed and forwarded to the relevant authorities.',
-  },
-  {
-    question: "Can I report anonymously?",
-    answer:
-      "You need an account to submit reports so authorities can follow up if needed. However, your identity is never shared publicly on the community feed.",
-  },
-  {
-    question: "How long does it take for my report to be reviewed?",
-    answer:
-      "Reports are typically reviewed within 24 hours. Urgent incidents flagged as emergencies are prioritised and may receive a faster response.",
-  },
-  {
-    question: "How do I update my profile information?",
-    answer:
-      "Go to your Profile page and tap on the field you wish to update. Changes are saved automatically.",
-  },
-  {
-    question: "Why is my location access required?",
-    answer:
-      "Location access is requested only when submitting a report to accurately tag the incident's location. Alerkaro does not track your location in the background.",
-  },
-  {
-    question: "How do I delete my account?",
-    answer:
-      "Contact our support team at alertkaro.tech@gmail.com with your registered email and we will process your deletion request within 7 business days.",
-  },
-];
-
 export default function HelpSupportPage() {
   const router = useRouter();
+  const { t, messages } = useI18n();
   const [openIndex, setOpenIndex] = useState<number | null>(null);
 
   const toggle = (i: number) => setOpenIndex(openIndex === i ? null : i);
@@ -51,13 +20,13 @@ export default function HelpSupportPage() {
             <path d="M20 11H7.83l5.59-5.59L12 4l-8 8 8 8 1.41-1.41L7.83 13H20v-2z" />
           </svg>
         </button>
-        <h1 className={styles.title}>Help & Support</h1>
+        <h1 className={styles.title}>{t("help.title")}</h1>
       </div>
 
       <div className={styles.content}>
         {/* Contact cards */}
         <section className={styles.section}>
-          <h2 className={styles.sectionTitle}>Get in Touch</h2>
+          <h2 className={styles.sectionTitle}>{t("help.getInTouch")}</h2>
           <div className={styles.contactGrid}>
             <a
               href="mailto:alertkaro.tech@gmail.com"
@@ -73,7 +42,7 @@ export default function HelpSupportPage() {
                   <path d="M20 4H4c-1.1 0-2 .9-2 2v12c0 1.1.9 2 2 2h16c1.1 0 2-.9 2-2V6c0-1.1-.9-2-2-2zm0 4l-8 5-8-5V6l8 5 8-5v2z" />
                 </svg>
               </div>
-              <p className={styles.contactLabel}>Email Us</p>
+              <p className={styles.contactLabel}>{t("help.emailUs")}</p>
               <p className={styles.contactValue}>alertkaro.tech@gmail.com</p>
             </a>
             <a href="tel:+919620991003" className={styles.contactCard}>
@@ -87,7 +56,7 @@ export default function HelpSupportPage() {
                   <path d="M6.62 10.79c1.44 2.83 3.76 5.14 6.59 6.59l2.2-2.2c.27-.27.67-.36 1.02-.24 1.12.37 2.33.57 3.57.57.55 0 1 .45 1 1V20c0 .55-.45 1-1 1-9.39 0-17-7.61-17-17 0-.55.45-1 1-1h3.5c.55 0 1 .45 1 1 0 1.25.2 2.45.57 3.57.11.35.03.74-.25 1.02l-2.2 2.2z" />
                 </svg>
               </div>
-              <p className={styles.contactLabel}>Call Us</p>
+              <p className={styles.contactLabel}>{t("help.callUs")}</p>
               <p className={styles.contactValue}>+91 96209 91003</p>
             </a>
           </div>
@@ -95,9 +64,9 @@ export default function HelpSupportPage() {
 
         {/* FAQs */}
         <section className={styles.section}>
-          <h2 className={styles.sectionTitle}>Frequently Asked Questions</h2>
+          <h2 className={styles.sectionTitle}>{t("help.faqTitle")}</h2>
           <div className={styles.faqCard}>
-            {faqs.map((faq, i) => (
+            {messages.help.faqs.map((faq, i) => (
               <div key={i} className={styles.faqItem}>
                 <button
                   className={styles.faqQuestion}
@@ -127,7 +96,9 @@ export default function HelpSupportPage() {
         <section className={styles.section}>
           <div className={styles.appInfo}>
             <p className={styles.appName}>Alerkaro</p>
-            <p className={styles.appVersion}>Version 2.0.0</p>
+            <p className={styles.appVersion}>
+              {t("help.version", { version: "2.0.0" })}
+            </p>
           </div>
         </section>
       </div>
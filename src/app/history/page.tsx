@@ -4,6 +4,10 @@ import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
 import { createClient } from "@/lib/supabase/client";
+import { TranslatableName } from "@/lib/i18n";
+import { useI18n } from "@/lib/I18nContext";
+import { useOutbox } from "@/lib/OutboxContext";
+import { downloadReceipt } from "@/lib/receipt";
 import BottomNav from "@/components/BottomNav";
 import { HistorySkeleton } from "@/components/Skeleton";
 import styles from "./page.module.css";
@@ -13,10 +17,10 @@ interface Incident {
   tracking_id: string;
   title: string;
   status: string;
+  withdrawn_at: string | null;
   address: string;
   created_at: string;
-  category: {
-    name: string;
+  category: TranslatableName & {
     icon: string;
     color: string;
   };
@@ -25,10 +29,21 @@ interface Incident {
 export default function HistoryPage() {
   const router = useRouter();
   const supabase = createClient();
+  const { t, formatDate, statusLabel, categoryName } = useI18n();
+  const {
+    queuedReports,
+    syncing,
+    lastSyncedAt,
+    flushOutbox,
+    discardQueuedReport,
+  } = useOutbox();
 
   const [incidents, setIncidents] = useState<Incident[]>([]);
   const [loading, setLoading] = useState(true);
   const [filter, setFilter] = useState<"all" | "active" | "resolved">("all");
+  // Incident whose receipt is being built, and one whose receipt failed
+  const [receiptId, setReceiptId] = useState<string | null>(null);
+  const [receiptFailedId, setReceiptFailedId] = useState<string | null>(null);
 
   useEffect(() => {
     async function loadIncidents() {
@@ -42,19 +57,19 @@ export default function HistoryPage() {
         }
 
         let query = supabase
-          .from("incidents")
+          .from("my_incidents")
           .select(
             `
             id,
             tracking_id,
             title,
             status,
+            withdrawn_at,
             address,
             created_at,
-            category:categories(name, icon, color)
+            category:categories(name, name_translations, icon, color)
           `,
           )
-          .eq("user_id", user.id)
           .order("created_at", { ascending: false });
 
         if (filter === "active") {
@@ -63,6 +78,7 @@ export default function HistoryPage() {
             "in_review",
             "action_taken",
           ]);
+          query = query.is("withdrawn_at", null);
         } else if (filter === "resolved") {
           query = query.eq("status", "resolved");
         }
@@ -77,28 +93,35 @@ export default function HistoryPage() {
     }
 
     loadIncidents();
-  }, [supabase, router, filter]);
-
-  const formatDate = (date: string) => {
-    return new Date(date).toLocaleDateString("en-IN", {
-      day: "numeric",
-      month: "short",
-      year: "numeric",
-    });
+  }, [supabase, router, filter, lastSyncedAt]);
+
+  const handleDownloadReceipt = async (incidentId: string) => {
+    setReceiptId(incidentId);
+    setReceiptFailedId(null);
+    try {
+      await downloadReceipt(supabase, incidentId);
+    } catch (error) {
+      console.error("Error creating receipt:", error);
+      setReceiptFailedId(incidentId);
+    } finally {
+      setReceiptId(null);
+    }
   };
 
+  const formatDay = (date: string) =>
+    formatDate(date, { day: "numeric", month: "short", year: "numeric" });
+
   const getStatusInfo = (status: string) => {
+    const label = statusLabel(status);
     switch (status) {
-      case "submitted":
-        return { label: "Received", color: "#757575" };
       case "in_review":
-        return { label: "In Progress", color: "#F57C00" };
+        return { label, color: "#F57C00" };
       case "action_taken":
-        return { label: "Action Taken", color: "#1976D2" };
+        return { label, color: "#1976D2" };
       case "resolved":
-        return { label: "Resolved", color: "#388E3C" };
+        return { label, color: "#388E3C" };
       default:
-        return { label: status, color: "#757575" };
+        return { label, color: "#757575" };
     }
   };
 
@@ -106,7 +129,7 @@ export default function HistoryPage() {
     <main className={styles.page}>
       {/* Header */}
       <header className={styles.header}>
-        <h1 className={styles.headerTitle}>My Reports</h1>
+        <h1 className={styles.headerTitle}>{t("history.title")}</h1>
       </header>
 
       {/* Filter Tabs */}
@@ -115,23 +138,100 @@ export default function HistoryPage() {
           onClick={() => setFilter("all")}
           className={`${styles.filterTab} ${filter === "all" ? styles.active : ""}`}
         >
-          All
+          {t("history.all")}
         </button>
         <button
           onClick={() => setFilter("active")}
           className={`${styles.filterTab} ${filter === "active" ? styles.active : ""}`}
         >
-          Active
+          {t("history.active")}
         </button>
         <button
           onClick={() => setFilter("resolved")}
           className={`${styles.filterTab} ${filter === "resolved" ? styles.active : ""}`}
         >
-          Resolved
+          {t("history.resolved")}
         </button>
       </div>
 
       <div className={styles.content}>
+        {/* Reports waiting in the offline outbox */}
+        {filter !== "resolved" && queuedReports.length > 0 && (
+          <div className={styles.queuedSection}>
+            <div className={styles.queuedHeader}>
+              <span>
+                {t("history.waitingToUpload", {
+                  count: queuedReports.filter((report) => !report.rejected)
+                    .length,
+                })}
+              </span>
+              <button
+                onClick={flushOutbox}
+                disabled={syncing}
+                className={styles.syncButton}
+              >
+                {syncing ? t("history.syncing") : t("history.syncNow")}
+              </button>
+            </div>
+            <div className={styles.list}>
+              {queuedReports.map((report) => (
+                <div
+                  key={report.id}
+                  className={`${styles.card} ${styles.queuedCard}`}
+                >
+                  <div className={styles.cardHeader}>
+                    <div className={styles.cardInfo}>
+                      <h3 className={styles.cardTitle}>
+                        {report.payload.title}
+                      </h3>
+                      <p className={styles.cardId}>
+                        {t("history.mediaPending", {
+                          count: report.media.length,
+                        })}
+                      </p>
+                    </div>
+                    <span className={`${styles.badge} ${styles.queuedBadge}`}>
+                      {report.rejected
+                        ? t("history.notAccepted")
+                        : t("history.queued")}
+                    </span>
+                  </div>
+                  {report.lastError && (
+                    <p className={styles.queuedError}>
+                      {t(
+                        report.rejected
+                          ? "history.rejectedReason"
+                          : "history.lastAttemptFailed",
+                        { error: report.lastError },
+                      )}
+                    </p>
+                  )}
+                  <div className={styles.cardMeta}>
+                    <span
+                      className={styles.category}
+                      style={{ color: report.category?.color }}
+                    >
+                      {categoryName(report.category)}
+                    </span>
+                    {report.attempts > 0 ? (
+                      <button
+                        onClick={() => discardQueuedReport(report.id)}
+                        className={styles.discardButton}
+                      >
+                        {t("common.discard")}
+                      </button>
+                    ) : (
+                      <span className={styles.date}>
+                        {formatDay(report.createdAt)}
+                      </span>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {loading ? (
           <HistorySkeleton />
         ) : incidents.length === 0 ? (
@@ -143,51 +243,72 @@ export default function HistoryPage() {
             >
               <path d="M19 3H5c-1.1 0-2 .9-2 2v14c0 1.1.9 2 2 2h14c1.1 0 2-.9 2-2V5c0-1.1-.9-2-2-2zm-7 14h-2v-2h2v2zm0-4h-2V7h2v6z" />
             </svg>
-            <p>No reports found</p>
+            <p>{t("history.emptyTitle")}</p>
             <span>
               {filter === "all"
-                ? "Start by reporting an incident"
-                : `No ${filter} reports`}
+                ? t("history.emptyAll")
+                : filter === "active"
+                  ? t("history.emptyActive")
+                  : t("history.emptyResolved")}
             </span>
           </div>
         ) : (
           <div className={styles.list}>
             {incidents.map((incident) => {
-              const statusInfo = getStatusInfo(incident.status);
+              const statusInfo = getStatusInfo(
+                incident.withdrawn_at ? "withdrawn" : incident.status,
+              );
               return (
-                <Link
-                  href={`/incident/${incident.id}`}
-                  key={incident.id}
-                  className={styles.card}
-                >
-                  <div className={styles.cardHeader}>
-                    <div className={styles.cardInfo}>
-                      <h3 className={styles.cardTitle}>{incident.title}</h3>
-                      <p className={styles.cardId}>#{incident.tracking_id}</p>
+                <div key={incident.id} className={styles.card}>
+                  <Link
+                    href={`/incident/${incident.id}`}
+                    className={styles.cardLink}
+                  >
+                    <div className={styles.cardHeader}>
+                      <div className={styles.cardInfo}>
+                        <h3 className={styles.cardTitle}>{incident.title}</h3>
+                        <p className={styles.cardId}>#{incident.tracking_id}</p>
+                      </div>
+                      <span
+                        className={styles.badge}
+                        style={{
+                          backgroundColor: `${statusInfo.color}15`,
+                          color: statusInfo.color,
+                          borderColor: `${statusInfo.color}30`,
+                        }}
+                      >
+                        {statusInfo.label}
+                      </span>
                     </div>
-                    <span
-                      className={styles.badge}
-                      style={{
-                        backgroundColor: `${statusInfo.color}15`,
-                        color: statusInfo.color,
-                        borderColor: `${statusInfo.color}30`,
-                      }}
-                    >
-                      {statusInfo.label}
-                    </span>
-                  </div>
-                  <div className={styles.cardMeta}>
-                    <span
-                      className={styles.category}
-                      style={{ color: incident.category?.color }}
+                    <div className={styles.cardMeta}>
+                      <span
+                        className={styles.category}
+                        style={{ color: incident.category?.color }}
+                      >
+                        {categoryName(incident.category)}
+                      </span>
+                      <span className={styles.date}>
+                        {formatDay(incident.created_at)}
+                      </span>
+                    </div>
+                  </Link>
+                  <div className={styles.cardActions}>
+                    <button
+                      onClick={() => handleDownloadReceipt(incident.id)}
+                      disabled={receiptId === incident.id}
+                      className={styles.receiptButton}
                     >
-                      {incident.category?.name}
-                    </span>
-                    <span className={styles.date}>
-                      {formatDate(incident.created_at)}
-                    </span>
+                      {receiptId === incident.id
+                        ? t("history.preparingReceipt")
+                        : t("history.downloadReceipt")}
+                    </button>
+                    {receiptFailedId === incident.id && (
+                      <span className={styles.receiptError}>
+                        {t("history.receiptFailed")}
+                      </span>
+                    )}
                   </div>
-                </Link>
+                </div>
               );
             })}
           </div>
@@ -1,10 +1,41 @@
 "use client";
 
-import { useEffect, useState } from "react";
+import { FormEvent, useEffect, useRef, useState } from "react";
+import Link from "next/link";
 import { useRouter, useParams, useSearchParams } from "next/navigation";
 import { createClient } from "@/lib/supabase/client";
+import { useI18n } from "@/lib/I18nContext";
+import { TranslatableName } from "@/lib/i18n";
 import BottomNav from "@/components/BottomNav";
+import CommentThread from "@/components/CommentThread";
+import BeforeAfterSlider from "@/components/BeforeAfterSlider";
 import { IncidentDetailSkeleton } from "@/components/Skeleton";
+import { trackingPath } from "@/lib/tracking";
+import { downloadReceipt } from "@/lib/receipt";
+import { processMediaFile } from "@/lib/mediaProcessing";
+import {
+  StagedMedia,
+  stageReportMedia,
+  uploadIncidentMedia,
+} from "@/lib/reportSubmission";
+import {
+  FEEDBACK_COMMENT_MAX_LENGTH,
+  IncidentFeedback,
+  submitResolutionFeedback,
+} from "@/lib/resolutionFeedback";
+import {
+  addIncidentSupplement,
+  IncidentUpdateKind,
+  isOpenToReporter,
+  SUPPLEMENT_NOTE_MAX_LENGTH,
+  WITHDRAWAL_REASON_MIN_LENGTH,
+  withdrawIncident,
+} from "@/lib/reporterSupplements";
+import {
+  beforeAfterPair,
+  newestFirst,
+  ResolutionEntry,
+} from "@/lib/resolutions";
 import styles from "./page.module.css";
 
 interface Incident {
@@ -18,8 +49,10 @@ interface Incident {
   longitude: number;
   created_at: string;
   updated_at: string;
-  category: {
-    name: string;
+  is_anonymous: boolean;
+  withdrawn_at: string | null;
+  withdrawal_reason: string | null;
+  category: TranslatableName & {
     icon: string;
     color: string;
   };
@@ -29,11 +62,15 @@ interface Media {
   id: string;
   file_url: string;
   file_type: string;
+  thumbnail_url: string | null;
+  confirmation_id: string | null;
+  feedback_id: string | null;
 }
 
 interface Update {
   id: string;
   status: string;
+  kind: IncidentUpdateKind;
   notes: string;
   created_at: string;
   updated_by: {
@@ -41,29 +78,49 @@ interface Update {
   };
 }
 
-interface Resolution {
-  id: string;
-  resolution_media_url: string;
-  resolution_media_type: string;
-  notes: string | null;
-  created_at: string;
-}
-
 export default function IncidentDetailPage() {
   const router = useRouter();
   const params = useParams();
   const searchParams = useSearchParams();
   const supabase = createClient();
+  const { t, formatDate, statusLabel, categoryName } = useI18n();
 
   const isNew = searchParams.get("new") === "true";
+  const isConfirmed = searchParams.get("confirmed") === "true";
   const incidentId = params.id as string;
 
   const [incident, setIncident] = useState<Incident | null>(null);
   const [media, setMedia] = useState<Media[]>([]);
   const [updates, setUpdates] = useState<Update[]>([]);
-  const [resolution, setResolution] = useState<Resolution | null>(null);
+  // Police resolution uploads, newest first
+  const [resolutions, setResolutions] = useState<ResolutionEntry[]>([]);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [isReporter, setIsReporter] = useState(false);
+  // The reporter's latest verdict on a resolution
+  const [feedback, setFeedback] = useState<IncidentFeedback | null>(null);
+  const [isFixed, setIsFixed] = useState<boolean | null>(null);
+  const [rating, setRating] = useState(0);
+  const [feedbackComment, setFeedbackComment] = useState("");
+  const [reopenFiles, setReopenFiles] = useState<File[]>([]);
+  const [submittingFeedback, setSubmittingFeedback] = useState(false);
+  const [feedbackError, setFeedbackError] = useState("");
+  // Follow-ups while the report is still open: extra evidence or notes,
+  // or withdrawing it
+  const [supplementNote, setSupplementNote] = useState("");
+  const [supplementFiles, setSupplementFiles] = useState<File[]>([]);
+  const [submittingSupplement, setSubmittingSupplement] = useState(false);
+  const [supplementError, setSupplementError] = useState("");
+  const [showWithdraw, setShowWithdraw] = useState(false);
+  const [withdrawReason, setWithdrawReason] = useState("");
+  const [withdrawing, setWithdrawing] = useState(false);
+  const [withdrawError, setWithdrawError] = useState("");
+  // Timeline entries that arrived live, highlighted as they appear
+  const [freshUpdateIds, setFreshUpdateIds] = useState<string[]>([]);
+  const [statusChanged, setStatusChanged] = useState(false);
+  const [downloadingReceipt, setDownloadingReceipt] = useState(false);
+  const [receiptError, setReceiptError] = useState("");
   const [loading, setLoading] = useState(true);
-  const [showSuccess, setShowSuccess] = useState(isNew);
+  const [showSuccess, setShowSuccess] = useState(isNew || isConfirmed);
 
   useEffect(() => {
     async function loadIncident() {
@@ -73,8 +130,10 @@ export default function IncidentDetailPage() {
           .from("incidents")
           .select(
             `
-            *,
-            category:categories(name, icon, color)
+            id, tracking_id, title, description, status, address, latitude,
+            longitude, created_at, updated_at, is_anonymous, withdrawn_at,
+            withdrawal_reason,
+            category:categories(name, name_translations, icon, color)
           `,
           )
           .eq("id", incidentId)
@@ -87,6 +146,20 @@ export default function IncidentDetailPage() {
 
         setIncident(incidentData as unknown as Incident);
 
+        const {
+          data: { user },
+        } = await supabase.auth.getUser();
+        setCurrentUserId(user?.id ?? null);
+
+        // Who filed an incident is not readable on it; the reporter finds it
+        // among their own
+        const { data: ownIncident } = await supabase
+          .from("my_incidents")
+          .select("id")
+          .eq("id", incidentId)
+          .maybeSingle();
+        setIsReporter(!!ownIncident);
+
         // Load media
         const { data: mediaData } = await supabase
           .from("incident_media")
@@ -113,17 +186,29 @@ export default function IncidentDetailPage() {
           setUpdates(updatesData as unknown as Update[]);
         }
 
-        // Load resolution (police action)
+        // Load resolution history (police action)
         const { data: resolutionData } = await supabase
           .from("incident_resolutions")
           .select("*")
           .eq("incident_id", incidentId)
-          .order("created_at", { ascending: false })
-          .limit(1)
-          .maybeSingle();
+          .order("created_at", { ascending: false });
 
         if (resolutionData) {
-          setResolution(resolutionData as Resolution);
+          setResolutions(resolutionData as ResolutionEntry[]);
+        }
+
+        if (ownIncident) {
+          const { data: feedbackData } = await supabase
+            .from("incident_feedback")
+            .select("*")
+            .eq("incident_id", incidentId)
+            .order("created_at", { ascending: false })
+            .limit(1)
+            .maybeSingle();
+
+          if (feedbackData) {
+            setFeedback(feedbackData as IncidentFeedback);
+          }
         }
       } catch (error) {
         console.error("Error loading incident:", error);
@@ -135,34 +220,353 @@ export default function IncidentDetailPage() {
     loadIncident();
 
     // Hide success message after 3 seconds
-    if (isNew) {
+    if (isNew || isConfirmed) {
       const timer = setTimeout(() => setShowSuccess(false), 3000);
       return () => clearTimeout(timer);
     }
-  }, [incidentId, supabase, router, isNew]);
+  }, [incidentId, supabase, router, isNew, isConfirmed]);
+
+  // Follow police changes to this incident without a reload
+  useEffect(() => {
+    const channel = supabase
+      .channel(`incident-${incidentId}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "UPDATE",
+          schema: "public",
+          table: "incidents",
+          filter: `id=eq.${incidentId}`,
+        },
+        (payload) => {
+          const row = payload.new as Partial<Incident>;
+          // The payload has no joined rows, so keep the category
+          setIncident((prev) =>
+            prev ? { ...prev, ...row, category: prev.category } : prev,
+          );
+        },
+      )
+      .on(
+        "postgres_changes",
+        {
+          event: "INSERT",
+          schema: "public",
+          table: "incident_updates",
+          filter: `incident_id=eq.${incidentId}`,
+        },
+        async (payload) => {
+          const { data } = await supabase
+            .from("incident_updates")
+            .select("*, updated_by:profiles(full_name)")
+            .eq("id", (payload.new as { id: string }).id)
+            .maybeSingle();
+          if (!data) return;
+
+          const update = data as unknown as Update;
+          setUpdates((prev) =>
+            prev.some((u) => u.id === update.id) ? prev : [update, ...prev],
+          );
+          setFreshUpdateIds((prev) => [...prev, update.id]);
+        },
+      )
+      .on(
+        "postgres_changes",
+        {
+          event: "INSERT",
+          schema: "public",
+          table: "incident_resolutions",
+          filter: `incident_id=eq.${incidentId}`,
+        },
+        (payload) => {
+          const added = payload.new as ResolutionEntry;
+          setResolutions((prev) =>
+            prev.some((r) => r.id === added.id)
+              ? prev
+              : newestFirst([added, ...prev]),
+          );
+        },
+      )
+      .subscribe();
 
-  const formatDate = (date: string) => {
-    return new Date(date).toLocaleDateString("en-IN", {
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [incidentId, supabase]);
+
+  // Play the status badge animation once each time the status moves
+  const shownStatusRef = useRef<string | null>(null);
+  const status = incident?.status;
+  useEffect(() => {
+    if (!status) return;
+    const previous = shownStatusRef.current;
+    shownStatusRef.current = status;
+    if (!previous || previous === status) return;
+
+    setStatusChanged(true);
+    const timer = setTimeout(() => setStatusChanged(false), 1200);
+    return () => clearTimeout(timer);
+  }, [status]);
+
+  const formatDateTime = (date: string) =>
+    formatDate(date, {
       day: "numeric",
       month: "short",
       year: "numeric",
       hour: "2-digit",
       minute: "2-digit",
     });
-  };
 
   const getStatusInfo = (status: string) => {
+    const label = statusLabel(status);
     switch (status) {
       case "submitted":
-        return { label: "Received", color: "#757575", progress: 25 };
+        return { label, color: "#757575", progress: 25 };
       case "in_review":
-        return { label: "In Progress", color: "#F57C00", progress: 50 };
+        return { label, color: "#F57C00", progress: 50 };
       case "action_taken":
-        return { label: "Action Taken", color: "#1976D2", progress: 75 };
+        return { label, color: "#1976D2", progress: 75 };
       case "resolved":
-        return { label: "Resolved", color: "#388E3C", progress: 100 };
+        return { label, color: "#388E3C", progress: 100 };
+      case "withdrawn":
+        return { label, color: "#9E9E9E", progress: 0 };
       default:
-        return { label: status, color: "#757575", progress: 0 };
+        return { label, color: "#757575", progress: 0 };
+    }
+  };
+
+  const handleDownloadReceipt = async () => {
+    setDownloadingReceipt(true);
+    setReceiptError("");
+    try {
+      await downloadReceipt(supabase, incidentId);
+    } catch (error) {
+      console.error("Error creating receipt:", error);
+      setReceiptError(t("history.receiptFailed"));
+    } finally {
+      setDownloadingReceipt(false);
+    }
+  };
+
+  const timelineLabel = (update: Update) => {
+    switch (update.kind) {
+      case "supplement":
+        return t("incident.supplementEntry");
+      case "withdrawal":
+        return t("incident.withdrawalEntry");
+      case "reopen":
+        return t("incident.reopenEntry");
+      default:
+        return getStatusInfo(update.status).label;
+    }
+  };
+
+  const refreshUpdates = async () => {
+    const { data: updatesData } = await supabase
+      .from("incident_updates")
+      .select("*, updated_by:profiles(full_name)")
+      .eq("incident_id", incidentId)
+      .order("created_at", { ascending: false });
+
+    if (updatesData) {
+      setUpdates(updatesData as unknown as Update[]);
+    }
+  };
+
+  // Extra photos and videos, up to five of 50MB each
+  const handleEvidenceFiles =
+    (setFiles: React.Dispatch<React.SetStateAction<File[]>>) =>
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      const selected = Array.from(e.target.files || []).filter(
+        (file) =>
+          (file.type.startsWith("image/") || file.type.startsWith("video/")) &&
+          file.size <= 50 * 1024 * 1024,
+      );
+      setFiles((prev) => [...prev, ...selected].slice(0, 5));
+      e.target.value = "";
+    };
+
+  const handleAddSupplement = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!incident || !currentUserId) return;
+
+    if (!supplementNote.trim() && supplementFiles.length === 0) {
+      setSupplementError(t("incident.supplementEmpty"));
+      return;
+    }
+
+    setSubmittingSupplement(true);
+    setSupplementError("");
+    try {
+      const staged: StagedMedia[] = [];
+      let failedUploads = 0;
+      for (const original of supplementFiles) {
+        try {
+          const { file, metadata } = await processMediaFile(original);
+          staged.push(
+            await stageReportMedia(supabase, {
+              userId: currentUserId,
+              anonymous: incident.is_anonymous,
+              submissionId: incident.id,
+              uploadId: crypto.randomUUID(),
+              file,
+              metadata,
+            }),
+          );
+        } catch (uploadError) {
+          console.error("Evidence upload error:", uploadError);
+          failedUploads++;
+        }
+      }
+
+      if (!supplementNote.trim() && staged.length === 0) {
+        setSupplementError(t("incident.supplementUploadFailed"));
+        return;
+      }
+
+      await addIncidentSupplement(supabase, {
+        incidentId: incident.id,
+        note: supplementNote,
+        media: staged,
+      });
+
+      if (staged.length > 0) {
+        const { data: mediaData } = await supabase
+          .from("incident_media")
+          .select("*")
+          .eq("incident_id", incident.id);
+        if (mediaData) {
+          setMedia(mediaData);
+        }
+      }
+      await refreshUpdates();
+
+      if (failedUploads > 0) {
+        setSupplementError(
+          t("incident.supplementPartial", {
+            failed: failedUploads,
+            total: supplementFiles.length,
+          }),
+        );
+      }
+      setSupplementNote("");
+      setSupplementFiles([]);
+    } catch (error) {
+      console.error("Error adding to report:", error);
+      setSupplementError(t("incident.supplementFailed"));
+    } finally {
+      setSubmittingSupplement(false);
+    }
+  };
+
+  const handleWithdraw = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!incident) return;
+
+    if (withdrawReason.trim().length < WITHDRAWAL_REASON_MIN_LENGTH) {
+      setWithdrawError(
+        t("incident.withdrawReasonTooShort", {
+          min: WITHDRAWAL_REASON_MIN_LENGTH,
+        }),
+      );
+      return;
+    }
+
+    setWithdrawing(true);
+    setWithdrawError("");
+    try {
+      await withdrawIncident(supabase, incident.id, withdrawReason);
+      setIncident((prev) =>
+        prev
+          ? {
+              ...prev,
+              withdrawn_at: new Date().toISOString(),
+              withdrawal_reason: withdrawReason.trim(),
+            }
+          : prev,
+      );
+      await refreshUpdates();
+      setShowWithdraw(false);
+    } catch (error) {
+      console.error("Error withdrawing report:", error);
+      setWithdrawError(t("incident.withdrawFailed"));
+    } finally {
+      setWithdrawing(false);
+    }
+  };
+
+  const handleSubmitFeedback = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!incident || !currentUserId || isFixed === null) return;
+
+    if (rating < 1) {
+      setFeedbackError(t("incident.chooseRating"));
+      return;
+    }
+    if (!isFixed && !feedbackComment.trim()) {
+      setFeedbackError(t("incident.describeProblem"));
+      return;
+    }
+
+    setSubmittingFeedback(true);
+    setFeedbackError("");
+    try {
+      const feedbackId = await submitResolutionFeedback(supabase, {
+        incidentId: incident.id,
+        isFixed,
+        rating,
+        comment: feedbackComment,
+      });
+
+      // The reopen request stands even if some evidence fails to upload
+      let failedUploads = 0;
+      if (!isFixed) {
+        for (const original of reopenFiles) {
+          try {
+            const { file, metadata } = await processMediaFile(original);
+            await uploadIncidentMedia(supabase, {
+              userId: currentUserId,
+              anonymous: incident.is_anonymous,
+              incidentId: incident.id,
+              uploadId: crypto.randomUUID(),
+              file,
+              metadata,
+              feedbackId,
+            });
+          } catch (uploadError) {
+            console.error("Reopen evidence upload error:", uploadError);
+            failedUploads++;
+          }
+        }
+      }
+
+      setFeedback({
+        id: feedbackId,
+        incident_id: incident.id,
+        is_fixed: isFixed,
+        rating,
+        comment: feedbackComment.trim() || null,
+        created_at: new Date().toISOString(),
+      });
+
+      if (!isFixed) {
+        setIncident((prev) => (prev ? { ...prev, status: "in_review" } : prev));
+        await refreshUpdates();
+      }
+
+      if (failedUploads > 0) {
+        setFeedbackError(
+          t("incident.reopenPartial", {
+            failed: failedUploads,
+            total: reopenFiles.length,
+          }),
+        );
+      }
+      setReopenFiles([]);
+    } catch (error) {
+      console.error("Error submitting feedback:", error);
+      setFeedbackError(t("incident.feedbackFailed"));
+    } finally {
+      setSubmittingFeedback(false);
     }
   };
 
@@ -179,7 +583,21 @@ export default function IncidentDetailPage() {
     return null;
   }
 
-  const statusInfo = getStatusInfo(incident.status);
+  const statusInfo = getStatusInfo(
+    incident.withdrawn_at ? "withdrawn" : incident.status,
+  );
+  const canFollowUp = isReporter && isOpenToReporter(incident);
+  // Each resolution gets its own verdict; updates are newest first
+  const lastResolvedAt = updates.find(
+    (u) => u.status === "resolved",
+  )?.created_at;
+  const hasRatedResolution =
+    !!feedback &&
+    (!lastResolvedAt ||
+      new Date(feedback.created_at) >= new Date(lastResolvedAt));
+  const comparison = beforeAfterPair(media, resolutions);
+  const askForFeedback =
+    isReporter && incident.status === "resolved" && !hasRatedResolution;
 
   return (
     <main className={styles.page}>
@@ -189,7 +607,9 @@ export default function IncidentDetailPage() {
           <svg viewBox="0 0 24 24" fill="currentColor" width="20" height="20">
             <path d="M9 16.17L4.83 12l-1.42 1.41L9 19 21 7l-1.41-1.41z" />
           </svg>
-          <span>Report submitted successfully!</span>
+          <span>
+            {isConfirmed ? t("incident.confirmed") : t("incident.submitted")}
+          </span>
         </div>
       )}
 
@@ -200,7 +620,7 @@ export default function IncidentDetailPage() {
             <path d="M20 11H7.83l5.59-5.59L12 4l-8 8 8 8 1.41-1.41L7.83 13H20v-2z" />
           </svg>
         </button>
-        <h1 className={styles.headerTitle}>Incident Details</h1>
+        <h1 className={styles.headerTitle}>{t("incident.title")}</h1>
         <div className={styles.headerSpacer}></div>
       </header>
 
@@ -208,11 +628,33 @@ export default function IncidentDetailPage() {
         {/* Tracking ID Card */}
         <div className={styles.trackingCard}>
           <div className={styles.trackingInfo}>
-            <span className={styles.trackingLabel}>Tracking ID</span>
+            <span className={styles.trackingLabel}>
+              {t("track.trackingIdLabel")}
+            </span>
             <span className={styles.trackingId}>#{incident.tracking_id}</span>
+            <Link
+              href={trackingPath(incident.tracking_id)}
+              className={styles.trackingLink}
+            >
+              {t("incident.publicTracking")}
+            </Link>
+            {isReporter && (
+              <button
+                onClick={handleDownloadReceipt}
+                disabled={downloadingReceipt}
+                className={styles.receiptButton}
+              >
+                {downloadingReceipt
+                  ? t("history.preparingReceipt")
+                  : t("history.downloadReceipt")}
+              </button>
+            )}
+            {receiptError && (
+              <span className={styles.receiptError}>{receiptError}</span>
+            )}
           </div>
           <span
-            className={styles.statusBadge}
+            className={`${styles.statusBadge} ${statusChanged ? styles.statusBadgeChanged : ""}`}
             style={{
               backgroundColor: `${statusInfo.color}15`,
               color: statusInfo.color,
@@ -238,26 +680,39 @@ export default function IncidentDetailPage() {
             <span
               className={statusInfo.progress >= 25 ? styles.activeStep : ""}
             >
-              Received
+              {t("track.stepReceived")}
             </span>
             <span
               className={statusInfo.progress >= 50 ? styles.activeStep : ""}
             >
-              Reviewing
+              {t("track.stepReviewing")}
             </span>
             <span
               className={statusInfo.progress >= 75 ? styles.activeStep : ""}
             >
-              Action
+              {t("track.stepAction")}
             </span>
             <span
               className={statusInfo.progress >= 100 ? styles.activeStep : ""}
             >
-              Resolved
+              {t("track.stepResolved")}
             </span>
           </div>
         </div>
 
+        {incident.withdrawn_at && (
+          <div className={styles.withdrawnNotice}>
+            <strong>
+              {t(isReporter ? "incident.youWithdrew" : "incident.withdrawnOn", {
+                date: formatDateTime(incident.withdrawn_at),
+              })}
+            </strong>
+            {isReporter && incident.withdrawal_reason && (
+              <p>{incident.withdrawal_reason}</p>
+            )}
+          </div>
+        )}
+
         {/* Incident Summary */}
         <div className={styles.incidentSummary}>
           <h2 className={styles.incidentTitle}>{incident.title}</h2>
@@ -266,7 +721,7 @@ export default function IncidentDetailPage() {
               className={styles.incidentCategory}
               style={{ color: incident.category?.color }}
             >
-              {incident.category?.name}
+              {categoryName(incident.category)}
             </span>
             {incident.address && (
               <span className={styles.incidentLocation}>
@@ -286,24 +741,48 @@ export default function IncidentDetailPage() {
             <svg viewBox="0 0 24 24" fill="currentColor" width="14" height="14">
               <path d="M11.99 2C6.47 2 2 6.48 2 12s4.47 10 9.99 10C17.52 22 22 17.52 22 12S17.52 2 11.99 2zM12 20c-4.42 0-8-3.58-8-8s3.58-8 8-8 8 3.58 8 8-3.58 8-8 8zm.5-13H11v6l5.25 3.15.75-1.23-4.5-2.67z" />
             </svg>
-            <span>{formatDate(incident.created_at)}</span>
+            <span>{formatDateTime(incident.created_at)}</span>
           </div>
           <div className={styles.reportedByRow}>
             <svg viewBox="0 0 24 24" fill="currentColor" width="14" height="14">
               <path d="M12 12c2.21 0 4-1.79 4-4s-1.79-4-4-4-4 1.79-4 4 1.79 4 4 4zm0 2c-2.67 0-8 1.34-8 4v2h16v-2c0-2.66-5.33-4-8-4z" />
             </svg>
-            <span>REPORTED BY CITIZEN</span>
+            <span>
+              {incident.is_anonymous
+                ? t("incident.reportedAnonymously")
+                : t("incident.reportedByCitizen")}
+            </span>
           </div>
         </div>
 
         {/* Media Gallery */}
         {media.length > 0 && (
           <div className={styles.section}>
-            <h2 className={styles.sectionTitle}>Evidence</h2>
+            <h2 className={styles.sectionTitle}>{t("incident.evidence")}</h2>
             <div className={styles.mediaGrid}>
               {media.map((item) => (
                 <div key={item.id} className={styles.mediaItem}>
-                  {item.file_type === "video" ? (
+                  {item.file_type === "audio" ? (
+                    <div className={styles.audioItem}>
+                      <svg
+                        viewBox="0 0 24 24"
+                        fill="currentColor"
+                        width="28"
+                        height="28"
+                      >
+                        <path d="M12 14c1.66 0 3-1.34 3-3V5c0-1.66-1.34-3-3-3S9 3.34 9 5v6c0 1.66 1.34 3 3 3zm5.3-3c0 3-2.54 5.1-5.3 5.1S6.7 14 6.7 11H5c0 3.41 2.72 6.23 6 6.72V21h2v-3.28c3.28-.48 6-3.3 6-6.72h-1.7z" />
+                      </svg>
+                      <span className={styles.audioLabel}>
+                        {t("report.voiceNoteItem")}
+                      </span>
+                      <audio
+                        src={item.file_url}
+                        controls
+                        preload="metadata"
+                        className={styles.audioPlayer}
+                      />
+                    </div>
+                  ) : item.file_type === "video" ? (
                     <video
                       src={item.file_url}
                       controls
@@ -326,33 +805,41 @@ export default function IncidentDetailPage() {
         <div className={styles.twoColumnLayout}>
           {/* Details */}
           <div className={styles.section}>
-            <h2 className={styles.sectionTitle}>Details</h2>
+            <h2 className={styles.sectionTitle}>{t("incident.details")}</h2>
             <div className={styles.detailCard}>
               <div className={styles.detailRow}>
-                <span className={styles.detailLabel}>Title</span>
+                <span className={styles.detailLabel}>
+                  {t("incident.titleLabel")}
+                </span>
                 <span className={styles.detailValue}>{incident.title}</span>
               </div>
               {incident.description && (
                 <div className={styles.detailRow}>
-                  <span className={styles.detailLabel}>Description</span>
+                  <span className={styles.detailLabel}>
+                    {t("incident.description")}
+                  </span>
                   <span className={styles.detailValue}>
                     {incident.description}
                   </span>
                 </div>
               )}
               <div className={styles.detailRow}>
-                <span className={styles.detailLabel}>Category</span>
+                <span className={styles.detailLabel}>
+                  {t("report.category")}
+                </span>
                 <span
                   className={styles.categoryTag}
                   style={{ color: incident.category?.color }}
                 >
-                  {incident.category?.name}
+                  {categoryName(incident.category)}
                 </span>
               </div>
               <div className={styles.detailRow}>
-                <span className={styles.detailLabel}>Reported On</span>
+                <span className={styles.detailLabel}>
+                  {t("incident.reportedOn")}
+                </span>
                 <span className={styles.detailValue}>
-                  {formatDate(incident.created_at)}
+                  {formatDateTime(incident.created_at)}
                 </span>
               </div>
             </div>
@@ -361,7 +848,7 @@ export default function IncidentDetailPage() {
           {/* Location */}
           {incident.address && (
             <div className={styles.section}>
-              <h2 className={styles.sectionTitle}>Location</h2>
+              <h2 className={styles.sectionTitle}>{t("report.location")}</h2>
               <div className={styles.locationCard}>
                 <svg
                   viewBox="0 0 24 24"
@@ -379,7 +866,7 @@ export default function IncidentDetailPage() {
         </div>
 
         {/* Police Action / Resolution */}
-        {resolution && (
+        {resolutions.length > 0 && (
           <div className={styles.section}>
             <h2 className={styles.sectionTitle}>
               <svg
@@ -391,68 +878,349 @@ export default function IncidentDetailPage() {
               >
                 <path d="M12 1L3 5v6c0 5.55 3.84 10.74 9 12 5.16-1.26 9-6.45 9-12V5l-9-4zm-2 16l-4-4 1.41-1.41L10 14.17l6.59-6.59L18 9l-8 8z" />
               </svg>
-              Police Action
+              {t("track.policeAction")}
             </h2>
-            <div className={styles.policeActionCard}>
-              {resolution.resolution_media_url && (
-                <div className={styles.resolutionMedia}>
-                  {resolution.resolution_media_type === "video" ? (
-                    <video
-                      src={resolution.resolution_media_url}
-                      controls
-                      className={styles.resolutionMediaContent}
-                    />
-                  ) : (
-                    <img
-                      src={resolution.resolution_media_url}
-                      alt="Resolution evidence"
-                      className={styles.resolutionMediaContent}
-                    />
+            {comparison && (
+              <BeforeAfterSlider
+                beforeUrl={comparison.before}
+                afterUrl={comparison.after}
+                className={styles.comparison}
+              />
+            )}
+            <div className={styles.resolutionHistory}>
+              {resolutions.map((resolution) => (
+                <div key={resolution.id} className={styles.policeActionCard}>
+                  {resolution.resolution_media_url && (
+                    <div className={styles.resolutionMedia}>
+                      {resolution.resolution_media_type === "video" ? (
+                        <video
+                          src={resolution.resolution_media_url}
+                          poster={
+                            resolution.resolution_thumbnail_url ?? undefined
+                          }
+                          controls
+                          className={styles.resolutionMediaContent}
+                        />
+                      ) : (
+                        <img
+                          src={resolution.resolution_media_url}
+                          alt={t("incident.resolutionEvidence")}
+                          className={styles.resolutionMediaContent}
+                        />
+                      )}
+                      <span
+                        className={`${styles.resolutionMediaLabel} ${resolution.is_partial ? styles.resolutionMediaLabelPartial : ""}`}
+                      >
+                        {resolution.is_partial
+                          ? t("incident.partialFix")
+                          : t("incident.afterResolved")}
+                      </span>
+                    </div>
                   )}
-                  <span className={styles.resolutionMediaLabel}>
-                    After — Resolved
-                  </span>
-                </div>
-              )}
-              {resolution.notes && (
-                <div className={styles.resolutionNotes}>
-                  <span className={styles.resolutionNotesLabel}>
-                    Resolution Notes
-                  </span>
-                  <p className={styles.resolutionNotesText}>
-                    {resolution.notes}
-                  </p>
+                  {resolution.notes && (
+                    <div className={styles.resolutionNotes}>
+                      <span className={styles.resolutionNotesLabel}>
+                        {t("track.resolutionNotes")}
+                      </span>
+                      <p className={styles.resolutionNotesText}>
+                        {resolution.notes}
+                      </p>
+                    </div>
+                  )}
+                  <div className={styles.resolutionFooter}>
+                    <svg
+                      viewBox="0 0 24 24"
+                      fill="currentColor"
+                      width="16"
+                      height="16"
+                    >
+                      <path d="M9 16.17L4.83 12l-1.42 1.41L9 19 21 7l-1.41-1.41z" />
+                    </svg>
+                    <span>
+                      {t(
+                        resolution.is_partial
+                          ? "incident.partlyFixedOn"
+                          : "track.resolvedOn",
+                        {
+                          date: formatDate(resolution.created_at, {
+                            day: "numeric",
+                            month: "short",
+                            year: "numeric",
+                          }),
+                        },
+                      )}
+                    </span>
+                  </div>
                 </div>
-              )}
-              <div className={styles.resolutionFooter}>
-                <svg
-                  viewBox="0 0 24 24"
-                  fill="currentColor"
-                  width="16"
-                  height="16"
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Reporter's verdict on the resolution */}
+        {askForFeedback && (
+          <div className={styles.section}>
+            <h2 className={styles.sectionTitle}>
+              {t("incident.feedbackTitle")}
+            </h2>
+            <form
+              onSubmit={handleSubmitFeedback}
+              className={styles.feedbackCard}
+            >
+              <div className={styles.feedbackChoices}>
+                <button
+                  type="button"
+                  onClick={() => setIsFixed(true)}
+                  className={`${styles.feedbackChoice} ${isFixed === true ? styles.feedbackChoiceActive : ""}`}
                 >
-                  <path d="M9 16.17L4.83 12l-1.42 1.41L9 19 21 7l-1.41-1.41z" />
-                </svg>
-                <span>
-                  Resolved on{" "}
-                  {new Date(resolution.created_at).toLocaleDateString("en-IN", {
-                    day: "numeric",
-                    month: "short",
-                    year: "numeric",
-                  })}
+                  {t("incident.feedbackFixed")}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setIsFixed(false)}
+                  className={`${styles.feedbackChoice} ${isFixed === false ? styles.feedbackChoiceActive : ""}`}
+                >
+                  {t("incident.feedbackNotFixed")}
+                </button>
+              </div>
+
+              {isFixed !== null && (
+                <>
+                  <div className={styles.ratingRow}>
+                    <span className={styles.detailLabel}>
+                      {t("incident.feedbackRating")}
+                    </span>
+                    <div className={styles.stars}>
+                      {[1, 2, 3, 4, 5].map((value) => (
+                        <button
+                          key={value}
+                          type="button"
+                          onClick={() => setRating(value)}
+                          className={`${styles.star} ${value <= rating ? styles.starActive : ""}`}
+                          aria-label={t("incident.ratingValue", { value })}
+                        >
+                          ★
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+
+                  <textarea
+                    value={feedbackComment}
+                    onChange={(e) => setFeedbackComment(e.target.value)}
+                    placeholder={
+                      isFixed
+                        ? t("incident.feedbackFixedPlaceholder")
+                        : t("incident.feedbackNotFixedPlaceholder")
+                    }
+                    maxLength={FEEDBACK_COMMENT_MAX_LENGTH}
+                    rows={3}
+                    className={styles.feedbackInput}
+                  />
+
+                  {!isFixed && (
+                    <div className={styles.extraEvidence}>
+                      <label className={styles.extraEvidenceButton}>
+                        {t("incident.addEvidence")}
+                        <input
+                          type="file"
+                          accept="image/*,video/*"
+                          multiple
+                          onChange={handleEvidenceFiles(setReopenFiles)}
+                          hidden
+                        />
+                      </label>
+                      {reopenFiles.map((file, index) => (
+                        <div key={index} className={styles.extraEvidenceFile}>
+                          <span>{file.name}</span>
+                          <button
+                            type="button"
+                            onClick={() =>
+                              setReopenFiles((prev) =>
+                                prev.filter((_, i) => i !== index),
+                              )
+                            }
+                            aria-label={t("incident.removeFile", {
+                              name: file.name,
+                            })}
+                          >
+                            ×
+                          </button>
+                        </div>
+                      ))}
+                      <p className={styles.formHint}>
+                        {t("incident.reopenHint")}
+                      </p>
+                    </div>
+                  )}
+
+                  {feedbackError && (
+                    <p className={styles.feedbackError}>{feedbackError}</p>
+                  )}
+
+                  <button
+                    type="submit"
+                    disabled={submittingFeedback}
+                    className={styles.feedbackSubmit}
+                  >
+                    {submittingFeedback
+                      ? t("incident.sending")
+                      : isFixed
+                        ? t("incident.submitFeedback")
+                        : t("incident.requestReopen")}
+                  </button>
+                </>
+              )}
+            </form>
+          </div>
+        )}
+
+        {isReporter && hasRatedResolution && feedback && (
+          <div className={styles.section}>
+            <div className={styles.feedbackCard}>
+              <div className={styles.feedbackSummary}>
+                <span className={styles.stars}>
+                  {[1, 2, 3, 4, 5].map((value) => (
+                    <span
+                      key={value}
+                      className={`${styles.star} ${value <= feedback.rating ? styles.starActive : ""}`}
+                    >
+                      ★
+                    </span>
+                  ))}
+                </span>
+                <span className={styles.detailValue}>
+                  {feedback.is_fixed
+                    ? t("incident.feedbackThanks")
+                    : t("incident.feedbackReopened")}
                 </span>
               </div>
+              {feedback.comment && (
+                <p className={styles.updateNotes}>{feedback.comment}</p>
+              )}
+              {feedbackError && (
+                <p className={styles.feedbackError}>{feedbackError}</p>
+              )}
             </div>
           </div>
         )}
 
+        {/* Reporter follow-ups before police act on the report */}
+        {canFollowUp && (
+          <div className={styles.section}>
+            <h2 className={styles.sectionTitle}>
+              {t("incident.supplementTitle")}
+            </h2>
+            <form
+              onSubmit={handleAddSupplement}
+              className={styles.feedbackCard}
+            >
+              <textarea
+                value={supplementNote}
+                onChange={(e) => setSupplementNote(e.target.value)}
+                placeholder={t("incident.supplementPlaceholder")}
+                maxLength={SUPPLEMENT_NOTE_MAX_LENGTH}
+                rows={3}
+                className={styles.feedbackInput}
+              />
+              <div className={styles.extraEvidence}>
+                <label className={styles.extraEvidenceButton}>
+                  {t("incident.addEvidence")}
+                  <input
+                    type="file"
+                    accept="image/*,video/*"
+                    multiple
+                    onChange={handleEvidenceFiles(setSupplementFiles)}
+                    hidden
+                  />
+                </label>
+                {supplementFiles.map((file, index) => (
+                  <div key={index} className={styles.extraEvidenceFile}>
+                    <span>{file.name}</span>
+                    <button
+                      type="button"
+                      onClick={() =>
+                        setSupplementFiles((prev) =>
+                          prev.filter((_, i) => i !== index),
+                        )
+                      }
+                      aria-label={t("incident.removeFile", { name: file.name })}
+                    >
+                      ×
+                    </button>
+                  </div>
+                ))}
+              </div>
+
+              {supplementError && (
+                <p className={styles.feedbackError}>{supplementError}</p>
+              )}
+
+              <button
+                type="submit"
+                disabled={submittingSupplement}
+                className={styles.feedbackSubmit}
+              >
+                {submittingSupplement
+                  ? t("incident.sending")
+                  : t("incident.sendToPolice")}
+              </button>
+            </form>
+
+            {showWithdraw ? (
+              <form onSubmit={handleWithdraw} className={styles.withdrawCard}>
+                <textarea
+                  value={withdrawReason}
+                  onChange={(e) => setWithdrawReason(e.target.value)}
+                  placeholder={t("incident.withdrawPlaceholder")}
+                  maxLength={SUPPLEMENT_NOTE_MAX_LENGTH}
+                  rows={2}
+                  className={styles.feedbackInput}
+                />
+                <p className={styles.formHint}>{t("incident.withdrawHint")}</p>
+                {withdrawError && (
+                  <p className={styles.feedbackError}>{withdrawError}</p>
+                )}
+                <div className={styles.withdrawActions}>
+                  <button
+                    type="button"
+                    onClick={() => setShowWithdraw(false)}
+                    className={styles.withdrawCancel}
+                  >
+                    {t("incident.keepReport")}
+                  </button>
+                  <button
+                    type="submit"
+                    disabled={withdrawing}
+                    className={styles.feedbackSubmit}
+                  >
+                    {withdrawing
+                      ? t("incident.withdrawing")
+                      : t("incident.withdraw")}
+                  </button>
+                </div>
+              </form>
+            ) : (
+              <button
+                onClick={() => setShowWithdraw(true)}
+                className={styles.withdrawLink}
+              >
+                {t("incident.withdrawLink")}
+              </button>
+            )}
+          </div>
+        )}
+
         {/* Updates Timeline */}
         {updates.length > 0 && (
           <div className={styles.section}>
-            <h2 className={styles.sectionTitle}>Updates</h2>
+            <h2 className={styles.sectionTitle}>{t("track.updates")}</h2>
             <div className={styles.timeline}>
               {updates.map((update, index) => (
-                <div key={update.id} className={styles.timelineItem}>
+                <div
+                  key={update.id}
+                  className={`${styles.timelineItem} ${freshUpdateIds.includes(update.id) ? styles.timelineItemNew : ""}`}
+                >
                   <div className={styles.timelineDot}></div>
                   {index < updates.length - 1 && (
                     <div className={styles.timelineLine}></div>
@@ -460,17 +1228,19 @@ export default function IncidentDetailPage() {
                   <div className={styles.timelineContent}>
                     <div className={styles.updateHeader}>
                       <span className={styles.updateStatus}>
-                        {getStatusInfo(update.status).label}
+                        {timelineLabel(update)}
                       </span>
                       <span className={styles.updateTime}>
-                        {formatDate(update.created_at)}
+                        {formatDateTime(update.created_at)}
                       </span>
                     </div>
                     {update.notes && (
                       <p className={styles.updateNotes}>{update.notes}</p>
                     )}
                     <span className={styles.updateBy}>
-                      by {update.updated_by?.full_name}
+                      {t("incident.updatedBy", {
+                        name: update.updated_by?.full_name ?? "",
+                      })}
                     </span>
                   </div>
                 </div>
@@ -478,6 +1248,21 @@ export default function IncidentDetailPage() {
             </div>
           </div>
         )}
+
+        {/* Messages with police, kept apart from the status updates */}
+        {currentUserId && isReporter && (
+          <div className={styles.section}>
+            <h2 className={styles.sectionTitle}>{t("incident.messages")}</h2>
+            <div className={styles.messagesCard}>
+              <CommentThread
+                incidentId={incident.id}
+                currentUserId={currentUserId}
+                viewer="citizen"
+                anonymous={incident.is_anonymous}
+              />
+            </div>
+          </div>
+        )}
       </div>
 
       {/* Bottom Navigation */}
@@ -1,7 +1,9 @@
 import type { Metadata, Viewport } from "next";
 import "./globals.css";
 import "./police/police-design-system.css";
+import { I18nProvider } from "@/lib/I18nContext";
 import { NotificationProvider } from "@/lib/NotificationContext";
+import { OutboxProvider } from "@/lib/OutboxContext";
 import { ThemeProvider } from "@/lib/ThemeContext";
 
 export const metadata: Metadata = {
@@ -60,7 +62,11 @@ export default function RootLayout({
       </head>
       <body suppressHydrationWarning>
         <ThemeProvider>
-          <NotificationProvider>{children}</NotificationProvider>
+          <I18nProvider>
+            <NotificationProvider>
+              <OutboxProvider>{children}</OutboxProvider>
+            </NotificationProvider>
+          </I18nProvider>
         </ThemeProvider>
       </body>
     </html>
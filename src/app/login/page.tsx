@@ -79,6 +79,10 @@ export default function LoginPage() {
                 </div>
 
                 <footer className={styles.footer}>
+                    <a href="/track" className={styles.footerLink}>
+                        Track a Report
+                    </a>
+                    <span className={styles.footerDot}>•</span>
                     <a href="/privacy" className={styles.footerLink}>
                         Privacy Policy
                     </a>
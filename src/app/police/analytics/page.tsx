@@ -2,6 +2,7 @@
 
 import { useEffect, useState } from 'react';
 import { createClient } from '@/lib/supabase/client';
+import { SatisfactionSummary, summarizeFeedback } from '@/lib/resolutionFeedback';
 import styles from './page.module.css';
 
 
@@ -36,6 +37,7 @@ export default function PoliceAnalyticsPage() {
     const [statusStats, setStatusStats] = useState<StatusStats[]>([]);
     const [totals, setTotals] = useState({ total: 0, thisWeek: 0, thisMonth: 0, resolved: 0, lastWeek: 0, lastMonth: 0 });
     const [insights, setInsights] = useState<Insight[]>([]);
+    const [satisfaction, setSatisfaction] = useState<SatisfactionSummary>(summarizeFeedback([]));
 
     useEffect(() => {
         async function loadData() {
@@ -48,14 +50,14 @@ export default function PoliceAnalyticsPage() {
 
             // Load totals with comparison periods
             const [totalRes, weekRes, monthRes, resolvedRes, lastWeekRes, lastMonthRes] = await Promise.all([
-                supabase.from('incidents').select('*', { count: 'exact', head: true }),
-                supabase.from('incidents').select('*', { count: 'exact', head: true }).gte('created_at', weekAgo.toISOString()),
-                supabase.from('incidents').select('*', { count: 'exact', head: true }).gte('created_at', monthAgo.toISOString()),
-                supabase.from('incidents').select('*', { count: 'exact', head: true }).eq('status', 'resolved'),
-                supabase.from('incidents').select('*', { count: 'exact', head: true })
+                supabase.from('incidents').select('id', { count: 'exact', head: true }),
+                supabase.from('incidents').select('id', { count: 'exact', head: true }).gte('created_at', weekAgo.toISOString()),
+                supabase.from('incidents').select('id', { count: 'exact', head: true }).gte('created_at', monthAgo.toISOString()),
+                supabase.from('incidents').select('id', { count: 'exact', head: true }).eq('status', 'resolved'),
+                supabase.from('incidents').select('id', { count: 'exact', head: true })
                     .gte('created_at', twoWeeksAgo.toISOString())
                     .lt('created_at', weekAgo.toISOString()),
-                supabase.from('incidents').select('*', { count: 'exact', head: true })
+                supabase.from('incidents').select('id', { count: 'exact', head: true })
                     .gte('created_at', twoMonthsAgo.toISOString())
                     .lt('created_at', monthAgo.toISOString()),
             ]);
@@ -81,7 +83,7 @@ export default function PoliceAnalyticsPage() {
 
                 const { count } = await supabase
                     .from('incidents')
-                    .select('*', { count: 'exact', head: true })
+                    .select('id', { count: 'exact', head: true })
                     .gte('created_at', date.toISOString())
                     .lt('created_at', nextDate.toISOString());
 
@@ -102,7 +104,7 @@ export default function PoliceAnalyticsPage() {
                 for (const cat of categories) {
                     const { count } = await supabase
                         .from('incidents')
-                        .select('*', { count: 'exact', head: true })
+                        .select('id', { count: 'exact', head: true })
                         .eq('category_id', cat.id);
 
                     catStats.push({
@@ -122,13 +124,20 @@ export default function PoliceAnalyticsPage() {
             for (const status of statuses) {
                 const { count } = await supabase
                     .from('incidents')
-                    .select('*', { count: 'exact', head: true })
+                    .select('id', { count: 'exact', head: true })
                     .eq('status', status);
 
                 sStats.push({ status, count: count || 0 });
             }
             setStatusStats(sStats);
 
+            // Reporters' verdicts on resolutions
+            const { data: feedbackData } = await supabase
+                .from('incident_feedback')
+                .select('rating, is_fixed');
+            const satisfactionData = summarizeFeedback(feedbackData || []);
+            setSatisfaction(satisfactionData);
+
             // Generate insights
             const generatedInsights: Insight[] = [];
 
@@ -187,6 +196,23 @@ export default function PoliceAnalyticsPage() {
                 });
             }
 
+            // Satisfaction insight
+            if (satisfactionData.averageRating !== null && satisfactionData.responses >= 5) {
+                if (satisfactionData.averageRating < 3) {
+                    generatedInsights.push({
+                        icon: '⭐',
+                        text: `Citizens rate resolutions ${satisfactionData.averageRating.toFixed(1)}/5 on average — ${satisfactionData.reopened} asked for a reopen`,
+                        type: 'warning'
+                    });
+                } else if (satisfactionData.averageRating >= 4) {
+                    generatedInsights.push({
+                        icon: '⭐',
+                        text: `Citizens rate resolutions ${satisfactionData.averageRating.toFixed(1)}/5 on average`,
+                        type: 'success'
+                    });
+                }
+            }
+
             // Pending cases insight
             const pendingCount = sStats.find(s => s.status === 'submitted')?.count || 0;
             if (pendingCount > 10) {
@@ -490,6 +516,39 @@ export default function PoliceAnalyticsPage() {
                     </div>
                 </div>
             </div>
+
+            {/* Citizen Satisfaction */}
+            <div className={`${styles.chartCard} ${styles.satisfactionCard}`}>
+                <div className={styles.chartHeader}>
+                    <h2 className={styles.chartTitle}>Citizen Satisfaction</h2>
+                    <span className={styles.chartSubtitle}>Reporters&apos; feedback on resolutions</span>
+                </div>
+                {satisfaction.responses === 0 ? (
+                    <p className={styles.satisfactionEmpty}>No feedback yet</p>
+                ) : (
+                    <div className={styles.satisfactionGrid}>
+                        <div className={styles.satisfactionStat}>
+                            <span className={styles.satisfactionValue}>
+                                {satisfaction.averageRating?.toFixed(1)}
+                                <span className={styles.satisfactionStar}>★</span>
+                            </span>
+                            <span className={styles.summaryLabel}>Average Rating</span>
+                        </div>
+                        <div className={styles.satisfactionStat}>
+                            <span className={styles.satisfactionValue}>{Math.round(satisfaction.fixedRate ?? 0)}%</span>
+                            <span className={styles.summaryLabel}>Confirmed Fixed</span>
+                        </div>
+                        <div className={styles.satisfactionStat}>
+                            <span className={styles.satisfactionValue}>{satisfaction.reopened}</span>
+                            <span className={styles.summaryLabel}>Reopen Requests</span>
+                        </div>
+                        <div className={styles.satisfactionStat}>
+                            <span className={styles.satisfactionValue}>{satisfaction.responses}</span>
+                            <span className={styles.summaryLabel}>Responses</span>
+                        </div>
+                    </div>
+                )}
+            </div>
         </>
     );
 }
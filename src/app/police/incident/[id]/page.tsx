@@ -4,6 +4,15 @@ import { useEffect, useState, useRef } from 'react';
 import { useRouter, useParams } from 'next/navigation';
 import Link from 'next/link';
 import { createClient } from '@/lib/supabase/client';
+import CommentThread from '@/components/CommentThread';
+import BeforeAfterSlider from '@/components/BeforeAfterSlider';
+import AssignOfficerModal from '@/components/AssignOfficerModal';
+import { IncidentFeedback } from '@/lib/resolutionFeedback';
+import { IncidentUpdateKind } from '@/lib/reporterSupplements';
+import { beforeAfterPair, RESOLUTION_FILES_MAX, ResolutionEntry } from '@/lib/resolutions';
+import { createVideoPoster, processMediaFile } from '@/lib/mediaProcessing';
+import { describeFieldValues, parseCategoryFields } from '@/lib/categoryFields';
+import { IntegrityStatus, sha256Hex, shortHash, verifyMediaIntegrity } from '@/lib/mediaHash';
 import styles from './page.module.css';
 
 interface Incident {
@@ -16,47 +25,112 @@ interface Incident {
     address: string;
     latitude: number;
     longitude: number;
+    location_source: 'device' | 'manual' | null;
     created_at: string;
     updated_at: string;
-    user: {
-        id: string;
-        full_name: string;
-        phone: string;
-        email: string;
-        avatar_url: string;
-    };
+    is_anonymous: boolean;
+    // Null when the reporter is hidden from the viewer
+    user: Reporter | null;
     category: {
         name: string;
         icon: string;
         color: string;
+        form_fields: unknown;
     };
     area: {
         name: string;
     } | null;
+    // Answers to the category's own fields, by field key
+    field_values: Record<string, unknown> | null;
+    // "Me too" confirmations from other citizens
+    confirmations: { count: number }[];
+    // Last time the reporter said the resolution did not fix it
+    reopened_at: string | null;
+    // Set when the reporter withdrew the report before action was taken
+    withdrawn_at: string | null;
+    withdrawal_reason: string | null;
+    // Officer responsible for the incident
+    assigned_to: string | null;
+    assigned_at: string | null;
+    assignee: { full_name: string } | null;
+}
+
+interface Reporter {
+    id: string;
+    full_name: string;
+    phone: string;
+    email: string;
+    avatar_url: string;
+}
+
+// Timeline entries written by the reporter rather than by police
+const REPORTER_UPDATE_LABELS: Record<Exclude<IncidentUpdateKind, 'status'>, string> = {
+    supplement: 'Reporter added details',
+    withdrawal: 'Withdrawn by reporter',
+    reopen: 'Reopened by reporter',
+};
+
+// A supervisor's logged decision to see an anonymous reporter
+interface IdentityReveal {
+    id: string;
+    reason: string;
+    created_at: string;
+    revealed_by: {
+        full_name: string;
+    };
 }
 
 interface Media {
     id: string;
     file_url: string;
     file_type: string;
+    // Set when the media came with another citizen's confirmation
+    confirmation_id: string | null;
+    // Set when the reporter attached it to a request to reopen
+    feedback_id: string | null;
+    // Hash recorded at upload; null for media uploaded before hashing
+    sha256: string | null;
+    // Poster frame for videos; null for other media and older videos
+    thumbnail_url: string | null;
+    // EXIF captured from the original upload; never exposed on the public feed
+    metadata: {
+        captured_at: string | null;
+        gps_latitude: number | null;
+        gps_longitude: number | null;
+    } | null;
 }
 
 interface Update {
     id: string;
     status: string;
+    // 'supplement', 'withdrawal' and 'reopen' entries come from the reporter
+    kind: IncidentUpdateKind;
     notes: string;
+    // Whether the note is shown on the public tracking page
+    is_public: boolean;
     created_at: string;
     updated_by: {
         full_name: string;
     };
 }
 
-interface Resolution {
-    id: string;
-    resolution_media_url: string;
-    resolution_media_type: string;
-    notes: string | null;
-    created_at: string;
+// Another incident carrying a byte-identical file
+interface DuplicateMedia {
+    sha256: string;
+    incident: {
+        id: string;
+        tracking_id: string;
+    };
+}
+
+interface Resolution extends ResolutionEntry {
+    resolution_media_sha256: string | null;
+}
+
+// Resolution evidence picked in the status modal, not yet uploaded
+interface PendingResolutionFile {
+    file: File;
+    preview: string;
 }
 
 export default function PoliceIncidentDetailPage() {
@@ -65,19 +139,36 @@ export default function PoliceIncidentDetailPage() {
     const supabase = createClient();
     const incidentId = params.id as string;
 
-    const [profile, setProfile] = useState<{ id: string; full_name: string; role: string } | null>(null);
+    const [profile, setProfile] = useState<{ id: string; full_name: string; role: string; is_supervisor: boolean } | null>(null);
     const [incident, setIncident] = useState<Incident | null>(null);
     const [media, setMedia] = useState<Media[]>([]);
     const [updates, setUpdates] = useState<Update[]>([]);
-    const [resolution, setResolution] = useState<Resolution | null>(null);
+    // Every resolution upload, newest first
+    const [resolutions, setResolutions] = useState<Resolution[]>([]);
     const [loading, setLoading] = useState(true);
     const [updating, setUpdating] = useState(false);
     const [newStatus, setNewStatus] = useState('');
     const [updateNotes, setUpdateNotes] = useState('');
+    // Whether the note appears on the public tracking page
+    const [notesPublic, setNotesPublic] = useState(false);
     const [showUpdateModal, setShowUpdateModal] = useState(false);
-    const [resolutionFile, setResolutionFile] = useState<File | null>(null);
-    const [resolutionPreview, setResolutionPreview] = useState<string | null>(null);
+    const [showAssignModal, setShowAssignModal] = useState(false);
+    const [resolutionFiles, setResolutionFiles] = useState<PendingResolutionFile[]>([]);
+    const [resolutionFileError, setResolutionFileError] = useState('');
     const resolutionInputRef = useRef<HTMLInputElement>(null);
+    // Anonymous reporter, once a supervisor has revealed them
+    const [reveals, setReveals] = useState<IdentityReveal[]>([]);
+    const [revealedReporter, setRevealedReporter] = useState<Reporter | null>(null);
+    const [showRevealModal, setShowRevealModal] = useState(false);
+    const [revealReason, setRevealReason] = useState('');
+    const [revealing, setRevealing] = useState(false);
+    const [revealError, setRevealError] = useState('');
+    // Integrity check results by media id, or 'resolution'
+    const [integrity, setIntegrity] = useState<Record<string, IntegrityStatus>>({});
+    const [verifying, setVerifying] = useState(false);
+    const [duplicateMedia, setDuplicateMedia] = useState<DuplicateMedia[]>([]);
+    // The reporter's verdicts on past resolutions, newest first
+    const [feedback, setFeedback] = useState<IncidentFeedback[]>([]);
 
     useEffect(() => {
         async function loadData() {
@@ -90,7 +181,7 @@ export default function PoliceIncidentDetailPage() {
 
             const { data: profileData } = await supabase
                 .from('profiles')
-                .select('id, full_name, role')
+                .select('id, full_name, role, is_supervisor')
                 .eq('id', user.id)
                 .single();
 
@@ -103,12 +194,14 @@ export default function PoliceIncidentDetailPage() {
 
             // Load incident
             const { data: incidentData, error } = await supabase
-                .from('incidents')
+                .from('police_incidents')
                 .select(`
           *,
-          user:profiles!incidents_user_id_fkey(id, full_name, phone, email, avatar_url),
-          category:categories(name, icon, color),
-          area:areas(name)
+          user:reporter,
+          assignee:profiles!incidents_assigned_to_fkey(full_name),
+          category:categories(name, icon, color, form_fields),
+          area:areas(name),
+          confirmations:incident_confirmations(count)
         `)
                 .eq('id', incidentId)
                 .single();
@@ -124,10 +217,22 @@ export default function PoliceIncidentDetailPage() {
             // Load media
             const { data: mediaData } = await supabase
                 .from('incident_media')
-                .select('*')
+                .select('*, metadata:incident_media_metadata(captured_at, gps_latitude, gps_longitude)')
                 .eq('incident_id', incidentId);
 
-            if (mediaData) setMedia(mediaData);
+            if (mediaData) setMedia(mediaData as unknown as Media[]);
+
+            // The same files attached to other incidents
+            const hashes = (mediaData || []).map((m) => m.sha256).filter(Boolean);
+            if (hashes.length > 0) {
+                const { data: duplicateData } = await supabase
+                    .from('incident_media')
+                    .select('sha256, incident:incidents(id, tracking_id)')
+                    .in('sha256', hashes)
+                    .neq('incident_id', incidentId);
+
+                if (duplicateData) setDuplicateMedia(duplicateData as unknown as DuplicateMedia[]);
+            }
 
             // Load updates
             const { data: updatesData } = await supabase
@@ -138,16 +243,32 @@ export default function PoliceIncidentDetailPage() {
 
             if (updatesData) setUpdates(updatesData as unknown as Update[]);
 
-            // Load existing resolution
+            // Load resolution history
             const { data: resolutionData } = await supabase
                 .from('incident_resolutions')
                 .select('*')
                 .eq('incident_id', incidentId)
-                .order('created_at', { ascending: false })
-                .limit(1)
-                .maybeSingle();
+                .order('created_at', { ascending: false });
 
-            if (resolutionData) setResolution(resolutionData as Resolution);
+            if (resolutionData) setResolutions(resolutionData as Resolution[]);
+
+            const { data: feedbackData } = await supabase
+                .from('incident_feedback')
+                .select('*')
+                .eq('incident_id', incidentId)
+                .order('created_at', { ascending: false });
+
+            if (feedbackData) setFeedback(feedbackData as IncidentFeedback[]);
+
+            if (incidentData.is_anonymous) {
+                const { data: revealsData } = await supabase
+                    .from('incident_identity_reveals')
+                    .select('id, reason, created_at, revealed_by:profiles(full_name)')
+                    .eq('incident_id', incidentId)
+                    .order('created_at', { ascending: false });
+
+                if (revealsData) setReveals(revealsData as unknown as IdentityReveal[]);
+            }
 
             setLoading(false);
         }
@@ -155,29 +276,92 @@ export default function PoliceIncidentDetailPage() {
         loadData();
     }, [incidentId, supabase, router]);
 
-    const handleResolutionFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-        const file = e.target.files?.[0];
-        if (!file) return;
+    const handleResolutionFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const selected = Array.from(e.target.files || []).filter(
+            (f) => (f.type.startsWith('image/') || f.type.startsWith('video/')) && f.size <= 50 * 1024 * 1024 // 50MB limit
+        );
+        if (resolutionInputRef.current) {
+            resolutionInputRef.current.value = '';
+        }
 
-        const isImage = file.type.startsWith('image/');
-        const isVideo = file.type.startsWith('video/');
-        if (!isImage && !isVideo) return;
-        if (file.size > 50 * 1024 * 1024) return; // 50MB limit
-
-        setResolutionFile(file);
-        const reader = new FileReader();
-        reader.onload = (ev) => {
-            setResolutionPreview(ev.target?.result as string);
-        };
-        reader.readAsDataURL(file);
+        setResolutionFileError('');
+        for (const original of selected) {
+            let file: File;
+            try {
+                ({ file } = await processMediaFile(original));
+            } catch (error) {
+                // Left out rather than uploaded with its metadata
+                console.error('Error processing resolution file:', error);
+                setResolutionFileError(`${original.name} could not be processed. Choose a JPEG or PNG photo instead.`);
+                continue;
+            }
+            const preview = await new Promise<string>((resolve) => {
+                const reader = new FileReader();
+                reader.onload = (ev) => resolve(ev.target?.result as string);
+                reader.readAsDataURL(file);
+            });
+            setResolutionFiles(prev => [...prev, { file, preview }].slice(0, RESOLUTION_FILES_MAX));
+        }
     };
 
-    const removeResolutionFile = () => {
-        setResolutionFile(null);
-        setResolutionPreview(null);
-        if (resolutionInputRef.current) {
-            resolutionInputRef.current.value = '';
+    const removeResolutionFile = (index: number) => {
+        setResolutionFiles(prev => prev.filter((_, i) => i !== index));
+    };
+
+    // Store one resolution file; null if the upload failed
+    const uploadResolution = async (file: File, notes: string | null, isPartial: boolean) => {
+        if (!profile || !incident) return null;
+
+        const fileExt = file.name.split('.').pop();
+        const objectBase = `resolutions/${incident.id}/${Date.now()}`;
+        const fileName = `${objectBase}.${fileExt}`;
+        const sha256 = await sha256Hex(file);
+        const isVideo = file.type.startsWith('video/');
+
+        const { error: uploadError } = await supabase.storage
+            .from('incident-media')
+            .upload(fileName, file);
+
+        if (uploadError) {
+            console.error('Upload error:', uploadError);
+            return null;
         }
+
+        const { data: { publicUrl } } = supabase.storage
+            .from('incident-media')
+            .getPublicUrl(fileName);
+
+        // Poster frame for video previews; the resolution is saved without one if this fails
+        let thumbnailUrl: string | null = null;
+        const poster = isVideo ? await createVideoPoster(file) : null;
+        if (poster) {
+            const posterName = `${objectBase}.poster.jpg`;
+            const { error: posterError } = await supabase.storage
+                .from('incident-media')
+                .upload(posterName, poster, { contentType: 'image/jpeg' });
+            if (posterError) {
+                console.error('Poster upload error:', posterError);
+            } else {
+                thumbnailUrl = supabase.storage.from('incident-media').getPublicUrl(posterName).data.publicUrl;
+            }
+        }
+
+        const { data: resData } = await supabase
+            .from('incident_resolutions')
+            .insert({
+                incident_id: incident.id,
+                resolution_media_url: publicUrl,
+                resolution_media_type: isVideo ? 'video' : 'image',
+                resolution_media_sha256: sha256,
+                resolution_thumbnail_url: thumbnailUrl,
+                notes,
+                is_partial: isPartial,
+                uploaded_by: profile.id,
+            })
+            .select()
+            .single();
+
+        return resData as Resolution | null;
     };
 
     const handleUpdateStatus = async () => {
@@ -186,37 +370,18 @@ export default function PoliceIncidentDetailPage() {
         setUpdating(true);
 
         try {
-            // If resolving and a resolution file is provided, upload it
-            if (newStatus === 'resolved' && resolutionFile) {
-                const fileExt = resolutionFile.name.split('.').pop();
-                const fileName = `resolutions/${incident.id}/${Date.now()}.${fileExt}`;
-
-                const { error: uploadError } = await supabase.storage
-                    .from('incident-media')
-                    .upload(fileName, resolutionFile);
-
-                if (uploadError) {
-                    console.error('Upload error:', uploadError);
-                } else {
-                    const { data: { publicUrl } } = supabase.storage
-                        .from('incident-media')
-                        .getPublicUrl(fileName);
-
-                    const { data: resData } = await supabase
-                        .from('incident_resolutions')
-                        .insert({
-                            incident_id: incident.id,
-                            resolution_media_url: publicUrl,
-                            resolution_media_type: resolutionFile.type.startsWith('video/') ? 'video' : 'image',
-                            notes: updateNotes || null,
-                            uploaded_by: profile.id,
-                        })
-                        .select()
-                        .single();
-
-                    if (resData) {
-                        setResolution(resData as Resolution);
-                    }
+            // Resolution evidence, for a partial fix (action taken) or the final one.
+            // The notes go with the first file only so the history shows them once,
+            // and only when public, since resolutions are shown on the tracking page.
+            if (['action_taken', 'resolved'].includes(newStatus)) {
+                const uploaded: Resolution[] = [];
+                const resolutionNotes = notesPublic ? updateNotes || null : null;
+                for (const [index, { file }] of resolutionFiles.entries()) {
+                    const res = await uploadResolution(file, index === 0 ? resolutionNotes : null, newStatus !== 'resolved');
+                    if (res) uploaded.push(res);
+                }
+                if (uploaded.length > 0) {
+                    setResolutions(prev => [...uploaded.reverse(), ...prev]);
                 }
             }
 
@@ -228,6 +393,7 @@ export default function PoliceIncidentDetailPage() {
                     incident_id: incident.id,
                     status: newStatus,
                     notes: updateNotes || null,
+                    is_public: notesPublic,
                     updated_by: profile.id,
                 })
                 .select(`*, updated_by:profiles(full_name)`)
@@ -248,8 +414,8 @@ export default function PoliceIncidentDetailPage() {
             setIncident(prev => prev ? { ...prev, status: newStatus } : null);
             setShowUpdateModal(false);
             setUpdateNotes('');
-            setResolutionFile(null);
-            setResolutionPreview(null);
+            setNotesPublic(false);
+            setResolutionFiles([]);
         } catch (error) {
             console.error('Error updating status:', error);
         } finally {
@@ -257,6 +423,86 @@ export default function PoliceIncidentDetailPage() {
         }
     };
 
+    // Re-download every evidence file and compare it with its upload hash
+    const handleVerifyIntegrity = async () => {
+        const items = media.map((item) => ({ id: item.id, url: item.file_url, sha256: item.sha256 }));
+        for (const resolution of resolutions) {
+            items.push({ id: resolution.id, url: resolution.resolution_media_url, sha256: resolution.resolution_media_sha256 });
+        }
+
+        setVerifying(true);
+        setIntegrity(Object.fromEntries(items.map((item) => [item.id, 'checking' as IntegrityStatus])));
+        for (const item of items) {
+            const status = await verifyMediaIntegrity(item.url, item.sha256);
+            setIntegrity(prev => ({ ...prev, [item.id]: status }));
+        }
+        setVerifying(false);
+    };
+
+    const getIntegrityBadge = (status: IntegrityStatus | undefined) => {
+        switch (status) {
+            case 'checking':
+                return { label: 'Checking…', className: styles.integrityChecking };
+            case 'verified':
+                return { label: '✓ Verified', className: styles.integrityVerified };
+            case 'modified':
+                return { label: '⚠ Modified', className: styles.integrityModified };
+            case 'unavailable':
+                return { label: 'Could not check', className: styles.integrityChecking };
+            case 'no_hash':
+                return { label: 'No hash recorded', className: styles.integrityChecking };
+            default:
+                return null;
+        }
+    };
+
+    const renderIntegrityBadge = (id: string, sha256: string | null) => {
+        const badge = getIntegrityBadge(integrity[id]);
+        if (!badge) return null;
+        return (
+            <span className={`${styles.integrityBadge} ${badge.className}`} title={sha256 ? `SHA-256 ${sha256}` : undefined}>
+                {badge.label}
+            </span>
+        );
+    };
+
+    // Reveal an anonymous reporter. The database checks the supervisor
+    // role and logs the reveal with its reason.
+    const handleRevealIdentity = async () => {
+        if (!profile || !incident) return;
+
+        if (revealReason.trim().length < 10) {
+            setRevealError('Give a reason of at least 10 characters');
+            return;
+        }
+
+        setRevealing(true);
+        setRevealError('');
+        try {
+            const { data, error } = await supabase.rpc('reveal_incident_reporter', {
+                p_incident_id: incident.id,
+                p_reason: revealReason.trim(),
+            });
+
+            if (error) throw error;
+
+            setRevealedReporter(data as Reporter);
+            setReveals(prev => [{
+                id: crypto.randomUUID(),
+                reason: revealReason.trim(),
+                created_at: new Date().toISOString(),
+                revealed_by: { full_name: profile.full_name },
+            }, ...prev]);
+            setShowRevealModal(false);
+            setRevealReason('');
+        } catch (error: any) {
+            console.error('Error revealing reporter:', error);
+            setRevealError(error.message || 'Failed to reveal the reporter');
+        } finally {
+            setRevealing(false);
+        }
+    };
+
     const formatDate = (date: string) => {
         return new Date(date).toLocaleString('en-IN', {
             day: 'numeric',
@@ -277,6 +523,8 @@ export default function PoliceIncidentDetailPage() {
                 return { label: 'Action Taken', color: '#1976D2', bg: '#E3F2FD' };
             case 'resolved':
                 return { label: 'Resolved', color: '#388E3C', bg: '#E8F5E9' };
+            case 'withdrawn':
+                return { label: 'Withdrawn', color: '#616161', bg: '#EEEEEE' };
             default:
                 return { label: status, color: '#757575', bg: '#F5F5F5' };
         }
@@ -292,7 +540,14 @@ export default function PoliceIncidentDetailPage() {
 
     if (!incident) return null;
 
-    const statusInfo = getStatusInfo(incident.status);
+    const statusInfo = getStatusInfo(incident.withdrawn_at ? 'withdrawn' : incident.status);
+    const reportDetails = describeFieldValues(
+        parseCategoryFields(incident.category?.form_fields),
+        incident.field_values
+    );
+    const reporter = incident.is_anonymous ? revealedReporter : incident.user;
+    const comparison = beforeAfterPair(media, resolutions);
+    const canRevealIdentity = profile?.role === 'admin' || !!profile?.is_supervisor;
 
     return (
         <div className={styles.page}>
@@ -366,6 +621,13 @@ export default function PoliceIncidentDetailPage() {
                                 <p className={styles.description}>{incident.description}</p>
                             )}
 
+                            {incident.withdrawn_at && (
+                                <div className={styles.withdrawnNotice}>
+                                    <strong>Withdrawn by the reporter on {formatDate(incident.withdrawn_at)}</strong>
+                                    {incident.withdrawal_reason && <p>{incident.withdrawal_reason}</p>}
+                                </div>
+                            )}
+
                             <div className={styles.metaGrid}>
                                 <div className={styles.metaItem}>
                                     <span className={styles.metaLabel}>Category</span>
@@ -382,10 +644,22 @@ export default function PoliceIncidentDetailPage() {
                                         {incident.priority}
                                     </span>
                                 </div>
+                                <div className={styles.metaItem}>
+                                    <span className={styles.metaLabel}>Confirmations</span>
+                                    <span className={styles.metaValue}>
+                                        {incident.confirmations?.[0]?.count ?? 0}
+                                    </span>
+                                </div>
                                 <div className={styles.metaItem}>
                                     <span className={styles.metaLabel}>Reported On</span>
                                     <span className={styles.metaValue}>{formatDate(incident.created_at)}</span>
                                 </div>
+                                {incident.reopened_at && (
+                                    <div className={styles.metaItem}>
+                                        <span className={styles.metaLabel}>Reopened On</span>
+                                        <span className={styles.metaValue}>{formatDate(incident.reopened_at)}</span>
+                                    </div>
+                                )}
                                 <div className={styles.metaItem}>
                                     <span className={styles.metaLabel}>Last Updated</span>
                                     <span className={styles.metaValue}>{formatDate(incident.updated_at)}</span>
@@ -393,6 +667,21 @@ export default function PoliceIncidentDetailPage() {
                             </div>
                         </div>
 
+                        {/* Category-specific details */}
+                        {reportDetails.length > 0 && (
+                            <div className={styles.card}>
+                                <h2 className={styles.cardTitle}>Report Details</h2>
+                                <div className={styles.metaGrid}>
+                                    {reportDetails.map((detail) => (
+                                        <div key={detail.key} className={styles.metaItem}>
+                                            <span className={styles.metaLabel}>{detail.label}</span>
+                                            <span className={styles.metaValue}>{detail.value}</span>
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
+
                         {/* Location Card */}
                         {incident.address && (
                             <div className={styles.card}>
@@ -403,6 +692,13 @@ export default function PoliceIncidentDetailPage() {
                                     </svg>
                                     <span>{incident.address}</span>
                                 </div>
+                                {incident.location_source && (
+                                    <span className={styles.locationSource}>
+                                        {incident.location_source === 'manual'
+                                            ? 'Position chosen manually by the reporter'
+                                            : 'Position from the reporter\'s device GPS'}
+                                    </span>
+                                )}
                                 {incident.latitude && incident.longitude && (
                                     <a
                                         href={`https://www.google.com/maps?q=${incident.latitude},${incident.longitude}`}
@@ -422,14 +718,29 @@ export default function PoliceIncidentDetailPage() {
                         {/* Evidence Card */}
                         {media.length > 0 && (
                             <div className={styles.card}>
-                                <h2 className={styles.cardTitle}>Evidence ({media.length})</h2>
+                                <div className={styles.cardHeaderRow}>
+                                    <h2 className={styles.cardTitle}>Evidence ({media.length})</h2>
+                                    <button onClick={handleVerifyIntegrity} disabled={verifying} className={styles.verifyButton}>
+                                        {verifying ? 'Verifying…' : 'Verify Integrity'}
+                                    </button>
+                                </div>
                                 <div className={styles.mediaGrid}>
                                     {media.map((item) => (
                                         <div key={item.id} className={styles.mediaItem}>
-                                            {item.file_type === 'video' ? (
+                                            {renderIntegrityBadge(item.id, item.sha256)}
+                                            {item.file_type === 'audio' ? (
+                                                <div className={styles.audioItem}>
+                                                    <svg viewBox="0 0 24 24" fill="currentColor" width="28" height="28">
+                                                        <path d="M12 14c1.66 0 3-1.34 3-3V5c0-1.66-1.34-3-3-3S9 3.34 9 5v6c0 1.66 1.34 3 3 3zm5.3-3c0 3-2.54 5.1-5.3 5.1S6.7 14 6.7 11H5c0 3.41 2.72 6.23 6 6.72V21h2v-3.28c3.28-.48 6-3.3 6-6.72h-1.7z" />
+                                                    </svg>
+                                                    <audio src={item.file_url} controls preload="metadata" className={styles.audioPlayer} />
+                                                    <span className={styles.videoTypeBadge}>Voice note</span>
+                                                </div>
+                                            ) : item.file_type === 'video' ? (
                                                 <>
                                                     <video
                                                         src={item.file_url}
+                                                        poster={item.thumbnail_url ?? undefined}
                                                         controls
                                                         className={styles.mediaContent}
                                                         preload="metadata"
@@ -446,30 +757,99 @@ export default function PoliceIncidentDetailPage() {
                                                     <img src={item.file_url} alt="" className={styles.mediaContent} />
                                                 </a>
                                             )}
+                                            {item.confirmation_id && (
+                                                <span className={styles.confirmationBadge}>Me too</span>
+                                            )}
+                                            {item.feedback_id && (
+                                                <span className={styles.confirmationBadge}>Reopen evidence</span>
+                                            )}
+                                            {item.metadata && (
+                                                <div className={styles.mediaMetaBadge}>
+                                                    {item.metadata.captured_at && (
+                                                        <span title="Capture time from photo EXIF">
+                                                            Taken {formatDate(item.metadata.captured_at)}
+                                                        </span>
+                                                    )}
+                                                    {item.metadata.gps_latitude !== null && item.metadata.gps_longitude !== null && (
+                                                        <a
+                                                            href={`https://www.google.com/maps?q=${item.metadata.gps_latitude},${item.metadata.gps_longitude}`}
+                                                            target="_blank"
+                                                            rel="noopener noreferrer"
+                                                            title="GPS position embedded in the photo"
+                                                        >
+                                                            Photo GPS
+                                                        </a>
+                                                    )}
+                                                </div>
+                                            )}
                                         </div>
                                     ))}
                                 </div>
+                                {duplicateMedia.length > 0 && (
+                                    <div className={styles.duplicateNotice}>
+                                        <strong>Exact duplicates:</strong>
+                                        {media.map((item, index) => {
+                                            const others = duplicateMedia.filter((d) => d.sha256 === item.sha256);
+                                            if (!item.sha256 || others.length === 0) return null;
+                                            return (
+                                                <span key={item.id}>
+                                                    File {index + 1} ({shortHash(item.sha256)}) is also attached to{' '}
+                                                    {others.map((d, i) => (
+                                                        <span key={`${d.incident.id}-${i}`}>
+                                                            {i > 0 && ', '}
+                                                            <Link href={`/police/incident/${d.incident.id}`}>#{d.incident.tracking_id}</Link>
+                                                        </span>
+                                                    ))}
+                                                </span>
+                                            );
+                                        })}
+                                    </div>
+                                )}
                             </div>
                         )}
 
-                        {/* Resolution Media Card */}
-                        {resolution && (
+                        {/* Resolution History Card */}
+                        {resolutions.length > 0 && (
                             <div className={styles.card}>
-                                <h2 className={styles.cardTitle}>Resolution Evidence</h2>
-                                <div className={styles.resolutionMedia}>
-                                    {resolution.resolution_media_type === 'video' ? (
-                                        <video
-                                            src={resolution.resolution_media_url}
-                                            controls
-                                            className={styles.resolutionMediaContent}
-                                        />
-                                    ) : (
-                                        <img
-                                            src={resolution.resolution_media_url}
-                                            alt="Resolution"
-                                            className={styles.resolutionMediaContent}
-                                        />
-                                    )}
+                                <h2 className={styles.cardTitle}>Resolution History</h2>
+                                {comparison && (
+                                    <BeforeAfterSlider
+                                        beforeUrl={comparison.before}
+                                        afterUrl={comparison.after}
+                                        className={styles.comparison}
+                                    />
+                                )}
+                                <div className={styles.resolutionHistory}>
+                                    {resolutions.map((resolution) => (
+                                        <div key={resolution.id} className={styles.resolutionEntry}>
+                                            <div className={styles.resolutionMedia}>
+                                                {renderIntegrityBadge(resolution.id, resolution.resolution_media_sha256)}
+                                                {resolution.resolution_media_type === 'video' ? (
+                                                    <video
+                                                        src={resolution.resolution_media_url}
+                                                        poster={resolution.resolution_thumbnail_url ?? undefined}
+                                                        controls
+                                                        className={styles.resolutionMediaContent}
+                                                    />
+                                                ) : (
+                                                    <img
+                                                        src={resolution.resolution_media_url}
+                                                        alt="Resolution"
+                                                        className={styles.resolutionMediaContent}
+                                                    />
+                                                )}
+                                            </div>
+                                            <div className={styles.resolutionInfo}>
+                                                <span className={resolution.is_partial ? styles.partialFix : styles.finalFix}>
+                                                    {resolution.is_partial ? 'Partial fix' : 'Resolved'}
+                                                </span>
+                                                <span className={styles.resolutionDate}>{formatDate(resolution.created_at)}</span>
+                                            </div>
+                                            {resolution.notes && (
+                                                <p className={styles.resolutionNotes}>{resolution.notes}</p>
+                                            )}
+                                        </div>
+                                    ))}
                                 </div>
                             </div>
                         )}
@@ -480,25 +860,101 @@ export default function PoliceIncidentDetailPage() {
                         {/* Reporter Card */}
                         <div className={styles.card}>
                             <h2 className={styles.cardTitle}>Reporter</h2>
-                            <div className={styles.reporterInfo}>
-                                <div className={styles.reporterAvatar}>
-                                    {incident.user?.full_name?.charAt(0)}
+                            {reporter ? (
+                                <>
+                                    <div className={styles.reporterInfo}>
+                                        <div className={styles.reporterAvatar}>
+                                            {reporter.full_name?.charAt(0)}
+                                        </div>
+                                        <div>
+                                            <p className={styles.reporterName}>{reporter.full_name}</p>
+                                            <p className={styles.reporterContact}>{reporter.phone}</p>
+                                            <p className={styles.reporterContact}>{reporter.email}</p>
+                                        </div>
+                                    </div>
+                                    <a
+                                        href={`tel:${reporter.phone}`}
+                                        className={styles.callButton}
+                                    >
+                                        <svg viewBox="0 0 24 24" fill="currentColor" width="18" height="18">
+                                            <path d="M6.62 10.79c1.44 2.83 3.76 5.14 6.59 6.59l2.2-2.2c.27-.27.67-.36 1.02-.24 1.12.37 2.33.57 3.57.57.55 0 1 .45 1 1V20c0 .55-.45 1-1 1-9.39 0-17-7.61-17-17 0-.55.45-1 1-1h3.5c.55 0 1 .45 1 1 0 1.25.2 2.45.57 3.57.11.35.03.74-.25 1.02l-2.2 2.2z" />
+                                        </svg>
+                                        Call Reporter
+                                    </a>
+                                </>
+                            ) : (
+                                <div className={styles.reporterInfo}>
+                                    <div className={styles.reporterAvatar}>?</div>
+                                    <div>
+                                        <p className={styles.reporterName}>Anonymous</p>
+                                        <p className={styles.reporterContact}>
+                                            The reporter chose to hide their identity.
+                                        </p>
+                                    </div>
                                 </div>
-                                <div>
-                                    <p className={styles.reporterName}>{incident.user?.full_name}</p>
-                                    <p className={styles.reporterContact}>{incident.user?.phone}</p>
-                                    <p className={styles.reporterContact}>{incident.user?.email}</p>
+                            )}
+                            {incident.is_anonymous && !revealedReporter && canRevealIdentity && (
+                                <button
+                                    onClick={() => setShowRevealModal(true)}
+                                    className={styles.revealButton}
+                                >
+                                    Reveal Identity
+                                </button>
+                            )}
+                            {reveals.length > 0 && (
+                                <div className={styles.revealLog}>
+                                    <span className={styles.revealLogTitle}>Identity reveals</span>
+                                    {reveals.map((reveal) => (
+                                        <div key={reveal.id} className={styles.revealLogItem}>
+                                            <p>{reveal.reason}</p>
+                                            <span>
+                                                {reveal.revealed_by?.full_name} • {formatDate(reveal.created_at)}
+                                            </span>
+                                        </div>
+                                    ))}
                                 </div>
+                            )}
+                        </div>
+
+                        {/* Reporter Feedback Card */}
+                        {feedback.length > 0 && (
+                            <div className={styles.card}>
+                                <h2 className={styles.cardTitle}>Reporter Feedback</h2>
+                                {feedback.map((item) => (
+                                    <div key={item.id} className={styles.feedbackItem}>
+                                        <div className={styles.feedbackHeader}>
+                                            <span className={styles.feedbackRating}>
+                                                {'★'.repeat(item.rating)}{'☆'.repeat(5 - item.rating)}
+                                            </span>
+                                            <span className={item.is_fixed ? styles.feedbackFixed : styles.feedbackReopened}>
+                                                {item.is_fixed ? 'Fixed' : 'Reopened'}
+                                            </span>
+                                        </div>
+                                        {item.comment && <p className={styles.feedbackComment}>{item.comment}</p>}
+                                        <span className={styles.feedbackDate}>{formatDate(item.created_at)}</span>
+                                    </div>
+                                ))}
                             </div>
-                            <a
-                                href={`tel:${incident.user?.phone}`}
-                                className={styles.callButton}
-                            >
-                                <svg viewBox="0 0 24 24" fill="currentColor" width="18" height="18">
-                                    <path d="M6.62 10.79c1.44 2.83 3.76 5.14 6.59 6.59l2.2-2.2c.27-.27.67-.36 1.02-.24 1.12.37 2.33.57 3.57.57.55 0 1 .45 1 1V20c0 .55-.45 1-1 1-9.39 0-17-7.61-17-17 0-.55.45-1 1-1h3.5c.55 0 1 .45 1 1 0 1.25.2 2.45.57 3.57.11.35.03.74-.25 1.02l-2.2 2.2z" />
-                                </svg>
-                                Call Reporter
-                            </a>
+                        )}
+
+                        {/* Assignment Card */}
+                        <div className={styles.card}>
+                            <h2 className={styles.cardTitle}>Assigned Officer</h2>
+                            {incident.assigned_to ? (
+                                <div className={styles.assignee}>
+                                    <span className={styles.assigneeName}>
+                                        {incident.assigned_to === profile?.id ? 'You' : incident.assignee?.full_name}
+                                    </span>
+                                    {incident.assigned_at && (
+                                        <span className={styles.assignedAt}>Since {formatDate(incident.assigned_at)}</span>
+                                    )}
+                                </div>
+                            ) : (
+                                <p className={styles.noAssignee}>Not assigned yet</p>
+                            )}
+                            <button onClick={() => setShowAssignModal(true)} className={styles.assignButton}>
+                                {incident.assigned_to ? 'Reassign' : 'Assign Officer'}
+                            </button>
                         </div>
 
                         {/* Update Status Card */}
@@ -524,18 +980,26 @@ export default function PoliceIncidentDetailPage() {
                                             <div className={styles.timelineDot}></div>
                                             {index < updates.length - 1 && <div className={styles.timelineLine}></div>}
                                             <div className={styles.timelineContent}>
-                                                <span
-                                                    className={styles.timelineStatus}
-                                                    style={{ color: getStatusInfo(update.status).color }}
-                                                >
-                                                    {getStatusInfo(update.status).label}
-                                                </span>
+                                                {update.kind === 'status' ? (
+                                                    <span
+                                                        className={styles.timelineStatus}
+                                                        style={{ color: getStatusInfo(update.status).color }}
+                                                    >
+                                                        {getStatusInfo(update.status).label}
+                                                    </span>
+                                                ) : (
+                                                    <span className={styles.timelineStatus}>
+                                                        {REPORTER_UPDATE_LABELS[update.kind]}
+                                                    </span>
+                                                )}
                                                 {update.notes && (
                                                     <p className={styles.timelineNotes}>{update.notes}</p>
                                                 )}
                                                 <div className={styles.timelineMeta}>
-                                                    <span>{update.updated_by?.full_name}</span>
+                                                    {/* Never name an anonymous reporter */}
+                                                    <span>{update.kind === 'status' ? update.updated_by?.full_name : 'Reporter'}</span>
                                                     <span>{formatDate(update.created_at)}</span>
+                                                    {update.notes && update.is_public && <span>Public note</span>}
                                                 </div>
                                             </div>
                                         </div>
@@ -543,11 +1007,82 @@ export default function PoliceIncidentDetailPage() {
                                 </div>
                             )}
                         </div>
+
+                        {/* Messages with the reporter, separate from the status timeline */}
+                        {profile && (
+                            <div className={styles.card}>
+                                <h2 className={styles.cardTitle}>Messages</h2>
+                                <CommentThread
+                                    incidentId={incident.id}
+                                    currentUserId={profile.id}
+                                    viewer="police"
+                                />
+                            </div>
+                        )}
                     </div>
                 </div>
             </main>
 
             {/* Update Modal */}
+            {showRevealModal && (
+                <div className={styles.modalOverlay} onClick={() => setShowRevealModal(false)}>
+                    <div className={styles.modal} onClick={(e) => e.stopPropagation()}>
+                        <h2 className={styles.modalTitle}>Reveal Reporter Identity</h2>
+                        <p className={styles.revealNotice}>
+                            This reporter asked to stay anonymous. Revealing them is recorded
+                            with your name and reason, and shown to other officers on this incident.
+                        </p>
+
+                        <div className={styles.formGroup}>
+                            <label>Reason</label>
+                            <textarea
+                                value={revealReason}
+                                onChange={(e) => setRevealReason(e.target.value)}
+                                placeholder="Why do you need to contact the reporter?"
+                                className={styles.textarea}
+                                rows={3}
+                            />
+                        </div>
+
+                        {revealError && <p className={styles.revealError}>{revealError}</p>}
+
+                        <div className={styles.modalActions}>
+                            <button
+                                onClick={() => setShowRevealModal(false)}
+                                className={styles.cancelButton}
+                            >
+                                Cancel
+                            </button>
+                            <button
+                                onClick={handleRevealIdentity}
+                                disabled={revealing}
+                                className={styles.saveButton}
+                            >
+                                {revealing ? 'Revealing...' : 'Reveal'}
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            )}
+
+            {showAssignModal && profile && (
+                <AssignOfficerModal
+                    incidentIds={[incident.id]}
+                    currentUserId={profile.id}
+                    currentAssigneeId={incident.assigned_to}
+                    onClose={() => setShowAssignModal(false)}
+                    onAssigned={(officer) => {
+                        setIncident(prev => prev ? {
+                            ...prev,
+                            assigned_to: officer?.id ?? null,
+                            assigned_at: officer ? new Date().toISOString() : null,
+                            assignee: officer ? { full_name: officer.full_name } : null,
+                        } : null);
+                        setShowAssignModal(false);
+                    }}
+                />
+            )}
+
             {showUpdateModal && (
                 <div className={styles.modalOverlay} onClick={() => setShowUpdateModal(false)}>
                     <div className={styles.modal} onClick={(e) => e.stopPropagation()}>
@@ -576,32 +1111,31 @@ export default function PoliceIncidentDetailPage() {
                                 className={styles.textarea}
                                 rows={4}
                             />
+                            <label className={styles.checkboxLabel}>
+                                <input
+                                    type="checkbox"
+                                    checked={notesPublic}
+                                    onChange={(e) => setNotesPublic(e.target.checked)}
+                                />
+                                Show this note on the public tracking page
+                            </label>
                         </div>
 
-                        {/* Resolution upload when resolving */}
-                        {newStatus === 'resolved' && !resolution && (
+                        {/* Resolution evidence for a partial or final fix */}
+                        {['action_taken', 'resolved'].includes(newStatus) && (
                             <div className={styles.uploadSection}>
-                                <label className={styles.uploadLabel}>Resolution Evidence (Photo/Video)</label>
-                                {!resolutionPreview ? (
-                                    <button
-                                        type="button"
-                                        onClick={() => resolutionInputRef.current?.click()}
-                                        className={styles.uploadDropzone}
-                                    >
-                                        <svg viewBox="0 0 24 24" fill="currentColor" width="32" height="32">
-                                            <path d="M19 7v2.99s-1.99.01-2 0V7h-3s.01-1.99 0-2h3V2h2v3h3v2h-3zm-3 4V8h-3V5H5c-1.1 0-2 .9-2 2v12c0 1.1.9 2 2 2h12c1.1 0 2-.9 2-2v-8h-3zM5 19l3-4 2 3 3-4 4 5H5z" />
-                                        </svg>
-                                        <span>Upload resolution photo or video</span>
-                                    </button>
-                                ) : (
-                                    <div className={styles.uploadPreview}>
-                                        {resolutionFile?.type.startsWith('video/') ? (
-                                            <video src={resolutionPreview} className={styles.uploadPreviewMedia} controls />
+                                <label className={styles.uploadLabel}>
+                                    {newStatus === 'resolved' ? 'Resolution Evidence' : 'Partial Fix Evidence'} (Photos/Videos)
+                                </label>
+                                {resolutionFiles.map((item, index) => (
+                                    <div key={item.preview} className={styles.uploadPreview}>
+                                        {item.file.type.startsWith('video/') ? (
+                                            <video src={item.preview} className={styles.uploadPreviewMedia} controls />
                                         ) : (
-                                            <img src={resolutionPreview} alt="Resolution preview" className={styles.uploadPreviewMedia} />
+                                            <img src={item.preview} alt="Resolution preview" className={styles.uploadPreviewMedia} />
                                         )}
                                         <button
-                                            onClick={removeResolutionFile}
+                                            onClick={() => removeResolutionFile(index)}
                                             className={styles.removeUpload}
                                             type="button"
                                         >
@@ -610,11 +1144,27 @@ export default function PoliceIncidentDetailPage() {
                                             </svg>
                                         </button>
                                     </div>
+                                ))}
+                                {resolutionFiles.length < RESOLUTION_FILES_MAX && (
+                                    <button
+                                        type="button"
+                                        onClick={() => resolutionInputRef.current?.click()}
+                                        className={styles.uploadDropzone}
+                                    >
+                                        <svg viewBox="0 0 24 24" fill="currentColor" width="32" height="32">
+                                            <path d="M19 7v2.99s-1.99.01-2 0V7h-3s.01-1.99 0-2h3V2h2v3h3v2h-3zm-3 4V8h-3V5H5c-1.1 0-2 .9-2 2v12c0 1.1.9 2 2 2h12c1.1 0 2-.9 2-2v-8h-3zM5 19l3-4 2 3 3-4 4 5H5z" />
+                                        </svg>
+                                        <span>
+                                            {resolutionFiles.length === 0 ? 'Upload photos or videos' : 'Add another file'}
+                                        </span>
+                                    </button>
                                 )}
+                                {resolutionFileError && <p className={styles.revealError}>{resolutionFileError}</p>}
                                 <input
                                     ref={resolutionInputRef}
                                     type="file"
                                     accept="image/*,video/*"
+                                    multiple
                                     onChange={handleResolutionFileSelect}
                                     className={styles.hiddenInput}
                                 />
@@ -4,6 +4,8 @@ import { useEffect, useState, useCallback } from "react";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
 import { createClient } from "@/lib/supabase/client";
+import MediaPreview from "@/components/MediaPreview";
+import AssignOfficerModal from "@/components/AssignOfficerModal";
 import styles from "./page.module.css";
 
 interface Incident {
@@ -14,9 +16,20 @@ interface Incident {
   priority: string;
   address: string;
   created_at: string;
+  area_id: string | null;
+  // Anonymous reports never show who filed them
+  is_anonymous: boolean;
+  // Set when the reporter said a resolution did not fix the problem
+  reopened_at: string | null;
+  // Set when the reporter withdrew the report
+  withdrawn_at: string | null;
+  assigned_to: string | null;
+  assignee: {
+    full_name: string;
+  } | null;
   user: {
     full_name: string;
-  };
+  } | null;
   category: {
     name: string;
     color: string;
@@ -24,6 +37,12 @@ interface Incident {
   area: {
     name: string;
   } | null;
+  confirmations: { count: number }[];
+  incident_media: {
+    file_url: string;
+    file_type: string;
+    thumbnail_url: string | null;
+  }[];
 }
 
 interface Category {
@@ -32,6 +51,14 @@ interface Category {
   color: string;
 }
 
+interface Area {
+  id: string;
+  name: string;
+}
+
+// Filter value for incidents outside every drawn area boundary
+const UNASSIGNED_AREA = "unassigned";
+
 type SortField = "created_at" | "status" | "category" | "priority";
 type SortOrder = "asc" | "desc";
 
@@ -41,6 +68,7 @@ export default function PoliceAllIncidentsPage() {
 
   const [incidents, setIncidents] = useState<Incident[]>([]);
   const [categories, setCategories] = useState<Category[]>([]);
+  const [areas, setAreas] = useState<Area[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState("");
 
@@ -48,6 +76,7 @@ export default function PoliceAllIncidentsPage() {
   const [statusFilter, setStatusFilter] = useState<string[]>([]);
   const [categoryFilter, setCategoryFilter] = useState<string[]>([]);
   const [dateFilter, setDateFilter] = useState<string>("all");
+  const [areaFilter, setAreaFilter] = useState<string[]>([]);
   const [showFilters, setShowFilters] = useState(false);
 
   // Sorting
@@ -57,8 +86,18 @@ export default function PoliceAllIncidentsPage() {
   // Bulk selection
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
 
+  // Assignment
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [queue, setQueue] = useState<"all" | "mine">("all");
+  const [assignTargetIds, setAssignTargetIds] = useState<string[] | null>(null);
+
   useEffect(() => {
     async function loadData() {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+      setCurrentUserId(user?.id ?? null);
+
       // Load categories
       const { data: catData } = await supabase
         .from("categories")
@@ -67,14 +106,25 @@ export default function PoliceAllIncidentsPage() {
 
       if (catData) setCategories(catData);
 
+      const { data: areaData } = await supabase
+        .from("areas")
+        .select("id, name")
+        .eq("is_active", true)
+        .order("name");
+
+      if (areaData) setAreas(areaData);
+
       const { data } = await supabase
-        .from("incidents")
+        .from("police_incidents")
         .select(
           `
-                    id, tracking_id, title, status, priority, address, created_at,
-                    user:profiles!incidents_user_id_fkey(full_name),
+                    id, tracking_id, title, status, priority, address, created_at, area_id, is_anonymous, reopened_at, withdrawn_at, assigned_to,
+                    user:reporter,
+                    assignee:profiles!incidents_assigned_to_fkey(full_name),
                     category:categories(name, color),
-                    area:areas(name)
+                    area:areas(name),
+                    confirmations:incident_confirmations(count),
+                    incident_media(file_url, file_type, thumbnail_url)
                 `,
         )
         .order("created_at", { ascending: false });
@@ -156,13 +206,33 @@ export default function PoliceAllIncidentsPage() {
   };
 
   // Filter and sort incidents
+  const myOpenCount = incidents.filter(
+    (inc) =>
+      inc.assigned_to === currentUserId &&
+      inc.status !== "resolved" &&
+      !inc.withdrawn_at,
+  ).length;
+
   const filteredIncidents = incidents
     .filter((inc) => {
+      // "Assigned to me" queue: open incidents assigned to this officer
+      if (
+        queue === "mine" &&
+        (inc.assigned_to !== currentUserId ||
+          inc.status === "resolved" ||
+          inc.withdrawn_at)
+      ) {
+        return false;
+      }
+
       // Search filter
       const matchesSearch =
         inc.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
         inc.tracking_id.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        inc.user?.full_name?.toLowerCase().includes(searchQuery.toLowerCase());
+        (!inc.is_anonymous &&
+          inc.user?.full_name
+            ?.toLowerCase()
+            .includes(searchQuery.toLowerCase()));
 
       // Status filter
       const matchesStatus =
@@ -173,6 +243,11 @@ export default function PoliceAllIncidentsPage() {
         categoryFilter.length === 0 ||
         categoryFilter.includes(inc.category?.name);
 
+      // Area filter
+      const matchesArea =
+        areaFilter.length === 0 ||
+        areaFilter.includes(inc.area_id ?? UNASSIGNED_AREA);
+
       // Date filter
       let matchesDate = true;
       if (dateFilter !== "all") {
@@ -190,7 +265,13 @@ export default function PoliceAllIncidentsPage() {
         }
       }
 
-      return matchesSearch && matchesStatus && matchesCategory && matchesDate;
+      return (
+        matchesSearch &&
+        matchesStatus &&
+        matchesCategory &&
+        matchesArea &&
+        matchesDate
+      );
     })
     .sort((a, b) => {
       let comparison = 0;
@@ -237,6 +318,14 @@ export default function PoliceAllIncidentsPage() {
     );
   };
 
+  const toggleAreaFilter = (areaId: string) => {
+    setAreaFilter((prev) =>
+      prev.includes(areaId)
+        ? prev.filter((a) => a !== areaId)
+        : [...prev, areaId],
+    );
+  };
+
   const toggleSelectAll = () => {
     if (selectedIds.size === filteredIncidents.length) {
       setSelectedIds(new Set());
@@ -255,10 +344,30 @@ export default function PoliceAllIncidentsPage() {
     setSelectedIds(newSet);
   };
 
+  const handleAssigned = (
+    officer: { id: string; full_name: string } | null,
+  ) => {
+    const ids = new Set(assignTargetIds);
+    setIncidents((prev) =>
+      prev.map((inc) =>
+        ids.has(inc.id)
+          ? {
+              ...inc,
+              assigned_to: officer?.id ?? null,
+              assignee: officer ? { full_name: officer.full_name } : null,
+            }
+          : inc,
+      ),
+    );
+    setAssignTargetIds(null);
+    setSelectedIds(new Set());
+  };
+
   const clearAllFilters = () => {
     setStatusFilter([]);
     setCategoryFilter([]);
     setDateFilter("all");
+    setAreaFilter([]);
     setSearchQuery("");
   };
 
@@ -266,6 +375,7 @@ export default function PoliceAllIncidentsPage() {
     statusFilter.length > 0 ||
     categoryFilter.length > 0 ||
     dateFilter !== "all" ||
+    areaFilter.length > 0 ||
     searchQuery !== "";
 
   if (loading) {
@@ -280,12 +390,31 @@ export default function PoliceAllIncidentsPage() {
     <>
       <header className={styles.header}>
         <div className={styles.headerLeft}>
-          <h1 className={styles.pageTitle}>All Incidents</h1>
+          <h1 className={styles.pageTitle}>
+            {queue === "mine" ? "Assigned to Me" : "All Incidents"}
+          </h1>
           <p className={styles.pageSubtitle}>
             {filteredIncidents.length} of {incidents.length} incidents
           </p>
         </div>
         <div className={styles.headerActions}>
+          <div className={styles.queueTabs}>
+            <button
+              className={`${styles.queueTab} ${queue === "all" ? styles.active : ""}`}
+              onClick={() => setQueue("all")}
+            >
+              All
+            </button>
+            <button
+              className={`${styles.queueTab} ${queue === "mine" ? styles.active : ""}`}
+              onClick={() => setQueue("mine")}
+            >
+              Assigned to me
+              {myOpenCount > 0 && (
+                <span className={styles.queueCount}>{myOpenCount}</span>
+              )}
+            </button>
+          </div>
           <div className={styles.searchBox}>
             <svg viewBox="0 0 24 24" fill="currentColor" width="20" height="20">
               <path d="M15.5 14h-.79l-.28-.27C15.41 12.59 16 11.11 16 9.5 16 5.91 13.09 3 9.5 3S3 5.91 3 9.5 5.91 16 9.5 16c1.61 0 3.09-.59 4.23-1.57l.27.28v.79l5 4.99L20.49 19l-4.99-5zm-6 0C7.01 14 5 11.99 5 9.5S7.01 5 9.5 5 14 7.01 14 9.5 11.99 14 9.5 14z" />
@@ -355,6 +484,24 @@ export default function PoliceAllIncidentsPage() {
             </div>
           </div>
 
+          <div className={styles.filterSection}>
+            <h3 className={styles.filterTitle}>Area</h3>
+            <div className={styles.filterChips}>
+              {[
+                ...areas.map((area) => ({ value: area.id, label: area.name })),
+                { value: UNASSIGNED_AREA, label: "Unassigned" },
+              ].map((area) => (
+                <button
+                  key={area.value}
+                  className={`${styles.filterChip} ${areaFilter.includes(area.value) ? styles.active : ""}`}
+                  onClick={() => toggleAreaFilter(area.value)}
+                >
+                  {area.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
           <div className={styles.filterSection}>
             <h3 className={styles.filterTitle}>Date Range</h3>
             <div className={styles.filterChips}>
@@ -387,7 +534,10 @@ export default function PoliceAllIncidentsPage() {
       {selectedIds.size > 0 && (
         <div className={styles.bulkActions}>
           <span className={styles.bulkCount}>{selectedIds.size} selected</span>
-          <button className={styles.bulkBtn}>
+          <button
+            className={styles.bulkBtn}
+            onClick={() => setAssignTargetIds(Array.from(selectedIds))}
+          >
             <svg viewBox="0 0 24 24" fill="currentColor" width="16" height="16">
               <path d="M15 12c2.21 0 4-1.79 4-4s-1.79-4-4-4-4 1.79-4 4 1.79 4 4 4zm-9-2V7H4v3H1v2h3v3h2v-3h3v-2H6zm9 4c-2.67 0-8 1.34-8 4v2h16v-2c0-2.66-5.33-4-8-4z" />
             </svg>
@@ -461,13 +611,14 @@ export default function PoliceAllIncidentsPage() {
                   </span>
                 )}
               </th>
+              <th>Assigned To</th>
               <th>Actions</th>
             </tr>
           </thead>
           <tbody>
             {filteredIncidents.length === 0 ? (
               <tr>
-                <td colSpan={9} className={styles.emptyRow}>
+                <td colSpan={10} className={styles.emptyRow}>
                   <div className={styles.emptyState}>
                     <svg
                       viewBox="0 0 24 24"
@@ -486,6 +637,9 @@ export default function PoliceAllIncidentsPage() {
               filteredIncidents.map((incident) => {
                 const statusInfo = getStatusInfo(incident.status);
                 const priorityInfo = getPriorityInfo(incident.priority);
+                const preview = incident.incident_media?.find(
+                  (m) => m.file_type !== "audio",
+                );
                 return (
                   <tr
                     key={incident.id}
@@ -506,20 +660,52 @@ export default function PoliceAllIncidentsPage() {
                       #{incident.tracking_id}
                     </td>
                     <td className={styles.titleCell}>
-                      <span className={styles.title}>{incident.title}</span>
-                      {incident.area && (
-                        <span className={styles.location}>
-                          <svg
-                            viewBox="0 0 24 24"
-                            fill="currentColor"
-                            width="12"
-                            height="12"
-                          >
-                            <path d="M12 2C8.13 2 5 5.13 5 9c0 5.25 7 13 7 13s7-7.75 7-13c0-3.87-3.13-7-7-7zm0 9.5c-1.38 0-2.5-1.12-2.5-2.5s1.12-2.5 2.5-2.5 2.5 1.12 2.5 2.5-1.12 2.5-2.5 2.5z" />
-                          </svg>
-                          {incident.area.name}
-                        </span>
-                      )}
+                      <div className={styles.titleRow}>
+                        {preview && (
+                          <div className={styles.thumb}>
+                            <MediaPreview
+                              url={preview.file_url}
+                              type={preview.file_type}
+                              thumbnailUrl={preview.thumbnail_url}
+                              alt=""
+                              className={styles.thumbMedia}
+                              compact
+                            />
+                          </div>
+                        )}
+                        <div className={styles.titleText}>
+                          <span className={styles.title}>{incident.title}</span>
+                          {incident.reopened_at &&
+                            incident.status !== "resolved" && (
+                              <span className={styles.reopened}>
+                                Reopened by reporter
+                              </span>
+                            )}
+                          {incident.withdrawn_at && (
+                            <span className={styles.withdrawn}>
+                              Withdrawn by reporter
+                            </span>
+                          )}
+                          {incident.confirmations?.[0]?.count > 0 && (
+                            <span className={styles.confirmations}>
+                              +{incident.confirmations[0].count} confirmed
+                            </span>
+                          )}
+                          {incident.area && (
+                            <span className={styles.location}>
+                              <svg
+                                viewBox="0 0 24 24"
+                                fill="currentColor"
+                                width="12"
+                                height="12"
+                              >
+                                <path d="M12 2C8.13 2 5 5.13 5 9c0 5.25 7 13 7 13s7-7.75 7-13c0-3.87-3.13-7-7-7zm0 9.5c-1.38 0-2.5-1.12-2.5-2.5s1.12-2.5 2.5-2.5 2.5 1.12 2.5 2.5-1.12 2.5-2.5 2.5z" />
+                              </svg>
+                              {incident.area.name}
+                            </span>
+                          )}
+                        </div>
+                      </div>
                     </td>
                     <td>
                       <span
@@ -535,9 +721,13 @@ export default function PoliceAllIncidentsPage() {
                     <td className={styles.reporterCell}>
                       <div className={styles.reporter}>
                         <div className={styles.reporterAvatar}>
-                          {incident.user?.full_name?.charAt(0)}
+                          {incident.is_anonymous
+                            ? "?"
+                            : incident.user?.full_name?.charAt(0)}
                         </div>
-                        {incident.user?.full_name}
+                        {incident.is_anonymous
+                          ? "Anonymous"
+                          : incident.user?.full_name}
                       </div>
                     </td>
                     <td className={styles.dateCell}>
@@ -574,6 +764,17 @@ export default function PoliceAllIncidentsPage() {
                         {statusInfo.label}
                       </span>
                     </td>
+                    <td className={styles.assigneeCell}>
+                      {incident.assigned_to ? (
+                        <span className={styles.assignee}>
+                          {incident.assigned_to === currentUserId
+                            ? "You"
+                            : incident.assignee?.full_name}
+                        </span>
+                      ) : (
+                        <span className={styles.unassigned}>Unassigned</span>
+                      )}
+                    </td>
                     <td className={styles.actionsCell}>
                       <div className={styles.rowActions}>
                         <button
@@ -594,6 +795,7 @@ export default function PoliceAllIncidentsPage() {
                         </button>
                         <button
                           className={styles.actionBtn}
+                          onClick={() => setAssignTargetIds([incident.id])}
                           title="Assign officer"
                         >
                           <svg
@@ -614,6 +816,21 @@ export default function PoliceAllIncidentsPage() {
           </tbody>
         </table>
       </div>
+
+      {assignTargetIds && currentUserId && (
+        <AssignOfficerModal
+          incidentIds={assignTargetIds}
+          currentUserId={currentUserId}
+          currentAssigneeId={
+            assignTargetIds.length === 1
+              ? incidents.find((inc) => inc.id === assignTargetIds[0])
+                  ?.assigned_to
+              : null
+          }
+          onClose={() => setAssignTargetIds(null)}
+          onAssigned={handleAssigned}
+        />
+      )}
     </>
   );
 }
@@ -8,8 +8,11 @@ import ThemeToggle from "@/components/ThemeToggle";
 import styles from "./page.module.css";
 
 interface Profile {
+  id: string;
   full_name: string;
   role: string;
+  // Only on-duty officers receive auto-assigned incidents
+  is_on_duty: boolean;
 }
 
 export default function PoliceLayout({
@@ -38,7 +41,7 @@ export default function PoliceLayout({
 
       const { data: profileData } = await supabase
         .from("profiles")
-        .select("full_name, role")
+        .select("id, full_name, role, is_on_duty")
         .eq("id", user.id)
         .single();
 
@@ -59,6 +62,21 @@ export default function PoliceLayout({
     router.push("/login");
   };
 
+  const toggleOnDuty = async () => {
+    if (!profile) return;
+    const isOnDuty = !profile.is_on_duty;
+    const { error } = await supabase
+      .from("profiles")
+      .update({ is_on_duty: isOnDuty })
+      .eq("id", profile.id);
+
+    if (error) {
+      console.error("Error updating duty status:", error);
+      return;
+    }
+    setProfile({ ...profile, is_on_duty: isOnDuty });
+  };
+
   const isActive = (path: string) => {
     if (path === "/police") {
       return pathname === "/police";
@@ -157,6 +175,16 @@ export default function PoliceLayout({
           <div className={styles.themeToggleRow}>
             <ThemeToggle showLabel compact />
           </div>
+          {profile?.role === "police" && (
+            <button
+              onClick={toggleOnDuty}
+              className={`${styles.dutyToggle} ${profile.is_on_duty ? styles.onDuty : ""}`}
+              aria-pressed={profile.is_on_duty}
+            >
+              <span className={styles.dutyDot} />
+              {profile.is_on_duty ? "On duty" : "Off duty"}
+            </button>
+          )}
           <div className={styles.footerUserRow}>
             <div className={styles.userInfo}>
               <div className={styles.userAvatar}>
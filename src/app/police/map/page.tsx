@@ -1,9 +1,11 @@
 "use client";
 
-import { useEffect, useState, useRef, useCallback } from "react";
+import { useEffect, useState, useRef, useCallback, useMemo } from "react";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
 import { createClient } from "@/lib/supabase/client";
+import { GeocodeResult, searchAddress } from "@/lib/geocoding/client";
+import { isSosLive } from "@/lib/sos";
 import styles from "./page.module.css";
 
 // Leaflet types
@@ -28,11 +30,32 @@ interface Incident {
     icon: string;
     color: string;
   };
+  // Anonymous reports never show who filed them
+  is_anonymous: boolean;
   user: {
     full_name: string;
-  };
+  } | null;
+  is_sos: boolean;
+  sos_expires_at: string | null;
 }
 
+const INCIDENT_SELECT = `
+                    id,
+                    tracking_id,
+                    title,
+                    status,
+                    priority,
+                    latitude,
+                    longitude,
+                    address,
+                    created_at,
+                    is_anonymous,
+                    is_sos,
+                    sos_expires_at,
+                    user:reporter,
+                    category:categories(name, icon, color)
+                `;
+
 interface Category {
   id: string;
   name: string;
@@ -47,8 +70,13 @@ export default function PoliceMapPage() {
   const markersRef = useRef<any[]>([]);
   const markerClusterRef = useRef<any>(null);
   const tileLayerRef = useRef<any>(null);
+  const placeMarkerRef = useRef<any>(null);
+  // Live SOS markers sit outside the cluster and move in place
+  const sosLayerRef = useRef<any>(null);
+  const sosMarkersRef = useRef<Map<string, any>>(new Map());
 
   const [incidents, setIncidents] = useState<Incident[]>([]);
+  const [sosIncidents, setSosIncidents] = useState<Incident[]>([]);
   const [categories, setCategories] = useState<Category[]>([]);
   const [loading, setLoading] = useState(true);
   const [mapLoaded, setMapLoaded] = useState(false);
@@ -58,6 +86,9 @@ export default function PoliceMapPage() {
     "action_taken",
   ]);
   const [categoryFilter, setCategoryFilter] = useState<string>("all");
+  const [placeQuery, setPlaceQuery] = useState("");
+  const [placeResults, setPlaceResults] = useState<GeocodeResult[]>([]);
+  const [placeSearching, setPlaceSearching] = useState(false);
   const [showHighPriorityOnly, setShowHighPriorityOnly] = useState(false);
   const [selectedIncident, setSelectedIncident] = useState<Incident | null>(
     null,
@@ -134,22 +165,8 @@ export default function PoliceMapPage() {
 
       // Build query for incidents with location data
       let query = supabase
-        .from("incidents")
-        .select(
-          `
-                    id,
-                    tracking_id,
-                    title,
-                    status,
-                    priority,
-                    latitude,
-                    longitude,
-                    address,
-                    created_at,
-                    user:profiles!incidents_user_id_fkey(full_name),
-                    category:categories(name, icon, color)
-                `,
-        )
+        .from("police_incidents")
+        .select(INCIDENT_SELECT)
         .not("latitude", "is", null)
         .not("longitude", "is", null)
         .order("created_at", { ascending: false });
@@ -176,14 +193,96 @@ export default function PoliceMapPage() {
     loadData();
   }, [categoryFilter, loadData]);
 
-  // Filter incidents locally for status and priority
-  const filteredIncidents = incidents.filter((incident) => {
-    const matchesStatus =
-      statusFilter.length === 0 || statusFilter.includes(incident.status);
-    const matchesPriority =
-      !showHighPriorityOnly || ["urgent", "high"].includes(incident.priority);
-    return matchesStatus && matchesPriority;
-  });
+  // SOS incidents still streaming the reporter's location
+  const loadSos = useCallback(async () => {
+    const { data, error } = await supabase
+      .from("police_incidents")
+      .select(INCIDENT_SELECT)
+      .eq("is_sos", true)
+      .gt("sos_expires_at", new Date().toISOString())
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      console.error("Error loading SOS alerts:", error);
+      return;
+    }
+    setSosIncidents((data as unknown as Incident[]) || []);
+  }, [supabase]);
+
+  // Follow SOS alerts as they arrive and move
+  useEffect(() => {
+    loadSos();
+
+    const channel = supabase
+      .channel("police-map-sos")
+      .on(
+        "postgres_changes",
+        {
+          event: "INSERT",
+          schema: "public",
+          table: "incidents",
+          filter: "is_sos=eq.true",
+        },
+        () => loadSos(),
+      )
+      .on(
+        "postgres_changes",
+        {
+          event: "UPDATE",
+          schema: "public",
+          table: "incidents",
+          filter: "is_sos=eq.true",
+        },
+        (payload) => {
+          const row = payload.new as Incident;
+          const merge = (incident: Incident): Incident => ({
+            ...incident,
+            latitude: row.latitude,
+            longitude: row.longitude,
+            address: row.address,
+            status: row.status,
+            priority: row.priority,
+            sos_expires_at: row.sos_expires_at,
+          });
+
+          setSosIncidents((prev) =>
+            prev.map((i) => (i.id === row.id ? merge(i) : i)),
+          );
+          setSelectedIncident((prev) =>
+            prev && prev.id === row.id ? merge(prev) : prev,
+          );
+        },
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [supabase, loadSos]);
+
+  // Once an SOS stops streaming it goes back among the regular markers
+  useEffect(() => {
+    const timer = setInterval(() => {
+      if (sosIncidents.some((incident) => !isSosLive(incident))) {
+        setSosIncidents((prev) => prev.filter(isSosLive));
+        loadData();
+      }
+    }, 15000);
+    return () => clearInterval(timer);
+  }, [sosIncidents, loadData]);
+
+  // Filter incidents locally for status and priority. Memoised so that
+  // live SOS updates do not refit the map.
+  const filteredIncidents = useMemo(() => {
+    const liveSosIds = new Set(sosIncidents.map((incident) => incident.id));
+    return incidents.filter((incident) => {
+      const matchesStatus =
+        statusFilter.length === 0 || statusFilter.includes(incident.status);
+      const matchesPriority =
+        !showHighPriorityOnly || ["urgent", "high"].includes(incident.priority);
+      return matchesStatus && matchesPriority && !liveSosIds.has(incident.id);
+    });
+  }, [incidents, sosIncidents, statusFilter, showHighPriorityOnly]);
 
   // Initialize map when Leaflet is loaded and data is ready
   useEffect(() => {
@@ -250,9 +349,84 @@ export default function PoliceMapPage() {
       map.addLayer(markerClusterRef.current);
     }
 
+    sosLayerRef.current = window.L.layerGroup().addTo(map);
+
     updateMarkers();
+    updateSosMarkers();
   }, [mapLoaded, loading]);
 
+  useEffect(() => {
+    if (mapInstanceRef.current && mapLoaded) {
+      updateSosMarkers();
+    }
+  }, [sosIncidents, mapLoaded]);
+
+  // Add, move or drop SOS markers without touching the map view
+  function updateSosMarkers() {
+    const L = window.L;
+    const layer = sosLayerRef.current;
+    if (!layer || !L) return;
+
+    const markers = sosMarkersRef.current;
+    const visible = new Set<string>();
+
+    sosIncidents.forEach((incident) => {
+      if (incident.latitude === null || incident.longitude === null) return;
+      visible.add(incident.id);
+
+      const position: [number, number] = [
+        incident.latitude,
+        incident.longitude,
+      ];
+      const existing = markers.get(incident.id);
+      if (existing) {
+        existing.setLatLng(position);
+        existing.off("click");
+        existing.on("click", () => setSelectedIncident(incident));
+        return;
+      }
+
+      const icon = L.divIcon({
+        className: styles.customMarker,
+        html: `
+                        <div class="${styles.sosMarker}">
+                            <span>SOS</span>
+                            <span class="${styles.sosPulse}"></span>
+                        </div>
+                    `,
+        iconSize: [48, 48],
+        iconAnchor: [24, 24],
+        popupAnchor: [0, -24],
+      });
+
+      const marker = L.marker(position, { icon, zIndexOffset: 1000 });
+      marker.on("click", () => setSelectedIncident(incident));
+      marker.addTo(layer);
+      markers.set(incident.id, marker);
+    });
+
+    markers.forEach((marker, id) => {
+      if (!visible.has(id)) {
+        layer.removeLayer(marker);
+        markers.delete(id);
+      }
+    });
+  }
+
+  const locateSos = (incident: Incident) => {
+    setSelectedIncident(incident);
+    if (
+      mapInstanceRef.current &&
+      incident.latitude !== null &&
+      incident.longitude !== null
+    ) {
+      mapInstanceRef.current.setView(
+        [incident.latitude, incident.longitude],
+        16,
+      );
+    }
+  };
+
   // Update markers when filtered incidents change
   useEffect(() => {
     if (mapInstanceRef.current && mapLoaded) {
@@ -405,6 +579,39 @@ export default function PoliceMapPage() {
     }
   };
 
+  // Jump the map to a searched address
+  const handlePlaceSearch = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (placeQuery.trim().length < 3) return;
+
+    setPlaceSearching(true);
+    try {
+      setPlaceResults(await searchAddress(placeQuery.trim()));
+    } catch (error) {
+      console.error("Place search error:", error);
+      setPlaceResults([]);
+    } finally {
+      setPlaceSearching(false);
+    }
+  };
+
+  const goToPlace = (place: GeocodeResult) => {
+    if (!mapInstanceRef.current || !window.L) return;
+
+    if (placeMarkerRef.current) {
+      mapInstanceRef.current.removeLayer(placeMarkerRef.current);
+    }
+    placeMarkerRef.current = window.L.circleMarker(
+      [place.latitude, place.longitude],
+      { radius: 8, color: "#3b82f6", fillOpacity: 0.6 },
+    )
+      .bindTooltip(place.address)
+      .addTo(mapInstanceRef.current);
+
+    mapInstanceRef.current.setView([place.latitude, place.longitude], 16);
+    setPlaceResults([]);
+  };
+
   if (loading || !mapLoaded) {
     return (
       <div className={styles.contentLoading}>
@@ -429,6 +636,26 @@ export default function PoliceMapPage() {
             </span>
           </div>
           <div className={styles.mapActions}>
+            <form onSubmit={handlePlaceSearch} className={styles.placeSearch}>
+              <input
+                type="text"
+                value={placeQuery}
+                onChange={(e) => setPlaceQuery(e.target.value)}
+                placeholder={placeSearching ? "Searching..." : "Go to address"}
+                className={styles.placeSearchInput}
+              />
+              {placeResults.length > 0 && (
+                <ul className={styles.placeResults}>
+                  {placeResults.map((place) => (
+                    <li key={`${place.latitude},${place.longitude}`}>
+                      <button type="button" onClick={() => goToPlace(place)}>
+                        {place.address}
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </form>
             <button
               className={styles.mapActionBtn}
               onClick={() => {
@@ -510,6 +737,32 @@ export default function PoliceMapPage() {
           </div>
         </div>
 
+        {/* Live SOS alerts */}
+        {sosIncidents.length > 0 && (
+          <div className={styles.sosPanel}>
+            <h3>
+              <span className={styles.sosPanelDot}></span>
+              Live SOS ({sosIncidents.length})
+            </h3>
+            {sosIncidents.map((incident) => (
+              <button
+                key={incident.id}
+                className={styles.sosPanelItem}
+                onClick={() => locateSos(incident)}
+              >
+                <span className={styles.sosPanelId}>
+                  #{incident.tracking_id}
+                </span>
+                <span>
+                  {incident.latitude === null
+                    ? "Waiting for location"
+                    : formatTimeAgo(incident.created_at)}
+                </span>
+              </button>
+            ))}
+          </div>
+        )}
+
         {/* Filter Panel */}
         {showFilters && (
           <div className={styles.filterPanel}>
@@ -590,11 +843,17 @@ export default function PoliceMapPage() {
                 <span>{item.label}</span>
               </div>
             ))}
+            <div className={styles.legendItem}>
+              <span
+                className={`${styles.legendDot} ${styles.legendSos}`}
+              ></span>
+              <span>Live SOS</span>
+            </div>
           </div>
         </div>
 
         {/* No incidents message */}
-        {filteredIncidents.length === 0 && (
+        {filteredIncidents.length === 0 && sosIncidents.length === 0 && (
           <div className={styles.noIncidents}>
             <svg viewBox="0 0 24 24" fill="currentColor" width="48" height="48">
               <path d="M12 2C8.13 2 5 5.13 5 9c0 5.25 7 13 7 13s7-7.75 7-13c0-3.87-3.13-7-7-7zm0 9.5c-1.38 0-2.5-1.12-2.5-2.5s1.12-2.5 2.5-2.5 2.5 1.12 2.5 2.5-1.12 2.5-2.5 2.5z" />
@@ -620,6 +879,9 @@ export default function PoliceMapPage() {
             <span className={styles.panelTrackingId}>
               #{selectedIncident.tracking_id}
             </span>
+            {isSosLive(selectedIncident) && (
+              <span className={styles.panelSos}>SOS · LIVE</span>
+            )}
             {["urgent", "high"].includes(selectedIncident.priority) && (
               <span className={styles.panelPriority}>
                 {selectedIncident.priority.toUpperCase()}
@@ -670,7 +932,11 @@ export default function PoliceMapPage() {
               >
                 <path d="M12 12c2.21 0 4-1.79 4-4s-1.79-4-4-4-4 1.79-4 4 1.79 4 4 4zm0 2c-2.67 0-8 1.34-8 4v2h16v-2c0-2.66-5.33-4-8-4z" />
               </svg>
-              <span>{selectedIncident.user?.full_name}</span>
+              <span>
+                {selectedIncident.is_anonymous
+                  ? "Anonymous"
+                  : selectedIncident.user?.full_name}
+              </span>
             </div>
             {selectedIncident.address && (
               <div className={styles.panelRow}>
@@ -4,6 +4,8 @@ import { useEffect, useState, useCallback } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { createClient } from '@/lib/supabase/client';
+import { isSosLive } from '@/lib/sos';
+import MediaPreview from '@/components/MediaPreview';
 import styles from './page.module.css';
 
 interface Incident {
@@ -16,11 +18,15 @@ interface Incident {
     address: string;
     created_at: string;
     updated_at: string;
+    // Anonymous reports never show who filed them
+    is_anonymous: boolean;
+    is_sos: boolean;
+    sos_expires_at: string | null;
     user: {
         full_name: string;
         phone: string;
         avatar_url: string;
-    };
+    } | null;
     category: {
         name: string;
         icon: string;
@@ -29,6 +35,21 @@ interface Incident {
     area: {
         name: string;
     } | null;
+    incident_media: {
+        file_url: string;
+        file_type: string;
+        thumbnail_url: string | null;
+    }[];
+}
+
+// An SOS whose reporter is still sharing their location
+interface ActiveSos {
+    id: string;
+    tracking_id: string;
+    address: string | null;
+    latitude: number | null;
+    created_at: string;
+    sos_expires_at: string;
 }
 
 interface Category {
@@ -59,6 +80,7 @@ export default function PoliceDashboardPage() {
     const [categoryFilter, setCategoryFilter] = useState<string>('all');
     const [dateFilter, setDateFilter] = useState<DateFilter>('all');
     const [lastUpdated, setLastUpdated] = useState<Date>(new Date());
+    const [activeSos, setActiveSos] = useState<ActiveSos[]>([]);
 
     // Initial data load
     useEffect(() => {
@@ -92,7 +114,7 @@ export default function PoliceDashboardPage() {
 
             // Build query with filters
             let query = supabase
-                .from('incidents')
+                .from('police_incidents')
                 .select(`
                     id,
                     tracking_id,
@@ -103,9 +125,13 @@ export default function PoliceDashboardPage() {
                     address,
                     created_at,
                     updated_at,
-                    user:profiles!incidents_user_id_fkey(full_name, phone, avatar_url),
+                    is_anonymous,
+                    is_sos,
+                    sos_expires_at,
+                    user:reporter,
                     category:categories(name, icon, color),
-                    area:areas(name)
+                    area:areas(name),
+                    incident_media(file_url, file_type, thumbnail_url)
                 `)
                 .order('created_at', { ascending: false });
 
@@ -132,11 +158,11 @@ export default function PoliceDashboardPage() {
             today.setHours(0, 0, 0, 0);
 
             const [totalRes, pendingRes, inProgressRes, resolvedRes, todayRes] = await Promise.all([
-                supabase.from('incidents').select('*', { count: 'exact', head: true }),
-                supabase.from('incidents').select('*', { count: 'exact', head: true }).eq('status', 'submitted'),
-                supabase.from('incidents').select('*', { count: 'exact', head: true }).in('status', ['in_review', 'action_taken']),
-                supabase.from('incidents').select('*', { count: 'exact', head: true }).eq('status', 'resolved'),
-                supabase.from('incidents').select('*', { count: 'exact', head: true }).gte('created_at', today.toISOString()),
+                supabase.from('incidents').select('id', { count: 'exact', head: true }),
+                supabase.from('incidents').select('id', { count: 'exact', head: true }).eq('status', 'submitted'),
+                supabase.from('incidents').select('id', { count: 'exact', head: true }).in('status', ['in_review', 'action_taken']),
+                supabase.from('incidents').select('id', { count: 'exact', head: true }).eq('status', 'resolved'),
+                supabase.from('incidents').select('id', { count: 'exact', head: true }).gte('created_at', today.toISOString()),
             ]);
 
             setStats({
@@ -162,6 +188,54 @@ export default function PoliceDashboardPage() {
         loadData();
     }, [statusFilter, categoryFilter, dateFilter, loadData]);
 
+    const loadActiveSos = useCallback(async () => {
+        const { data, error } = await supabase
+            .from('incidents')
+            .select('id, tracking_id, address, latitude, created_at, sos_expires_at')
+            .eq('is_sos', true)
+            .gt('sos_expires_at', new Date().toISOString())
+            .order('created_at', { ascending: false });
+
+        if (error) {
+            console.error('Error loading SOS alerts:', error);
+            return;
+        }
+        setActiveSos((data as ActiveSos[]) || []);
+    }, [supabase]);
+
+    // New reports refresh the list; SOS alerts also go to the banner and
+    // stay there while the reporter is sharing their location
+    useEffect(() => {
+        loadActiveSos();
+
+        const channel = supabase
+            .channel('police-dashboard-incidents')
+            .on(
+                'postgres_changes',
+                { event: 'INSERT', schema: 'public', table: 'incidents' },
+                (payload) => {
+                    loadData();
+                    if ((payload.new as Incident).is_sos) loadActiveSos();
+                }
+            )
+            .on(
+                'postgres_changes',
+                { event: 'UPDATE', schema: 'public', table: 'incidents', filter: 'is_sos=eq.true' },
+                () => loadActiveSos()
+            )
+            .subscribe();
+
+        // Drop alerts whose sharing period has run out
+        const timer = setInterval(() => {
+            setActiveSos((prev) => prev.filter((sos) => new Date(sos.sos_expires_at).getTime() > Date.now()));
+        }, 30000);
+
+        return () => {
+            supabase.removeChannel(channel);
+            clearInterval(timer);
+        };
+    }, [supabase, loadData, loadActiveSos]);
+
     const formatTimeAgo = (date: string) => {
         const now = new Date();
         const then = new Date(date);
@@ -248,6 +322,26 @@ export default function PoliceDashboardPage() {
                 </div>
             </header>
 
+            {/* Live SOS alerts */}
+            {activeSos.length > 0 && (
+                <div className={styles.sosBanner}>
+                    <div className={styles.sosBannerHeader}>
+                        <span className={styles.sosBannerDot}></span>
+                        {activeSos.length} active SOS {activeSos.length === 1 ? 'alert' : 'alerts'}
+                        <Link href="/police/map" className={styles.sosMapLink}>
+                            Track on map →
+                        </Link>
+                    </div>
+                    {activeSos.map((sos) => (
+                        <Link key={sos.id} href={`/police/incident/${sos.id}`} className={styles.sosBannerItem}>
+                            <span className={styles.trackingId}>#{sos.tracking_id}</span>
+                            <span className={styles.sosBannerAddress}>{sos.address || (sos.latitude !== null ? 'Live location on map' : 'Waiting for location')}</span>
+                            <span className={styles.timeAgo}>{formatTimeAgo(sos.created_at)}</span>
+                        </Link>
+                    ))}
+                </div>
+            )}
+
             {/* Stats Cards */}
             <div className={styles.statsGrid}>
                 <div
@@ -414,6 +508,7 @@ export default function PoliceDashboardPage() {
                         {incidents.map((incident) => {
                             const statusInfo = getStatusInfo(incident.status);
                             const priorityBadge = getPriorityBadge(incident.priority);
+                            const preview = incident.incident_media?.find((m) => m.file_type !== 'audio');
 
                             return (
                                 <Link
@@ -424,6 +519,11 @@ export default function PoliceDashboardPage() {
                                     <div className={styles.incidentHeader}>
                                         <div className={styles.incidentMeta}>
                                             <span className={styles.trackingId}>#{incident.tracking_id}</span>
+                                            {incident.is_sos && (
+                                                <span className={`${styles.priorityBadge} ${styles.sos}`}>
+                                                    {isSosLive(incident) ? 'SOS · LIVE' : 'SOS'}
+                                                </span>
+                                            )}
                                             {priorityBadge && (
                                                 <span className={`${styles.priorityBadge} ${priorityBadge.className}`}>
                                                     {priorityBadge.label}
@@ -467,13 +567,29 @@ export default function PoliceDashboardPage() {
                                         </div>
                                     </div>
 
-                                    <h3 className={styles.incidentTitle}>{incident.title}</h3>
+                                    <div className={styles.incidentBody}>
+                                        <div className={styles.incidentText}>
+                                            <h3 className={styles.incidentTitle}>{incident.title}</h3>
 
-                                    {incident.description && (
-                                        <p className={styles.incidentDesc}>
-                                            {incident.description}
-                                        </p>
-                                    )}
+                                            {incident.description && (
+                                                <p className={styles.incidentDesc}>
+                                                    {incident.description}
+                                                </p>
+                                            )}
+                                        </div>
+                                        {preview && (
+                                            <div className={styles.incidentThumb}>
+                                                <MediaPreview
+                                                    url={preview.file_url}
+                                                    type={preview.file_type}
+                                                    thumbnailUrl={preview.thumbnail_url}
+                                                    alt=""
+                                                    className={styles.incidentThumbMedia}
+                                                    compact
+                                                />
+                                            </div>
+                                        )}
+                                    </div>
 
                                     <div className={styles.incidentDetails}>
                                         <span
@@ -495,9 +611,9 @@ export default function PoliceDashboardPage() {
                                     <div className={styles.incidentFooter}>
                                         <div className={styles.reporter}>
                                             <div className={styles.reporterAvatar}>
-                                                {incident.user?.full_name?.charAt(0)}
+                                                {incident.is_anonymous ? '?' : incident.user?.full_name?.charAt(0)}
                                             </div>
-                                            <span>{incident.user?.full_name}</span>
+                                            <span>{incident.is_anonymous ? 'Anonymous' : incident.user?.full_name}</span>
                                         </div>
                                         <span className={styles.timeAgo}>{formatTimeAgo(incident.created_at)}</span>
                                     </div>
@@ -1,10 +1,12 @@
 "use client";
 
 import { useRouter } from "next/navigation";
+import { useI18n } from "@/lib/I18nContext";
 import styles from "./page.module.css";
 
 export default function PrivacyPage() {
   const router = useRouter();
+  const { t, messages, formatDate } = useI18n();
 
   return (
     <main className={styles.page}>
@@ -14,12 +16,12 @@ export default function PrivacyPage() {
             <path d="M20 11H7.83l5.59-5.59L12 4l-8 8 8 8 1.41-1.41L7.83 13H20v-2z" />
           </svg>
         </button>
-        <h1 className={styles.title}>Privacy</h1>
+        <h1 className={styles.title}>{t("privacy.title")}</h1>
       </div>
 
       <div className={styles.content}>
         <section className={styles.section}>
-          <h2 className={styles.sectionTitle}>Data We Collect</h2>
+          <h2 className={styles.sectionTitle}>{t("privacy.dataWeCollect")}</h2>
           <div className={styles.card}>
             <div className={styles.item}>
               <div className={styles.itemIcon}>
@@ -33,11 +35,8 @@ export default function PrivacyPage() {
                 </svg>
               </div>
               <div className={styles.itemBody}>
-                <p className={styles.itemTitle}>Location Data</p>
-                <p className={styles.itemDesc}>
-                  Used only when submitting incident reports to tag their
-                  location. Never tracked in the background.
-                </p>
+                <p className={styles.itemTitle}>{t("privacy.locationTitle")}</p>
+                <p className={styles.itemDesc}>{t("privacy.locationDesc")}</p>
               </div>
             </div>
             <div className={styles.item}>
@@ -52,10 +51,11 @@ export default function PrivacyPage() {
                 </svg>
               </div>
               <div className={styles.itemBody}>
-                <p className={styles.itemTitle}>Contact Information</p>
+                <p className={styles.itemTitle}>
+                  {t("privacy.contactInfoTitle")}
+                </p>
                 <p className={styles.itemDesc}>
-                  Your name, email, and phone number are collected during
-                  registration for account management.
+                  {t("privacy.contactInfoDesc")}
                 </p>
               </div>
             </div>
@@ -71,92 +71,46 @@ export default function PrivacyPage() {
                 </svg>
               </div>
               <div className={styles.itemBody}>
-                <p className={styles.itemTitle}>Incident Reports</p>
-                <p className={styles.itemDesc}>
-                  Reports you submit including descriptions, photos, and
-                  location are stored securely and shared with relevant
-                  authorities.
-                </p>
+                <p className={styles.itemTitle}>{t("privacy.reportsTitle")}</p>
+                <p className={styles.itemDesc}>{t("privacy.reportsDesc")}</p>
               </div>
             </div>
           </div>
         </section>
 
         <section className={styles.section}>
-          <h2 className={styles.sectionTitle}>How We Use Your Data</h2>
+          <h2 className={styles.sectionTitle}>{t("privacy.howWeUse")}</h2>
           <div className={styles.card}>
-            <p className={styles.paragraph}>
-              Your data is used solely to operate Alerkaro's public safety
-              features. We do not sell your personal information to third
-              parties. Incident data is shared with verified law enforcement
-              agencies to enable faster response times.
-            </p>
-            <p className={styles.paragraph}>
-              Aggregated and anonymised data may be used to improve the platform
-              and generate community safety insights.
-            </p>
+            <p className={styles.paragraph}>{t("privacy.usage")}</p>
+            <p className={styles.paragraph}>{t("privacy.aggregated")}</p>
           </div>
         </section>
 
         <section className={styles.section}>
-          <h2 className={styles.sectionTitle}>Your Rights</h2>
+          <h2 className={styles.sectionTitle}>{t("privacy.yourRights")}</h2>
           <div className={styles.card}>
-            <div className={styles.rightRow}>
-              <svg
-                viewBox="0 0 24 24"
-                fill="currentColor"
-                width="18"
-                height="18"
-                className={styles.rightIcon}
-              >
-                <path d="M9 16.2L4.8 12l-1.4 1.4L9 19 21 7l-1.4-1.4L9 16.2z" />
-              </svg>
-              <span>Request a copy of your data</span>
-            </div>
-            <div className={styles.rightRow}>
-              <svg
-                viewBox="0 0 24 24"
-                fill="currentColor"
-                width="18"
-                height="18"
-                className={styles.rightIcon}
-              >
-                <path d="M9 16.2L4.8 12l-1.4 1.4L9 19 21 7l-1.4-1.4L9 16.2z" />
-              </svg>
-              <span>Correct inaccurate information</span>
-            </div>
-            <div className={styles.rightRow}>
-              <svg
-                viewBox="0 0 24 24"
-                fill="currentColor"
-                width="18"
-                height="18"
-                className={styles.rightIcon}
-              >
-                <path d="M9 16.2L4.8 12l-1.4 1.4L9 19 21 7l-1.4-1.4L9 16.2z" />
-              </svg>
-              <span>Delete your account and associated data</span>
-            </div>
-            <div className={styles.rightRow}>
-              <svg
-                viewBox="0 0 24 24"
-                fill="currentColor"
-                width="18"
-                height="18"
-                className={styles.rightIcon}
-              >
-                <path d="M9 16.2L4.8 12l-1.4 1.4L9 19 21 7l-1.4-1.4L9 16.2z" />
-              </svg>
-              <span>Opt out of non-essential communications</span>
-            </div>
+            {messages.privacy.rights.map((right) => (
+              <div key={right} className={styles.rightRow}>
+                <svg
+                  viewBox="0 0 24 24"
+                  fill="currentColor"
+                  width="18"
+                  height="18"
+                  className={styles.rightIcon}
+                >
+                  <path d="M9 16.2L4.8 12l-1.4 1.4L9 19 21 7l-1.4-1.4L9 16.2z" />
+                </svg>
+                <span>{right}</span>
+              </div>
+            ))}
           </div>
         </section>
 
         <section className={styles.section}>
-          <h2 className={styles.sectionTitle}>Contact</h2>
+          <h2 className={styles.sectionTitle}>{t("privacy.contact")}</h2>
           <div className={styles.card}>
             <p className={styles.paragraph}>
-              For any privacy-related concerns, reach us at{" "}
+              {t("privacy.contactText")}{" "}
               <a href="mailto:alertkaro.tech@gmail.com" className={styles.link}>
                 alertkaro.tech@gmail.com
               </a>
@@ -164,7 +118,14 @@ export default function PrivacyPage() {
           </div>
         </section>
 
-        <p className={styles.lastUpdated}>Last updated: January 2026</p>
+        <p className={styles.lastUpdated}>
+          {t("privacy.lastUpdated", {
+            date: formatDate(new Date(2026, 0), {
+              month: "long",
+              year: "numeric",
+            }),
+          })}
+        </p>
       </div>
     </main>
   );
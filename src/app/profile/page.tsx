@@ -3,6 +3,8 @@
 import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
 import { createClient } from "@/lib/supabase/client";
+import { LOCALES, Locale } from "@/lib/i18n";
+import { useI18n } from "@/lib/I18nContext";
 import { useTheme } from "@/lib/ThemeContext";
 import BottomNav from "@/components/BottomNav";
 import ThemeToggle from "@/components/ThemeToggle";
@@ -27,10 +29,12 @@ interface Stats {
 export default function ProfilePage() {
   const router = useRouter();
   const supabase = createClient();
+  const { t, locale, setLocale, formatDate, formatNumber } = useI18n();
 
   const [profile, setProfile] = useState<Profile | null>(null);
   const [stats, setStats] = useState<Stats>({ total: 0, resolved: 0 });
   const [loading, setLoading] = useState(true);
+  const [languageError, setLanguageError] = useState(false);
 
   useEffect(() => {
     async function loadProfile() {
@@ -55,14 +59,12 @@ export default function ProfilePage() {
 
         // Get stats
         const { count: total } = await supabase
-          .from("incidents")
-          .select("*", { count: "exact", head: true })
-          .eq("user_id", user.id);
+          .from("my_incidents")
+          .select("id", { count: "exact", head: true });
 
         const { count: resolved } = await supabase
-          .from("incidents")
-          .select("*", { count: "exact", head: true })
-          .eq("user_id", user.id)
+          .from("my_incidents")
+          .select("id", { count: "exact", head: true })
           .eq("status", "resolved");
 
         setStats({ total: total || 0, resolved: resolved || 0 });
@@ -81,11 +83,28 @@ export default function ProfilePage() {
     router.push("/login");
   };
 
-  const formatDate = (date: string) => {
-    return new Date(date).toLocaleDateString("en-IN", {
-      month: "long",
-      year: "numeric",
-    });
+  const handleLanguageChange = async (next: Locale) => {
+    setLanguageError(false);
+    try {
+      await setLocale(next);
+    } catch (error) {
+      console.error("Error saving language:", error);
+      setLanguageError(true);
+    }
+  };
+
+  const roleLabel = (role: string | undefined) => {
+    switch (role) {
+      case "police":
+        return t("profile.roles.police");
+      case "admin":
+        return t("profile.roles.admin");
+      case "citizen":
+      case undefined:
+        return t("profile.roles.citizen");
+      default:
+        return role;
+    }
   };
 
   if (loading) {
@@ -115,23 +134,27 @@ export default function ProfilePage() {
 
         <div className={styles.statsRow}>
           <div className={styles.stat}>
-            <span className={styles.statValue}>{stats.total}</span>
-            <span className={styles.statLabel}>Reports</span>
+            <span className={styles.statValue}>
+              {formatNumber(stats.total)}
+            </span>
+            <span className={styles.statLabel}>{t("profile.reports")}</span>
           </div>
           <div className={styles.statDivider}></div>
           <div className={styles.stat}>
-            <span className={styles.statValue}>{stats.resolved}</span>
-            <span className={styles.statLabel}>Resolved</span>
+            <span className={styles.statValue}>
+              {formatNumber(stats.resolved)}
+            </span>
+            <span className={styles.statLabel}>{t("profile.resolved")}</span>
           </div>
           <div className={styles.statDivider}></div>
           <div className={styles.stat}>
             <span className={styles.statValue}>
-              {stats.total > 0
-                ? Math.round((stats.resolved / stats.total) * 100)
-                : 0}
-              %
+              {formatNumber(
+                stats.total > 0 ? stats.resolved / stats.total : 0,
+                { style: "percent", maximumFractionDigits: 0 },
+              )}
             </span>
-            <span className={styles.statLabel}>Success</span>
+            <span className={styles.statLabel}>{t("profile.success")}</span>
           </div>
         </div>
       </div>
@@ -139,24 +162,33 @@ export default function ProfilePage() {
       <div className={styles.content}>
         {/* Info Section */}
         <section className={styles.section}>
-          <h2 className={styles.sectionTitle}>Account Info</h2>
+          <h2 className={styles.sectionTitle}>{t("profile.accountInfo")}</h2>
           <div className={styles.infoCard}>
             <div className={styles.infoRow}>
-              <span className={styles.infoLabel}>Phone</span>
+              <span className={styles.infoLabel}>{t("profile.phone")}</span>
               <span className={styles.infoValue}>
-                {profile?.phone || "Not set"}
+                {profile?.phone || t("profile.notSet")}
               </span>
             </div>
             <div className={styles.infoRow}>
-              <span className={styles.infoLabel}>Member Since</span>
+              <span className={styles.infoLabel}>
+                {t("profile.memberSince")}
+              </span>
               <span className={styles.infoValue}>
-                {profile?.created_at ? formatDate(profile.created_at) : "-"}
+                {profile?.created_at
+                  ? formatDate(profile.created_at, {
+                      month: "long",
+                      year: "numeric",
+                    })
+                  : "-"}
               </span>
             </div>
             <div className={styles.infoRow}>
-              <span className={styles.infoLabel}>Account Type</span>
+              <span className={styles.infoLabel}>
+                {t("profile.accountType")}
+              </span>
               <span className={styles.roleBadge}>
-                {profile?.role || "Citizen"}
+                {roleLabel(profile?.role)}
               </span>
             </div>
           </div>
@@ -164,7 +196,7 @@ export default function ProfilePage() {
 
         {/* Settings Section */}
         <section className={styles.section}>
-          <h2 className={styles.sectionTitle}>Settings</h2>
+          <h2 className={styles.sectionTitle}>{t("profile.settings")}</h2>
           <div className={styles.menuCard}>
             <div className={styles.menuItem}>
               <svg
@@ -175,9 +207,34 @@ export default function ProfilePage() {
               >
                 <path d="M20 8.69V4h-4.69L12 .69 8.69 4H4v4.69L.69 12 4 15.31V20h4.69L12 23.31 15.31 20H20v-4.69L23.31 12 20 8.69zM12 18c-3.31 0-6-2.69-6-6s2.69-6 6-6 6 2.69 6 6-2.69 6-6 6zm0-10c-2.21 0-4 1.79-4 4s1.79 4 4 4 4-1.79 4-4-1.79-4-4-4z" />
               </svg>
-              <span>Appearance</span>
+              <span>{t("profile.appearance")}</span>
               <ThemeToggle compact />
             </div>
+            <label className={styles.menuItem}>
+              <svg
+                viewBox="0 0 24 24"
+                fill="currentColor"
+                width="20"
+                height="20"
+              >
+                <path d="M12.87 15.07l-2.54-2.51.03-.03A17.52 17.52 0 0014.07 6H17V4h-7V2H8v2H1v2h11.17C11.5 7.92 10.44 9.75 9 11.35 8.07 10.32 7.3 9.19 6.69 8h-2c.73 1.63 1.73 3.17 2.98 4.56l-5.09 5.02L4 19l5-5 3.11 3.11.76-2.04zM18.5 10h-2L12 22h2l1.12-3h4.75L21 22h2l-4.5-12zm-2.62 7l1.62-4.33L19.12 17h-3.24z" />
+              </svg>
+              <span>{t("profile.language")}</span>
+              <select
+                value={locale}
+                onChange={(e) => handleLanguageChange(e.target.value as Locale)}
+                className={styles.languageSelect}
+              >
+                {LOCALES.map((option) => (
+                  <option key={option.code} value={option.code}>
+                    {option.nativeLabel}
+                  </option>
+                ))}
+              </select>
+            </label>
+            {languageError && (
+              <p className={styles.menuError}>{t("profile.languageError")}</p>
+            )}
             <button className={styles.menuItem}>
               <svg
                 viewBox="0 0 24 24"
@@ -187,7 +244,7 @@ export default function ProfilePage() {
               >
                 <path d="M12 22c1.1 0 2-.9 2-2h-4c0 1.1.89 2 2 2zm6-6v-5c0-3.07-1.64-5.64-4.5-6.32V4c0-.83-.67-1.5-1.5-1.5s-1.5.67-1.5 1.5v.68C7.63 5.36 6 7.92 6 11v5l-2 2v1h16v-1l-2-2z" />
               </svg>
-              <span>Notifications</span>
+              <span>{t("profile.notifications")}</span>
               <svg
                 viewBox="0 0 24 24"
                 fill="currentColor"
@@ -210,7 +267,7 @@ export default function ProfilePage() {
               >
                 <path d="M12 1L3 5v6c0 5.55 3.84 10.74 9 12 5.16-1.26 9-6.45 9-12V5l-9-4z" />
               </svg>
-              <span>Privacy</span>
+              <span>{t("profile.privacy")}</span>
               <svg
                 viewBox="0 0 24 24"
                 fill="currentColor"
@@ -233,7 +290,7 @@ export default function ProfilePage() {
               >
                 <path d="M11.99 2C6.47 2 2 6.48 2 12s4.47 10 9.99 10C17.52 22 22 17.52 22 12S17.52 2 11.99 2zM12 20c-4.42 0-8-3.58-8-8s3.58-8 8-8 8 3.58 8 8-3.58 8-8 8zm.5-13H11v6l5.25 3.15.75-1.23-4.5-2.67z" />
               </svg>
-              <span>Help & Support</span>
+              <span>{t("profile.help")}</span>
               <svg
                 viewBox="0 0 24 24"
                 fill="currentColor"
@@ -252,7 +309,7 @@ export default function ProfilePage() {
           <svg viewBox="0 0 24 24" fill="currentColor" width="20" height="20">
             <path d="M17 7l-1.41 1.41L18.17 11H8v2h10.17l-2.58 2.58L17 17l5-5zM4 5h8V3H4c-1.1 0-2 .9-2 2v14c0 1.1.9 2 2 2h8v-2H4V5z" />
           </svg>
-          Sign Out
+          {t("profile.signOut")}
         </button>
       </div>
 
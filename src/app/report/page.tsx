@@ -3,6 +3,54 @@
 import { useEffect, useState, useRef, useCallback } from "react";
 import { useRouter } from "next/navigation";
 import { createClient } from "@/lib/supabase/client";
+import { TranslatableName } from "@/lib/i18n";
+import { useI18n } from "@/lib/I18nContext";
+import { useOutbox } from "@/lib/OutboxContext";
+import { processImage, processMediaFile } from "@/lib/mediaProcessing";
+import type { ExifMetadata } from "@/lib/exif";
+import {
+  ReportDraft,
+  deleteDraft,
+  draftMediaToFile,
+  getDraft,
+  listDrafts,
+  saveDraft,
+} from "@/lib/drafts";
+import {
+  CreatedIncident,
+  IncidentSubmissionError,
+  ReportPayload,
+  StagedMedia,
+  isNetworkError,
+  stageReportMedia,
+  submitIncident,
+  uploadIncidentMedia,
+} from "@/lib/reportSubmission";
+import {
+  DESCRIPTION_MAX_LENGTH,
+  FieldErrors,
+  ReportField,
+  TITLE_MAX_LENGTH,
+  ValidationError,
+  validateReport,
+} from "@/lib/incidentValidation";
+import {
+  CategoryField,
+  DEFAULT_TEXT_MAX_LENGTH,
+  normalizeFieldValues,
+  parseCategoryFields,
+} from "@/lib/categoryFields";
+import {
+  PossibleDuplicate,
+  confirmIncident,
+  findPossibleDuplicates,
+} from "@/lib/duplicates";
+import {
+  GeocodeResult,
+  formatCoordinates,
+  reverseGeocode,
+  searchAddress,
+} from "@/lib/geocoding/client";
 import styles from "./page.module.css";
 
 // Leaflet types
@@ -12,22 +60,79 @@ declare global {
   }
 }
 
-interface Category {
+interface Category extends TranslatableName {
   id: string;
-  name: string;
   icon: string;
   color: string;
+  // Extra details this category asks for
+  form_fields: CategoryField[];
+}
+
+interface MediaItem {
+  id: string;
+  file: File;
+  preview: string;
+  // EXIF details read from picked photos before they were sanitised
+  metadata: ExifMetadata | null;
+}
+
+interface MediaUploadState {
+  status: "uploading" | "done" | "failed";
+  progress: number;
+  error?: string;
 }
 
 interface LocationData {
   latitude: number;
   longitude: number;
   address: string;
+  // "device" for a GPS fix, "manual" once the reporter moved the pin or
+  // picked an address
+  source: "device" | "manual";
+}
+
+// Voice note containers in order of preference; browsers support different
+// subsets (Safari only records audio/mp4)
+const AUDIO_MIME_TYPES = [
+  "audio/webm;codecs=opus",
+  "audio/webm",
+  "audio/mp4",
+  "audio/ogg",
+];
+
+const MIC_ICON_PATH =
+  "M12 14c1.66 0 3-1.34 3-3V5c0-1.66-1.34-3-3-3S9 3.34 9 5v6c0 1.66 1.34 3 3 3zm5.3-3c0 3-2.54 5.1-5.3 5.1S6.7 14 6.7 11H5c0 3.41 2.72 6.23 6 6.72V21h2v-3.28c3.28-.48 6-3.3 6-6.72h-1.7z";
+
+function audioExtension(type: string) {
+  if (type === "audio/mp4") return "m4a";
+  if (type === "audio/ogg") return "ogg";
+  return "webm";
+}
+
+// Video containers in order of preference. MP4 plays everywhere, including
+// police and citizen devices on Safari; Chrome and Firefox usually only
+// record WebM.
+const VIDEO_MIME_TYPES = [
+  "video/mp4;codecs=avc1,mp4a",
+  "video/mp4",
+  "video/webm;codecs=vp9,opus",
+  "video/webm;codecs=vp8,opus",
+  "video/webm",
+];
+
+function videoExtension(type: string) {
+  return type === "video/mp4" ? "mp4" : "webm";
 }
 
 export default function ReportPage() {
   const router = useRouter();
   const supabase = createClient();
+  const { queueReport } = useOutbox();
+  const { t, formatDate, formatNumber, categoryName } = useI18n();
+
+  // Validation errors, from this page or the API, are message keys
+  const errorText = (error: ValidationError) =>
+    t(`validation.${error.code}`, error.params);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
@@ -40,13 +145,44 @@ export default function ReportPage() {
   const [selectedCategory, setSelectedCategory] = useState<string>("");
   const [title, setTitle] = useState("");
   const [description, setDescription] = useState("");
-  const [mediaFiles, setMediaFiles] = useState<File[]>([]);
-  const [mediaPreviews, setMediaPreviews] = useState<string[]>([]);
+  const [isAnonymous, setIsAnonymous] = useState(false);
+  // Answers to the selected category's fields as typed, by field key
+  const [fieldInputs, setFieldInputs] = useState<
+    Record<string, string | boolean>
+  >({});
+  const [mediaItems, setMediaItems] = useState<MediaItem[]>([]);
+  const [uploadStates, setUploadStates] = useState<
+    Record<string, MediaUploadState>
+  >({});
+  // Identifies this report to POST /api/incidents; its media is staged in
+  // storage under it, and resubmitting never files a second incident
+  const [submissionId] = useState(() => crypto.randomUUID());
+  // Media already uploaded for this submission, by media item id
+  const stagedMediaRef = useRef<Record<string, StagedMedia>>({});
+  // Staged files sit in a folder chosen by anonymity (see reporterFolder),
+  // so changing it means uploading them again
+  useEffect(() => {
+    stagedMediaRef.current = {};
+  }, [isAnonymous]);
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+  // Set once a "me too" confirmation exists, so retrying failed uploads
+  // attaches them to the confirmed incident
+  const [createdIncident, setCreatedIncident] =
+    useState<CreatedIncident | null>(null);
+  // Open reports of the same issue found nearby, offered before submitting,
+  // and the "me too" confirmation when the reporter picked one of them
+  const [duplicates, setDuplicates] = useState<PossibleDuplicate[]>([]);
+  const [confirmationId, setConfirmationId] = useState<string | null>(null);
   const [location, setLocation] = useState<LocationData | null>(null);
   const [locationLoading, setLocationLoading] = useState(false);
   const [locationError, setLocationError] = useState("");
   const [showManualLocation, setShowManualLocation] = useState(false);
   const [manualAddress, setManualAddress] = useState("");
+  const [addressResults, setAddressResults] = useState<GeocodeResult[]>([]);
+  const [addressSearching, setAddressSearching] = useState(false);
+  const [addressSearched, setAddressSearched] = useState(false);
+  // Ignores reverse-geocode answers for pin positions already dragged past
+  const geocodeRequestRef = useRef(0);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState("");
   const [showCamera, setShowCamera] = useState(false);
@@ -60,7 +196,20 @@ export default function ReportPage() {
   const [recordingTime, setRecordingTime] = useState(0);
   const videoRecorderRef = useRef<HTMLVideoElement>(null);
   const recordingTimerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  // Voice note recording state; shares the recorder and timer above
+  const [showAudioRecorder, setShowAudioRecorder] = useState(false);
+  const [audioStream, setAudioStream] = useState<MediaStream | null>(null);
+  // Voice note currently playing in the media strip
+  const [playingId, setPlayingId] = useState<string | null>(null);
+  const audioPreviewRef = useRef<HTMLAudioElement | null>(null);
   const [showAddMenu, setShowAddMenu] = useState(false);
+  const [queuedOffline, setQueuedOffline] = useState(false);
+  // Draft autosave: the signed-in user, the draft being edited, and an older
+  // draft offered for resuming when the page opens empty
+  const [userId, setUserId] = useState<string | null>(null);
+  const [pendingDraft, setPendingDraft] = useState<ReportDraft | null>(null);
+  const draftRef = useRef<{ id: string; createdAt: string } | null>(null);
+  const draftClosedRef = useRef(false);
 
   // Load Leaflet CSS and JS
   useEffect(() => {
@@ -114,16 +263,20 @@ export default function ReportPage() {
 
       locationMapInstanceRef.current = map;
     } else {
-      // Update map view
+      // Update map view, keeping the reporter's zoom level
       locationMapInstanceRef.current.setView(
         [location.latitude, location.longitude],
-        16,
+        locationMapInstanceRef.current.getZoom(),
       );
     }
 
-    // Remove existing marker
+    // Move the existing marker rather than recreating it mid-drag
     if (locationMarkerRef.current) {
-      locationMapInstanceRef.current.removeLayer(locationMarkerRef.current);
+      locationMarkerRef.current.setLatLng([
+        location.latitude,
+        location.longitude,
+      ]);
+      return;
     }
 
     // Create custom marker icon
@@ -137,11 +290,37 @@ export default function ReportPage() {
       iconAnchor: [15, 15],
     });
 
-    // Add marker
+    // Add marker; dragging it marks the location as manually chosen
     const marker = L.marker([location.latitude, location.longitude], {
       icon: markerIcon,
+      draggable: true,
     }).addTo(locationMapInstanceRef.current);
 
+    marker.on("dragend", async () => {
+      const { lat, lng } = marker.getLatLng();
+      const request = ++geocodeRequestRef.current;
+      setLocation({
+        latitude: lat,
+        longitude: lng,
+        address: formatCoordinates(lat, lng),
+        source: "manual",
+      });
+
+      try {
+        const address = await reverseGeocode(lat, lng);
+        if (address && request === geocodeRequestRef.current) {
+          setLocation({
+            latitude: lat,
+            longitude: lng,
+            address,
+            source: "manual",
+          });
+        }
+      } catch (err) {
+        console.error("Reverse geocode error:", err);
+      }
+    });
+
     locationMarkerRef.current = marker;
   }, [mapLoaded, location]);
 
@@ -150,34 +329,190 @@ export default function ReportPage() {
     async function loadCategories() {
       const { data } = await supabase
         .from("categories")
-        .select("id, name, icon, color")
+        .select("id, name, name_translations, icon, color, form_fields")
         .eq("is_active", true)
         .order("sort_order");
 
       if (data) {
-        setCategories(data);
+        setCategories(
+          data.map((category) => ({
+            ...category,
+            form_fields: parseCategoryFields(category.form_fields),
+          })),
+        );
         if (data.length > 0) {
-          setSelectedCategory(data[0].id);
+          // Keep a category restored from a draft
+          setSelectedCategory((current) => current || data[0].id);
         }
       }
     }
     loadCategories();
   }, [supabase]);
 
-  // Get location
-  const getLocation = useCallback(async () => {
-    // Destroy existing map instance before showing loading state
+  const restoreDraft = useCallback((draft: ReportDraft) => {
+    draftRef.current = { id: draft.id, createdAt: draft.createdAt };
+    setTitle(draft.title);
+    setDescription(draft.description);
+    setIsAnonymous(draft.isAnonymous);
+    setFieldInputs(draft.fieldValues);
+    if (draft.categoryId) setSelectedCategory(draft.categoryId);
+    setLocation(draft.location);
+    setMediaItems(
+      draft.media.map((media) => {
+        const file = draftMediaToFile(media);
+        return {
+          id: media.id,
+          file,
+          preview: URL.createObjectURL(file),
+          metadata: media.metadata,
+        };
+      }),
+    );
+    if (draft.media.length > 0) setStep("details");
+    setPendingDraft(null);
+  }, []);
+
+  // Open the draft linked from the dashboard, or offer the latest one
+  useEffect(() => {
+    async function loadDrafts() {
+      const {
+        data: { session },
+      } = await supabase.auth.getSession();
+      if (!session) return;
+      setUserId(session.user.id);
+
+      try {
+        const draftId = new URLSearchParams(window.location.search).get(
+          "draft",
+        );
+        if (draftId) {
+          const draft = await getDraft(draftId);
+          if (draft && draft.userId === session.user.id) {
+            restoreDraft(draft);
+            return;
+          }
+        }
+
+        const drafts = await listDrafts(session.user.id);
+        setPendingDraft(drafts[0] ?? null);
+      } catch (err) {
+        console.error("Error reading drafts:", err);
+      }
+    }
+    loadDrafts();
+  }, [supabase, restoreDraft]);
+
+  // Autosave the report as a draft while it is being filled in
+  useEffect(() => {
+    if (!userId || createdIncident || queuedOffline) return;
+
+    const hasContent =
+      mediaItems.length > 0 || title.trim() !== "" || description.trim() !== "";
+
+    if (!hasContent) {
+      if (draftRef.current) {
+        deleteDraft(draftRef.current.id).catch((err) =>
+          console.error("Error deleting draft:", err),
+        );
+        draftRef.current = null;
+      }
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      if (draftClosedRef.current) return;
+
+      const now = new Date().toISOString();
+      if (!draftRef.current) {
+        draftRef.current = { id: crypto.randomUUID(), createdAt: now };
+      }
+      const category = categories.find((c) => c.id === selectedCategory);
+
+      saveDraft({
+        id: draftRef.current.id,
+        userId,
+        title,
+        description,
+        categoryId: selectedCategory,
+        category: category
+          ? {
+              name: category.name,
+              name_translations: category.name_translations,
+              color: category.color,
+            }
+          : null,
+        location,
+        isAnonymous,
+        fieldValues: fieldInputs,
+        media: mediaItems.map((item) => ({
+          id: item.id,
+          name: item.file.name,
+          type: item.file.type,
+          blob: item.file,
+          metadata: item.metadata,
+        })),
+        createdAt: draftRef.current.createdAt,
+        updatedAt: now,
+      }).catch((err) => console.error("Error saving draft:", err));
+    }, 500);
+
+    return () => clearTimeout(timer);
+  }, [
+    userId,
+    title,
+    description,
+    selectedCategory,
+    categories,
+    location,
+    isAnonymous,
+    fieldInputs,
+    mediaItems,
+    createdIncident,
+    queuedOffline,
+  ]);
+
+  // The report has been filed or queued; its draft is no longer needed
+  const closeDraft = async () => {
+    draftClosedRef.current = true;
+    if (!draftRef.current) return;
+    try {
+      await deleteDraft(draftRef.current.id);
+    } catch (err) {
+      console.error("Error deleting draft:", err);
+    }
+    draftRef.current = null;
+  };
+
+  const discardPendingDraft = async () => {
+    if (!pendingDraft) return;
+    try {
+      await deleteDraft(pendingDraft.id);
+    } catch (err) {
+      console.error("Error deleting draft:", err);
+    }
+    setPendingDraft(null);
+  };
+
+  // Leaflet keeps a handle on the map element, so the map must be torn down
+  // whenever its container leaves the page
+  const destroyLocationMap = useCallback(() => {
     if (locationMapInstanceRef.current) {
       locationMapInstanceRef.current.remove();
       locationMapInstanceRef.current = null;
       locationMarkerRef.current = null;
     }
+  }, []);
+
+  // Get location
+  const getLocation = useCallback(async () => {
+    // Destroy existing map instance before showing loading state
+    destroyLocationMap();
 
     setLocationLoading(true);
     setLocationError("");
 
     if (!navigator.geolocation) {
-      setLocationError("Geolocation is not supported");
+      setLocationError(t("report.geolocationUnsupported"));
       setLocationLoading(false);
       return;
     }
@@ -187,36 +522,69 @@ export default function ReportPage() {
         const { latitude, longitude } = position.coords;
 
         // Reverse geocode to get address
+        let address: string | null = null;
         try {
-          const response = await fetch(
-            `https://nominatim.openstreetmap.org/reverse?format=json&lat=${latitude}&lon=${longitude}`,
-          );
-          const data = await response.json();
-
-          setLocation({
-            latitude,
-            longitude,
-            address:
-              data.display_name ||
-              `${latitude.toFixed(6)}, ${longitude.toFixed(6)}`,
-          });
-        } catch {
-          setLocation({
-            latitude,
-            longitude,
-            address: `${latitude.toFixed(6)}, ${longitude.toFixed(6)}`,
-          });
+          address = await reverseGeocode(latitude, longitude);
+        } catch (err) {
+          console.error("Reverse geocode error:", err);
         }
 
+        setLocation({
+          latitude,
+          longitude,
+          address: address || formatCoordinates(latitude, longitude),
+          source: "device",
+        });
+
         setLocationLoading(false);
       },
       (err) => {
-        setLocationError(err.message || "Failed to get location");
+        setLocationError(err.message || t("report.locationFailed"));
         setLocationLoading(false);
       },
       { enableHighAccuracy: true, timeout: 10000 },
     );
-  }, []);
+  }, [destroyLocationMap, t]);
+
+  const openAddressSearch = (initialQuery = "") => {
+    destroyLocationMap();
+    setManualAddress(initialQuery);
+    setAddressResults([]);
+    setAddressSearched(false);
+    setShowManualLocation(true);
+  };
+
+  const closeAddressSearch = () => {
+    setShowManualLocation(false);
+    setManualAddress("");
+    setAddressResults([]);
+    setAddressSearched(false);
+  };
+
+  const handleAddressSearch = async () => {
+    if (!manualAddress.trim()) return;
+
+    setAddressSearching(true);
+    try {
+      setAddressResults(await searchAddress(manualAddress.trim()));
+    } catch (err) {
+      console.error("Address search error:", err);
+      setAddressResults([]);
+    } finally {
+      setAddressSearching(false);
+      setAddressSearched(true);
+    }
+  };
+
+  const selectAddressResult = (result: GeocodeResult) => {
+    setLocation({
+      latitude: result.latitude,
+      longitude: result.longitude,
+      address: result.address,
+      source: "manual",
+    });
+    closeAddressSearch();
+  };
 
   // Get location when moving to details step
   useEffect(() => {
@@ -226,28 +594,53 @@ export default function ReportPage() {
   }, [step, location, getLocation]);
 
   // Handle file selection
-  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = Array.from(e.target.files || []);
     if (files.length === 0) return;
 
-    const validFiles = files.filter((file) => {
+    // Downscale/re-encode photos and strip their EXIF before they are
+    // previewed or uploaded. Photos that cannot be cleaned are left out.
+    const accepted = files.filter((file) => {
       const isImage = file.type.startsWith("image/");
       const isVideo = file.type.startsWith("video/");
       const isValidSize = file.size <= 50 * 1024 * 1024; // 50MB
       return (isImage || isVideo) && isValidSize;
     });
+    const results = await Promise.allSettled(
+      accepted.map((file) => processMediaFile(file)),
+    );
+    const processed = results.flatMap((result) =>
+      result.status === "fulfilled" ? [result.value] : [],
+    );
+    const rejectedIndex = results.findIndex(
+      (result) => result.status === "rejected",
+    );
 
-    if (validFiles.length > 0) {
-      setMediaFiles((prev) => [...prev, ...validFiles]);
+    if (rejectedIndex !== -1) {
+      console.error(
+        "Media processing error:",
+        (results[rejectedIndex] as PromiseRejectedResult).reason,
+      );
+      setFieldErrors((prev) => ({
+        ...prev,
+        media: {
+          code: "imageUnprocessable",
+          params: { name: accepted[rejectedIndex].name },
+        },
+      }));
+      if (step === "camera") setStep("details");
+    }
 
-      // Create previews
-      validFiles.forEach((file) => {
-        const reader = new FileReader();
-        reader.onload = (e) => {
-          setMediaPreviews((prev) => [...prev, e.target?.result as string]);
-        };
-        reader.readAsDataURL(file);
-      });
+    if (processed.length > 0) {
+      setMediaItems((prev) => [
+        ...prev,
+        ...processed.map(({ file, metadata }) => ({
+          id: crypto.randomUUID(),
+          file,
+          preview: URL.createObjectURL(file),
+          metadata,
+        })),
+      ]);
 
       if (step === "camera") {
         setStep("details");
@@ -293,15 +686,22 @@ export default function ReportPage() {
       ctx.drawImage(video, 0, 0);
 
       canvas.toBlob(
-        (blob) => {
+        async (blob) => {
           if (blob) {
-            const file = new File([blob], `photo_${Date.now()}.jpg`, {
+            const capture = new File([blob], `photo_${Date.now()}.jpg`, {
               type: "image/jpeg",
             });
-            setMediaFiles((prev) => [...prev, file]);
-            setMediaPreviews((prev) => [
+            // A camera frame carries no metadata, so if it cannot be
+            // downscaled the capture itself is fine to keep
+            const file = await processImage(capture).catch(() => capture);
+            setMediaItems((prev) => [
               ...prev,
-              canvas.toDataURL("image/jpeg"),
+              {
+                id: crypto.randomUUID(),
+                file,
+                preview: URL.createObjectURL(file),
+                metadata: null,
+              },
             ]);
             stopCamera();
             setStep("details");
@@ -339,17 +739,34 @@ export default function ReportPage() {
       setVideoStream(vs);
       setShowVideoRecorder(true);
 
+      // Label the file with the container actually recorded rather than
+      // assuming MP4
+      const mimeType = VIDEO_MIME_TYPES.find((type) =>
+        MediaRecorder.isTypeSupported(type),
+      );
       const chunks: BlobPart[] = [];
-      const recorder = new MediaRecorder(vs);
+      const recorder = new MediaRecorder(
+        vs,
+        mimeType ? { mimeType } : undefined,
+      );
       recorder.ondataavailable = (e) => {
         if (e.data.size > 0) chunks.push(e.data);
       };
       recorder.onstop = () => {
-        const blob = new Blob(chunks, { type: "video/mp4" });
-        const file = new File([blob], `video_${Date.now()}.mp4`, { type: "video/mp4" });
+        const type = (recorder.mimeType || mimeType || "video/webm").split(
+          ";",
+        )[0];
+        const blob = new Blob(chunks, { type });
+        const file = new File(
+          [blob],
+          `video_${Date.now()}.${videoExtension(type)}`,
+          { type },
+        );
         const url = URL.createObjectURL(blob);
-        setMediaFiles((prev) => [...prev, file]);
-        setMediaPreviews((prev) => [...prev, url]);
+        setMediaItems((prev) => [
+          ...prev,
+          { id: crypto.randomUUID(), file, preview: url, metadata: null },
+        ]);
         vs.getTracks().forEach((t) => t.stop());
         setVideoStream(null);
         setShowVideoRecorder(false);
@@ -370,8 +787,8 @@ export default function ReportPage() {
     }
   };
 
-  // Stop video recording
-  const stopVideoRecording = () => {
+  // Stop the video or voice note recording in progress
+  const stopRecording = () => {
     if (mediaRecorder && mediaRecorder.state !== "inactive") {
       mediaRecorder.stop();
     }
@@ -393,6 +810,99 @@ export default function ReportPage() {
     setRecordingTime(0);
   };
 
+  // Start voice note recording
+  const startAudioRecording = async () => {
+    try {
+      const as = await navigator.mediaDevices.getUserMedia({ audio: true });
+      setAudioStream(as);
+      setShowAudioRecorder(true);
+
+      // Record in the first container the browser can actually produce so
+      // the stored file's type matches its contents
+      const mimeType = AUDIO_MIME_TYPES.find((type) =>
+        MediaRecorder.isTypeSupported(type),
+      );
+      const chunks: BlobPart[] = [];
+      const recorder = new MediaRecorder(
+        as,
+        mimeType ? { mimeType } : undefined,
+      );
+      recorder.ondataavailable = (e) => {
+        if (e.data.size > 0) chunks.push(e.data);
+      };
+      recorder.onstop = () => {
+        const type = (recorder.mimeType || mimeType || "audio/webm").split(
+          ";",
+        )[0];
+        const blob = new Blob(chunks, { type });
+        const file = new File(
+          [blob],
+          `voice_${Date.now()}.${audioExtension(type)}`,
+          { type },
+        );
+        const url = URL.createObjectURL(blob);
+        setMediaItems((prev) => [
+          ...prev,
+          { id: crypto.randomUUID(), file, preview: url, metadata: null },
+        ]);
+        as.getTracks().forEach((t) => t.stop());
+        setAudioStream(null);
+        setShowAudioRecorder(false);
+        setIsRecording(false);
+        setRecordingTime(0);
+        if (recordingTimerRef.current) clearInterval(recordingTimerRef.current);
+        setStep("details");
+      };
+      setMediaRecorder(recorder);
+      recorder.start();
+      setIsRecording(true);
+      setRecordingTime(0);
+      recordingTimerRef.current = setInterval(() => {
+        setRecordingTime((t) => t + 1);
+      }, 1000);
+    } catch (err) {
+      console.error("Audio recorder error:", err);
+      setError(t("report.microphoneError"));
+    }
+  };
+
+  // Cancel voice note recording
+  const cancelAudioRecording = () => {
+    if (mediaRecorder && mediaRecorder.state !== "inactive") {
+      mediaRecorder.ondataavailable = null;
+      mediaRecorder.onstop = null;
+      mediaRecorder.stop();
+    }
+    if (recordingTimerRef.current) clearInterval(recordingTimerRef.current);
+    if (audioStream) audioStream.getTracks().forEach((t) => t.stop());
+    setAudioStream(null);
+    setShowAudioRecorder(false);
+    setIsRecording(false);
+    setRecordingTime(0);
+  };
+
+  // Play or pause a voice note in the media strip
+  const toggleAudioPreview = (item: MediaItem) => {
+    audioPreviewRef.current?.pause();
+    if (playingId === item.id) {
+      audioPreviewRef.current = null;
+      setPlayingId(null);
+      return;
+    }
+
+    const audio = new Audio(item.preview);
+    audio.onended = () => {
+      audioPreviewRef.current = null;
+      setPlayingId(null);
+    };
+    audioPreviewRef.current = audio;
+    setPlayingId(item.id);
+    audio.play().catch((err) => {
+      console.error("Voice note playback error:", err);
+      setPlayingId(null);
+    });
+  };
+
   const formatRecordingTime = (secs: number) => {
     const m = Math.floor(secs / 60).toString().padStart(2, "0");
     const s = (secs % 60).toString().padStart(2, "0");
@@ -400,89 +910,370 @@ export default function ReportPage() {
   };
 
   // Remove media
-  const removeMedia = (index: number) => {
-    setMediaFiles((prev) => prev.filter((_, i) => i !== index));
-    setMediaPreviews((prev) => prev.filter((_, i) => i !== index));
+  const removeMedia = (id: string) => {
+    if (playingId === id) {
+      audioPreviewRef.current?.pause();
+      audioPreviewRef.current = null;
+      setPlayingId(null);
+    }
+    setMediaItems((prev) => prev.filter((item) => item.id !== id));
   };
 
-  // Submit report
-  const handleSubmit = async () => {
-    if (!title.trim()) {
-      setError("Please enter a title");
-      return;
+  const clearFieldError = (field: ReportField) => {
+    setFieldErrors((prev) => ({ ...prev, [field]: undefined }));
+  };
+
+  const selectedCategoryFields =
+    categories.find((c) => c.id === selectedCategory)?.form_fields || [];
+
+  const setFieldInput = (key: string, value: string | boolean) => {
+    setFieldInputs((prev) => ({ ...prev, [key]: value }));
+    clearFieldError(`field_values.${key}`);
+  };
+
+  const setUploadState = (id: string, state: MediaUploadState) => {
+    setUploadStates((prev) => ({ ...prev, [id]: state }));
+  };
+
+  // Upload the given media one file at a time with `upload`. Each file
+  // retries with backoff on its own; returns the items that still failed.
+  const uploadMedia = async (
+    items: MediaItem[],
+    upload: (
+      item: MediaItem,
+      onProgress: (fraction: number) => void,
+    ) => Promise<unknown>,
+  ) => {
+    const failed: MediaItem[] = [];
+
+    for (const item of items) {
+      setUploadState(item.id, { status: "uploading", progress: 0 });
+      try {
+        await upload(item, (progress) =>
+          setUploadState(item.id, { status: "uploading", progress }),
+        );
+        setUploadState(item.id, { status: "done", progress: 1 });
+      } catch (uploadError: any) {
+        console.error("Upload error:", uploadError);
+        setUploadState(item.id, {
+          status: "failed",
+          progress: 0,
+          error: uploadError?.message || t("report.uploadFailed"),
+        });
+        failed.push(item);
+      }
     }
-    if (!selectedCategory) {
-      setError("Please select a category");
+
+    return failed;
+  };
+
+  // Upload a new report's media ahead of creating the incident
+  const stageMedia = (userId: string, items: MediaItem[]) =>
+    uploadMedia(items, async (item, onProgress) => {
+      stagedMediaRef.current[item.id] = await stageReportMedia(supabase, {
+        userId,
+        anonymous: isAnonymous,
+        submissionId,
+        uploadId: item.id,
+        file: item.file,
+        metadata: item.metadata,
+        onProgress,
+      });
+    });
+
+  // Attach media to a confirmed incident alongside the confirmation
+  const attachMedia = (
+    userId: string,
+    incidentId: string,
+    items: MediaItem[],
+    confirmation: string,
+  ) =>
+    uploadMedia(items, (item, onProgress) =>
+      uploadIncidentMedia(supabase, {
+        userId,
+        incidentId,
+        uploadId: item.id,
+        file: item.file,
+        metadata: item.metadata,
+        confirmationId: confirmation,
+        onProgress,
+      }),
+    );
+
+  const reportUploadFailures = (
+    failed: MediaItem[],
+    total: number,
+    confirmed: boolean,
+  ) => {
+    setError(
+      t(
+        confirmed
+          ? "report.uploadFailuresConfirmed"
+          : "report.uploadFailuresNew",
+        { failed: failed.length, total },
+      ),
+    );
+  };
+
+  const incidentPath = (incidentId: string, confirmed: boolean) =>
+    `/incident/${incidentId}?${confirmed ? "confirmed" : "new"}=true`;
+
+  const hasFailedUploads = mediaItems.some(
+    (item) => uploadStates[item.id]?.status === "failed",
+  );
+
+  // Retry only the media that failed. A new report is simply submitted
+  // again, which skips the files already uploaded.
+  const retryFailedUploads = async () => {
+    if (!createdIncident || !confirmationId) {
+      await handleSubmit(true);
       return;
     }
-    if (mediaFiles.length === 0) {
-      setError("Please add at least one photo or video");
+
+    setLoading(true);
+    setError("");
+    try {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+      if (!user) {
+        router.push("/login");
+        return;
+      }
+
+      const pending = mediaItems.filter(
+        (item) => uploadStates[item.id]?.status !== "done",
+      );
+      const failed = await attachMedia(
+        user.id,
+        createdIncident.id,
+        pending,
+        confirmationId,
+      );
+      if (failed.length > 0) {
+        reportUploadFailures(failed, mediaItems.length, true);
+        return;
+      }
+
+      router.push(incidentPath(createdIncident.id, true));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const continueWithoutFailedUploads = () => {
+    if (createdIncident) {
+      router.push(incidentPath(createdIncident.id, true));
+    } else {
+      handleSubmit(true, true);
+    }
+  };
+
+  // "Me too": attach this report's media and a confirmation to an existing
+  // incident instead of filing a new one
+  const confirmDuplicate = async (duplicate: PossibleDuplicate) => {
+    setLoading(true);
+    setError("");
+    try {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+      if (!user) {
+        router.push("/login");
+        return;
+      }
+
+      const confirmation = await confirmIncident(
+        supabase,
+        user.id,
+        duplicate.id,
+      );
+      await closeDraft();
+      setConfirmationId(confirmation);
+      setCreatedIncident({
+        id: duplicate.id,
+        tracking_id: duplicate.tracking_id,
+      });
+      setDuplicates([]);
+
+      const failed = await attachMedia(
+        user.id,
+        duplicate.id,
+        mediaItems,
+        confirmation,
+      );
+      if (failed.length > 0) {
+        reportUploadFailures(failed, mediaItems.length, true);
+        return;
+      }
+
+      router.push(incidentPath(duplicate.id, true));
+    } catch (err: any) {
+      console.error("Confirm error:", err);
+      setError(err.message || t("report.confirmFailed"));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Submit report. Media is uploaded first; the incident and its media
+  // records are then created together by POST /api/incidents.
+  const handleSubmit = async (
+    skipDuplicateCheck = false,
+    skipFailedUploads = false,
+  ) => {
+    const payload: ReportPayload = {
+      category_id: selectedCategory,
+      title: title.trim(),
+      description: description.trim() || null,
+      latitude: location?.latitude ?? null,
+      longitude: location?.longitude ?? null,
+      address: location?.address || null,
+      location_source: location?.source ?? null,
+      is_anonymous: isAnonymous,
+      field_values: normalizeFieldValues(selectedCategoryFields, fieldInputs),
+    };
+
+    const errors = validateReport(
+      payload,
+      mediaItems.map(({ file }) => ({
+        file_name: file.name,
+        file_type: file.type,
+        file_size: file.size,
+      })),
+      selectedCategoryFields,
+    );
+    setFieldErrors(errors);
+    if (Object.keys(errors).length > 0) {
+      setError(t("report.fixFields"));
       return;
     }
 
     setLoading(true);
     setError("");
 
+    // No connectivity: keep the report (and its media) in the outbox and
+    // let the service worker replay it once the device is back online. It
+    // keeps this submission id and the media already uploaded, in case the
+    // incident was created and only the response was lost.
+    const queueForLater = async () => {
+      const {
+        data: { session },
+      } = await supabase.auth.getSession();
+      if (!session) {
+        router.push("/login");
+        return;
+      }
+
+      const category = categories.find((c) => c.id === selectedCategory);
+      await queueReport(
+        session.user.id,
+        submissionId,
+        payload,
+        category
+          ? {
+              name: category.name,
+              name_translations: category.name_translations,
+              color: category.color,
+            }
+          : null,
+        mediaItems
+          .filter((item) => !stagedMediaRef.current[item.id])
+          .map(({ id, file, metadata }) => ({ id, file, metadata })),
+        mediaItems
+          .map((item) => stagedMediaRef.current[item.id])
+          .filter((staged): staged is StagedMedia => !!staged),
+      );
+      await closeDraft();
+      setQueuedOffline(true);
+    };
+
     try {
+      if (!navigator.onLine) {
+        await queueForLater();
+        return;
+      }
+
       const {
         data: { user },
+        error: userError,
       } = await supabase.auth.getUser();
+      if (userError && isNetworkError(userError)) {
+        await queueForLater();
+        return;
+      }
       if (!user) {
         router.push("/login");
         return;
       }
 
-      // Create incident
-      const { data: incident, error: incidentError } = await supabase
-        .from("incidents")
-        .insert({
-          user_id: user.id,
-          category_id: selectedCategory,
-          title: title.trim(),
-          description: description.trim() || null,
-          latitude: location?.latitude || null,
-          longitude: location?.longitude || null,
-          address: location?.address || null,
-        })
-        .select()
-        .single();
-
-      if (incidentError) throw incidentError;
-
-      // Upload media files
-      for (const file of mediaFiles) {
-        const fileExt = file.name.split(".").pop();
-        const fileName = `${user.id}/${incident.id}/${Date.now()}.${fileExt}`;
-
-        const { data: uploadData, error: uploadError } = await supabase.storage
-          .from("incident-media")
-          .upload(fileName, file);
-
-        if (uploadError) {
-          console.error("Upload error:", uploadError);
-          continue;
+      // Offer open reports of the same issue before creating another one
+      if (
+        !skipDuplicateCheck &&
+        payload.latitude !== null &&
+        payload.longitude !== null
+      ) {
+        try {
+          const matches = await findPossibleDuplicates(supabase, {
+            categoryId: payload.category_id,
+            latitude: payload.latitude,
+            longitude: payload.longitude,
+          });
+          if (matches.length > 0) {
+            setDuplicates(matches);
+            return;
+          }
+        } catch (lookupError) {
+          // Never block a report on the lookup
+          console.error("Duplicate lookup error:", lookupError);
         }
+      }
+      setDuplicates([]);
 
-        // Get public URL
-        const {
-          data: { publicUrl },
-        } = supabase.storage.from("incident-media").getPublicUrl(fileName);
-
-        // Save media record
-        await supabase.from("incident_media").insert({
-          incident_id: incident.id,
-          file_url: publicUrl,
-          file_name: file.name,
-          file_type: file.type.startsWith("video/") ? "video" : "image",
-          file_size: file.size,
-        });
+      // Upload media files not already uploaded by an earlier attempt
+      if (!skipFailedUploads) {
+        const pending = mediaItems.filter(
+          (item) => !stagedMediaRef.current[item.id],
+        );
+        const failed = await stageMedia(user.id, pending);
+        if (failed.length > 0) {
+          reportUploadFailures(failed, mediaItems.length, false);
+          return;
+        }
+      }
+
+      // Create the incident together with its media records
+      let incident;
+      try {
+        incident = await submitIncident(
+          submissionId,
+          payload,
+          mediaItems
+            .map((item) => stagedMediaRef.current[item.id])
+            .filter((staged): staged is StagedMedia => !!staged),
+        );
+      } catch (err) {
+        if (err instanceof IncidentSubmissionError) {
+          setFieldErrors(err.fieldErrors);
+          setError(
+            Object.keys(err.fieldErrors).length > 0
+              ? t("report.fixFields")
+              : err.message,
+          );
+          return;
+        }
+        if (!isNetworkError(err)) throw err;
+        await queueForLater();
+        return;
       }
 
+      await closeDraft();
+
       // Navigate to success or dashboard
       router.push(`/incident/${incident.id}?new=true`);
     } catch (err: any) {
       console.error("Submit error:", err);
-      setError(err.message || "Failed to submit report");
+      setError(err.message || t("report.submitFailed"));
     } finally {
       setLoading(false);
     }
@@ -569,15 +1360,65 @@ export default function ReportPage() {
           {isRecording && (
             <div className={styles.recBadge}>
               <span className={styles.recDot} />
-              REC {formatRecordingTime(recordingTime)}
+              {t("report.recording", {
+                time: formatRecordingTime(recordingTime),
+              })}
             </div>
           )}
 
           <div className={styles.cameraControls}>
-            <button onClick={stopVideoRecording} className={styles.stopRecordButton}>
+            <button onClick={stopRecording} className={styles.stopRecordButton}>
               <span className={styles.stopRecordInner} />
             </button>
-            <span className={styles.stopRecordLabel}>Tap to stop</span>
+            <span className={styles.stopRecordLabel}>
+              {t("report.tapToStop")}
+            </span>
+          </div>
+        </div>
+      </main>
+    );
+  }
+
+  // Voice note recorder view
+  if (showAudioRecorder) {
+    return (
+      <main className={styles.cameraPage}>
+        <div className={styles.audioRecorder}>
+          <div
+            className={`${styles.audioRecorderIcon} ${isRecording ? styles.audioRecorderActive : ""}`}
+          >
+            <svg viewBox="0 0 24 24" fill="currentColor" width="48" height="48">
+              <path d={MIC_ICON_PATH} />
+            </svg>
+          </div>
+          <span className={styles.audioRecorderLabel}>
+            {t("report.recordingVoiceNote")}
+          </span>
+        </div>
+
+        <div className={styles.cameraOverlay}>
+          <button onClick={cancelAudioRecording} className={styles.closeCamera}>
+            <svg viewBox="0 0 24 24" fill="currentColor" width="24" height="24">
+              <path d="M19 6.41L17.59 5 12 10.59 6.41 5 5 6.41 10.59 12 5 17.59 6.41 19 12 13.41 17.59 19 19 17.59 13.41 12z" />
+            </svg>
+          </button>
+
+          {isRecording && (
+            <div className={styles.recBadge}>
+              <span className={styles.recDot} />
+              {t("report.recording", {
+                time: formatRecordingTime(recordingTime),
+              })}
+            </div>
+          )}
+
+          <div className={styles.cameraControls}>
+            <button onClick={stopRecording} className={styles.stopRecordButton}>
+              <span className={styles.stopRecordInner} />
+            </button>
+            <span className={styles.stopRecordLabel}>
+              {t("report.tapToStop")}
+            </span>
           </div>
         </div>
       </main>
@@ -593,13 +1434,76 @@ export default function ReportPage() {
             <path d="M20 11H7.83l5.59-5.59L12 4l-8 8 8 8 1.41-1.41L7.83 13H20v-2z" />
           </svg>
         </button>
-        <h1 className={styles.headerTitle}>Report Incident</h1>
+        <h1 className={styles.headerTitle}>{t("report.title")}</h1>
         <div className={styles.headerSpacer}></div>
       </header>
 
       <div className={styles.content}>
-        {step === "camera" ? (
+        {queuedOffline ? (
           <div className={styles.cameraStep}>
+            <div className={styles.cameraPrompt}>
+              <div className={styles.cameraIconLarge}>
+                <svg
+                  viewBox="0 0 24 24"
+                  fill="currentColor"
+                  width="48"
+                  height="48"
+                >
+                  <path d="M19.35 10.04C18.67 6.59 15.64 4 12 4c-1.48 0-2.85.43-4.01 1.17l1.46 1.46C10.21 6.23 11.08 6 12 6c3.04 0 5.5 2.46 5.5 5.5v.5H19c1.66 0 3 1.34 3 3 0 1.13-.64 2.11-1.56 2.62l1.45 1.45C23.16 18.16 24 16.68 24 15c0-2.64-2.05-4.78-4.65-4.96zM3 5.27l2.75 2.74C2.56 8.15 0 10.77 0 14c0 3.31 2.69 6 6 6h11.73l2 2L21 20.73 4.27 4 3 5.27zM7.73 10l8 8H6c-2.21 0-4-1.79-4-4s1.79-4 4-4h1.73z" />
+                </svg>
+              </div>
+              <h2>{t("report.savedOfflineTitle")}</h2>
+              <p>{t("report.savedOfflineText")}</p>
+            </div>
+
+            <div className={styles.captureOptions}>
+              <button
+                onClick={() => router.push("/history")}
+                className={styles.captureOption}
+              >
+                <span>{t("report.viewMyReports")}</span>
+              </button>
+            </div>
+          </div>
+        ) : step === "camera" ? (
+          <div className={styles.cameraStep}>
+            {pendingDraft && mediaItems.length === 0 && (
+              <div className={styles.draftPrompt}>
+                <div className={styles.draftInfo}>
+                  <strong>{t("report.resumeDraft")}</strong>
+                  <span>
+                    {pendingDraft.title || t("common.untitledReport")} ·{" "}
+                    {t("common.files", {
+                      count: pendingDraft.media.length,
+                    })}{" "}
+                    ·{" "}
+                    {t("report.draftSaved", {
+                      time: formatDate(pendingDraft.updatedAt, {
+                        day: "numeric",
+                        month: "short",
+                        hour: "2-digit",
+                        minute: "2-digit",
+                      }),
+                    })}
+                  </span>
+                </div>
+                <div className={styles.draftActions}>
+                  <button
+                    onClick={() => restoreDraft(pendingDraft)}
+                    className={styles.draftResume}
+                  >
+                    {t("report.resume")}
+                  </button>
+                  <button
+                    onClick={discardPendingDraft}
+                    className={styles.draftDiscard}
+                  >
+                    {t("common.discard")}
+                  </button>
+                </div>
+              </div>
+            )}
+
             <div className={styles.cameraPrompt}>
               <div className={styles.cameraIconLarge}>
                 <svg
@@ -612,8 +1516,8 @@ export default function ReportPage() {
                   <path d="M9 2L7.17 4H4c-1.1 0-2 .9-2 2v12c0 1.1.9 2 2 2h16c1.1 0 2-.9 2-2V6c0-1.1-.9-2-2-2h-3.17L15 2H9zm3 15c-2.76 0-5-2.24-5-5s2.24-5 5-5 5 2.24 5 5-2.24 5-5 5z" />
                 </svg>
               </div>
-              <h2>Capture Evidence</h2>
-              <p>Take a photo or video of the incident</p>
+              <h2>{t("report.captureTitle")}</h2>
+              <p>{t("report.captureHint")}</p>
             </div>
 
             <div className={styles.captureOptions}>
@@ -627,7 +1531,7 @@ export default function ReportPage() {
                   <circle cx="12" cy="12" r="3.2" />
                   <path d="M9 2L7.17 4H4c-1.1 0-2 .9-2 2v12c0 1.1.9 2 2 2h16c1.1 0 2-.9 2-2V6c0-1.1-.9-2-2-2h-3.17L15 2H9zm3 15c-2.76 0-5-2.24-5-5s2.24-5 5-5 5 2.24 5 5-2.24 5-5 5z" />
                 </svg>
-                <span>Take Photo</span>
+                <span>{t("report.takePhoto")}</span>
               </button>
 
               <button
@@ -642,7 +1546,22 @@ export default function ReportPage() {
                 >
                   <path d="M17 10.5V7c0-.55-.45-1-1-1H4c-.55 0-1 .45-1 1v10c0 .55.45 1 1 1h12c.55 0 1-.45 1-1v-3.5l4 4v-11l-4 4z" />
                 </svg>
-                <span>Record Video</span>
+                <span>{t("report.recordVideo")}</span>
+              </button>
+
+              <button
+                onClick={startAudioRecording}
+                className={styles.captureOption}
+              >
+                <svg
+                  viewBox="0 0 24 24"
+                  fill="currentColor"
+                  width="24"
+                  height="24"
+                >
+                  <path d={MIC_ICON_PATH} />
+                </svg>
+                <span>{t("report.voiceNote")}</span>
               </button>
             </div>
 
@@ -653,32 +1572,81 @@ export default function ReportPage() {
             {/* Media Preview */}
             <div className={styles.mediaSection}>
               <div className={styles.mediaGrid}>
-                {mediaPreviews.map((preview, index) => (
-                  <div key={index} className={styles.mediaPreview}>
-                    {mediaFiles[index]?.type.startsWith("video/") ? (
-                      <video src={preview} className={styles.previewMedia} />
-                    ) : (
-                      <img
-                        src={preview}
-                        alt=""
-                        className={styles.previewMedia}
-                      />
-                    )}
-                    <button
-                      onClick={() => removeMedia(index)}
-                      className={styles.removeMedia}
-                    >
-                      <svg
-                        viewBox="0 0 24 24"
-                        fill="currentColor"
-                        width="16"
-                        height="16"
-                      >
-                        <path d="M19 6.41L17.59 5 12 10.59 6.41 5 5 6.41 10.59 12 5 17.59 6.41 19 12 13.41 17.59 19 19 17.59 13.41 12z" />
-                      </svg>
-                    </button>
-                  </div>
-                ))}
+                {mediaItems.map((item) => {
+                  const upload = uploadStates[item.id];
+                  return (
+                    <div key={item.id} className={styles.mediaPreview}>
+                      {item.file.type.startsWith("audio/") ? (
+                        <button
+                          type="button"
+                          onClick={() => toggleAudioPreview(item)}
+                          className={styles.audioPreview}
+                        >
+                          <svg
+                            viewBox="0 0 24 24"
+                            fill="currentColor"
+                            width="28"
+                            height="28"
+                          >
+                            {playingId === item.id ? (
+                              <path d="M6 19h4V5H6v14zm8-14v14h4V5h-4z" />
+                            ) : (
+                              <path d="M8 5v14l11-7z" />
+                            )}
+                          </svg>
+                          <span>{t("report.voiceNoteItem")}</span>
+                        </button>
+                      ) : item.file.type.startsWith("video/") ? (
+                        <video
+                          src={item.preview}
+                          className={styles.previewMedia}
+                        />
+                      ) : (
+                        <img
+                          src={item.preview}
+                          alt=""
+                          className={styles.previewMedia}
+                        />
+                      )}
+                      {upload?.status === "uploading" && (
+                        <div className={styles.uploadProgress}>
+                          <div
+                            className={styles.uploadProgressBar}
+                            style={{
+                              width: `${Math.round(upload.progress * 100)}%`,
+                            }}
+                          />
+                        </div>
+                      )}
+                      {upload?.status === "failed" && (
+                        <div
+                          className={styles.uploadFailed}
+                          title={upload.error}
+                        >
+                          {t("report.failed")}
+                        </div>
+                      )}
+                      {upload?.status === "done" && (
+                        <div className={styles.uploadDone}>✓</div>
+                      )}
+                      {!createdIncident && !loading && (
+                        <button
+                          onClick={() => removeMedia(item.id)}
+                          className={styles.removeMedia}
+                        >
+                          <svg
+                            viewBox="0 0 24 24"
+                            fill="currentColor"
+                            width="16"
+                            height="16"
+                          >
+                            <path d="M19 6.41L17.59 5 12 10.59 6.41 5 5 6.41 10.59 12 5 17.59 6.41 19 12 13.41 17.59 19 19 17.59 13.41 12z" />
+                          </svg>
+                        </button>
+                      )}
+                    </div>
+                  );
+                })}
                 <div className={styles.addMoreWrapper}>
                   <button
                     onClick={() => setShowAddMenu((v) => !v)}
@@ -713,7 +1681,7 @@ export default function ReportPage() {
                             <circle cx="12" cy="12" r="3.2" />
                             <path d="M9 2L7.17 4H4c-1.1 0-2 .9-2 2v12c0 1.1.9 2 2 2h16c1.1 0 2-.9 2-2V6c0-1.1-.9-2-2-2h-3.17L15 2H9zm3 15c-2.76 0-5-2.24-5-5s2.24-5 5-5 5 2.24 5 5-2.24 5-5 5z" />
                           </svg>
-                          <span>Take Photo</span>
+                          <span>{t("report.takePhoto")}</span>
                         </button>
                         <button
                           className={styles.addMenuItem}
@@ -725,23 +1693,45 @@ export default function ReportPage() {
                           <svg viewBox="0 0 24 24" fill="currentColor" width="20" height="20">
                             <path d="M17 10.5V7c0-.55-.45-1-1-1H4c-.55 0-1 .45-1 1v10c0 .55.45 1 1 1h12c.55 0 1-.45 1-1v-3.5l4 4v-11l-4 4z" />
                           </svg>
-                          <span>Record Video</span>
+                          <span>{t("report.recordVideo")}</span>
+                        </button>
+                        <button
+                          className={styles.addMenuItem}
+                          onClick={() => {
+                            setShowAddMenu(false);
+                            startAudioRecording();
+                          }}
+                        >
+                          <svg viewBox="0 0 24 24" fill="currentColor" width="20" height="20">
+                            <path d={MIC_ICON_PATH} />
+                          </svg>
+                          <span>{t("report.recordVoiceNote")}</span>
                         </button>
                       </div>
                     </>
                   )}
                 </div>
               </div>
+              {fieldErrors.media && (
+                <p className={styles.fieldError}>
+                  {errorText(fieldErrors.media)}
+                </p>
+              )}
             </div>
 
             {/* Category Selection */}
             <div className={styles.formSection}>
-              <label className={styles.sectionLabel}>Category</label>
+              <label className={styles.sectionLabel}>
+                {t("report.category")}
+              </label>
               <div className={styles.categoryGrid}>
                 {categories.map((category) => (
                   <button
                     key={category.id}
-                    onClick={() => setSelectedCategory(category.id)}
+                    onClick={() => {
+                      setSelectedCategory(category.id);
+                      clearFieldError("category_id");
+                    }}
                     className={`${styles.categoryCard} ${selectedCategory === category.id
                       ? styles.categorySelected
                       : ""
@@ -755,57 +1745,170 @@ export default function ReportPage() {
                     <div className={styles.categoryIconWrapper}>
                       {getCategoryIcon(category.icon)}
                     </div>
-                    <span>{category.name}</span>
+                    <span>{categoryName(category)}</span>
                   </button>
                 ))}
               </div>
+              {fieldErrors.category_id && (
+                <p className={styles.fieldError}>
+                  {errorText(fieldErrors.category_id)}
+                </p>
+              )}
             </div>
 
             {/* Title */}
             <div className={styles.formSection}>
               <label htmlFor="title" className={styles.sectionLabel}>
-                Title *
+                {t("report.titleLabel")}
               </label>
               <input
                 type="text"
                 id="title"
                 value={title}
-                onChange={(e) => setTitle(e.target.value)}
-                placeholder="Brief description of the issue"
+                onChange={(e) => {
+                  setTitle(e.target.value);
+                  clearFieldError("title");
+                }}
+                placeholder={t("report.titlePlaceholder")}
                 className={styles.input}
-                maxLength={100}
+                maxLength={TITLE_MAX_LENGTH}
               />
+              {fieldErrors.title && (
+                <p className={styles.fieldError}>
+                  {errorText(fieldErrors.title)}
+                </p>
+              )}
             </div>
 
             {/* Description */}
             <div className={styles.formSection}>
               <label htmlFor="description" className={styles.sectionLabel}>
-                Description (Optional)
+                {t("report.descriptionLabel")}
               </label>
               <textarea
                 id="description"
                 value={description}
-                onChange={(e) => setDescription(e.target.value)}
-                placeholder="Provide more details about the incident..."
+                onChange={(e) => {
+                  setDescription(e.target.value);
+                  clearFieldError("description");
+                }}
+                placeholder={t("report.descriptionPlaceholder")}
                 className={styles.textarea}
                 rows={3}
-                maxLength={500}
+                maxLength={DESCRIPTION_MAX_LENGTH}
               />
+              {fieldErrors.description && (
+                <p className={styles.fieldError}>
+                  {errorText(fieldErrors.description)}
+                </p>
+              )}
+            </div>
+
+            {/* Details the selected category asks for */}
+            {selectedCategoryFields.map((field) => {
+              const id = `field-${field.key}`;
+              const value = fieldInputs[field.key];
+              const error = fieldErrors[`field_values.${field.key}`];
+
+              return (
+                <div key={field.key} className={styles.formSection}>
+                  {field.type === "checkbox" ? (
+                    <label className={styles.anonymousToggle}>
+                      <input
+                        type="checkbox"
+                        checked={value === true}
+                        onChange={(e) =>
+                          setFieldInput(field.key, e.target.checked)
+                        }
+                      />
+                      <span className={styles.anonymousText}>
+                        {field.label}
+                        {field.required ? " *" : ""}
+                      </span>
+                    </label>
+                  ) : (
+                    <>
+                      <label htmlFor={id} className={styles.sectionLabel}>
+                        {field.label}
+                        {field.required ? " *" : t("report.optionalSuffix")}
+                      </label>
+                      {field.type === "select" ? (
+                        <select
+                          id={id}
+                          value={typeof value === "string" ? value : ""}
+                          onChange={(e) =>
+                            setFieldInput(field.key, e.target.value)
+                          }
+                          className={styles.input}
+                        >
+                          <option value="">
+                            {field.placeholder || t("report.selectPlaceholder")}
+                          </option>
+                          {field.options?.map((option) => (
+                            <option key={option} value={option}>
+                              {option}
+                            </option>
+                          ))}
+                        </select>
+                      ) : (
+                        <input
+                          id={id}
+                          type={field.type === "number" ? "number" : "text"}
+                          inputMode={
+                            field.type === "number" ? "decimal" : undefined
+                          }
+                          value={typeof value === "string" ? value : ""}
+                          onChange={(e) =>
+                            setFieldInput(field.key, e.target.value)
+                          }
+                          placeholder={field.placeholder}
+                          min={field.min ?? undefined}
+                          max={field.max ?? undefined}
+                          maxLength={
+                            field.type === "text"
+                              ? field.max_length || DEFAULT_TEXT_MAX_LENGTH
+                              : undefined
+                          }
+                          className={styles.input}
+                        />
+                      )}
+                    </>
+                  )}
+                  {error && (
+                    <p className={styles.fieldError}>{errorText(error)}</p>
+                  )}
+                </div>
+              );
+            })}
+
+            {/* Anonymous reporting */}
+            <div className={styles.formSection}>
+              <label className={styles.anonymousToggle}>
+                <input
+                  type="checkbox"
+                  checked={isAnonymous}
+                  onChange={(e) => setIsAnonymous(e.target.checked)}
+                />
+                <span className={styles.anonymousText}>
+                  <strong>{t("report.anonymousTitle")}</strong>
+                  <span>{t("report.anonymousHint")}</span>
+                </span>
+              </label>
             </div>
 
             {/* Location */}
             <div className={styles.formSection}>
               <label className={styles.sectionLabel}>
-                Location
+                {t("report.location")}
                 <span className={styles.sectionHint}>
-                  (Required for accurate incident tracking)
+                  {t("report.locationHint")}
                 </span>
               </label>
               <div className={styles.locationBox}>
                 {locationLoading ? (
                   <div className={styles.locationLoading}>
                     <div className={styles.spinner}></div>
-                    <span>Getting your location...</span>
+                    <span>{t("report.gettingLocation")}</span>
                   </div>
                 ) : locationError ? (
                   <div className={styles.locationErrorState}>
@@ -832,11 +1935,11 @@ export default function ReportPage() {
                         <svg viewBox="0 0 24 24" fill="currentColor" width="14" height="14">
                           <path d="M17.65 6.35C16.2 4.9 14.21 4 12 4c-4.42 0-7.99 3.58-7.99 8s3.57 8 7.99 8c3.73 0 6.84-2.55 7.73-6h-2.08c-.82 2.33-3.04 4-5.65 4-3.31 0-6-2.69-6-6s2.69-6 6-6c1.66 0 3.14.69 4.22 1.78L13 11h7V4l-2.35 2.35z" />
                         </svg>
-                        Retry GPS
+                        {t("report.retryGps")}
                       </button>
                       <button
                         onClick={() => {
-                          setShowManualLocation(true);
+                          openAddressSearch();
                           setLocationError("");
                         }}
                         className={styles.manualLocationButton}
@@ -844,7 +1947,7 @@ export default function ReportPage() {
                         <svg viewBox="0 0 24 24" fill="currentColor" width="14" height="14">
                           <path d="M3 17.25V21h3.75L17.81 9.94l-3.75-3.75L3 17.25zM20.71 7.04c.39-.39.39-1.02 0-1.41l-2.34-2.34c-.39-.39-1.02-.39-1.41 0l-1.83 1.83 3.75 3.75 1.83-1.83z" />
                         </svg>
-                        Enter Manually
+                        {t("report.enterManually")}
                       </button>
                     </div>
                   </div>
@@ -854,25 +1957,58 @@ export default function ReportPage() {
                       <svg viewBox="0 0 24 24" fill="currentColor" width="18" height="18">
                         <path d="M12 2C8.13 2 5 5.13 5 9c0 5.25 7 13 7 13s7-7.75 7-13c0-3.87-3.13-7-7-7zm0 9.5c-1.38 0-2.5-1.12-2.5-2.5s1.12-2.5 2.5-2.5 2.5 1.12 2.5 2.5-1.12 2.5-2.5 2.5z" />
                       </svg>
-                      <span>Enter your location manually</span>
+                      <span>{t("report.searchLocation")}</span>
+                    </div>
+                    <div className={styles.addressSearchRow}>
+                      <input
+                        type="text"
+                        value={manualAddress}
+                        onChange={(e) => {
+                          setManualAddress(e.target.value);
+                          setAddressSearched(false);
+                        }}
+                        onKeyDown={(e) => {
+                          if (e.key === "Enter") handleAddressSearch();
+                        }}
+                        placeholder={t("report.addressPlaceholder")}
+                        className={styles.manualAddressInput}
+                        autoFocus
+                      />
+                      <button
+                        onClick={handleAddressSearch}
+                        disabled={!manualAddress.trim() || addressSearching}
+                        className={styles.manualConfirmButton}
+                      >
+                        {addressSearching
+                          ? t("report.searching")
+                          : t("report.search")}
+                      </button>
                     </div>
-                    <input
-                      type="text"
-                      value={manualAddress}
-                      onChange={(e) => setManualAddress(e.target.value)}
-                      placeholder="e.g. 123 Main Street, City, State"
-                      className={styles.manualAddressInput}
-                      autoFocus
-                    />
+                    {addressResults.length > 0 && (
+                      <ul className={styles.addressResults}>
+                        {addressResults.map((result) => (
+                          <li key={`${result.latitude},${result.longitude}`}>
+                            <button
+                              onClick={() => selectAddressResult(result)}
+                              className={styles.addressResult}
+                            >
+                              {result.address}
+                            </button>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                    {addressSearched && addressResults.length === 0 && (
+                      <p className={styles.addressNoResults}>
+                        {t("report.noPlaces")}
+                      </p>
+                    )}
                     <div className={styles.manualLocationActions}>
                       <button
-                        onClick={() => {
-                          setShowManualLocation(false);
-                          setManualAddress("");
-                        }}
+                        onClick={closeAddressSearch}
                         className={styles.manualCancelButton}
                       >
-                        Cancel
+                        {t("common.cancel")}
                       </button>
                       <button
                         onClick={() => {
@@ -881,21 +2017,20 @@ export default function ReportPage() {
                               latitude: 0,
                               longitude: 0,
                               address: manualAddress.trim(),
+                              source: "manual",
                             });
-                            setShowManualLocation(false);
-                            setManualAddress("");
+                            closeAddressSearch();
                           }
                         }}
                         disabled={!manualAddress.trim()}
-                        className={styles.manualConfirmButton}
+                        className={styles.manualCancelButton}
                       >
-                        Use This Location
+                        {t("report.useAsTyped")}
                       </button>
                     </div>
                     <button
                       onClick={() => {
-                        setShowManualLocation(false);
-                        setManualAddress("");
+                        closeAddressSearch();
                         getLocation();
                       }}
                       className={styles.tryGpsAgainButton}
@@ -903,7 +2038,7 @@ export default function ReportPage() {
                       <svg viewBox="0 0 24 24" fill="currentColor" width="14" height="14">
                         <path d="M12 8c-2.21 0-4 1.79-4 4s1.79 4 4 4 4-1.79 4-4-1.79-4-4-4zm8.94 3c-.46-4.17-3.77-7.48-7.94-7.94V1h-2v2.06C6.83 3.52 3.52 6.83 3.06 11H1v2h2.06c.46 4.17 3.77 7.48 7.94 7.94V23h2v-2.06c4.17-.46 7.48-3.77 7.94-7.94H23v-2h-2.06zM12 19c-3.87 0-7-3.13-7-7s3.13-7 7-7 7 3.13 7 7-3.13 7-7 7z" />
                       </svg>
-                      Try GPS instead
+                      {t("report.tryGps")}
                     </button>
                   </div>
                 ) : location ? (
@@ -917,8 +2052,13 @@ export default function ReportPage() {
                         ></div>
                         <div className={styles.mapOverlay}>
                           <span className={styles.coordinatesBadge}>
-                            {location.latitude.toFixed(6)},{" "}
-                            {location.longitude.toFixed(6)}
+                            {location.source === "manual"
+                              ? t("report.pinnedManually")
+                              : t("report.dragPin")}
+                            {formatCoordinates(
+                              location.latitude,
+                              location.longitude,
+                            )}
                           </span>
                         </div>
                       </div>
@@ -938,26 +2078,43 @@ export default function ReportPage() {
                       </span>
                     </div>
                     {location.latitude !== 0 && location.longitude !== 0 ? (
-                      <button
-                        onClick={getLocation}
-                        className={styles.refreshLocationButton}
-                      >
-                        <svg
-                          viewBox="0 0 24 24"
-                          fill="currentColor"
-                          width="16"
-                          height="16"
+                      <div className={styles.locationButtons}>
+                        <button
+                          onClick={getLocation}
+                          className={styles.refreshLocationButton}
                         >
-                          <path d="M17.65 6.35C16.2 4.9 14.21 4 12 4c-4.42 0-7.99 3.58-7.99 8s3.57 8 7.99 8c3.73 0 6.84-2.55 7.73-6h-2.08c-.82 2.33-3.04 4-5.65 4-3.31 0-6-2.69-6-6s2.69-6 6-6c1.66 0 3.14.69 4.22 1.78L13 11h7V4l-2.35 2.35z" />
-                        </svg>
-                        Refresh Location
-                      </button>
+                          <svg
+                            viewBox="0 0 24 24"
+                            fill="currentColor"
+                            width="16"
+                            height="16"
+                          >
+                            <path d="M17.65 6.35C16.2 4.9 14.21 4 12 4c-4.42 0-7.99 3.58-7.99 8s3.57 8 7.99 8c3.73 0 6.84-2.55 7.73-6h-2.08c-.82 2.33-3.04 4-5.65 4-3.31 0-6-2.69-6-6s2.69-6 6-6c1.66 0 3.14.69 4.22 1.78L13 11h7V4l-2.35 2.35z" />
+                          </svg>
+                          {location.source === "manual"
+                            ? t("report.useMyGps")
+                            : t("report.refreshLocation")}
+                        </button>
+                        <button
+                          onClick={() => openAddressSearch()}
+                          className={styles.refreshLocationButton}
+                        >
+                          <svg
+                            viewBox="0 0 24 24"
+                            fill="currentColor"
+                            width="16"
+                            height="16"
+                          >
+                            <path d="M15.5 14h-.79l-.28-.27A6.471 6.471 0 0016 9.5 6.5 6.5 0 109.5 16c1.61 0 3.09-.59 4.23-1.57l.27.28v.79l5 4.99L20.49 19l-4.99-5zm-6 0C7.01 14 5 11.99 5 9.5S7.01 5 9.5 5 14 7.01 14 9.5 11.99 14 9.5 14z" />
+                          </svg>
+                          {t("report.searchAddress")}
+                        </button>
+                      </div>
                     ) : (
                       <button
                         onClick={() => {
                           setLocation(null);
-                          setManualAddress(location.address);
-                          setShowManualLocation(true);
+                          openAddressSearch(location.address);
                         }}
                         className={styles.refreshLocationButton}
                       >
@@ -969,7 +2126,7 @@ export default function ReportPage() {
                         >
                           <path d="M3 17.25V21h3.75L17.81 9.94l-3.75-3.75L3 17.25zM20.71 7.04c.39-.39.39-1.02 0-1.41l-2.34-2.34c-.39-.39-1.02-.39-1.41 0l-1.83 1.83 3.75 3.75 1.83-1.83z" />
                         </svg>
-                        Edit Address
+                        {t("report.editAddress")}
                       </button>
                     )}
                   </>
@@ -987,33 +2144,120 @@ export default function ReportPage() {
                       <path d="M12 8c-2.21 0-4 1.79-4 4s1.79 4 4 4 4-1.79 4-4-1.79-4-4-4zm8.94 3c-.46-4.17-3.77-7.48-7.94-7.94V1h-2v2.06C6.83 3.52 3.52 6.83 3.06 11H1v2h2.06c.46 4.17 3.77 7.48 7.94 7.94V23h2v-2.06c4.17-.46 7.48-3.77 7.94-7.94H23v-2h-2.06zM12 19c-3.87 0-7-3.13-7-7s3.13-7 7-7 7 3.13 7 7-3.13 7-7 7z" />
                     </svg>
                     <div className={styles.getLocationText}>
-                      <strong>Enable Location</strong>
-                      <span>Tap to capture incident location</span>
+                      <strong>{t("report.enableLocation")}</strong>
+                      <span>{t("report.enableLocationHint")}</span>
                     </div>
                   </button>
                 )}
               </div>
+              {fieldErrors.location && (
+                <p className={styles.fieldError}>
+                  {errorText(fieldErrors.location)}
+                </p>
+              )}
             </div>
 
+            {/* Possible duplicates */}
+            {duplicates.length > 0 && (
+              <div className={styles.duplicatesPanel}>
+                <h3 className={styles.duplicatesTitle}>
+                  {t("report.duplicatesTitle")}
+                </h3>
+                <p className={styles.duplicatesHint}>
+                  {t("report.duplicatesHint")}
+                </p>
+
+                {duplicates.map((duplicate) => {
+                  const thumb = duplicate.incident_media.find(
+                    (m) => m.file_type === "image",
+                  );
+                  return (
+                    <div key={duplicate.id} className={styles.duplicateCard}>
+                      {thumb ? (
+                        <img
+                          src={thumb.file_url}
+                          alt=""
+                          className={styles.duplicateThumb}
+                        />
+                      ) : (
+                        <div className={styles.duplicateThumb} />
+                      )}
+                      <div className={styles.duplicateInfo}>
+                        <strong>{duplicate.title}</strong>
+                        <span>
+                          {t("report.metersAway", {
+                            distance: formatNumber(
+                              Math.round(duplicate.distance),
+                            ),
+                          })}{" "}
+                          &middot;{" "}
+                          {formatDate(duplicate.created_at, {
+                            day: "numeric",
+                            month: "short",
+                          })}
+                        </span>
+                      </div>
+                      <button
+                        onClick={() => confirmDuplicate(duplicate)}
+                        disabled={loading}
+                        className={styles.duplicateConfirm}
+                      >
+                        {t("report.sameIssue")}
+                      </button>
+                    </div>
+                  );
+                })}
+
+                <button
+                  onClick={() => handleSubmit(true)}
+                  disabled={loading}
+                  className={styles.continueButton}
+                >
+                  {loading ? (
+                    <span className={styles.spinner}></span>
+                  ) : (
+                    t("report.submitNew")
+                  )}
+                </button>
+              </div>
+            )}
+
             {error && <p className={styles.error}>{error}</p>}
           </div>
         )}
       </div>
 
       {/* Submit Button (only on details step) */}
-      {step === "details" && (
+      {step === "details" && !queuedOffline && duplicates.length === 0 && (
         <div className={styles.submitSection}>
-          <button
-            onClick={handleSubmit}
-            disabled={loading}
-            className={styles.submitButton}
-          >
-            {loading ? (
-              <span className={styles.spinner}></span>
-            ) : (
-              "Submit Report"
-            )}
-          </button>
+          {hasFailedUploads && !loading ? (
+            <div className={styles.retryActions}>
+              <button
+                onClick={retryFailedUploads}
+                className={styles.submitButton}
+              >
+                {t("report.retryUploads")}
+              </button>
+              <button
+                onClick={continueWithoutFailedUploads}
+                className={styles.continueButton}
+              >
+                {t("report.continueWithout")}
+              </button>
+            </div>
+          ) : (
+            <button
+              onClick={() => handleSubmit()}
+              disabled={loading}
+              className={styles.submitButton}
+            >
+              {loading ? (
+                <span className={styles.spinner}></span>
+              ) : (
+                t("report.submit")
+              )}
+            </button>
+          )}
         </div>
       )}
 
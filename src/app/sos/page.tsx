@@ -0,0 +1,347 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import { createClient } from "@/lib/supabase/client";
+import { formatCoordinates } from "@/lib/geocoding/client";
+import { useI18n } from "@/lib/I18nContext";
+import { intlLocale } from "@/lib/i18n";
+import {
+  SOS_OPTIONS,
+  SosPosition,
+  StartedSos,
+  isSosEndedError,
+  sendSosLocation,
+  startSos,
+  stopSos,
+} from "@/lib/sos";
+import styles from "./page.module.css";
+
+// Seconds to cancel an accidental tap before the alert goes out
+const COUNTDOWN_SECONDS = 3;
+
+// Wait before resending a location update that failed
+const RETRY_SECONDS = 5;
+
+type Phase = "countdown" | "sending" | "active" | "ended" | "error";
+
+function toSosPosition(position: GeolocationPosition): SosPosition {
+  return {
+    latitude: position.coords.latitude,
+    longitude: position.coords.longitude,
+    accuracy: position.coords.accuracy ?? null,
+  };
+}
+
+// First fix for the alert itself. Resolves null rather than holding the
+// alert back when the device cannot get one quickly.
+function getFirstPosition(): Promise<SosPosition | null> {
+  return new Promise((resolve) => {
+    if (!navigator.geolocation) {
+      resolve(null);
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(
+      (position) => resolve(toSosPosition(position)),
+      () => resolve(null),
+      { enableHighAccuracy: true, timeout: 8000, maximumAge: 30000 },
+    );
+  });
+}
+
+function formatRemaining(ms: number) {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+}
+
+export default function SosPage() {
+  const router = useRouter();
+  const supabase = createClient();
+  const { t, locale } = useI18n();
+
+  const [phase, setPhase] = useState<Phase>("countdown");
+  const [countdown, setCountdown] = useState(COUNTDOWN_SECONDS);
+  const [sos, setSos] = useState<StartedSos | null>(null);
+  const [lastSentAt, setLastSentAt] = useState<Date | null>(null);
+  const [lastPosition, setLastPosition] = useState<SosPosition | null>(null);
+  const [locationError, setLocationError] = useState("");
+  const [sendError, setSendError] = useState("");
+  const [error, setError] = useState("");
+  const [now, setNow] = useState(() => Date.now());
+  const [stopping, setStopping] = useState(false);
+
+  const watchIdRef = useRef<number | null>(null);
+  const lastSentRef = useRef(0);
+  const sendingRef = useRef(false);
+  const latestPositionRef = useRef<SosPosition | null>(null);
+  const retryTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const stopWatching = useCallback(() => {
+    if (watchIdRef.current !== null) {
+      navigator.geolocation.clearWatch(watchIdRef.current);
+      watchIdRef.current = null;
+    }
+    if (retryTimerRef.current !== null) {
+      clearTimeout(retryTimerRef.current);
+      retryTimerRef.current = null;
+    }
+  }, []);
+
+  useEffect(() => stopWatching, [stopWatching]);
+
+  const sendAlert = useCallback(async () => {
+    setPhase("sending");
+    setError("");
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) {
+      router.push("/login");
+      return;
+    }
+
+    const position = await getFirstPosition();
+    if (!position) {
+      setLocationError(t("sos.locationPending"));
+    }
+
+    try {
+      const started = await startSos(supabase, position);
+      lastSentRef.current = position ? Date.now() : 0;
+      setLastSentAt(position ? new Date() : null);
+      setLastPosition(position);
+      setSos(started);
+      setPhase("active");
+    } catch (err) {
+      console.error("SOS error:", err);
+      setError(t("sos.sendFailed"));
+      setPhase("error");
+    }
+  }, [supabase, router, t]);
+
+  // Count down, then send
+  useEffect(() => {
+    if (phase !== "countdown") return;
+    if (countdown <= 0) {
+      sendAlert();
+      return;
+    }
+    const timer = setTimeout(() => setCountdown((c) => c - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [phase, countdown, sendAlert]);
+
+  // Stream the device position while the SOS is live
+  useEffect(() => {
+    if (phase !== "active" || !sos || !navigator.geolocation) return;
+
+    // Send the newest position once the interval has passed. A failed send
+    // is retried; only the server saying the SOS is over ends streaming.
+    const sendLatest = async () => {
+      const position = latestPositionRef.current;
+      if (!position || sendingRef.current) return;
+
+      const due =
+        Date.now() - lastSentRef.current >=
+        SOS_OPTIONS.updateIntervalSeconds * 1000;
+      if (!due) return;
+
+      sendingRef.current = true;
+      try {
+        await sendSosLocation(supabase, sos.id, position);
+        lastSentRef.current = Date.now();
+        setLastSentAt(new Date());
+        setSendError("");
+      } catch (err) {
+        console.error("SOS location update error:", err);
+        if (isSosEndedError(err)) {
+          // The period ran out or the SOS was stopped elsewhere
+          stopWatching();
+          setPhase("ended");
+        } else {
+          setSendError(t("sos.locationRetrying"));
+          if (retryTimerRef.current === null) {
+            retryTimerRef.current = setTimeout(() => {
+              retryTimerRef.current = null;
+              sendLatest();
+            }, RETRY_SECONDS * 1000);
+          }
+        }
+      } finally {
+        sendingRef.current = false;
+      }
+    };
+
+    watchIdRef.current = navigator.geolocation.watchPosition(
+      (position) => {
+        const next = toSosPosition(position);
+        latestPositionRef.current = next;
+        setLastPosition(next);
+        setLocationError("");
+        sendLatest();
+      },
+      () => {
+        setLocationError(t("sos.locationUnavailable"));
+      },
+      { enableHighAccuracy: true, maximumAge: 5000 },
+    );
+
+    return stopWatching;
+  }, [phase, sos, supabase, stopWatching, t]);
+
+  // Tick the remaining time and end once the period is over
+  useEffect(() => {
+    if (phase !== "active" || !sos) return;
+
+    const timer = setInterval(() => {
+      const current = Date.now();
+      setNow(current);
+      if (current >= new Date(sos.sos_expires_at).getTime()) {
+        stopWatching();
+        setPhase("ended");
+      }
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [phase, sos, stopWatching]);
+
+  const handleStop = async () => {
+    if (!sos) return;
+    setStopping(true);
+    try {
+      await stopSos(supabase, sos.id);
+      stopWatching();
+      setPhase("ended");
+    } catch (err) {
+      console.error("Stop SOS error:", err);
+      setError(t("sos.stopFailed"));
+    } finally {
+      setStopping(false);
+    }
+  };
+
+  const remainingMs = sos ? new Date(sos.sos_expires_at).getTime() - now : 0;
+
+  return (
+    <main
+      className={`${styles.page} ${phase === "ended" ? styles.pageEnded : ""}`}
+    >
+      <div className={styles.content}>
+        {phase === "countdown" && (
+          <>
+            <p className={styles.eyebrow}>{t("sos.sendingIn")}</p>
+            <div className={styles.countdown}>{countdown}</div>
+            <p className={styles.message}>
+              {t("sos.countdownMessage", {
+                minutes: SOS_OPTIONS.streamMinutes,
+              })}
+            </p>
+            <button onClick={() => setCountdown(0)} className={styles.sendNow}>
+              {t("sos.sendNow")}
+            </button>
+            <button onClick={() => router.back()} className={styles.cancel}>
+              {t("common.cancel")}
+            </button>
+          </>
+        )}
+
+        {phase === "sending" && (
+          <>
+            <div className={styles.spinner} />
+            <p className={styles.title}>{t("sos.alerting")}</p>
+            <p className={styles.message}>{t("sos.gettingLocation")}</p>
+          </>
+        )}
+
+        {phase === "active" && sos && (
+          <>
+            <div className={styles.beacon}>
+              <span className={styles.beaconDot} />
+            </div>
+            <p className={styles.title}>{t("sos.sent")}</p>
+            <p className={styles.trackingId}>#{sos.tracking_id}</p>
+            <p className={styles.message}>{t("sos.activeMessage")}</p>
+
+            <div className={styles.details}>
+              <div className={styles.detailRow}>
+                <span>{t("sos.lastSent")}</span>
+                <strong>
+                  {lastSentAt
+                    ? lastSentAt.toLocaleTimeString(intlLocale(locale), {
+                        hour: "2-digit",
+                        minute: "2-digit",
+                        second: "2-digit",
+                      })
+                    : t("sos.waitingForLocation")}
+                </strong>
+              </div>
+              {lastPosition && (
+                <div className={styles.detailRow}>
+                  <span>{t("sos.position")}</span>
+                  <strong>
+                    {formatCoordinates(
+                      lastPosition.latitude,
+                      lastPosition.longitude,
+                    )}
+                  </strong>
+                </div>
+              )}
+              <div className={styles.detailRow}>
+                <span>{t("sos.sharingFor")}</span>
+                <strong>{formatRemaining(remainingMs)}</strong>
+              </div>
+            </div>
+
+            {locationError && <p className={styles.warning}>{locationError}</p>}
+            {sendError && <p className={styles.warning}>{sendError}</p>}
+            {error && <p className={styles.warning}>{error}</p>}
+
+            <button
+              onClick={handleStop}
+              disabled={stopping}
+              className={styles.cancel}
+            >
+              {stopping ? t("sos.stopping") : t("sos.stop")}
+            </button>
+            <Link href={`/incident/${sos.id}`} className={styles.link}>
+              {t("sos.viewIncidentLink")}
+            </Link>
+          </>
+        )}
+
+        {phase === "ended" && sos && (
+          <>
+            <p className={styles.title}>{t("sos.stoppedTitle")}</p>
+            <p className={styles.trackingId}>#{sos.tracking_id}</p>
+            <p className={styles.message}>{t("sos.stoppedMessage")}</p>
+            <Link href={`/incident/${sos.id}`} className={styles.sendNow}>
+              {t("sos.viewIncident")}
+            </Link>
+            <Link href="/dashboard" className={styles.link}>
+              {t("sos.backHome")}
+            </Link>
+          </>
+        )}
+
+        {phase === "error" && (
+          <>
+            <p className={styles.title}>{t("sos.notSent")}</p>
+            <p className={styles.message}>{error}</p>
+            <button onClick={sendAlert} className={styles.sendNow}>
+              {t("sos.tryAgain")}
+            </button>
+            <button onClick={() => router.back()} className={styles.cancel}>
+              {t("sos.goBack")}
+            </button>
+          </>
+        )}
+
+        <a href="tel:112" className={styles.callButton}>
+          {t("sos.call112")}
+        </a>
+      </div>
+    </main>
+  );
+}
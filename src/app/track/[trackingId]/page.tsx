@@ -0,0 +1,319 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { createClient } from "@/lib/supabase/client";
+import { useI18n } from "@/lib/I18nContext";
+import {
+  PublicIncident,
+  getPublicIncident,
+  normalizeTrackingId,
+  trackingPath,
+} from "@/lib/tracking";
+import styles from "./page.module.css";
+
+export default function TrackIncidentPage() {
+  const params = useParams();
+  const supabase = createClient();
+  const { t, formatDate, statusLabel, categoryName } = useI18n();
+
+  const trackingId = normalizeTrackingId(params.trackingId as string);
+
+  const [incident, setIncident] = useState<PublicIncident | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    async function loadIncident() {
+      setLoading(true);
+      setLoadError(false);
+      try {
+        setIncident(await getPublicIncident(supabase, trackingId));
+      } catch (error) {
+        console.error("Error loading tracked incident:", error);
+        setLoadError(true);
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    loadIncident();
+  }, [supabase, trackingId]);
+
+  const formatDateTime = (date: string) =>
+    formatDate(date, {
+      day: "numeric",
+      month: "short",
+      year: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+
+  const getStatusInfo = (status: string) => {
+    const label = statusLabel(status);
+    switch (status) {
+      case "submitted":
+        return { label, color: "#757575", progress: 25 };
+      case "in_review":
+        return { label, color: "#F57C00", progress: 50 };
+      case "action_taken":
+        return { label, color: "#1976D2", progress: 75 };
+      case "resolved":
+        return { label, color: "#388E3C", progress: 100 };
+      default:
+        return { label, color: "#757575", progress: 0 };
+    }
+  };
+
+  // Share sheet where there is one, otherwise copy the link
+  const handleShare = async () => {
+    const url = `${window.location.origin}${trackingPath(trackingId)}`;
+    try {
+      if (navigator.share) {
+        await navigator.share({
+          title: t("track.shareTitle", { id: trackingId }),
+          url,
+        });
+        return;
+      }
+      await navigator.clipboard.writeText(url);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      // Dismissing the share sheet rejects too
+      if ((error as Error)?.name !== "AbortError") {
+        console.error("Error sharing tracking link:", error);
+      }
+    }
+  };
+
+  const header = (
+    <header className={styles.header}>
+      <Link
+        href="/track"
+        className={styles.backButton}
+        aria-label={t("track.trackAnother")}
+      >
+        <svg viewBox="0 0 24 24" fill="currentColor" width="24" height="24">
+          <path d="M20 11H7.83l5.59-5.59L12 4l-8 8 8 8 1.41-1.41L7.83 13H20v-2z" />
+        </svg>
+      </Link>
+      <h1 className={styles.headerTitle}>{t("track.detailTitle")}</h1>
+      {incident ? (
+        <button onClick={handleShare} className={styles.shareButton}>
+          {copied ? t("track.linkCopied") : t("track.share")}
+        </button>
+      ) : (
+        <div className={styles.headerSpacer}></div>
+      )}
+    </header>
+  );
+
+  if (loading) {
+    return (
+      <main className={styles.page}>
+        {header}
+        <div className={styles.loading}>
+          <div className={styles.spinner}></div>
+        </div>
+      </main>
+    );
+  }
+
+  if (!incident) {
+    return (
+      <main className={styles.page}>
+        {header}
+        <div className={styles.content}>
+          <div className={styles.emptyState}>
+            <p>
+              {loadError ? t("track.loadFailed") : t("track.notFoundTitle")}
+            </p>
+            {!loadError && <span>{t("track.notFoundHint")}</span>}
+            <Link href="/track" className={styles.emptyAction}>
+              {t("track.trackAnother")}
+            </Link>
+          </div>
+        </div>
+      </main>
+    );
+  }
+
+  const statusInfo = getStatusInfo(incident.status);
+  const steps = [
+    { progress: 25, label: t("track.stepReceived") },
+    { progress: 50, label: t("track.stepReviewing") },
+    { progress: 75, label: t("track.stepAction") },
+    { progress: 100, label: t("track.stepResolved") },
+  ];
+
+  return (
+    <main className={styles.page}>
+      {header}
+
+      <div className={styles.content}>
+        {/* Tracking ID Card */}
+        <div className={styles.trackingCard}>
+          <div>
+            <span className={styles.trackingLabel}>
+              {t("track.trackingIdLabel")}
+            </span>
+            <span className={styles.trackingId}>#{incident.tracking_id}</span>
+          </div>
+          <span
+            className={styles.statusBadge}
+            style={{
+              backgroundColor: `${statusInfo.color}15`,
+              color: statusInfo.color,
+              borderColor: `${statusInfo.color}30`,
+            }}
+          >
+            {statusInfo.label}
+          </span>
+        </div>
+
+        {/* Progress Bar */}
+        <div className={styles.progressSection}>
+          <div className={styles.progressBar}>
+            <div
+              className={styles.progressFill}
+              style={{
+                width: `${statusInfo.progress}%`,
+                backgroundColor: statusInfo.color,
+              }}
+            />
+          </div>
+          <div className={styles.progressSteps}>
+            {steps.map((step) => (
+              <span
+                key={step.progress}
+                className={
+                  statusInfo.progress >= step.progress ? styles.activeStep : ""
+                }
+              >
+                {step.label}
+              </span>
+            ))}
+          </div>
+        </div>
+
+        {/* Summary */}
+        <div className={styles.summary}>
+          <h2 className={styles.summaryTitle}>{incident.title}</h2>
+          <div className={styles.summaryMeta}>
+            {incident.category && (
+              <span style={{ color: incident.category.color }}>
+                {categoryName(incident.category)}
+              </span>
+            )}
+            {incident.locality && <span>{incident.locality}</span>}
+          </div>
+          <p className={styles.summaryDates}>
+            {t("track.reportedOn", {
+              date: formatDateTime(incident.created_at),
+            })}
+            <br />
+            {t("track.lastUpdated", {
+              date: formatDateTime(incident.updated_at),
+            })}
+          </p>
+        </div>
+
+        {/* Police Action */}
+        {incident.resolutions.length > 0 && (
+          <div className={styles.section}>
+            <h2 className={styles.sectionTitle}>{t("track.policeAction")}</h2>
+            {incident.resolutions.map((resolution) => (
+              <div key={resolution.id} className={styles.policeActionCard}>
+                {resolution.resolution_media_url && (
+                  <div className={styles.resolutionMedia}>
+                    {resolution.resolution_media_type === "video" ? (
+                      <video
+                        src={resolution.resolution_media_url}
+                        poster={
+                          resolution.resolution_thumbnail_url || undefined
+                        }
+                        controls
+                        preload="metadata"
+                        className={styles.resolutionMediaContent}
+                      />
+                    ) : (
+                      <img
+                        src={resolution.resolution_media_url}
+                        alt=""
+                        className={styles.resolutionMediaContent}
+                      />
+                    )}
+                  </div>
+                )}
+                {resolution.notes && (
+                  <div className={styles.resolutionNotes}>
+                    <span className={styles.resolutionNotesLabel}>
+                      {t("track.resolutionNotes")}
+                    </span>
+                    <p className={styles.resolutionNotesText}>
+                      {resolution.notes}
+                    </p>
+                  </div>
+                )}
+                <div className={styles.resolutionFooter}>
+                  <svg
+                    viewBox="0 0 24 24"
+                    fill="currentColor"
+                    width="16"
+                    height="16"
+                  >
+                    <path d="M9 16.17L4.83 12l-1.42 1.41L9 19 21 7l-1.41-1.41z" />
+                  </svg>
+                  <span>
+                    {t("track.resolvedOn", {
+                      date: formatDate(resolution.created_at, {
+                        day: "numeric",
+                        month: "short",
+                        year: "numeric",
+                      }),
+                    })}
+                  </span>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Updates Timeline */}
+        <div className={styles.section}>
+          <h2 className={styles.sectionTitle}>{t("track.updates")}</h2>
+          <div className={styles.timeline}>
+            {incident.updates.length === 0 ? (
+              <p className={styles.noUpdates}>{t("track.noUpdates")}</p>
+            ) : (
+              incident.updates.map((update, index) => (
+                <div key={update.id} className={styles.timelineItem}>
+                  <div className={styles.timelineDot}></div>
+                  {index < incident.updates.length - 1 && (
+                    <div className={styles.timelineLine}></div>
+                  )}
+                  <div className={styles.updateHeader}>
+                    <span className={styles.updateStatus}>
+                      {statusLabel(update.status)}
+                    </span>
+                    <span className={styles.updateTime}>
+                      {formatDateTime(update.created_at)}
+                    </span>
+                  </div>
+                  {update.notes && (
+                    <p className={styles.updateNotes}>{update.notes}</p>
+                  )}
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+
+        <p className={styles.privacyNote}>{t("track.privacyNote")}</p>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,59 @@
+"use client";
+
+import { FormEvent, useState } from "react";
+import { useRouter } from "next/navigation";
+import { useI18n } from "@/lib/I18nContext";
+import { normalizeTrackingId, trackingPath } from "@/lib/tracking";
+import styles from "./page.module.css";
+
+export default function TrackLookupPage() {
+  const router = useRouter();
+  const { t } = useI18n();
+  const [trackingId, setTrackingId] = useState("");
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (!normalizeTrackingId(trackingId)) return;
+    router.push(trackingPath(trackingId));
+  };
+
+  return (
+    <main className={styles.page}>
+      <div className={styles.card}>
+        <div className={styles.icon}>
+          <svg viewBox="0 0 24 24" fill="currentColor" width="32" height="32">
+            <path d="M15.5 14h-.79l-.28-.27A6.471 6.471 0 0016 9.5 6.5 6.5 0 109.5 16c1.61 0 3.09-.59 4.23-1.57l.27.28v.79l5 4.99L20.49 19l-4.99-5zm-6 0C7.01 14 5 11.99 5 9.5S7.01 5 9.5 5 14 7.01 14 9.5 11.99 14 9.5 14z" />
+          </svg>
+        </div>
+        <h1 className={styles.title}>{t("track.title")}</h1>
+        <p className={styles.subtitle}>{t("track.subtitle")}</p>
+
+        <form onSubmit={handleSubmit} className={styles.form}>
+          <label htmlFor="tracking-id" className={styles.label}>
+            {t("track.trackingIdLabel")}
+          </label>
+          <input
+            id="tracking-id"
+            value={trackingId}
+            onChange={(e) => setTrackingId(e.target.value)}
+            placeholder={t("track.trackingIdPlaceholder")}
+            className={styles.input}
+            autoCapitalize="characters"
+            autoComplete="off"
+            spellCheck={false}
+            autoFocus
+          />
+          <button
+            type="submit"
+            disabled={!normalizeTrackingId(trackingId)}
+            className={styles.submitButton}
+          >
+            {t("track.check")}
+          </button>
+        </form>
+
+        <p className={styles.privacyNote}>{t("track.privacyNote")}</p>
+      </div>
+    </main>
+  );
+}
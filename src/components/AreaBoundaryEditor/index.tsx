@@ -0,0 +1,161 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import styles from "./AreaBoundaryEditor.module.css";
+
+// Leaflet types
+declare global {
+  interface Window {
+    L: typeof import("leaflet");
+  }
+}
+
+// GeoJSON polygon with a single outer ring, in [longitude, latitude] order
+export interface AreaBoundary {
+  type: "Polygon";
+  coordinates: [number, number][][];
+}
+
+interface AreaBoundaryEditorProps {
+  value: AreaBoundary | null;
+  onChange: (boundary: AreaBoundary | null) => void;
+  // Recentres the map, e.g. after looking the area up by name
+  center?: { latitude: number; longitude: number } | null;
+}
+
+// Vertices of the outer ring as Leaflet [lat, lng] pairs, without the
+// closing point GeoJSON repeats
+function toLatLngs(boundary: AreaBoundary | null): [number, number][] {
+  const ring = boundary?.coordinates[0] ?? [];
+  return ring.slice(0, -1).map(([lng, lat]) => [lat, lng]);
+}
+
+function toBoundary(points: [number, number][]): AreaBoundary | null {
+  if (points.length < 3) return null;
+  const ring = points.map(([lat, lng]) => [lng, lat] as [number, number]);
+  return { type: "Polygon", coordinates: [[...ring, ring[0]]] };
+}
+
+export default function AreaBoundaryEditor({
+  value,
+  onChange,
+  center,
+}: AreaBoundaryEditorProps) {
+  const mapRef = useRef<HTMLDivElement>(null);
+  const mapInstanceRef = useRef<any>(null);
+  const shapeRef = useRef<any>(null);
+  const [mapLoaded, setMapLoaded] = useState(false);
+  const [points, setPoints] = useState<[number, number][]>(() =>
+    toLatLngs(value),
+  );
+
+  // Load Leaflet CSS and JS
+  useEffect(() => {
+    if (!document.querySelector('link[href*="leaflet.css"]')) {
+      const link = document.createElement("link");
+      link.rel = "stylesheet";
+      link.href = "https://unpkg.com/leaflet@1.9.4/dist/leaflet.css";
+      link.integrity = "sha256-p4NxAoJBhIIN+hmNHrzRCf9tD/miZyoHS5obTRR9BMY=";
+      link.crossOrigin = "";
+      document.head.appendChild(link);
+    }
+
+    if (!window.L) {
+      const script = document.createElement("script");
+      script.src = "https://unpkg.com/leaflet@1.9.4/dist/leaflet.js";
+      script.integrity = "sha256-20nQCchB9co0qIjJZRGuk2/Z9VM+kNiyxNV1lvTlZBo=";
+      script.crossOrigin = "";
+      script.onload = () => setMapLoaded(true);
+      document.head.appendChild(script);
+    } else {
+      setMapLoaded(true);
+    }
+  }, []);
+
+  // Create the map once; clicks add a vertex to the boundary
+  useEffect(() => {
+    if (!mapLoaded || !mapRef.current || mapInstanceRef.current) return;
+
+    const L = window.L;
+    const map = L.map(mapRef.current).setView([20.5937, 78.9629], 5);
+    L.tileLayer("https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png", {
+      attribution: "© OSM",
+      maxZoom: 19,
+    }).addTo(map);
+
+    map.on("click", (e: any) => {
+      setPoints((prev) => [...prev, [e.latlng.lat, e.latlng.lng]]);
+    });
+
+    const initial = toLatLngs(value);
+    if (initial.length > 0) {
+      map.fitBounds(L.latLngBounds(initial), { padding: [20, 20] });
+    }
+
+    mapInstanceRef.current = map;
+    return () => {
+      map.remove();
+      mapInstanceRef.current = null;
+    };
+  }, [mapLoaded]);
+
+  useEffect(() => {
+    if (center && mapInstanceRef.current) {
+      mapInstanceRef.current.setView([center.latitude, center.longitude], 13);
+    }
+  }, [center]);
+
+  // Redraw the shape as corners are added or removed
+  useEffect(() => {
+    const map = mapInstanceRef.current;
+    if (!map) return;
+
+    if (shapeRef.current) map.removeLayer(shapeRef.current);
+    shapeRef.current =
+      points.length >= 3
+        ? window.L.polygon(points, { color: "#d32f2f" }).addTo(map)
+        : points.length > 0
+          ? window.L.polyline(points, {
+              color: "#d32f2f",
+              dashArray: "4",
+            }).addTo(map)
+          : null;
+  }, [points, mapLoaded]);
+
+  // Report the boundary to the form; it stays null until it is a polygon
+  useEffect(() => {
+    const boundary = toBoundary(points);
+    if (JSON.stringify(boundary) !== JSON.stringify(value)) {
+      onChange(boundary);
+    }
+  }, [points]);
+
+  return (
+    <div className={styles.editor}>
+      <div ref={mapRef} className={styles.map}></div>
+      <div className={styles.toolbar}>
+        <span className={styles.hint}>
+          {points.length < 3
+            ? `Click the map to add corners (${points.length}/3 minimum)`
+            : `${points.length} corners`}
+        </span>
+        <button
+          type="button"
+          onClick={() => setPoints((prev) => prev.slice(0, -1))}
+          disabled={points.length === 0}
+          className={styles.toolButton}
+        >
+          Undo
+        </button>
+        <button
+          type="button"
+          onClick={() => setPoints([])}
+          disabled={points.length === 0}
+          className={styles.toolButton}
+        >
+          Clear
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { createClient } from "@/lib/supabase/client";
+import { assignIncidents, loadOfficers, Officer } from "@/lib/assignment";
+import styles from "./AssignOfficerModal.module.css";
+
+interface AssignOfficerModalProps {
+  incidentIds: string[];
+  currentUserId: string;
+  // The incident's current assignee, when assigning a single incident
+  currentAssigneeId?: string | null;
+  onClose: () => void;
+  // Called with the new assignee (null when unassigned)
+  onAssigned: (officer: Officer | null) => void;
+}
+
+// Police dialog for assigning one or more incidents. Officers are listed
+// least loaded first with their open assignments and duty status.
+export default function AssignOfficerModal({
+  incidentIds,
+  currentUserId,
+  currentAssigneeId = null,
+  onClose,
+  onAssigned,
+}: AssignOfficerModalProps) {
+  const supabase = createClient();
+  const [officers, setOfficers] = useState<Officer[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(
+    currentAssigneeId,
+  );
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    loadOfficers(supabase)
+      .then(setOfficers)
+      .catch((loadError) => {
+        console.error("Error loading officers:", loadError);
+        setError("Could not load officers");
+      })
+      .finally(() => setLoading(false));
+  }, [supabase]);
+
+  const handleAssign = async (officerId: string | null) => {
+    setSaving(true);
+    setError("");
+    try {
+      await assignIncidents(supabase, incidentIds, officerId);
+      onAssigned(officers.find((o) => o.id === officerId) ?? null);
+    } catch (assignError) {
+      console.error("Error assigning incidents:", assignError);
+      setError(
+        (assignError as { message?: string })?.message ||
+          "Could not assign. Please try again.",
+      );
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className={styles.overlay} onClick={onClose}>
+      <div className={styles.modal} onClick={(e) => e.stopPropagation()}>
+        <h2 className={styles.title}>
+          Assign{" "}
+          {incidentIds.length === 1
+            ? "incident"
+            : `${incidentIds.length} incidents`}
+        </h2>
+
+        {loading ? (
+          <p className={styles.hint}>Loading officers...</p>
+        ) : officers.length === 0 ? (
+          <p className={styles.hint}>No active officers</p>
+        ) : (
+          <div className={styles.officerList}>
+            {officers.map((officer) => (
+              <label
+                key={officer.id}
+                className={`${styles.officer} ${selectedId === officer.id ? styles.selected : ""}`}
+              >
+                <input
+                  type="radio"
+                  name="officer"
+                  checked={selectedId === officer.id}
+                  onChange={() => setSelectedId(officer.id)}
+                />
+                <span className={styles.officerName}>
+                  {officer.full_name}
+                  {officer.id === currentUserId && " (you)"}
+                </span>
+                <span
+                  className={`${styles.duty} ${officer.is_on_duty ? styles.onDuty : ""}`}
+                >
+                  {officer.is_on_duty ? "On duty" : "Off duty"}
+                </span>
+                <span className={styles.load}>
+                  {officer.openAssignments} open
+                </span>
+              </label>
+            ))}
+          </div>
+        )}
+
+        {error && <p className={styles.error}>{error}</p>}
+
+        <div className={styles.quickActions}>
+          <button
+            type="button"
+            onClick={() => handleAssign(currentUserId)}
+            disabled={saving}
+            className={styles.linkButton}
+          >
+            Assign to me
+          </button>
+          {currentAssigneeId && (
+            <button
+              type="button"
+              onClick={() => handleAssign(null)}
+              disabled={saving}
+              className={styles.linkButton}
+            >
+              Unassign
+            </button>
+          )}
+        </div>
+
+        <div className={styles.actions}>
+          <button type="button" onClick={onClose} className={styles.cancel}>
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={() => handleAssign(selectedId)}
+            disabled={saving || !selectedId}
+            className={styles.save}
+          >
+            {saving ? "Assigning..." : "Assign"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+"use client";
+
+import { useState } from "react";
+import styles from "./BeforeAfterSlider.module.css";
+
+interface BeforeAfterSliderProps {
+  beforeUrl: string;
+  afterUrl: string;
+  beforeLabel?: string;
+  afterLabel?: string;
+  className?: string;
+}
+
+// The reporter's photo and the police resolution photo stacked on top of
+// each other, with a handle to drag between them. A range input covers
+// the whole image so dragging, tapping and the arrow keys all work.
+export default function BeforeAfterSlider({
+  beforeUrl,
+  afterUrl,
+  beforeLabel = "Before",
+  afterLabel = "After",
+  className = "",
+}: BeforeAfterSliderProps) {
+  const [position, setPosition] = useState(50);
+
+  return (
+    <div
+      className={`${styles.slider} ${className}`}
+      // Feed cards are links; moving the handle should not open the incident
+      onClick={(e) => e.preventDefault()}
+    >
+      <img src={afterUrl} alt={afterLabel} className={styles.image} />
+      <img
+        src={beforeUrl}
+        alt={beforeLabel}
+        className={styles.image}
+        style={{ clipPath: `inset(0 ${100 - position}% 0 0)` }}
+      />
+      <div
+        className={styles.divider}
+        style={{ left: `${position}%` }}
+        aria-hidden="true"
+      >
+        <span className={styles.handle}>
+          <svg viewBox="0 0 24 24" fill="currentColor" width="16" height="16">
+            <path d="M8.59 16.59L4 12l4.59-4.59L10 8.83 6.83 12 10 15.17zM15.41 16.59L20 12l-4.59-4.59L14 8.83 17.17 12 14 15.17z" />
+          </svg>
+        </span>
+      </div>
+      <span className={`${styles.label} ${styles.labelBefore}`}>
+        {beforeLabel}
+      </span>
+      <span className={`${styles.label} ${styles.labelAfter}`}>
+        {afterLabel}
+      </span>
+      <input
+        type="range"
+        min={0}
+        max={100}
+        value={position}
+        onChange={(e) => setPosition(Number(e.target.value))}
+        className={styles.range}
+        aria-label={`${beforeLabel} / ${afterLabel}`}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,302 @@
+"use client";
+
+import { FormEvent, useEffect, useRef, useState } from "react";
+import { createClient } from "@/lib/supabase/client";
+import { useI18n } from "@/lib/I18nContext";
+import {
+  COMMENT_ATTACHMENT_MAX_SIZE,
+  COMMENT_MAX_LENGTH,
+  IncidentComment,
+  loadComment,
+  loadComments,
+  postComment,
+} from "@/lib/incidentComments";
+import styles from "./CommentThread.module.css";
+
+interface CommentThreadProps {
+  incidentId: string;
+  currentUserId: string;
+  // Which side of the conversation is looking at it
+  viewer: "citizen" | "police";
+  // Set for the reporter of an anonymous incident, whose attachments must
+  // not be stored under their user id
+  anonymous?: boolean;
+}
+
+// Conversation between the reporter and police on one incident. New
+// comments from either side arrive live; the database notifies the other
+// side of each one.
+export default function CommentThread({
+  incidentId,
+  currentUserId,
+  viewer,
+  anonymous = false,
+}: CommentThreadProps) {
+  const supabase = createClient();
+  const { t, formatDate } = useI18n();
+  const [comments, setComments] = useState<IncidentComment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [body, setBody] = useState("");
+  const [file, setFile] = useState<File | null>(null);
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState("");
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // The realtime event and the insert response both deliver our own comments
+  const addComment = (comment: IncidentComment) => {
+    setComments((prev) =>
+      prev.some((c) => c.id === comment.id) ? prev : [...prev, comment],
+    );
+  };
+
+  useEffect(() => {
+    loadComments(supabase, incidentId)
+      .then(setComments)
+      .catch((loadError) => {
+        console.error("Error loading comments:", loadError);
+        setError(t("comments.loadFailed"));
+      })
+      .finally(() => setLoading(false));
+
+    const channel = supabase
+      .channel(`incident-comments-${incidentId}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "INSERT",
+          schema: "public",
+          table: "incident_comments",
+          filter: `incident_id=eq.${incidentId}`,
+        },
+        async (payload) => {
+          try {
+            const comment = await loadComment(
+              supabase,
+              (payload.new as { id: string }).id,
+            );
+            if (comment) addComment(comment);
+          } catch (loadError) {
+            console.error("Error loading new comment:", loadError);
+          }
+        },
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [supabase, incidentId]);
+
+  useEffect(() => {
+    if (listRef.current) {
+      listRef.current.scrollTop = listRef.current.scrollHeight;
+    }
+  }, [comments.length]);
+
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    if (!selected) return;
+    if (selected.size > COMMENT_ATTACHMENT_MAX_SIZE) {
+      setError(
+        t("comments.attachmentTooLarge", {
+          size: COMMENT_ATTACHMENT_MAX_SIZE / (1024 * 1024),
+        }),
+      );
+      e.target.value = "";
+      return;
+    }
+    setError("");
+    setFile(selected);
+  };
+
+  const removeFile = () => {
+    setFile(null);
+    if (fileInputRef.current) {
+      fileInputRef.current.value = "";
+    }
+  };
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (sending || (!body.trim() && !file)) return;
+
+    setSending(true);
+    setError("");
+    try {
+      addComment(
+        await postComment(supabase, {
+          incidentId,
+          authorId: currentUserId,
+          anonymous,
+          body,
+          file,
+        }),
+      );
+      setBody("");
+      removeFile();
+    } catch (sendError) {
+      console.error("Error sending comment:", sendError);
+      setError(t("comments.sendFailed"));
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const authorLabel = (comment: IncidentComment) => {
+    if (comment.author_id === currentUserId) return t("comments.you");
+    const fromPolice = ["police", "admin"].includes(comment.author_role);
+    if (viewer === "citizen") {
+      return fromPolice && comment.author?.full_name
+        ? t("comments.policeOfficer", { name: comment.author.full_name })
+        : t("comments.police");
+    }
+    // Never name the reporter here; the incident may be anonymous
+    return fromPolice
+      ? comment.author?.full_name || t("comments.officer")
+      : t("comments.reporter");
+  };
+
+  const formatTime = (date: string) =>
+    formatDate(date, {
+      day: "numeric",
+      month: "short",
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+
+  const renderAttachment = (comment: IncidentComment) => {
+    if (!comment.attachment_url) return null;
+    switch (comment.attachment_type) {
+      case "image":
+        return (
+          <a href={comment.attachment_url} target="_blank" rel="noreferrer">
+            <img
+              src={comment.attachment_url}
+              alt={comment.attachment_name || t("comments.attachment")}
+              className={styles.attachmentMedia}
+              loading="lazy"
+            />
+          </a>
+        );
+      case "video":
+        return (
+          <video
+            src={comment.attachment_url}
+            controls
+            preload="metadata"
+            className={styles.attachmentMedia}
+          />
+        );
+      case "audio":
+        return (
+          <audio
+            src={comment.attachment_url}
+            controls
+            preload="metadata"
+            className={styles.attachmentAudio}
+          />
+        );
+      default:
+        return (
+          <a
+            href={comment.attachment_url}
+            target="_blank"
+            rel="noreferrer"
+            className={styles.attachmentFile}
+          >
+            {comment.attachment_name || t("comments.attachment")}
+          </a>
+        );
+    }
+  };
+
+  return (
+    <div className={styles.thread}>
+      <div ref={listRef} className={styles.messages}>
+        {loading ? (
+          <p className={styles.empty}>{t("comments.loading")}</p>
+        ) : comments.length === 0 ? (
+          <p className={styles.empty}>
+            {viewer === "citizen"
+              ? t("comments.emptyCitizen")
+              : t("comments.emptyPolice")}
+          </p>
+        ) : (
+          comments.map((comment) => {
+            const isOwn = comment.author_id === currentUserId;
+            return (
+              <div
+                key={comment.id}
+                className={`${styles.message} ${isOwn ? styles.own : ""}`}
+              >
+                <div className={styles.messageMeta}>
+                  <span className={styles.author}>{authorLabel(comment)}</span>
+                  <span>{formatTime(comment.created_at)}</span>
+                </div>
+                <div className={styles.bubble}>
+                  {comment.body && (
+                    <p className={styles.body}>{comment.body}</p>
+                  )}
+                  {renderAttachment(comment)}
+                </div>
+              </div>
+            );
+          })
+        )}
+      </div>
+
+      <form onSubmit={handleSubmit} className={styles.composer}>
+        {file && (
+          <div className={styles.selectedFile}>
+            <span>{file.name}</span>
+            <button
+              type="button"
+              onClick={removeFile}
+              aria-label={t("comments.removeAttachment")}
+            >
+              ×
+            </button>
+          </div>
+        )}
+        <div className={styles.composerRow}>
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            className={styles.attachButton}
+            aria-label={t("comments.attach")}
+            disabled={sending}
+          >
+            <svg viewBox="0 0 24 24" fill="currentColor" width="20" height="20">
+              <path d="M16.5 6v11.5c0 2.21-1.79 4-4 4s-4-1.79-4-4V5a2.5 2.5 0 015 0v10.5c0 .55-.45 1-1 1s-1-.45-1-1V6H10v9.5a2.5 2.5 0 005 0V5c0-2.21-1.79-4-4-4S7 2.79 7 5v12.5c0 3.04 2.46 5.5 5.5 5.5s5.5-2.46 5.5-5.5V6h-1.5z" />
+            </svg>
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="image/*,video/*,audio/*,application/pdf"
+            onChange={handleFileSelect}
+            hidden
+          />
+          <textarea
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            placeholder={t("comments.placeholder")}
+            maxLength={COMMENT_MAX_LENGTH}
+            rows={2}
+            className={styles.input}
+            disabled={sending}
+          />
+          <button
+            type="submit"
+            className={styles.sendButton}
+            disabled={sending || (!body.trim() && !file)}
+          >
+            {sending ? t("comments.sending") : t("comments.send")}
+          </button>
+        </div>
+        {error && <p className={styles.error}>{error}</p>}
+      </form>
+    </div>
+  );
+}
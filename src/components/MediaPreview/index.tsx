@@ -0,0 +1,61 @@
+"use client";
+
+import styles from "./MediaPreview.module.css";
+
+interface MediaPreviewProps {
+  url: string;
+  // incident_media.file_type / resolution_media_type: image, video or audio
+  type: string;
+  // Poster frame stored for videos; older videos have none
+  thumbnailUrl?: string | null;
+  alt: string;
+  className?: string;
+  // Smaller play badge for list thumbnails
+  compact?: boolean;
+}
+
+// Still preview of an evidence file for cards and lists. Videos show their
+// poster frame so the clip itself is only downloaded when opened; ones
+// without a poster fall back to a video element that fetches just enough
+// to draw its first frame.
+export default function MediaPreview({
+  url,
+  type,
+  thumbnailUrl,
+  alt,
+  className = "",
+  compact = false,
+}: MediaPreviewProps) {
+  if (type !== "video") {
+    return <img src={url} alt={alt} className={className} loading="lazy" />;
+  }
+
+  return (
+    <>
+      {thumbnailUrl ? (
+        <img
+          src={thumbnailUrl}
+          alt={alt}
+          className={className}
+          loading="lazy"
+        />
+      ) : (
+        <video
+          src={url}
+          className={className}
+          preload="metadata"
+          muted
+          playsInline
+        />
+      )}
+      <span
+        className={`${styles.playBadge} ${compact ? styles.compact : ""}`}
+        aria-hidden="true"
+      >
+        <svg viewBox="0 0 24 24" fill="currentColor">
+          <path d="M8 5v14l11-7z" />
+        </svg>
+      </span>
+    </>
+  );
+}
@@ -0,0 +1,143 @@
+"use client";
+
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+} from "react";
+import { createClient } from "@/lib/supabase/client";
+import {
+  DEFAULT_LOCALE,
+  Locale,
+  MessageKey,
+  MessageParams,
+  Messages,
+  TranslatableName,
+  formatDate,
+  formatNumber,
+  formatTimeAgo,
+  getMessages,
+  isLocale,
+  localizedName,
+  statusLabel,
+  translate,
+} from "@/lib/i18n";
+
+const STORAGE_KEY = "alertkaro-language";
+
+interface I18nContextType {
+  locale: Locale;
+  setLocale: (locale: Locale) => Promise<void>;
+  messages: Messages;
+  t: (key: MessageKey, params?: MessageParams) => string;
+  formatDate: (
+    date: string | number | Date,
+    options?: Intl.DateTimeFormatOptions,
+  ) => string;
+  formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string;
+  formatTimeAgo: (date: string | number | Date) => string;
+  statusLabel: (status: string) => string;
+  categoryName: (category: TranslatableName | null | undefined) => string;
+}
+
+function bind(locale: Locale) {
+  return {
+    messages: getMessages(locale),
+    t: (key: MessageKey, params?: MessageParams) =>
+      translate(locale, key, params),
+    formatDate: (
+      date: string | number | Date,
+      options?: Intl.DateTimeFormatOptions,
+    ) => formatDate(locale, date, options),
+    formatNumber: (value: number, options?: Intl.NumberFormatOptions) =>
+      formatNumber(locale, value, options),
+    formatTimeAgo: (date: string | number | Date) =>
+      formatTimeAgo(locale, date),
+    statusLabel: (status: string) => statusLabel(locale, status),
+    categoryName: (category: TranslatableName | null | undefined) =>
+      localizedName(locale, category),
+  };
+}
+
+const I18nContext = createContext<I18nContextType>({
+  locale: DEFAULT_LOCALE,
+  setLocale: async () => {},
+  ...bind(DEFAULT_LOCALE),
+});
+
+export function I18nProvider({ children }: { children: React.ReactNode }) {
+  const [supabase] = useState(() => createClient());
+  const [locale, setLocaleState] = useState<Locale>(DEFAULT_LOCALE);
+
+  const applyLocale = useCallback((next: Locale) => {
+    setLocaleState(next);
+    localStorage.setItem(STORAGE_KEY, next);
+  }, []);
+
+  useEffect(() => {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (isLocale(stored)) setLocaleState(stored);
+
+    // The profile wins over the device so the choice follows the account
+    async function loadPreference(userId: string) {
+      const { data } = await supabase
+        .from("profiles")
+        .select("preferred_language")
+        .eq("id", userId)
+        .single();
+      if (isLocale(data?.preferred_language)) {
+        applyLocale(data.preferred_language);
+      }
+    }
+
+    supabase.auth.getUser().then(({ data: { user } }) => {
+      if (user) loadPreference(user.id);
+    });
+
+    const {
+      data: { subscription },
+    } = supabase.auth.onAuthStateChange((event, session) => {
+      if (event === "SIGNED_IN" && session?.user) {
+        loadPreference(session.user.id);
+      }
+    });
+
+    return () => subscription.unsubscribe();
+  }, [supabase, applyLocale]);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const setLocale = useCallback(
+    async (next: Locale) => {
+      applyLocale(next);
+
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const { error } = await supabase
+        .from("profiles")
+        .update({ preferred_language: next })
+        .eq("id", user.id);
+      if (error) throw error;
+    },
+    [supabase, applyLocale],
+  );
+
+  const value = useMemo(
+    () => ({ locale, setLocale, ...bind(locale) }),
+    [locale, setLocale],
+  );
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+}
+
+export function useI18n() {
+  return useContext(I18nContext);
+}
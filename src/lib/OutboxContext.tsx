@@ -0,0 +1,239 @@
+"use client";
+
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useRef,
+  useState,
+  ReactNode,
+} from "react";
+import { createClient } from "@/lib/supabase/client";
+import {
+  OUTBOX_SYNC_TAG,
+  PendingMedia,
+  QueuedReport,
+  enqueueReport,
+  listQueuedReports,
+  removeQueuedReport,
+  saveQueuedReport,
+} from "@/lib/outbox";
+import {
+  ReportPayload,
+  StagedMedia,
+  isNetworkError,
+  isRejectedSubmission,
+  stageReportMedia,
+  submitIncident,
+} from "@/lib/reportSubmission";
+
+interface OutboxContextType {
+  queuedReports: QueuedReport[];
+  syncing: boolean;
+  lastSyncedAt: number | null;
+  queueReport: (
+    userId: string,
+    submissionId: string,
+    payload: ReportPayload,
+    category: QueuedReport["category"],
+    media: PendingMedia[],
+    staged: StagedMedia[],
+  ) => Promise<void>;
+  flushOutbox: () => Promise<void>;
+  discardQueuedReport: (id: string) => Promise<void>;
+}
+
+const OutboxContext = createContext<OutboxContextType>({
+  queuedReports: [],
+  syncing: false,
+  lastSyncedAt: null,
+  queueReport: async () => {},
+  flushOutbox: async () => {},
+  discardQueuedReport: async () => {},
+});
+
+export function useOutbox() {
+  return useContext(OutboxContext);
+}
+
+// Background Sync is not in the TypeScript DOM lib yet.
+type SyncCapableRegistration = ServiceWorkerRegistration & {
+  sync?: { register: (tag: string) => Promise<void> };
+};
+
+export function OutboxProvider({ children }: { children: ReactNode }) {
+  const supabase = createClient();
+  const [queuedReports, setQueuedReports] = useState<QueuedReport[]>([]);
+  const [syncing, setSyncing] = useState(false);
+  const [lastSyncedAt, setLastSyncedAt] = useState<number | null>(null);
+  const flushingRef = useRef(false);
+
+  const refreshQueue = useCallback(async () => {
+    try {
+      setQueuedReports(await listQueuedReports());
+    } catch (error) {
+      console.error("Error reading outbox:", error);
+    }
+  }, []);
+
+  // Replay a queued report step by step: upload each file, persisting
+  // progress as it goes, then create the incident with all of them at once.
+  const replayReport = useCallback(
+    async (report: QueuedReport) => {
+      let current = report;
+
+      try {
+        for (const media of report.media) {
+          const file = new File([media.blob], media.name, {
+            type: media.type,
+          });
+          const staged = await stageReportMedia(supabase, {
+            userId: current.userId,
+            anonymous: current.payload.is_anonymous,
+            submissionId: current.id,
+            uploadId: media.id,
+            file,
+            metadata: media.metadata,
+          });
+          current = {
+            ...current,
+            media: current.media.filter((m) => m.id !== media.id),
+            staged: [...current.staged, staged],
+          };
+          await saveQueuedReport(current);
+        }
+
+        await submitIncident(current.id, current.payload, current.staged);
+        await removeQueuedReport(current.id);
+      } catch (error) {
+        await saveQueuedReport({
+          ...current,
+          attempts: current.attempts + 1,
+          lastError: error instanceof Error ? error.message : String(error),
+          rejected: isRejectedSubmission(error),
+        });
+        throw error;
+      }
+    },
+    [supabase],
+  );
+
+  const flushOutbox = useCallback(async () => {
+    if (flushingRef.current || !navigator.onLine) return;
+    flushingRef.current = true;
+    setSyncing(true);
+
+    let delivered = 0;
+    try {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const reports = await listQueuedReports();
+      for (const report of reports) {
+        // Reports queued under another account would be rejected by RLS
+        if (report.userId !== user.id || report.rejected) continue;
+
+        try {
+          await replayReport(report);
+          delivered++;
+        } catch (error) {
+          console.error("Outbox replay error:", error);
+          // Still offline: leave the rest queued for the next sync
+          if (isNetworkError(error)) break;
+        }
+      }
+    } catch (error) {
+      console.error("Error flushing outbox:", error);
+    } finally {
+      flushingRef.current = false;
+      setSyncing(false);
+      await refreshQueue();
+      if (delivered > 0) setLastSyncedAt(Date.now());
+    }
+  }, [supabase, replayReport, refreshQueue]);
+
+  const queueReport = useCallback(
+    async (
+      userId: string,
+      submissionId: string,
+      payload: ReportPayload,
+      category: QueuedReport["category"],
+      media: PendingMedia[],
+      staged: StagedMedia[],
+    ) => {
+      await enqueueReport(
+        { id: submissionId, userId, payload, category, staged },
+        media,
+      );
+      await refreshQueue();
+
+      // Ask the service worker to wake us when connectivity returns
+      if ("serviceWorker" in navigator) {
+        const registration =
+          (await navigator.serviceWorker.getRegistration()) as
+            SyncCapableRegistration | undefined;
+        try {
+          await registration?.sync?.register(OUTBOX_SYNC_TAG);
+        } catch (error) {
+          console.error("Background sync registration failed:", error);
+        }
+      }
+    },
+    [refreshQueue],
+  );
+
+  const discardQueuedReport = useCallback(
+    async (id: string) => {
+      await removeQueuedReport(id);
+      await refreshQueue();
+    },
+    [refreshQueue],
+  );
+
+  useEffect(() => {
+    refreshQueue();
+    flushOutbox();
+
+    const handleOnline = () => flushOutbox();
+    const handleWorkerMessage = (event: MessageEvent) => {
+      if (event.data?.type === "outbox-sync") flushOutbox();
+    };
+
+    window.addEventListener("online", handleOnline);
+
+    if ("serviceWorker" in navigator) {
+      navigator.serviceWorker.register("/sw.js").catch((error) => {
+        console.error("Service worker registration failed:", error);
+      });
+      navigator.serviceWorker.addEventListener("message", handleWorkerMessage);
+    }
+
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      if ("serviceWorker" in navigator) {
+        navigator.serviceWorker.removeEventListener(
+          "message",
+          handleWorkerMessage,
+        );
+      }
+    };
+  }, [refreshQueue, flushOutbox]);
+
+  return (
+    <OutboxContext.Provider
+      value={{
+        queuedReports,
+        syncing,
+        lastSyncedAt,
+        queueReport,
+        flushOutbox,
+        discardQueuedReport,
+      }}
+    >
+      {children}
+    </OutboxContext.Provider>
+  );
+}
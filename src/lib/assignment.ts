@@ -0,0 +1,62 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+// Officer assignment. Assigning goes through the assign_incidents function,
+// which checks the caller is police and notifies the new assignee; when
+// auto-assignment is on, the database also assigns new incidents itself
+// (see the officer_assignment migration).
+
+export interface Officer {
+  id: string;
+  full_name: string;
+  is_on_duty: boolean;
+  // Assigned incidents that are neither resolved nor withdrawn
+  openAssignments: number;
+}
+
+// Active police officers with their current workload, least loaded first
+export async function loadOfficers(
+  supabase: SupabaseClient,
+): Promise<Officer[]> {
+  const [{ data: officers, error }, { data: workloads, error: workloadError }] =
+    await Promise.all([
+      supabase
+        .from("profiles")
+        .select("id, full_name, is_on_duty, is_active")
+        .eq("role", "police")
+        .order("full_name"),
+      supabase.rpc("officer_workloads"),
+    ]);
+  if (error) throw error;
+  if (workloadError) throw workloadError;
+
+  const counts = new Map<string, number>(
+    (
+      (workloads as { officer_id: string; open_assignments: number }[]) || []
+    ).map((row) => [row.officer_id, row.open_assignments]),
+  );
+
+  return (officers || [])
+    .filter((o) => o.is_active !== false)
+    .map((o) => ({
+      id: o.id,
+      full_name: o.full_name,
+      is_on_duty: o.is_on_duty,
+      openAssignments: counts.get(o.id) || 0,
+    }))
+    .sort((a, b) => a.openAssignments - b.openAssignments);
+}
+
+// Assign incidents to an officer, or unassign them with null. Returns how
+// many incidents changed.
+export async function assignIncidents(
+  supabase: SupabaseClient,
+  incidentIds: string[],
+  officerId: string | null,
+): Promise<number> {
+  const { data, error } = await supabase.rpc("assign_incidents", {
+    p_incident_ids: incidentIds,
+    p_officer_id: officerId,
+  });
+  if (error) throw error;
+  return data as number;
+}
@@ -0,0 +1,227 @@
+// Extra report fields defined per category by admins (categories.form_fields)
+// and the answers stored on each incident (incidents.field_values). Shared
+// by the admin editor, the report page, POST /api/incidents and the police
+// views.
+
+import type { ValidationError } from "@/lib/incidentValidation";
+
+export type CategoryFieldType = "text" | "number" | "select" | "checkbox";
+
+export const CATEGORY_FIELD_TYPES: {
+  value: CategoryFieldType;
+  label: string;
+}[] = [
+  { value: "text", label: "Text" },
+  { value: "number", label: "Number" },
+  { value: "select", label: "Choice" },
+  { value: "checkbox", label: "Yes / No" },
+];
+
+export interface CategoryField {
+  // Stable identifier answers are stored under; never changes once saved
+  key: string;
+  label: string;
+  type: CategoryFieldType;
+  required: boolean;
+  placeholder?: string;
+  // Choices for "select" fields
+  options?: string[];
+  // Bounds for "number" fields
+  min?: number | null;
+  max?: number | null;
+  // Longest answer accepted for "text" fields
+  max_length?: number | null;
+}
+
+export type FieldValue = string | number | boolean;
+
+export type FieldValues = Record<string, FieldValue>;
+
+// Longest text answer accepted when the field sets no limit
+export const DEFAULT_TEXT_MAX_LENGTH = 200;
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+// Read a category's form_fields column, skipping entries that do not look
+// like a field rather than failing on them
+export function parseCategoryFields(raw: unknown): CategoryField[] {
+  if (!Array.isArray(raw)) return [];
+
+  return raw.flatMap((item): CategoryField[] => {
+    if (typeof item !== "object" || item === null) return [];
+    const { key, label, type } = item as Record<string, unknown>;
+    if (
+      typeof key !== "string" ||
+      !key ||
+      typeof label !== "string" ||
+      !CATEGORY_FIELD_TYPES.some((t) => t.value === type)
+    ) {
+      return [];
+    }
+
+    const field = item as CategoryField;
+    return [
+      {
+        key,
+        label,
+        type: type as CategoryFieldType,
+        required: field.required === true,
+        placeholder:
+          typeof field.placeholder === "string" ? field.placeholder : undefined,
+        options: Array.isArray(field.options)
+          ? field.options.filter((o): o is string => typeof o === "string")
+          : undefined,
+        min: isFiniteNumber(field.min) ? field.min : null,
+        max: isFiniteNumber(field.max) ? field.max : null,
+        max_length: isFiniteNumber(field.max_length) ? field.max_length : null,
+      },
+    ];
+  });
+}
+
+// Key for a new field, derived from its label and unique among `taken`
+export function fieldKeyFromLabel(label: string, taken: string[]) {
+  const base =
+    label
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "_")
+      .replace(/^_+|_+$/g, "") || "field";
+
+  let key = base;
+  for (let n = 2; taken.includes(key); n++) {
+    key = `${base}_${n}`;
+  }
+  return key;
+}
+
+// Keep only answers to the given fields, trimmed and typed. Numbers typed
+// into the form arrive as strings; ones that do not parse are kept as
+// strings so validation can flag them.
+export function normalizeFieldValues(
+  fields: CategoryField[],
+  raw: unknown,
+): FieldValues {
+  const input =
+    typeof raw === "object" && raw !== null && !Array.isArray(raw)
+      ? (raw as Record<string, unknown>)
+      : {};
+  const values: FieldValues = {};
+
+  fields.forEach((field) => {
+    const value = input[field.key];
+
+    if (field.type === "checkbox") {
+      values[field.key] = value === true;
+      return;
+    }
+    if (field.type === "number" && isFiniteNumber(value)) {
+      values[field.key] = value;
+      return;
+    }
+    if (typeof value !== "string" || !value.trim()) return;
+
+    const text = value.trim();
+    if (field.type === "number") {
+      const number = Number(text);
+      values[field.key] = Number.isFinite(number) ? number : text;
+    } else {
+      values[field.key] = text;
+    }
+  });
+
+  return values;
+}
+
+// Check normalized answers against the fields. Returns errors by field
+// key; empty when everything is valid.
+export function validateFieldValues(
+  fields: CategoryField[],
+  values: FieldValues,
+): Record<string, ValidationError> {
+  const errors: Record<string, ValidationError> = {};
+
+  fields.forEach((field) => {
+    const value = values[field.key];
+    const label = field.label;
+    const missing =
+      value === undefined || (field.type === "checkbox" && value !== true);
+
+    if (missing) {
+      if (field.required) {
+        errors[field.key] = {
+          code: field.type === "checkbox" ? "fieldUnchecked" : "fieldRequired",
+          params: { label },
+        };
+      }
+      return;
+    }
+
+    switch (field.type) {
+      case "number":
+        if (!isFiniteNumber(value)) {
+          errors[field.key] = { code: "fieldNotNumber", params: { label } };
+        } else if (isFiniteNumber(field.min) && value < field.min) {
+          errors[field.key] = {
+            code: "fieldTooSmall",
+            params: { label, min: field.min },
+          };
+        } else if (isFiniteNumber(field.max) && value > field.max) {
+          errors[field.key] = {
+            code: "fieldTooLarge",
+            params: { label, max: field.max },
+          };
+        }
+        break;
+      case "select":
+        if (!field.options?.includes(value as string)) {
+          errors[field.key] = { code: "fieldNoChoice", params: { label } };
+        }
+        break;
+      case "text": {
+        const limit = field.max_length || DEFAULT_TEXT_MAX_LENGTH;
+        if (typeof value !== "string" || value.length > limit) {
+          errors[field.key] = {
+            code: "fieldTooLong",
+            params: { label, max: limit },
+          };
+        }
+        break;
+      }
+    }
+  });
+
+  return errors;
+}
+
+export function formatFieldValue(field: CategoryField, value: FieldValue) {
+  if (field.type === "checkbox") return value === true ? "Yes" : "No";
+  return String(value);
+}
+
+// Label and display value of every answer on an incident, in the order
+// the category defines its fields. Answers to fields since removed from
+// the category are listed last under their key.
+export function describeFieldValues(
+  fields: CategoryField[],
+  values: unknown,
+): { key: string; label: string; value: string }[] {
+  const answers =
+    typeof values === "object" && values !== null && !Array.isArray(values)
+      ? (values as Record<string, FieldValue>)
+      : {};
+
+  const known = fields
+    .filter((field) => answers[field.key] !== undefined)
+    .map((field) => ({
+      key: field.key,
+      label: field.label,
+      value: formatFieldValue(field, answers[field.key]),
+    }));
+  const removed = Object.keys(answers)
+    .filter((key) => !fields.some((field) => field.key === key))
+    .map((key) => ({ key, label: key, value: String(answers[key]) }));
+
+  return [...known, ...removed];
+}
@@ -0,0 +1,63 @@
+import { DRAFTS_STORE, idbDelete, idbGet, idbGetAll, idbPut } from "@/lib/idb";
+import type { ExifMetadata } from "@/lib/exif";
+import type { TranslatableName } from "@/lib/i18n";
+
+export interface DraftMedia {
+  id: string;
+  name: string;
+  type: string;
+  blob: Blob;
+  metadata: ExifMetadata | null;
+}
+
+// An unfinished report kept on the device, so a reload or accidental
+// navigation away from /report does not lose what was captured.
+export interface ReportDraft {
+  id: string;
+  userId: string;
+  title: string;
+  description: string;
+  categoryId: string;
+  // Snapshot for listing drafts without loading categories
+  category: {
+    name: string;
+    name_translations: TranslatableName["name_translations"];
+    color: string;
+  } | null;
+  location: {
+    latitude: number;
+    longitude: number;
+    address: string;
+    source: "device" | "manual";
+  } | null;
+  isAnonymous: boolean;
+  // Answers to the category's own fields as typed, by field key
+  fieldValues: Record<string, string | boolean>;
+  media: DraftMedia[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Drafts belonging to a user, most recently edited first
+export async function listDrafts(userId: string): Promise<ReportDraft[]> {
+  const drafts = await idbGetAll<ReportDraft>(DRAFTS_STORE);
+  return drafts
+    .filter((draft) => draft.userId === userId)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+export function getDraft(id: string): Promise<ReportDraft | undefined> {
+  return idbGet<ReportDraft>(DRAFTS_STORE, id);
+}
+
+export function saveDraft(draft: ReportDraft): Promise<void> {
+  return idbPut(DRAFTS_STORE, draft);
+}
+
+export function deleteDraft(id: string): Promise<void> {
+  return idbDelete(DRAFTS_STORE, id);
+}
+
+export function draftMediaToFile(media: DraftMedia): File {
+  return new File([media.blob], media.name, { type: media.type });
+}
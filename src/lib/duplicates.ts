@@ -0,0 +1,131 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+// Lookup of open incidents that probably describe the same issue as a new
+// report: same category, close by, and reported recently.
+
+export interface DuplicateSearchOptions {
+  // Distance from the new report's location, in metres
+  radiusMeters: number;
+  // How far back to look for existing reports, in hours
+  windowHours: number;
+}
+
+export const DEFAULT_DUPLICATE_OPTIONS: DuplicateSearchOptions = {
+  radiusMeters: Number(process.env.NEXT_PUBLIC_DUPLICATE_RADIUS_METERS) || 150,
+  windowHours: Number(process.env.NEXT_PUBLIC_DUPLICATE_WINDOW_HOURS) || 72,
+};
+
+export interface PossibleDuplicate {
+  id: string;
+  tracking_id: string;
+  title: string;
+  status: string;
+  address: string | null;
+  created_at: string;
+  distance: number;
+  incident_media: {
+    file_url: string;
+    file_type: string;
+  }[];
+}
+
+const EARTH_RADIUS_METERS = 6371000;
+
+function distanceMeters(
+  lat1: number,
+  lng1: number,
+  lat2: number,
+  lng2: number,
+) {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(lat2 - lat1);
+  const dLng = toRad(lng2 - lng1);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.sqrt(a));
+}
+
+// Open incidents in the category near the given point, nearest first.
+// The query narrows to a bounding box; the exact radius is applied here.
+// Reporters are not offered their own earlier reports.
+export async function findPossibleDuplicates(
+  supabase: SupabaseClient,
+  {
+    categoryId,
+    latitude,
+    longitude,
+  }: {
+    categoryId: string;
+    latitude: number;
+    longitude: number;
+  },
+  options: DuplicateSearchOptions = DEFAULT_DUPLICATE_OPTIONS,
+): Promise<PossibleDuplicate[]> {
+  const latDelta = options.radiusMeters / 111320;
+  const lngDelta =
+    options.radiusMeters /
+    (111320 * Math.max(Math.cos((latitude * Math.PI) / 180), 0.01));
+  const since = new Date(
+    Date.now() - options.windowHours * 60 * 60 * 1000,
+  ).toISOString();
+
+  const [{ data, error }, { data: ownData, error: ownError }] =
+    await Promise.all([
+      supabase
+        .from("incidents")
+        .select(
+          "id, tracking_id, title, status, address, created_at, latitude, longitude, incident_media(file_url, file_type)",
+        )
+        .eq("category_id", categoryId)
+        .neq("status", "resolved")
+        .is("withdrawn_at", null)
+        .gte("created_at", since)
+        .gte("latitude", latitude - latDelta)
+        .lte("latitude", latitude + latDelta)
+        .gte("longitude", longitude - lngDelta)
+        .lte("longitude", longitude + lngDelta)
+        .limit(20),
+      supabase.from("my_incidents").select("id").gte("created_at", since),
+    ]);
+
+  if (error) throw error;
+  if (ownError) throw ownError;
+
+  const own = new Set((ownData || []).map((incident) => incident.id));
+  return (data || [])
+    .filter((incident) => !own.has(incident.id))
+    .map(({ latitude: lat, longitude: lng, ...incident }) => ({
+      ...incident,
+      distance: distanceMeters(latitude, longitude, lat, lng),
+    }))
+    .filter((incident) => incident.distance <= options.radiusMeters)
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, 5);
+}
+
+// Record a "me too" for an existing incident. Confirming twice returns
+// the earlier confirmation instead of failing.
+export async function confirmIncident(
+  supabase: SupabaseClient,
+  userId: string,
+  incidentId: string,
+): Promise<string> {
+  const { data: existing } = await supabase
+    .from("incident_confirmations")
+    .select("id")
+    .eq("incident_id", incidentId)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (existing) return existing.id;
+
+  const { data, error } = await supabase
+    .from("incident_confirmations")
+    .insert({ incident_id: incidentId, user_id: userId })
+    .select("id")
+    .single();
+
+  if (error) throw error;
+  return data.id;
+}
@@ -0,0 +1,301 @@
+// Minimal JPEG metadata handling: read the capture time and GPS fix from a
+// photo's EXIF block, and produce a copy with all identifying metadata
+// segments removed. Only JPEG carries EXIF in practice for the photos our
+// users pick, so other formats are left to the canvas re-encode in
+// mediaProcessing.ts.
+
+export interface ExifMetadata {
+  captured_at: string | null;
+  gps_latitude: number | null;
+  gps_longitude: number | null;
+}
+
+const SOI = 0xffd8;
+const SOS = 0xda;
+const APP1 = 0xe1; // EXIF and XMP
+const APP13 = 0xed; // IPTC / Photoshop
+const COM = 0xfe; // free-text comment
+
+const TAG_ORIENTATION = 0x0112;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+const TAG_DATETIME = 0x0132;
+const TAG_DATETIME_ORIGINAL = 0x9003;
+const TAG_OFFSET_TIME_ORIGINAL = 0x9011;
+const TAG_GPS_LATITUDE_REF = 0x0001;
+const TAG_GPS_LATITUDE = 0x0002;
+const TAG_GPS_LONGITUDE_REF = 0x0003;
+const TAG_GPS_LONGITUDE = 0x0004;
+
+interface IfdEntry {
+  type: number;
+  count: number;
+  offset: number;
+}
+
+type IfdEntries = Map<number, IfdEntry>;
+
+function isJpeg(view: DataView) {
+  return view.byteLength > 4 && view.getUint16(0) === SOI;
+}
+
+function readIfd(
+  view: DataView,
+  tiffStart: number,
+  ifdOffset: number,
+  little: boolean,
+) {
+  const entries: IfdEntries = new Map();
+  const start = tiffStart + ifdOffset;
+  if (start + 2 > view.byteLength) return entries;
+
+  const count = view.getUint16(start, little);
+  for (let i = 0; i < count; i++) {
+    const entry = start + 2 + i * 12;
+    if (entry + 12 > view.byteLength) break;
+    entries.set(view.getUint16(entry, little), {
+      type: view.getUint16(entry + 2, little),
+      count: view.getUint32(entry + 4, little),
+      // Values of 4 bytes or less are stored inline
+      offset: entry + 8,
+    });
+  }
+  return entries;
+}
+
+function valueOffset(
+  view: DataView,
+  tiffStart: number,
+  entry: IfdEntry,
+  little: boolean,
+) {
+  const sizes: Record<number, number> = { 2: 1, 3: 2, 4: 4, 5: 8, 10: 8 };
+  const size = (sizes[entry.type] || 1) * entry.count;
+  return size > 4
+    ? tiffStart + view.getUint32(entry.offset, little)
+    : entry.offset;
+}
+
+function readAscii(
+  view: DataView,
+  tiffStart: number,
+  entry: IfdEntry | undefined,
+  little: boolean,
+) {
+  if (!entry || entry.type !== 2) return null;
+  const start = valueOffset(view, tiffStart, entry, little);
+  let text = "";
+  for (let i = 0; i < entry.count && start + i < view.byteLength; i++) {
+    const code = view.getUint8(start + i);
+    if (code === 0) break;
+    text += String.fromCharCode(code);
+  }
+  return text.trim() || null;
+}
+
+// GPS coordinates are three rationals: degrees, minutes, seconds
+function readCoordinate(
+  view: DataView,
+  tiffStart: number,
+  entry: IfdEntry | undefined,
+  ref: string | null,
+  little: boolean,
+) {
+  if (!entry || entry.type !== 5 || entry.count < 3) return null;
+  const start = valueOffset(view, tiffStart, entry, little);
+  if (start + 24 > view.byteLength) return null;
+
+  const parts = [0, 1, 2].map((i) => {
+    const num = view.getUint32(start + i * 8, little);
+    const den = view.getUint32(start + i * 8 + 4, little);
+    return den === 0 ? 0 : num / den;
+  });
+  const value = parts[0] + parts[1] / 60 + parts[2] / 3600;
+  return ref === "S" || ref === "W" ? -value : value;
+}
+
+// EXIF dates look like "2024:03:18 14:05:09"; without an offset tag they
+// are in the camera's local time, which we assume matches the browser's.
+function parseExifDate(value: string | null, offset: string | null) {
+  const match = value?.match(
+    /^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/,
+  );
+  if (!match) return null;
+
+  const [, y, mo, d, h, mi, s] = match;
+  const date = offset
+    ? new Date(`${y}-${mo}-${d}T${h}:${mi}:${s}${offset}`)
+    : new Date(
+        Number(y),
+        Number(mo) - 1,
+        Number(d),
+        Number(h),
+        Number(mi),
+        Number(s),
+      );
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+function findExifSegment(view: DataView) {
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    if (view.getUint8(offset) !== 0xff) return null;
+    const marker = view.getUint8(offset + 1);
+    if (marker === SOS) return null;
+    const length = view.getUint16(offset + 2);
+
+    // "Exif\0\0" header
+    if (marker === APP1 && view.getUint32(offset + 4) === 0x45786966) {
+      return offset + 10;
+    }
+    offset += 2 + length;
+  }
+  return null;
+}
+
+export async function readExifMetadata(
+  file: Blob,
+): Promise<ExifMetadata | null> {
+  try {
+    const view = new DataView(await file.arrayBuffer());
+    if (!isJpeg(view)) return null;
+
+    const tiffStart = findExifSegment(view);
+    if (tiffStart === null) return null;
+
+    const little = view.getUint16(tiffStart) === 0x4949; // "II"
+    const ifd0 = readIfd(
+      view,
+      tiffStart,
+      view.getUint32(tiffStart + 4, little),
+      little,
+    );
+
+    let capturedAt: string | null = null;
+    const exifPointer = ifd0.get(TAG_EXIF_IFD);
+    if (exifPointer) {
+      const exifIfd = readIfd(
+        view,
+        tiffStart,
+        view.getUint32(exifPointer.offset, little),
+        little,
+      );
+      capturedAt = parseExifDate(
+        readAscii(view, tiffStart, exifIfd.get(TAG_DATETIME_ORIGINAL), little),
+        readAscii(
+          view,
+          tiffStart,
+          exifIfd.get(TAG_OFFSET_TIME_ORIGINAL),
+          little,
+        ),
+      );
+    }
+    if (!capturedAt) {
+      capturedAt = parseExifDate(
+        readAscii(view, tiffStart, ifd0.get(TAG_DATETIME), little),
+        null,
+      );
+    }
+
+    let latitude: number | null = null;
+    let longitude: number | null = null;
+    const gpsPointer = ifd0.get(TAG_GPS_IFD);
+    if (gpsPointer) {
+      const gpsIfd = readIfd(
+        view,
+        tiffStart,
+        view.getUint32(gpsPointer.offset, little),
+        little,
+      );
+      latitude = readCoordinate(
+        view,
+        tiffStart,
+        gpsIfd.get(TAG_GPS_LATITUDE),
+        readAscii(view, tiffStart, gpsIfd.get(TAG_GPS_LATITUDE_REF), little),
+        little,
+      );
+      longitude = readCoordinate(
+        view,
+        tiffStart,
+        gpsIfd.get(TAG_GPS_LONGITUDE),
+        readAscii(view, tiffStart, gpsIfd.get(TAG_GPS_LONGITUDE_REF), little),
+        little,
+      );
+    }
+
+    if (!capturedAt && latitude === null && longitude === null) return null;
+    return {
+      captured_at: capturedAt,
+      gps_latitude: latitude,
+      gps_longitude: longitude,
+    };
+  } catch (error) {
+    console.error("EXIF parse error:", error);
+    return null;
+  }
+}
+
+// EXIF orientation (1-8) of a JPEG; 1, the upright default, when there is
+// none. Stripping the EXIF block loses it, so anything other than 1 has to
+// be baked into the pixels first.
+export async function readJpegOrientation(file: Blob): Promise<number> {
+  try {
+    const view = new DataView(await file.arrayBuffer());
+    if (!isJpeg(view)) return 1;
+
+    const tiffStart = findExifSegment(view);
+    if (tiffStart === null) return 1;
+
+    const little = view.getUint16(tiffStart) === 0x4949; // "II"
+    const ifd0 = readIfd(
+      view,
+      tiffStart,
+      view.getUint32(tiffStart + 4, little),
+      little,
+    );
+    const entry = ifd0.get(TAG_ORIENTATION);
+    if (!entry || entry.type !== 3) return 1;
+
+    const orientation = view.getUint16(entry.offset, little);
+    return orientation >= 1 && orientation <= 8 ? orientation : 1;
+  } catch (error) {
+    console.error("EXIF parse error:", error);
+    return 1;
+  }
+}
+
+// Losslessly drop EXIF, XMP, IPTC and comment segments from a JPEG. Image
+// data and colour profiles are copied through untouched.
+export async function stripJpegMetadata(file: File): Promise<File> {
+  const buffer = await file.arrayBuffer();
+  const view = new DataView(buffer);
+  if (!isJpeg(view)) return file;
+
+  const kept: ArrayBuffer[] = [buffer.slice(0, 2)];
+  let offset = 2;
+  let stripped = false;
+
+  while (offset + 4 <= view.byteLength) {
+    if (view.getUint8(offset) !== 0xff) return file; // malformed, leave as-is
+    const marker = view.getUint8(offset + 1);
+
+    if (marker === SOS) {
+      kept.push(buffer.slice(offset));
+      break;
+    }
+
+    const end = offset + 2 + view.getUint16(offset + 2);
+    if (marker === APP1 || marker === APP13 || marker === COM) {
+      stripped = true;
+    } else {
+      kept.push(buffer.slice(offset, end));
+    }
+    offset = end;
+  }
+
+  if (!stripped) return file;
+  return new File(kept, file.name, {
+    type: file.type,
+    lastModified: file.lastModified,
+  });
+}
@@ -0,0 +1,35 @@
+// Browser-side geocoding. Lookups go through the /api/geocode routes, which
+// pick the configured provider, cache answers and throttle upstream calls.
+
+import type { GeocodeResult } from "@/lib/geocoding/providers";
+
+export type { AddressDetails, GeocodeResult } from "@/lib/geocoding/providers";
+
+export function formatCoordinates(latitude: number, longitude: number) {
+  return `${latitude.toFixed(6)}, ${longitude.toFixed(6)}`;
+}
+
+// Human-readable address for a point, or null when none is known
+export async function reverseGeocode(
+  latitude: number,
+  longitude: number,
+): Promise<string | null> {
+  const response = await fetch(
+    `/api/geocode/reverse?lat=${latitude}&lon=${longitude}`,
+  );
+  if (!response.ok) return null;
+
+  const { result }: { result: GeocodeResult | null } = await response.json();
+  return result?.address || null;
+}
+
+// Candidate places matching a free-text address, best match first
+export async function searchAddress(query: string): Promise<GeocodeResult[]> {
+  const response = await fetch(
+    `/api/geocode/search?q=${encodeURIComponent(query)}`,
+  );
+  if (!response.ok) return [];
+
+  const { results }: { results: GeocodeResult[] } = await response.json();
+  return results;
+}
@@ -0,0 +1,186 @@
+// Geocoding providers used by the /api/geocode routes. Each provider turns
+// coordinates into an address and free text into candidate places; which one
+// is active is chosen by environment variables (see getGeocodingProvider).
+
+export interface AddressDetails {
+  city: string | null;
+  state: string | null;
+  postcode: string | null;
+}
+
+export interface GeocodeResult {
+  latitude: number;
+  longitude: number;
+  address: string;
+  details: AddressDetails;
+}
+
+export interface GeocodingProvider {
+  name: string;
+  // Smallest gap between two upstream requests, in milliseconds
+  minIntervalMs: number;
+  // The signal aborts once the request has taken too long
+  reverse(
+    latitude: number,
+    longitude: number,
+    signal?: AbortSignal,
+  ): Promise<GeocodeResult | null>;
+  search(query: string, signal?: AbortSignal): Promise<GeocodeResult[]>;
+}
+
+interface NominatimPlace {
+  lat: string;
+  lon: string;
+  display_name: string;
+  address?: Record<string, string>;
+}
+
+function nominatimDetails(address: Record<string, string> = {}) {
+  return {
+    city:
+      address.city ||
+      address.town ||
+      address.village ||
+      address.suburb ||
+      address.county ||
+      null,
+    state: address.state || null,
+    postcode: address.postcode || null,
+  };
+}
+
+function fromNominatim(place: NominatimPlace): GeocodeResult {
+  return {
+    latitude: Number(place.lat),
+    longitude: Number(place.lon),
+    address: place.display_name,
+    details: nominatimDetails(place.address),
+  };
+}
+
+// Nominatim, either the public OpenStreetMap instance or a self-hosted one.
+// The public instance allows at most one request per second and requires an
+// identifying User-Agent.
+export function createNominatimProvider({
+  name,
+  baseUrl,
+  userAgent,
+  minIntervalMs,
+}: {
+  name: string;
+  baseUrl: string;
+  userAgent: string;
+  minIntervalMs: number;
+}): GeocodingProvider {
+  const request = async (path: string, signal?: AbortSignal) => {
+    const response = await fetch(`${baseUrl.replace(/\/$/, "")}${path}`, {
+      headers: {
+        "User-Agent": userAgent,
+        "Accept-Language": "en",
+      },
+      signal,
+    });
+    if (!response.ok) {
+      throw new Error(`${name} responded with ${response.status}`);
+    }
+    return response.json();
+  };
+
+  return {
+    name,
+    minIntervalMs,
+    async reverse(latitude, longitude, signal) {
+      const place: NominatimPlace & { error?: string } = await request(
+        `/reverse?format=json&addressdetails=1&lat=${latitude}&lon=${longitude}`,
+        signal,
+      );
+      return place.error || !place.display_name ? null : fromNominatim(place);
+    },
+    async search(query, signal) {
+      const places: NominatimPlace[] = await request(
+        `/search?format=json&addressdetails=1&limit=5&q=${encodeURIComponent(query)}`,
+        signal,
+      );
+      return places.map(fromNominatim);
+    },
+  };
+}
+
+const FIXTURE_PLACES: GeocodeResult[] = [
+  {
+    latitude: 28.6139,
+    longitude: 77.209,
+    address: "Connaught Place, New Delhi, Delhi, 110001, India",
+    details: { city: "New Delhi", state: "Delhi", postcode: "110001" },
+  },
+  {
+    latitude: 19.076,
+    longitude: 72.8777,
+    address: "Fort, Mumbai, Maharashtra, 400001, India",
+    details: { city: "Mumbai", state: "Maharashtra", postcode: "400001" },
+  },
+  {
+    latitude: 12.9716,
+    longitude: 77.5946,
+    address: "MG Road, Bengaluru, Karnataka, 560001, India",
+    details: { city: "Bengaluru", state: "Karnataka", postcode: "560001" },
+  },
+];
+
+// Offline provider with a few fixed places, for tests and local development
+// without network access. Reverse lookups answer with the nearest place.
+export function createFixtureProvider(
+  places: GeocodeResult[] = FIXTURE_PLACES,
+): GeocodingProvider {
+  return {
+    name: "fixture",
+    minIntervalMs: 0,
+    async reverse(latitude, longitude) {
+      if (places.length === 0) return null;
+      const distance = (place: GeocodeResult) =>
+        (place.latitude - latitude) ** 2 + (place.longitude - longitude) ** 2;
+      const nearest = places.reduce((best, place) =>
+        distance(place) < distance(best) ? place : best,
+      );
+      return { ...nearest, latitude, longitude };
+    },
+    async search(query) {
+      const needle = query.trim().toLowerCase();
+      return places.filter((place) =>
+        place.address.toLowerCase().includes(needle),
+      );
+    },
+  };
+}
+
+// GEOCODING_PROVIDER selects "nominatim" (default), "self-hosted" (a
+// Nominatim-compatible server at GEOCODING_URL) or "fixture".
+export function getGeocodingProvider(): GeocodingProvider {
+  const userAgent =
+    process.env.GEOCODING_USER_AGENT || "AlertKaro/1.0 (incident reporting)";
+
+  switch (process.env.GEOCODING_PROVIDER) {
+    case "fixture":
+      return createFixtureProvider();
+    case "self-hosted":
+      if (!process.env.GEOCODING_URL) {
+        throw new Error("GEOCODING_URL is required for self-hosted geocoding");
+      }
+      return createNominatimProvider({
+        name: "self-hosted",
+        baseUrl: process.env.GEOCODING_URL,
+        userAgent,
+        minIntervalMs: Number(process.env.GEOCODING_MIN_INTERVAL_MS) || 0,
+      });
+    default:
+      return createNominatimProvider({
+        name: "nominatim",
+        baseUrl: "https://nominatim.openstreetmap.org",
+        userAgent,
+        minIntervalMs: Math.max(
+          Number(process.env.GEOCODING_MIN_INTERVAL_MS) || 1000,
+          1000,
+        ),
+      });
+  }
+}
@@ -0,0 +1,110 @@
+import {
+  GeocodeResult,
+  GeocodingProvider,
+  getGeocodingProvider,
+} from "@/lib/geocoding/providers";
+
+// Server-side geocoding used by the /api/geocode routes: results are cached
+// in memory and upstream requests are spaced out to respect the provider's
+// usage policy. Both live for the lifetime of the server process.
+
+const CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+const CACHE_MAX_ENTRIES = 5000;
+
+interface CacheEntry {
+  value: unknown;
+  expiresAt: number;
+}
+
+const cache = new Map<string, CacheEntry>();
+
+function cacheGet<T>(key: string): T | undefined {
+  const entry = cache.get(key);
+  if (!entry) return undefined;
+  if (entry.expiresAt < Date.now()) {
+    cache.delete(key);
+    return undefined;
+  }
+  // Re-insert so the Map's order tracks recent use
+  cache.delete(key);
+  cache.set(key, entry);
+  return entry.value as T;
+}
+
+function cacheSet(key: string, value: unknown) {
+  cache.set(key, { value, expiresAt: Date.now() + CACHE_TTL_MS });
+  if (cache.size > CACHE_MAX_ENTRIES) {
+    cache.delete(cache.keys().next().value!);
+  }
+}
+
+// Longest an upstream request may take before it is abandoned
+const REQUEST_TIMEOUT_MS = 10_000;
+
+function rejectOnAbort(signal: AbortSignal) {
+  return new Promise<never>((_, reject) => {
+    signal.addEventListener("abort", () => reject(signal.reason), {
+      once: true,
+    });
+  });
+}
+
+// Requests to the provider run one at a time, at least minIntervalMs apart.
+// A request that fails or times out frees the queue for the next one, even
+// if the provider ignores the abort signal.
+let queue: Promise<unknown> = Promise.resolve();
+let lastRequestAt = 0;
+
+function throttled<T>(
+  provider: GeocodingProvider,
+  run: (signal: AbortSignal) => Promise<T>,
+) {
+  const next = queue.then(async () => {
+    const wait = lastRequestAt + provider.minIntervalMs - Date.now();
+    if (wait > 0) await new Promise((resolve) => setTimeout(resolve, wait));
+    lastRequestAt = Date.now();
+    const signal = AbortSignal.timeout(REQUEST_TIMEOUT_MS);
+    return Promise.race([run(signal), rejectOnAbort(signal)]);
+  });
+  queue = next.catch(() => undefined);
+  return next;
+}
+
+let provider: GeocodingProvider | null = null;
+
+function activeProvider() {
+  provider ??= getGeocodingProvider();
+  return provider;
+}
+
+export async function reverseGeocode(
+  latitude: number,
+  longitude: number,
+): Promise<GeocodeResult | null> {
+  const geocoder = activeProvider();
+  // ~1 m precision; nearby GPS fixes share a cache entry
+  const key = `${geocoder.name}:reverse:${latitude.toFixed(5)},${longitude.toFixed(5)}`;
+
+  const cached = cacheGet<GeocodeResult | null>(key);
+  if (cached !== undefined) return cached;
+
+  const result = await throttled(geocoder, (signal) =>
+    geocoder.reverse(latitude, longitude, signal),
+  );
+  cacheSet(key, result);
+  return result;
+}
+
+export async function searchPlaces(query: string): Promise<GeocodeResult[]> {
+  const geocoder = activeProvider();
+  const key = `${geocoder.name}:search:${query.trim().toLowerCase()}`;
+
+  const cached = cacheGet<GeocodeResult[]>(key);
+  if (cached !== undefined) return cached;
+
+  const results = await throttled(geocoder, (signal) =>
+    geocoder.search(query, signal),
+  );
+  cacheSet(key, results);
+  return results;
+}
@@ -0,0 +1,168 @@
+import en, { Messages } from "./messages/en";
+import hi from "./messages/hi";
+import mr from "./messages/mr";
+import ta from "./messages/ta";
+
+// Languages of the citizen app. The chosen one is kept on the device and,
+// for signed-in users, in profiles.preferred_language so it follows them
+// across devices.
+
+export type Locale = "en" | "hi" | "mr" | "ta";
+
+export const LOCALES: {
+  code: Locale;
+  // Name in English, for admin screens
+  label: string;
+  // Name in the language itself, for the picker
+  nativeLabel: string;
+  // BCP 47 tag used for dates and numbers
+  intl: string;
+}[] = [
+  { code: "en", label: "English", nativeLabel: "English", intl: "en-IN" },
+  { code: "hi", label: "Hindi", nativeLabel: "हिन्दी", intl: "hi-IN" },
+  { code: "mr", label: "Marathi", nativeLabel: "मराठी", intl: "mr-IN" },
+  { code: "ta", label: "Tamil", nativeLabel: "தமிழ்", intl: "ta-IN" },
+];
+
+export const DEFAULT_LOCALE: Locale = "en";
+
+const CATALOGS: Record<Locale, Messages> = { en, hi, mr, ta };
+
+export type { Messages };
+
+export function isLocale(value: unknown): value is Locale {
+  return LOCALES.some((locale) => locale.code === value);
+}
+
+export function getMessages(locale: Locale): Messages {
+  return CATALOGS[locale];
+}
+
+export function intlLocale(locale: Locale) {
+  return LOCALES.find((l) => l.code === locale)?.intl ?? LOCALES[0].intl;
+}
+
+// A message that depends on a count, chosen with Intl.PluralRules
+export interface PluralMessage {
+  one: string;
+  other: string;
+}
+
+// Dotted paths to every message in the catalog, e.g. "report.title"
+type MessagePaths<T> = {
+  [K in keyof T & string]: T[K] extends string | PluralMessage
+    ? K
+    : T[K] extends readonly unknown[]
+      ? never
+      : `${K}.${MessagePaths<T[K]>}`;
+}[keyof T & string];
+
+export type MessageKey = MessagePaths<Messages>;
+
+export type MessageParams = Record<string, string | number>;
+
+function isPlural(value: unknown): value is PluralMessage {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as PluralMessage).other === "string"
+  );
+}
+
+function lookup(messages: Messages, key: string): unknown {
+  return key
+    .split(".")
+    .reduce<unknown>(
+      (node, part) =>
+        typeof node === "object" && node !== null
+          ? (node as Record<string, unknown>)[part]
+          : undefined,
+      messages,
+    );
+}
+
+// Look up a message and fill in its {placeholders}. Plural messages pick
+// their form from params.count. Falls back to English, then to the key, so
+// a gap in a catalog never breaks the page.
+export function translate(
+  locale: Locale,
+  key: MessageKey,
+  params: MessageParams = {},
+): string {
+  let message = lookup(getMessages(locale), key);
+  if (message === undefined) message = lookup(en, key);
+
+  if (isPlural(message)) {
+    const count = Number(params.count ?? 0);
+    const form = new Intl.PluralRules(intlLocale(locale)).select(count);
+    message = form === "one" ? message.one : message.other;
+  }
+  if (typeof message !== "string") return key;
+
+  return message.replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in params ? String(params[name]) : match,
+  );
+}
+
+export function formatDate(
+  locale: Locale,
+  date: string | number | Date,
+  options?: Intl.DateTimeFormatOptions,
+) {
+  return new Date(date).toLocaleDateString(intlLocale(locale), options);
+}
+
+export function formatNumber(
+  locale: Locale,
+  value: number,
+  options?: Intl.NumberFormatOptions,
+) {
+  return new Intl.NumberFormat(intlLocale(locale), options).format(value);
+}
+
+// "5 min ago" style times for the last week, the date after that
+export function formatTimeAgo(locale: Locale, date: string | number | Date) {
+  const then = new Date(date);
+  const diffMins = Math.floor((Date.now() - then.getTime()) / 60000);
+  const diffHours = Math.floor(diffMins / 60);
+  const diffDays = Math.floor(diffHours / 24);
+
+  if (diffMins < 1) return translate(locale, "time.justNow");
+
+  const relative = new Intl.RelativeTimeFormat(intlLocale(locale), {
+    style: "narrow",
+  });
+  if (diffMins < 60) return relative.format(-diffMins, "minute");
+  if (diffHours < 24) return relative.format(-diffHours, "hour");
+  if (diffDays < 7) return relative.format(-diffDays, "day");
+  return formatDate(locale, then);
+}
+
+const STATUS_KEYS: Record<string, MessageKey> = {
+  submitted: "status.submitted",
+  in_review: "status.in_review",
+  action_taken: "status.action_taken",
+  resolved: "status.resolved",
+  withdrawn: "status.withdrawn",
+};
+
+// Label for an incident status; unknown statuses are shown as stored
+export function statusLabel(locale: Locale, status: string) {
+  const key = STATUS_KEYS[status];
+  return key ? translate(locale, key) : status;
+}
+
+// Anything with an admin-entered name and its translations
+// (categories.name_translations), such as a category
+export interface TranslatableName {
+  name: string;
+  name_translations?: Partial<Record<Locale, string>> | null;
+}
+
+export function localizedName(
+  locale: Locale,
+  item: TranslatableName | null | undefined,
+) {
+  if (!item) return "";
+  return item.name_translations?.[locale]?.trim() || item.name;
+}
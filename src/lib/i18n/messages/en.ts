@@ -0,0 +1,445 @@
+// English catalog. It defines the message keys: every other language must
+// provide the same ones, which the Messages type enforces. {name} marks a
+// value filled in by t(); entries with "one"/"other" are picked by count.
+
+const en = {
+  common: {
+    cancel: "Cancel",
+    discard: "Discard",
+    general: "General",
+    untitledReport: "Untitled report",
+    noCategory: "No category",
+    locationUnavailable: "Location not available",
+    before: "Before",
+    after: "After",
+    incidentResolved: "Incident Resolved",
+    citizenReport: "Citizen report",
+    policeResolution: "Police resolution",
+    files: { one: "{count} file", other: "{count} files" },
+  },
+  nav: {
+    home: "Home",
+    history: "History",
+    report: "Report",
+    alerts: "Alerts",
+    profile: "Profile",
+    sos: "SOS",
+    sosLabel: "SOS emergency",
+    switchToLight: "Switch to light mode",
+    switchToDark: "Switch to dark mode",
+  },
+  status: {
+    submitted: "Received",
+    in_review: "In Progress",
+    action_taken: "Action Taken",
+    resolved: "Resolved",
+    withdrawn: "Withdrawn",
+  },
+  time: {
+    justNow: "Just now",
+  },
+  dashboard: {
+    welcomeBack: "Welcome back,",
+    active: "Active",
+    resolved: "Resolved",
+    pending: "Pending",
+    reportTitle: "Report Incident",
+    reportSubtitle: "Spot an issue? Let us know.",
+    sosTitle: "SOS",
+    sosSubtitle: "Need help now? Alert police with your live location.",
+    drafts: "Drafts",
+    savedAgo: "Saved {time}",
+    discardDraft: "Discard draft",
+    publicFeed: "Public Feed",
+    viewAll: "View All",
+    emptyTitle: "No incidents yet",
+    emptyHint: "Community reports will appear here",
+  },
+  feed: {
+    title: "Public Feed",
+    subtitle: "Transparency in action",
+    all: "All Incidents",
+    resolved: "Resolved",
+    emptyTitle: "No incidents to display",
+    emptyResolved: "No resolved incidents yet",
+    emptyAll: "Reported incidents will appear here",
+  },
+  history: {
+    title: "My Reports",
+    all: "All",
+    active: "Active",
+    resolved: "Resolved",
+    waitingToUpload: {
+      one: "{count} report waiting to upload",
+      other: "{count} reports waiting to upload",
+    },
+    syncing: "Syncing...",
+    syncNow: "Sync now",
+    mediaPending: {
+      one: "{count} media file pending",
+      other: "{count} media files pending",
+    },
+    queued: "Queued",
+    lastAttemptFailed: "Last attempt failed: {error}",
+    notAccepted: "Not accepted",
+    rejectedReason: "Not accepted: {error} Discard it and report again.",
+    emptyTitle: "No reports found",
+    emptyAll: "Start by reporting an incident",
+    emptyActive: "No active reports",
+    emptyResolved: "No resolved reports",
+    downloadReceipt: "Receipt (PDF)",
+    preparingReceipt: "Preparing...",
+    receiptFailed: "Could not create the receipt. Please try again.",
+  },
+  alerts: {
+    title: "Alerts",
+    markAllRead: "Mark all as read",
+    emptyTitle: "No alerts yet",
+    emptyHint: "You'll receive notifications about your reports here",
+  },
+  help: {
+    title: "Help & Support",
+    getInTouch: "Get in Touch",
+    emailUs: "Email Us",
+    callUs: "Call Us",
+    faqTitle: "Frequently Asked Questions",
+    faqs: [
+      {
+        question: "How do I report an incident?",
+        answer:
+          'Tap the "Report" button on the bottom navigation bar. Fill in the incident details, add photos if available, allow location access, and submit. Your report will be reviewed and forwarded to the relevant authorities.',
+      },
+      {
+        question: "Can I report anonymously?",
+        answer:
+          'Yes. Tick "Report anonymously" before submitting and police will not see your name or contact details; only a supervisor can reveal them, with a recorded reason. You still need an account so you can track the report and receive updates, and your identity is never shown on the community feed.',
+      },
+      {
+        question: "How long does it take for my report to be reviewed?",
+        answer:
+          "Reports are typically reviewed within 24 hours. Urgent incidents flagged as emergencies are prioritised and may receive a faster response.",
+      },
+      {
+        question: "How do I update my profile information?",
+        answer:
+          "Go to your Profile page and tap on the field you wish to update. Changes are saved automatically.",
+      },
+      {
+        question: "How do I change the app language?",
+        answer:
+          "Go to your Profile page and pick a language under Settings. Your choice is saved to your account and used on every device you sign in on.",
+      },
+      {
+        question: "Why is my location access required?",
+        answer:
+          "Location access is requested only when submitting a report to accurately tag the incident's location. Alerkaro does not track your location in the background.",
+      },
+      {
+        question: "How do I delete my account?",
+        answer:
+          "Contact our support team at alertkaro.tech@gmail.com with your registered email and we will process your deletion request within 7 business days.",
+      },
+    ],
+    version: "Version {version}",
+  },
+  privacy: {
+    title: "Privacy",
+    dataWeCollect: "Data We Collect",
+    locationTitle: "Location Data",
+    locationDesc:
+      "Used only when submitting incident reports to tag their location. Never tracked in the background.",
+    contactInfoTitle: "Contact Information",
+    contactInfoDesc:
+      "Your name, email, and phone number are collected during registration for account management.",
+    reportsTitle: "Incident Reports",
+    reportsDesc:
+      "Reports you submit including descriptions, photos, and location are stored securely and shared with relevant authorities.",
+    howWeUse: "How We Use Your Data",
+    usage:
+      "Your data is used solely to operate Alerkaro's public safety features. We do not sell your personal information to third parties. Incident data is shared with verified law enforcement agencies to enable faster response times.",
+    aggregated:
+      "Aggregated and anonymised data may be used to improve the platform and generate community safety insights.",
+    yourRights: "Your Rights",
+    rights: [
+      "Request a copy of your data",
+      "Correct inaccurate information",
+      "Delete your account and associated data",
+      "Opt out of non-essential communications",
+    ],
+    contact: "Contact",
+    contactText: "For any privacy-related concerns, reach us at",
+    lastUpdated: "Last updated: {date}",
+  },
+  profile: {
+    reports: "Reports",
+    resolved: "Resolved",
+    success: "Success",
+    accountInfo: "Account Info",
+    phone: "Phone",
+    notSet: "Not set",
+    memberSince: "Member Since",
+    accountType: "Account Type",
+    roles: {
+      citizen: "Citizen",
+      police: "Police",
+      admin: "Admin",
+    },
+    settings: "Settings",
+    appearance: "Appearance",
+    language: "Language",
+    languageError: "Could not save your language. Please try again.",
+    notifications: "Notifications",
+    privacy: "Privacy",
+    help: "Help & Support",
+    signOut: "Sign Out",
+  },
+  track: {
+    title: "Track a Report",
+    subtitle:
+      "Check the progress of any report with its tracking ID. No sign-in needed.",
+    trackingIdLabel: "Tracking ID",
+    trackingIdPlaceholder: "Enter the tracking ID",
+    check: "Check Status",
+    detailTitle: "Report Status",
+    notFoundTitle: "No report found",
+    notFoundHint:
+      "Check the tracking ID and try again. SOS emergencies cannot be tracked publicly.",
+    loadFailed: "Could not load this report. Please try again.",
+    trackAnother: "Track another report",
+    share: "Share",
+    linkCopied: "Link copied",
+    shareTitle: "Report #{id} on AlertKaro",
+    reportedOn: "Reported {date}",
+    lastUpdated: "Last updated {date}",
+    stepReceived: "Received",
+    stepReviewing: "Reviewing",
+    stepAction: "Action",
+    stepResolved: "Resolved",
+    policeAction: "Police Action",
+    resolutionNotes: "Resolution Notes",
+    resolvedOn: "Resolved on {date}",
+    updates: "Updates",
+    noUpdates:
+      "No updates yet. Progress will appear here as police work on the report.",
+    privacyNote:
+      "Only the progress of the case is shown here. The reporter's identity and details stay private.",
+  },
+  incident: {
+    title: "Incident Details",
+    submitted: "Report submitted successfully!",
+    confirmed: "Thanks! Your confirmation was added to this report.",
+    publicTracking: "Public tracking page",
+    youWithdrew: "You withdrew this report on {date}",
+    withdrawnOn: "Report withdrawn on {date}",
+    reportedAnonymously: "REPORTED ANONYMOUSLY",
+    reportedByCitizen: "REPORTED BY CITIZEN",
+    evidence: "Evidence",
+    details: "Details",
+    titleLabel: "Title",
+    description: "Description",
+    reportedOn: "Reported On",
+    resolutionEvidence: "Resolution evidence",
+    partialFix: "Partial fix",
+    afterResolved: "After — Resolved",
+    partlyFixedOn: "Partly fixed on {date}",
+    updatedBy: "by {name}",
+    messages: "Messages",
+    supplementEntry: "Details added by reporter",
+    withdrawalEntry: "Withdrawn by reporter",
+    supplementTitle: "Add to your report",
+    supplementPlaceholder:
+      "Anything the police should know? Corrections or new details",
+    addEvidence: "Add photos or videos",
+    removeFile: "Remove {name}",
+    sending: "Sending...",
+    sendToPolice: "Send to Police",
+    supplementEmpty: "Add a note or at least one file",
+    supplementUploadFailed:
+      "Your files could not be uploaded. Please try again.",
+    supplementPartial:
+      "Your update was sent, but {failed} of {total} files could not be uploaded.",
+    supplementFailed: "Could not send your update. Please try again.",
+    withdrawLink: "Withdraw this report",
+    withdrawPlaceholder: "Why are you withdrawing this report?",
+    withdrawHint: "Police will stop working on it. This cannot be undone.",
+    keepReport: "Keep Report",
+    withdrawing: "Withdrawing...",
+    withdraw: "Withdraw Report",
+    withdrawReasonTooShort: "Give a reason of at least {min} characters",
+    withdrawFailed: "Could not withdraw the report. Please try again.",
+    reopenEntry: "Reopened by reporter",
+    feedbackTitle: "Was this actually fixed?",
+    feedbackFixed: "Yes, it's fixed",
+    feedbackNotFixed: "No, not fixed",
+    feedbackRating: "Rate how this was handled",
+    ratingValue: "{value} out of 5",
+    feedbackFixedPlaceholder: "Anything you'd like to add? (optional)",
+    feedbackNotFixedPlaceholder: "What is still wrong?",
+    reopenHint: "Sending this reopens the case and returns it to the police.",
+    submitFeedback: "Submit Feedback",
+    requestReopen: "Request Reopen",
+    feedbackThanks: "Thanks for confirming the fix.",
+    feedbackReopened: "You asked the police to reopen this case.",
+    chooseRating: "Choose a rating",
+    describeProblem: "Tell the police what is still wrong",
+    reopenPartial:
+      "Your request was sent, but {failed} of {total} files could not be uploaded.",
+    feedbackFailed: "Could not send your feedback. Please try again.",
+  },
+  comments: {
+    loadFailed: "Could not load messages",
+    attachmentTooLarge: "Attachments can be up to {size}MB",
+    sendFailed: "Could not send your message. Please try again.",
+    you: "You",
+    police: "Police",
+    policeOfficer: "Police · {name}",
+    officer: "Officer",
+    reporter: "Reporter",
+    attachment: "Attachment",
+    loading: "Loading messages…",
+    emptyCitizen:
+      "No messages yet. Ask the police a question or share more details here.",
+    emptyPolice: "No messages yet. Messages here go straight to the reporter.",
+    removeAttachment: "Remove attachment",
+    attach: "Attach a file",
+    placeholder: "Write a message…",
+    sending: "Sending…",
+    send: "Send",
+  },
+  sos: {
+    sendingIn: "Sending SOS in",
+    countdownMessage:
+      "Police will get an urgent alert with your location, and it will keep updating for {minutes} minutes.",
+    sendNow: "Send Now",
+    alerting: "Alerting police…",
+    gettingLocation: "Getting your location",
+    locationPending:
+      "Could not get your location yet. Police have been alerted and your location will be added as soon as it is available.",
+    sendFailed:
+      "Could not send the SOS. Check your connection and try again, or call 112.",
+    sent: "SOS sent",
+    activeMessage:
+      "Police have been alerted and can see your location live. Keep this page open so it keeps updating.",
+    lastSent: "Last location sent",
+    waitingForLocation: "Waiting for location",
+    position: "Position",
+    sharingFor: "Sharing for",
+    locationUnavailable: "Location is unavailable",
+    locationRetrying: "Could not send your latest location. Retrying…",
+    stopping: "Stopping…",
+    stop: "Stop Sharing Location",
+    stopFailed: "Could not stop sharing your location. Please try again.",
+    viewIncidentLink: "View incident",
+    stoppedTitle: "Location sharing stopped",
+    stoppedMessage:
+      "Your SOS is still with the police. You can follow it from the incident page.",
+    viewIncident: "View Incident",
+    backHome: "Back to Home",
+    notSent: "SOS not sent",
+    tryAgain: "Try Again",
+    goBack: "Go Back",
+    call112: "Call 112",
+  },
+  report: {
+    title: "Report Incident",
+    uploadFailed: "Upload failed",
+    uploadFailuresConfirmed:
+      "Your confirmation was added, but {failed} of {total} files failed to upload. Retry them or continue without them.",
+    uploadFailuresNew:
+      "Your report has not been filed yet: {failed} of {total} files failed to upload. Retry them or continue without them.",
+    confirmFailed: "Failed to confirm the existing report",
+    fixFields: "Please fix the highlighted fields",
+    submitFailed: "Failed to submit report",
+    geolocationUnsupported: "Geolocation is not supported",
+    locationFailed: "Failed to get location",
+    microphoneError: "Could not access the microphone",
+    recording: "REC {time}",
+    tapToStop: "Tap to stop",
+    recordingVoiceNote: "Recording voice note",
+    savedOfflineTitle: "Saved Offline",
+    savedOfflineText:
+      "Your report and its media are stored on this device and will be submitted automatically when you are back online.",
+    viewMyReports: "View My Reports",
+    resumeDraft: "Resume your draft?",
+    draftSaved: "saved {time}",
+    resume: "Resume",
+    captureTitle: "Capture Evidence",
+    captureHint: "Take a photo or video, or record a voice note",
+    takePhoto: "Take Photo",
+    recordVideo: "Record Video",
+    voiceNote: "Voice Note",
+    voiceNoteItem: "Voice note",
+    recordVoiceNote: "Record Voice Note",
+    failed: "Failed",
+    category: "Category",
+    titleLabel: "Title *",
+    titlePlaceholder: "Brief description of the issue",
+    descriptionLabel: "Description (Optional)",
+    descriptionPlaceholder: "Provide more details about the incident...",
+    optionalSuffix: " (Optional)",
+    selectPlaceholder: "Select…",
+    anonymousTitle: "Report anonymously",
+    anonymousHint:
+      "Police won't see your name or contact details. You can still track this report and get updates.",
+    location: "Location",
+    locationHint: "(Required for accurate incident tracking)",
+    gettingLocation: "Getting your location...",
+    retryGps: "Retry GPS",
+    enterManually: "Enter Manually",
+    searchLocation: "Search for the incident location",
+    addressPlaceholder: "e.g. 123 Main Street, City, State",
+    searching: "Searching...",
+    search: "Search",
+    noPlaces:
+      "No matching places found. You can still use the address as typed, without a map position.",
+    useAsTyped: "Use As Typed",
+    tryGps: "Try GPS instead",
+    pinnedManually: "Pinned manually · ",
+    dragPin: "Drag pin to adjust · ",
+    useMyGps: "Use My GPS Location",
+    refreshLocation: "Refresh Location",
+    searchAddress: "Search Address",
+    editAddress: "Edit Address",
+    enableLocation: "Enable Location",
+    enableLocationHint: "Tap to capture incident location",
+    duplicatesTitle: "Is this the same issue?",
+    duplicatesHint:
+      "These open reports are close by. Confirming one adds your photos to it instead of filing a new report.",
+    metersAway: "{distance} m away",
+    sameIssue: "Same issue",
+    submitNew: "No, Submit New Report",
+    retryUploads: "Retry Failed Uploads",
+    continueWithout: "Continue Without Them",
+    submit: "Submit Report",
+  },
+  validation: {
+    titleRequired: "Please enter a title",
+    titleTooShort: "Title must be at least {min} characters",
+    titleTooLong: "Title must be at most {max} characters",
+    descriptionTooLong: "Description must be at most {max} characters",
+    categoryRequired: "Please select a category",
+    categoryUnavailable: "This category is no longer available",
+    locationInvalid: "Location coordinates are invalid",
+    locationOutsideArea: "This location is outside the area we cover",
+    locationSourceInvalid: "Location source is invalid",
+    mediaRequired: "Please add at least one photo, video or voice note",
+    mediaTooMany: "You can attach up to {max} files",
+    mediaMalformed: "Some attached files are malformed",
+    mediaUnsupported: "{name} is not a supported file type",
+    mediaTooLarge: "{name} must be under {maxMb}MB",
+    mediaNotUploaded: "{name} has not finished uploading",
+    imageUnprocessable:
+      "{name} could not be processed on this device. Choose a JPEG or PNG photo instead.",
+    fieldRequired: "Please fill in {label}",
+    fieldUnchecked: "Please confirm {label}",
+    fieldNotNumber: "{label} must be a number",
+    fieldTooSmall: "{label} must be at least {min}",
+    fieldTooLarge: "{label} must be at most {max}",
+    fieldNoChoice: "Please choose a {label}",
+    fieldTooLong: "{label} must be at most {max} characters",
+  },
+};
+
+export type Messages = typeof en;
+
+export default en;
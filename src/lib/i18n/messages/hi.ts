@@ -0,0 +1,444 @@
+import type { Messages } from "./en";
+
+// Hindi
+const hi: Messages = {
+  common: {
+    cancel: "रद्द करें",
+    discard: "हटाएँ",
+    general: "सामान्य",
+    untitledReport: "बिना शीर्षक की रिपोर्ट",
+    noCategory: "कोई श्रेणी नहीं",
+    locationUnavailable: "स्थान उपलब्ध नहीं",
+    before: "पहले",
+    after: "बाद में",
+    incidentResolved: "घटना का समाधान हुआ",
+    citizenReport: "नागरिक की रिपोर्ट",
+    policeResolution: "पुलिस द्वारा समाधान",
+    files: { one: "{count} फ़ाइल", other: "{count} फ़ाइलें" },
+  },
+  nav: {
+    home: "होम",
+    history: "इतिहास",
+    report: "रिपोर्ट",
+    alerts: "सूचनाएँ",
+    profile: "प्रोफ़ाइल",
+    sos: "SOS",
+    sosLabel: "SOS आपातकाल",
+    switchToLight: "लाइट मोड पर जाएँ",
+    switchToDark: "डार्क मोड पर जाएँ",
+  },
+  status: {
+    submitted: "प्राप्त हुई",
+    in_review: "कार्रवाई जारी",
+    action_taken: "कार्रवाई की गई",
+    resolved: "समाधान हुआ",
+    withdrawn: "वापस लिया गया",
+  },
+  time: {
+    justNow: "अभी-अभी",
+  },
+  dashboard: {
+    welcomeBack: "फिर से स्वागत है,",
+    active: "सक्रिय",
+    resolved: "समाधान हुआ",
+    pending: "लंबित",
+    reportTitle: "घटना की रिपोर्ट करें",
+    reportSubtitle: "कोई समस्या दिखी? हमें बताएँ।",
+    sosTitle: "SOS",
+    sosSubtitle:
+      "तुरंत मदद चाहिए? अपनी लाइव लोकेशन के साथ पुलिस को सतर्क करें।",
+    drafts: "ड्राफ़्ट",
+    savedAgo: "{time} सहेजा गया",
+    discardDraft: "ड्राफ़्ट हटाएँ",
+    publicFeed: "सार्वजनिक फ़ीड",
+    viewAll: "सभी देखें",
+    emptyTitle: "अभी कोई घटना नहीं",
+    emptyHint: "समुदाय की रिपोर्टें यहाँ दिखाई देंगी",
+  },
+  feed: {
+    title: "सार्वजनिक फ़ीड",
+    subtitle: "पारदर्शिता, काम करते हुए",
+    all: "सभी घटनाएँ",
+    resolved: "समाधान हुई",
+    emptyTitle: "दिखाने के लिए कोई घटना नहीं",
+    emptyResolved: "अभी तक किसी घटना का समाधान नहीं हुआ",
+    emptyAll: "रिपोर्ट की गई घटनाएँ यहाँ दिखाई देंगी",
+  },
+  history: {
+    title: "मेरी रिपोर्टें",
+    all: "सभी",
+    active: "सक्रिय",
+    resolved: "समाधान हुई",
+    waitingToUpload: {
+      one: "{count} रिपोर्ट अपलोड होने की प्रतीक्षा में",
+      other: "{count} रिपोर्टें अपलोड होने की प्रतीक्षा में",
+    },
+    syncing: "सिंक हो रहा है...",
+    syncNow: "अभी सिंक करें",
+    mediaPending: {
+      one: "{count} मीडिया फ़ाइल बाकी",
+      other: "{count} मीडिया फ़ाइलें बाकी",
+    },
+    queued: "कतार में",
+    lastAttemptFailed: "पिछला प्रयास विफल रहा: {error}",
+    notAccepted: "स्वीकार नहीं हुई",
+    rejectedReason: "स्वीकार नहीं हुई: {error} इसे हटाकर फिर से रिपोर्ट करें।",
+    emptyTitle: "कोई रिपोर्ट नहीं मिली",
+    emptyAll: "किसी घटना की रिपोर्ट करके शुरुआत करें",
+    emptyActive: "कोई सक्रिय रिपोर्ट नहीं",
+    emptyResolved: "कोई समाधान हुई रिपोर्ट नहीं",
+    downloadReceipt: "रसीद (PDF)",
+    preparingReceipt: "तैयार हो रही है...",
+    receiptFailed: "रसीद नहीं बन सकी। कृपया फिर से प्रयास करें।",
+  },
+  alerts: {
+    title: "सूचनाएँ",
+    markAllRead: "सभी को पढ़ा हुआ मानें",
+    emptyTitle: "अभी कोई सूचना नहीं",
+    emptyHint: "आपकी रिपोर्टों से जुड़ी सूचनाएँ यहाँ मिलेंगी",
+  },
+  help: {
+    title: "सहायता और समर्थन",
+    getInTouch: "संपर्क करें",
+    emailUs: "ईमेल करें",
+    callUs: "कॉल करें",
+    faqTitle: "अक्सर पूछे जाने वाले प्रश्न",
+    faqs: [
+      {
+        question: "मैं किसी घटना की रिपोर्ट कैसे करूँ?",
+        answer:
+          'नीचे के नेविगेशन बार में "रिपोर्ट" बटन दबाएँ। घटना का विवरण भरें, उपलब्ध हों तो फ़ोटो जोड़ें, लोकेशन की अनुमति दें और सबमिट करें। आपकी रिपोर्ट की समीक्षा करके उसे संबंधित अधिकारियों को भेजा जाएगा।',
+      },
+      {
+        question: "क्या मैं गुमनाम रूप से रिपोर्ट कर सकता/सकती हूँ?",
+        answer:
+          'हाँ। सबमिट करने से पहले "गुमनाम रूप से रिपोर्ट करें" चुनें, तो पुलिस आपका नाम या संपर्क विवरण नहीं देख पाएगी; केवल एक पर्यवेक्षक दर्ज कारण के साथ इन्हें देख सकता है। रिपोर्ट ट्रैक करने और अपडेट पाने के लिए आपको फिर भी खाते की ज़रूरत होगी, और सामुदायिक फ़ीड पर आपकी पहचान कभी नहीं दिखाई जाती।',
+      },
+      {
+        question: "मेरी रिपोर्ट की समीक्षा में कितना समय लगता है?",
+        answer:
+          "रिपोर्टों की समीक्षा आमतौर पर 24 घंटों के भीतर हो जाती है। आपातकाल के रूप में चिह्नित गंभीर घटनाओं को प्राथमिकता दी जाती है और उन पर जल्दी कार्रवाई हो सकती है।",
+      },
+      {
+        question: "मैं अपनी प्रोफ़ाइल जानकारी कैसे बदलूँ?",
+        answer:
+          "अपने प्रोफ़ाइल पेज पर जाएँ और जिस जानकारी को बदलना है उस पर टैप करें। बदलाव अपने आप सहेज लिए जाते हैं।",
+      },
+      {
+        question: "मैं ऐप की भाषा कैसे बदलूँ?",
+        answer:
+          "अपने प्रोफ़ाइल पेज पर जाएँ और सेटिंग्स में भाषा चुनें। आपकी पसंद आपके खाते में सहेजी जाती है और हर उस डिवाइस पर लागू होती है जिस पर आप साइन इन करते हैं।",
+      },
+      {
+        question: "मेरी लोकेशन की अनुमति क्यों ज़रूरी है?",
+        answer:
+          "लोकेशन की अनुमति केवल रिपोर्ट सबमिट करते समय घटना का सही स्थान दर्ज करने के लिए माँगी जाती है। Alerkaro बैकग्राउंड में आपकी लोकेशन ट्रैक नहीं करता।",
+      },
+      {
+        question: "मैं अपना खाता कैसे हटाऊँ?",
+        answer:
+          "अपने पंजीकृत ईमेल के साथ हमारी सहायता टीम से alertkaro.tech@gmail.com पर संपर्क करें। हम 7 कार्यदिवसों के भीतर आपका अनुरोध पूरा कर देंगे।",
+      },
+    ],
+    version: "संस्करण {version}",
+  },
+  privacy: {
+    title: "गोपनीयता",
+    dataWeCollect: "हम कौन-सा डेटा लेते हैं",
+    locationTitle: "लोकेशन डेटा",
+    locationDesc:
+      "केवल घटना की रिपोर्ट सबमिट करते समय उसका स्थान दर्ज करने के लिए उपयोग होता है। बैकग्राउंड में कभी ट्रैक नहीं किया जाता।",
+    contactInfoTitle: "संपर्क जानकारी",
+    contactInfoDesc:
+      "खाते के प्रबंधन के लिए पंजीकरण के समय आपका नाम, ईमेल और फ़ोन नंबर लिया जाता है।",
+    reportsTitle: "घटना की रिपोर्टें",
+    reportsDesc:
+      "आपकी रिपोर्टें, जिनमें विवरण, फ़ोटो और स्थान शामिल हैं, सुरक्षित रूप से रखी जाती हैं और संबंधित अधिकारियों के साथ साझा की जाती हैं।",
+    howWeUse: "हम आपके डेटा का उपयोग कैसे करते हैं",
+    usage:
+      "आपके डेटा का उपयोग केवल Alerkaro की सार्वजनिक सुरक्षा सुविधाएँ चलाने के लिए होता है। हम आपकी निजी जानकारी किसी तीसरे पक्ष को नहीं बेचते। तेज़ कार्रवाई के लिए घटनाओं का डेटा सत्यापित कानून प्रवर्तन एजेंसियों के साथ साझा किया जाता है।",
+    aggregated:
+      "प्लेटफ़ॉर्म को बेहतर बनाने और सामुदायिक सुरक्षा से जुड़ी जानकारी तैयार करने के लिए संकलित और गुमनाम डेटा का उपयोग किया जा सकता है।",
+    yourRights: "आपके अधिकार",
+    rights: [
+      "अपने डेटा की प्रति माँगें",
+      "गलत जानकारी सुधारें",
+      "अपना खाता और उससे जुड़ा डेटा हटाएँ",
+      "गैर-ज़रूरी संदेशों से बाहर निकलें",
+    ],
+    contact: "संपर्क",
+    contactText: "गोपनीयता से जुड़ी किसी भी चिंता के लिए हमसे संपर्क करें:",
+    lastUpdated: "अंतिम अपडेट: {date}",
+  },
+  profile: {
+    reports: "रिपोर्टें",
+    resolved: "समाधान हुई",
+    success: "सफलता",
+    accountInfo: "खाते की जानकारी",
+    phone: "फ़ोन",
+    notSet: "सेट नहीं है",
+    memberSince: "सदस्य कब से",
+    accountType: "खाते का प्रकार",
+    roles: {
+      citizen: "नागरिक",
+      police: "पुलिस",
+      admin: "एडमिन",
+    },
+    settings: "सेटिंग्स",
+    appearance: "रूप-रंग",
+    language: "भाषा",
+    languageError: "आपकी भाषा सहेजी नहीं जा सकी। कृपया फिर से कोशिश करें।",
+    notifications: "सूचनाएँ",
+    privacy: "गोपनीयता",
+    help: "सहायता और समर्थन",
+    signOut: "साइन आउट",
+  },
+  track: {
+    title: "रिपोर्ट ट्रैक करें",
+    subtitle:
+      "ट्रैकिंग आईडी से किसी भी रिपोर्ट की प्रगति देखें। साइन इन की ज़रूरत नहीं।",
+    trackingIdLabel: "ट्रैकिंग आईडी",
+    trackingIdPlaceholder: "ट्रैकिंग आईडी दर्ज करें",
+    check: "स्थिति देखें",
+    detailTitle: "रिपोर्ट की स्थिति",
+    notFoundTitle: "कोई रिपोर्ट नहीं मिली",
+    notFoundHint:
+      "ट्रैकिंग आईडी जाँचें और फिर से कोशिश करें। SOS आपातकाल सार्वजनिक रूप से ट्रैक नहीं किए जा सकते।",
+    loadFailed: "यह रिपोर्ट लोड नहीं हो सकी। कृपया फिर से कोशिश करें।",
+    trackAnother: "दूसरी रिपोर्ट ट्रैक करें",
+    share: "साझा करें",
+    linkCopied: "लिंक कॉपी हो गया",
+    shareTitle: "AlertKaro पर रिपोर्ट #{id}",
+    reportedOn: "{date} को दर्ज",
+    lastUpdated: "अंतिम अपडेट {date}",
+    stepReceived: "प्राप्त",
+    stepReviewing: "समीक्षा",
+    stepAction: "कार्रवाई",
+    stepResolved: "हल",
+    policeAction: "पुलिस कार्रवाई",
+    resolutionNotes: "समाधान नोट्स",
+    resolvedOn: "{date} को हल हुआ",
+    updates: "अपडेट",
+    noUpdates: "अभी कोई अपडेट नहीं। पुलिस के काम करने पर प्रगति यहाँ दिखेगी।",
+    privacyNote:
+      "यहाँ केवल मामले की प्रगति दिखाई जाती है। रिपोर्ट करने वाले की पहचान और विवरण निजी रहते हैं।",
+  },
+  incident: {
+    title: "घटना का विवरण",
+    submitted: "रिपोर्ट सफलतापूर्वक दर्ज हुई!",
+    confirmed: "धन्यवाद! आपकी पुष्टि इस रिपोर्ट में जोड़ दी गई।",
+    publicTracking: "सार्वजनिक ट्रैकिंग पेज",
+    youWithdrew: "आपने यह रिपोर्ट {date} को वापस ली",
+    withdrawnOn: "रिपोर्ट {date} को वापस ली गई",
+    reportedAnonymously: "गुमनाम रूप से दर्ज",
+    reportedByCitizen: "नागरिक द्वारा दर्ज",
+    evidence: "सबूत",
+    details: "विवरण",
+    titleLabel: "शीर्षक",
+    description: "विवरण",
+    reportedOn: "दर्ज करने की तारीख",
+    resolutionEvidence: "समाधान का सबूत",
+    partialFix: "आंशिक सुधार",
+    afterResolved: "बाद में — हल हुआ",
+    partlyFixedOn: "{date} को आंशिक रूप से ठीक हुआ",
+    updatedBy: "{name} द्वारा",
+    messages: "संदेश",
+    supplementEntry: "रिपोर्ट करने वाले ने विवरण जोड़ा",
+    withdrawalEntry: "रिपोर्ट करने वाले ने वापस ली",
+    supplementTitle: "अपनी रिपोर्ट में जोड़ें",
+    supplementPlaceholder: "पुलिस को कुछ और बताना है? सुधार या नई जानकारी",
+    addEvidence: "फ़ोटो या वीडियो जोड़ें",
+    removeFile: "{name} हटाएँ",
+    sending: "भेजा जा रहा है...",
+    sendToPolice: "पुलिस को भेजें",
+    supplementEmpty: "एक नोट या कम से कम एक फ़ाइल जोड़ें",
+    supplementUploadFailed:
+      "आपकी फ़ाइलें अपलोड नहीं हो सकीं। कृपया फिर से कोशिश करें।",
+    supplementPartial:
+      "आपका अपडेट भेज दिया गया, लेकिन {total} में से {failed} फ़ाइलें अपलोड नहीं हो सकीं।",
+    supplementFailed: "आपका अपडेट नहीं भेजा जा सका। कृपया फिर से कोशिश करें।",
+    withdrawLink: "यह रिपोर्ट वापस लें",
+    withdrawPlaceholder: "आप यह रिपोर्ट क्यों वापस ले रहे हैं?",
+    withdrawHint: "पुलिस इस पर काम बंद कर देगी। इसे पलटा नहीं जा सकता।",
+    keepReport: "रिपोर्ट रहने दें",
+    withdrawing: "वापस ली जा रही है...",
+    withdraw: "रिपोर्ट वापस लें",
+    withdrawReasonTooShort: "कम से कम {min} अक्षरों का कारण बताएँ",
+    withdrawFailed: "रिपोर्ट वापस नहीं ली जा सकी। कृपया फिर से कोशिश करें।",
+    reopenEntry: "रिपोर्टकर्ता ने फिर से खोला",
+    feedbackTitle: "क्या यह सच में ठीक हुआ?",
+    feedbackFixed: "हाँ, ठीक हो गया",
+    feedbackNotFixed: "नहीं, ठीक नहीं हुआ",
+    feedbackRating: "बताएँ कि इसे कैसे संभाला गया",
+    ratingValue: "5 में से {value}",
+    feedbackFixedPlaceholder: "कुछ और जोड़ना चाहते हैं? (वैकल्पिक)",
+    feedbackNotFixedPlaceholder: "अभी भी क्या गलत है?",
+    reopenHint: "इसे भेजने पर मामला फिर से खुलेगा और पुलिस को लौटा दिया जाएगा।",
+    submitFeedback: "प्रतिक्रिया भेजें",
+    requestReopen: "फिर से खोलने का अनुरोध करें",
+    feedbackThanks: "सुधार की पुष्टि करने के लिए धन्यवाद।",
+    feedbackReopened: "आपने पुलिस से यह मामला फिर से खोलने को कहा है।",
+    chooseRating: "रेटिंग चुनें",
+    describeProblem: "पुलिस को बताएँ कि अभी भी क्या गलत है",
+    reopenPartial:
+      "आपका अनुरोध भेज दिया गया, लेकिन {total} में से {failed} फ़ाइलें अपलोड नहीं हो सकीं।",
+    feedbackFailed:
+      "आपकी प्रतिक्रिया नहीं भेजी जा सकी। कृपया फिर से कोशिश करें।",
+  },
+  comments: {
+    loadFailed: "संदेश लोड नहीं हो सके",
+    attachmentTooLarge: "अटैचमेंट अधिकतम {size}MB तक हो सकते हैं",
+    sendFailed: "आपका संदेश नहीं भेजा जा सका। कृपया फिर से कोशिश करें।",
+    you: "आप",
+    police: "पुलिस",
+    policeOfficer: "पुलिस · {name}",
+    officer: "अधिकारी",
+    reporter: "रिपोर्टकर्ता",
+    attachment: "अटैचमेंट",
+    loading: "संदेश लोड हो रहे हैं…",
+    emptyCitizen:
+      "अभी कोई संदेश नहीं। यहाँ पुलिस से सवाल पूछें या और जानकारी साझा करें।",
+    emptyPolice:
+      "अभी कोई संदेश नहीं। यहाँ के संदेश सीधे रिपोर्टकर्ता को जाते हैं।",
+    removeAttachment: "अटैचमेंट हटाएँ",
+    attach: "फ़ाइल जोड़ें",
+    placeholder: "संदेश लिखें…",
+    sending: "भेजा जा रहा है…",
+    send: "भेजें",
+  },
+  sos: {
+    sendingIn: "SOS भेजा जा रहा है",
+    countdownMessage:
+      "पुलिस को आपकी लोकेशन के साथ तत्काल अलर्ट मिलेगा, और यह {minutes} मिनट तक अपडेट होती रहेगी।",
+    sendNow: "अभी भेजें",
+    alerting: "पुलिस को अलर्ट किया जा रहा है…",
+    gettingLocation: "आपकी लोकेशन ली जा रही है",
+    locationPending:
+      "अभी आपकी लोकेशन नहीं मिल सकी। पुलिस को अलर्ट कर दिया गया है और लोकेशन मिलते ही जोड़ दी जाएगी।",
+    sendFailed:
+      "SOS नहीं भेजा जा सका। अपना कनेक्शन जाँचें और फिर से कोशिश करें, या 112 पर कॉल करें।",
+    sent: "SOS भेजा गया",
+    activeMessage:
+      "पुलिस को अलर्ट कर दिया गया है और वह आपकी लाइव लोकेशन देख सकती है। अपडेट जारी रखने के लिए यह पेज खुला रखें।",
+    lastSent: "आखिरी भेजी गई लोकेशन",
+    waitingForLocation: "लोकेशन का इंतज़ार है",
+    position: "स्थिति",
+    sharingFor: "शेयर करने का बचा समय",
+    locationUnavailable: "लोकेशन उपलब्ध नहीं है",
+    locationRetrying:
+      "आपकी ताज़ा लोकेशन नहीं भेजी जा सकी। फिर से कोशिश की जा रही है…",
+    stopping: "रोका जा रहा है…",
+    stop: "लोकेशन शेयर करना बंद करें",
+    stopFailed: "लोकेशन शेयर करना बंद नहीं हो सका। कृपया फिर से कोशिश करें।",
+    viewIncidentLink: "घटना देखें",
+    stoppedTitle: "लोकेशन शेयर करना बंद हुआ",
+    stoppedMessage:
+      "आपका SOS अभी भी पुलिस के पास है। आप घटना पेज से इसे देख सकते हैं।",
+    viewIncident: "घटना देखें",
+    backHome: "होम पर वापस जाएँ",
+    notSent: "SOS नहीं भेजा गया",
+    tryAgain: "फिर से कोशिश करें",
+    goBack: "वापस जाएँ",
+    call112: "112 पर कॉल करें",
+  },
+  report: {
+    title: "घटना की रिपोर्ट करें",
+    uploadFailed: "अपलोड विफल रहा",
+    uploadFailuresConfirmed:
+      "आपकी पुष्टि जोड़ दी गई, लेकिन {total} में से {failed} फ़ाइलें अपलोड नहीं हो सकीं। उन्हें फिर से आज़माएँ या उनके बिना आगे बढ़ें।",
+    uploadFailuresNew:
+      "आपकी रिपोर्ट अभी दर्ज नहीं हुई है: {total} में से {failed} फ़ाइलें अपलोड नहीं हो सकीं। उन्हें फिर से आज़माएँ या उनके बिना आगे बढ़ें।",
+    confirmFailed: "मौजूदा रिपोर्ट की पुष्टि नहीं हो सकी",
+    fixFields: "कृपया चिह्नित फ़ील्ड ठीक करें",
+    submitFailed: "रिपोर्ट सबमिट नहीं हो सकी",
+    geolocationUnsupported: "इस डिवाइस पर लोकेशन उपलब्ध नहीं है",
+    locationFailed: "लोकेशन नहीं मिल सकी",
+    microphoneError: "माइक्रोफ़ोन तक पहुँच नहीं मिल सकी",
+    recording: "REC {time}",
+    tapToStop: "रोकने के लिए टैप करें",
+    recordingVoiceNote: "वॉइस नोट रिकॉर्ड हो रहा है",
+    savedOfflineTitle: "ऑफ़लाइन सहेजा गया",
+    savedOfflineText:
+      "आपकी रिपोर्ट और उसका मीडिया इस डिवाइस पर सहेजा गया है और इंटरनेट वापस आने पर अपने आप सबमिट हो जाएगा।",
+    viewMyReports: "मेरी रिपोर्टें देखें",
+    resumeDraft: "अपना ड्राफ़्ट जारी रखें?",
+    draftSaved: "{time} सहेजा गया",
+    resume: "जारी रखें",
+    captureTitle: "सबूत दर्ज करें",
+    captureHint: "फ़ोटो या वीडियो लें, या वॉइस नोट रिकॉर्ड करें",
+    takePhoto: "फ़ोटो लें",
+    recordVideo: "वीडियो रिकॉर्ड करें",
+    voiceNote: "वॉइस नोट",
+    voiceNoteItem: "वॉइस नोट",
+    recordVoiceNote: "वॉइस नोट रिकॉर्ड करें",
+    failed: "विफल",
+    category: "श्रेणी",
+    titleLabel: "शीर्षक *",
+    titlePlaceholder: "समस्या का छोटा विवरण",
+    descriptionLabel: "विवरण (वैकल्पिक)",
+    descriptionPlaceholder: "घटना के बारे में और जानकारी दें...",
+    optionalSuffix: " (वैकल्पिक)",
+    selectPlaceholder: "चुनें…",
+    anonymousTitle: "गुमनाम रूप से रिपोर्ट करें",
+    anonymousHint:
+      "पुलिस आपका नाम या संपर्क विवरण नहीं देख पाएगी। आप फिर भी इस रिपोर्ट को ट्रैक कर सकेंगे और अपडेट पा सकेंगे।",
+    location: "स्थान",
+    locationHint: "(घटना को सही तरह ट्रैक करने के लिए ज़रूरी)",
+    gettingLocation: "आपकी लोकेशन ली जा रही है...",
+    retryGps: "GPS फिर से आज़माएँ",
+    enterManually: "खुद दर्ज करें",
+    searchLocation: "घटना का स्थान खोजें",
+    addressPlaceholder: "जैसे 123 मेन स्ट्रीट, शहर, राज्य",
+    searching: "खोज रहे हैं...",
+    search: "खोजें",
+    noPlaces:
+      "कोई मेल खाता स्थान नहीं मिला। आप लिखे गए पते का उपयोग मानचित्र स्थिति के बिना कर सकते हैं।",
+    useAsTyped: "जैसा लिखा है वैसा उपयोग करें",
+    tryGps: "इसके बजाय GPS आज़माएँ",
+    pinnedManually: "हाथ से पिन किया गया · ",
+    dragPin: "बदलने के लिए पिन खींचें · ",
+    useMyGps: "मेरी GPS लोकेशन उपयोग करें",
+    refreshLocation: "लोकेशन ताज़ा करें",
+    searchAddress: "पता खोजें",
+    editAddress: "पता बदलें",
+    enableLocation: "लोकेशन चालू करें",
+    enableLocationHint: "घटना का स्थान दर्ज करने के लिए टैप करें",
+    duplicatesTitle: "क्या यह वही समस्या है?",
+    duplicatesHint:
+      "ये खुली रिपोर्टें पास में हैं। किसी एक की पुष्टि करने पर नई रिपोर्ट दर्ज करने के बजाय आपकी फ़ोटो उसमें जुड़ जाएँगी।",
+    metersAway: "{distance} मी दूर",
+    sameIssue: "वही समस्या",
+    submitNew: "नहीं, नई रिपोर्ट सबमिट करें",
+    retryUploads: "विफल अपलोड फिर से आज़माएँ",
+    continueWithout: "इनके बिना आगे बढ़ें",
+    submit: "रिपोर्ट सबमिट करें",
+  },
+  validation: {
+    titleRequired: "कृपया शीर्षक दर्ज करें",
+    titleTooShort: "शीर्षक कम से कम {min} अक्षरों का होना चाहिए",
+    titleTooLong: "शीर्षक अधिकतम {max} अक्षरों का हो सकता है",
+    descriptionTooLong: "विवरण अधिकतम {max} अक्षरों का हो सकता है",
+    categoryRequired: "कृपया एक श्रेणी चुनें",
+    categoryUnavailable: "यह श्रेणी अब उपलब्ध नहीं है",
+    locationInvalid: "स्थान के निर्देशांक अमान्य हैं",
+    locationOutsideArea: "यह स्थान हमारे सेवा क्षेत्र से बाहर है",
+    locationSourceInvalid: "स्थान का स्रोत अमान्य है",
+    mediaRequired: "कृपया कम से कम एक फ़ोटो, वीडियो या वॉइस नोट जोड़ें",
+    mediaTooMany: "आप अधिकतम {max} फ़ाइलें जोड़ सकते हैं",
+    mediaMalformed: "कुछ संलग्न फ़ाइलें सही नहीं हैं",
+    mediaUnsupported: "{name} समर्थित फ़ाइल प्रकार नहीं है",
+    mediaTooLarge: "{name} {maxMb}MB से छोटी होनी चाहिए",
+    mediaNotUploaded: "{name} का अपलोड अभी पूरा नहीं हुआ है",
+    imageUnprocessable:
+      "{name} को इस डिवाइस पर प्रोसेस नहीं किया जा सका। इसके बजाय JPEG या PNG फ़ोटो चुनें।",
+    fieldRequired: "कृपया {label} भरें",
+    fieldUnchecked: "कृपया {label} की पुष्टि करें",
+    fieldNotNumber: "{label} एक संख्या होनी चाहिए",
+    fieldTooSmall: "{label} कम से कम {min} होना चाहिए",
+    fieldTooLarge: "{label} अधिकतम {max} हो सकता है",
+    fieldNoChoice: "कृपया {label} चुनें",
+    fieldTooLong: "{label} अधिकतम {max} अक्षरों का हो सकता है",
+  },
+};
+
+export default hi;
@@ -0,0 +1,447 @@
+import type { Messages } from "./en";
+
+// Marathi
+const mr: Messages = {
+  common: {
+    cancel: "रद्द करा",
+    discard: "काढून टाका",
+    general: "सर्वसाधारण",
+    untitledReport: "शीर्षक नसलेला अहवाल",
+    noCategory: "श्रेणी नाही",
+    locationUnavailable: "स्थान उपलब्ध नाही",
+    before: "आधी",
+    after: "नंतर",
+    incidentResolved: "घटनेचे निराकरण झाले",
+    citizenReport: "नागरिकाचा अहवाल",
+    policeResolution: "पोलिसांनी केलेले निराकरण",
+    files: { one: "{count} फाइल", other: "{count} फाइल्स" },
+  },
+  nav: {
+    home: "होम",
+    history: "इतिहास",
+    report: "अहवाल",
+    alerts: "सूचना",
+    profile: "प्रोफाइल",
+    sos: "SOS",
+    sosLabel: "SOS आणीबाणी",
+    switchToLight: "लाइट मोडवर जा",
+    switchToDark: "डार्क मोडवर जा",
+  },
+  status: {
+    submitted: "प्राप्त झाला",
+    in_review: "कारवाई सुरू",
+    action_taken: "कारवाई केली",
+    resolved: "निराकरण झाले",
+    withdrawn: "मागे घेतले",
+  },
+  time: {
+    justNow: "आत्ताच",
+  },
+  dashboard: {
+    welcomeBack: "पुन्हा स्वागत आहे,",
+    active: "सक्रिय",
+    resolved: "निराकरण झाले",
+    pending: "प्रलंबित",
+    reportTitle: "घटनेचा अहवाल द्या",
+    reportSubtitle: "काही समस्या दिसली? आम्हाला कळवा.",
+    sosTitle: "SOS",
+    sosSubtitle:
+      "लगेच मदत हवी आहे? तुमच्या लाइव्ह लोकेशनसह पोलिसांना सावध करा.",
+    drafts: "मसुदे",
+    savedAgo: "{time} जतन केले",
+    discardDraft: "मसुदा काढून टाका",
+    publicFeed: "सार्वजनिक फीड",
+    viewAll: "सर्व पहा",
+    emptyTitle: "अजून कोणतीही घटना नाही",
+    emptyHint: "समुदायाचे अहवाल येथे दिसतील",
+  },
+  feed: {
+    title: "सार्वजनिक फीड",
+    subtitle: "कृतीतून पारदर्शकता",
+    all: "सर्व घटना",
+    resolved: "निराकरण झालेल्या",
+    emptyTitle: "दाखवण्यासाठी कोणतीही घटना नाही",
+    emptyResolved: "अजून कोणत्याही घटनेचे निराकरण झालेले नाही",
+    emptyAll: "नोंदवलेल्या घटना येथे दिसतील",
+  },
+  history: {
+    title: "माझे अहवाल",
+    all: "सर्व",
+    active: "सक्रिय",
+    resolved: "निराकरण झालेले",
+    waitingToUpload: {
+      one: "{count} अहवाल अपलोडच्या प्रतीक्षेत",
+      other: "{count} अहवाल अपलोडच्या प्रतीक्षेत",
+    },
+    syncing: "सिंक होत आहे...",
+    syncNow: "आता सिंक करा",
+    mediaPending: {
+      one: "{count} मीडिया फाइल बाकी",
+      other: "{count} मीडिया फाइल्स बाकी",
+    },
+    queued: "रांगेत",
+    lastAttemptFailed: "मागील प्रयत्न अयशस्वी: {error}",
+    notAccepted: "स्वीकारली नाही",
+    rejectedReason:
+      "स्वीकारली नाही: {error} ती काढून टाका आणि पुन्हा तक्रार करा.",
+    emptyTitle: "कोणतेही अहवाल सापडले नाहीत",
+    emptyAll: "एखाद्या घटनेचा अहवाल देऊन सुरुवात करा",
+    emptyActive: "कोणतेही सक्रिय अहवाल नाहीत",
+    emptyResolved: "निराकरण झालेले अहवाल नाहीत",
+    downloadReceipt: "पावती (PDF)",
+    preparingReceipt: "तयार होत आहे...",
+    receiptFailed: "पावती तयार करता आली नाही. कृपया पुन्हा प्रयत्न करा.",
+  },
+  alerts: {
+    title: "सूचना",
+    markAllRead: "सर्व वाचले म्हणून खूण करा",
+    emptyTitle: "अजून कोणत्याही सूचना नाहीत",
+    emptyHint: "तुमच्या अहवालांबद्दलच्या सूचना येथे मिळतील",
+  },
+  help: {
+    title: "मदत आणि सहाय्य",
+    getInTouch: "संपर्क साधा",
+    emailUs: "ईमेल करा",
+    callUs: "कॉल करा",
+    faqTitle: "वारंवार विचारले जाणारे प्रश्न",
+    faqs: [
+      {
+        question: "मी एखाद्या घटनेचा अहवाल कसा देऊ?",
+        answer:
+          'खालच्या नेव्हिगेशन बारमधील "अहवाल" बटण दाबा. घटनेचा तपशील भरा, उपलब्ध असल्यास फोटो जोडा, लोकेशनची परवानगी द्या आणि सबमिट करा. तुमच्या अहवालाचे पुनरावलोकन करून तो संबंधित अधिकाऱ्यांकडे पाठवला जाईल.',
+      },
+      {
+        question: "मी निनावी अहवाल देऊ शकतो/शकते का?",
+        answer:
+          'होय. सबमिट करण्यापूर्वी "निनावी अहवाल द्या" निवडा, म्हणजे पोलिसांना तुमचे नाव किंवा संपर्क तपशील दिसणार नाहीत; फक्त पर्यवेक्षक नोंदवलेल्या कारणासह ते पाहू शकतात. अहवाल ट्रॅक करण्यासाठी आणि अपडेट मिळवण्यासाठी तुम्हाला तरीही खाते लागेल, आणि सामुदायिक फीडवर तुमची ओळख कधीही दाखवली जात नाही.',
+      },
+      {
+        question: "माझ्या अहवालाचे पुनरावलोकन होण्यास किती वेळ लागतो?",
+        answer:
+          "अहवालांचे पुनरावलोकन साधारणपणे 24 तासांच्या आत होते. आणीबाणी म्हणून चिन्हांकित तातडीच्या घटनांना प्राधान्य दिले जाते आणि त्यांना लवकर प्रतिसाद मिळू शकतो.",
+      },
+      {
+        question: "मी माझी प्रोफाइल माहिती कशी बदलू?",
+        answer:
+          "तुमच्या प्रोफाइल पेजवर जा आणि जी माहिती बदलायची आहे त्यावर टॅप करा. बदल आपोआप जतन होतात.",
+      },
+      {
+        question: "मी अ‍ॅपची भाषा कशी बदलू?",
+        answer:
+          "तुमच्या प्रोफाइल पेजवर जा आणि सेटिंग्जमध्ये भाषा निवडा. तुमची निवड तुमच्या खात्यात जतन होते आणि तुम्ही साइन इन करता त्या प्रत्येक डिव्हाइसवर वापरली जाते.",
+      },
+      {
+        question: "माझ्या लोकेशनची परवानगी का आवश्यक आहे?",
+        answer:
+          "घटनेचे अचूक स्थान नोंदवण्यासाठी फक्त अहवाल सबमिट करताना लोकेशनची परवानगी मागितली जाते. Alerkaro पार्श्वभूमीत तुमचे लोकेशन ट्रॅक करत नाही.",
+      },
+      {
+        question: "मी माझे खाते कसे हटवू?",
+        answer:
+          "तुमच्या नोंदणीकृत ईमेलसह आमच्या सहाय्य टीमशी alertkaro.tech@gmail.com वर संपर्क साधा. आम्ही 7 कामकाजाच्या दिवसांत तुमची विनंती पूर्ण करू.",
+      },
+    ],
+    version: "आवृत्ती {version}",
+  },
+  privacy: {
+    title: "गोपनीयता",
+    dataWeCollect: "आम्ही कोणता डेटा घेतो",
+    locationTitle: "लोकेशन डेटा",
+    locationDesc:
+      "फक्त घटनेचा अहवाल सबमिट करताना तिचे स्थान नोंदवण्यासाठी वापरला जातो. पार्श्वभूमीत कधीही ट्रॅक केले जात नाही.",
+    contactInfoTitle: "संपर्क माहिती",
+    contactInfoDesc:
+      "खाते व्यवस्थापनासाठी नोंदणीच्या वेळी तुमचे नाव, ईमेल आणि फोन नंबर घेतला जातो.",
+    reportsTitle: "घटनांचे अहवाल",
+    reportsDesc:
+      "तुम्ही सबमिट केलेले अहवाल, त्यातील वर्णन, फोटो आणि स्थानासह, सुरक्षितपणे साठवले जातात आणि संबंधित अधिकाऱ्यांसोबत शेअर केले जातात.",
+    howWeUse: "आम्ही तुमचा डेटा कसा वापरतो",
+    usage:
+      "तुमचा डेटा फक्त Alerkaro च्या सार्वजनिक सुरक्षा सुविधा चालवण्यासाठी वापरला जातो. आम्ही तुमची वैयक्तिक माहिती कोणत्याही तिसऱ्या पक्षाला विकत नाही. जलद प्रतिसादासाठी घटनांचा डेटा सत्यापित कायदा अंमलबजावणी संस्थांसोबत शेअर केला जातो.",
+    aggregated:
+      "प्लॅटफॉर्म सुधारण्यासाठी आणि सामुदायिक सुरक्षेबद्दल माहिती तयार करण्यासाठी एकत्रित आणि निनावी डेटा वापरला जाऊ शकतो.",
+    yourRights: "तुमचे अधिकार",
+    rights: [
+      "तुमच्या डेटाची प्रत मागवा",
+      "चुकीची माहिती दुरुस्त करा",
+      "तुमचे खाते आणि संबंधित डेटा हटवा",
+      "अनावश्यक संदेशांमधून बाहेर पडा",
+    ],
+    contact: "संपर्क",
+    contactText: "गोपनीयतेशी संबंधित कोणत्याही शंकेसाठी आमच्याशी संपर्क साधा:",
+    lastUpdated: "शेवटचे अपडेट: {date}",
+  },
+  profile: {
+    reports: "अहवाल",
+    resolved: "निराकरण झालेले",
+    success: "यश",
+    accountInfo: "खात्याची माहिती",
+    phone: "फोन",
+    notSet: "सेट केलेले नाही",
+    memberSince: "सदस्य कधीपासून",
+    accountType: "खात्याचा प्रकार",
+    roles: {
+      citizen: "नागरिक",
+      police: "पोलीस",
+      admin: "प्रशासक",
+    },
+    settings: "सेटिंग्ज",
+    appearance: "स्वरूप",
+    language: "भाषा",
+    languageError: "तुमची भाषा जतन करता आली नाही. कृपया पुन्हा प्रयत्न करा.",
+    notifications: "सूचना",
+    privacy: "गोपनीयता",
+    help: "मदत आणि सहाय्य",
+    signOut: "साइन आउट",
+  },
+  track: {
+    title: "तक्रार ट्रॅक करा",
+    subtitle:
+      "ट्रॅकिंग आयडीने कोणत्याही तक्रारीची प्रगती पहा. साइन इनची गरज नाही.",
+    trackingIdLabel: "ट्रॅकिंग आयडी",
+    trackingIdPlaceholder: "ट्रॅकिंग आयडी टाका",
+    check: "स्थिती पहा",
+    detailTitle: "तक्रारीची स्थिती",
+    notFoundTitle: "तक्रार सापडली नाही",
+    notFoundHint:
+      "ट्रॅकिंग आयडी तपासा आणि पुन्हा प्रयत्न करा. SOS आणीबाणी सार्वजनिकरित्या ट्रॅक करता येत नाहीत.",
+    loadFailed: "ही तक्रार लोड करता आली नाही. कृपया पुन्हा प्रयत्न करा.",
+    trackAnother: "दुसरी तक्रार ट्रॅक करा",
+    share: "शेअर करा",
+    linkCopied: "लिंक कॉपी झाली",
+    shareTitle: "AlertKaro वरील तक्रार #{id}",
+    reportedOn: "{date} रोजी नोंदवली",
+    lastUpdated: "शेवटचे अपडेट {date}",
+    stepReceived: "प्राप्त",
+    stepReviewing: "पुनरावलोकन",
+    stepAction: "कारवाई",
+    stepResolved: "निराकरण",
+    policeAction: "पोलीस कारवाई",
+    resolutionNotes: "निराकरण नोंदी",
+    resolvedOn: "{date} रोजी निराकरण",
+    updates: "अपडेट्स",
+    noUpdates:
+      "अद्याप कोणतेही अपडेट नाहीत. पोलीस काम करतील तशी प्रगती येथे दिसेल.",
+    privacyNote:
+      "येथे फक्त प्रकरणाची प्रगती दाखवली जाते. तक्रारदाराची ओळख आणि तपशील खाजगी राहतात.",
+  },
+  incident: {
+    title: "घटनेचा तपशील",
+    submitted: "तक्रार यशस्वीरित्या नोंदवली!",
+    confirmed: "धन्यवाद! तुमची पुष्टी या तक्रारीत जोडली गेली.",
+    publicTracking: "सार्वजनिक ट्रॅकिंग पेज",
+    youWithdrew: "तुम्ही ही तक्रार {date} रोजी मागे घेतली",
+    withdrawnOn: "तक्रार {date} रोजी मागे घेतली",
+    reportedAnonymously: "निनावी नोंदवलेली",
+    reportedByCitizen: "नागरिकाने नोंदवलेली",
+    evidence: "पुरावा",
+    details: "तपशील",
+    titleLabel: "शीर्षक",
+    description: "वर्णन",
+    reportedOn: "नोंदवल्याची तारीख",
+    resolutionEvidence: "निराकरणाचा पुरावा",
+    partialFix: "अंशतः दुरुस्ती",
+    afterResolved: "नंतर — निराकरण झाले",
+    partlyFixedOn: "{date} रोजी अंशतः दुरुस्त झाले",
+    updatedBy: "{name} यांनी",
+    messages: "संदेश",
+    supplementEntry: "तक्रारदाराने तपशील जोडला",
+    withdrawalEntry: "तक्रारदाराने मागे घेतली",
+    supplementTitle: "तुमच्या तक्रारीत भर घाला",
+    supplementPlaceholder:
+      "पोलिसांना आणखी काही सांगायचे आहे? दुरुस्ती किंवा नवीन माहिती",
+    addEvidence: "फोटो किंवा व्हिडिओ जोडा",
+    removeFile: "{name} काढा",
+    sending: "पाठवत आहे...",
+    sendToPolice: "पोलिसांना पाठवा",
+    supplementEmpty: "एक नोंद किंवा किमान एक फाइल जोडा",
+    supplementUploadFailed:
+      "तुमच्या फाइल्स अपलोड होऊ शकल्या नाहीत. कृपया पुन्हा प्रयत्न करा.",
+    supplementPartial:
+      "तुमचे अपडेट पाठवले, पण {total} पैकी {failed} फाइल्स अपलोड होऊ शकल्या नाहीत.",
+    supplementFailed: "तुमचे अपडेट पाठवता आले नाही. कृपया पुन्हा प्रयत्न करा.",
+    withdrawLink: "ही तक्रार मागे घ्या",
+    withdrawPlaceholder: "तुम्ही ही तक्रार का मागे घेत आहात?",
+    withdrawHint: "पोलीस यावरील काम थांबवतील. हे पूर्ववत करता येणार नाही.",
+    keepReport: "तक्रार ठेवा",
+    withdrawing: "मागे घेत आहे...",
+    withdraw: "तक्रार मागे घ्या",
+    withdrawReasonTooShort: "किमान {min} अक्षरांचे कारण द्या",
+    withdrawFailed: "तक्रार मागे घेता आली नाही. कृपया पुन्हा प्रयत्न करा.",
+    reopenEntry: "तक्रारदाराने पुन्हा उघडली",
+    feedbackTitle: "हे खरोखर दुरुस्त झाले का?",
+    feedbackFixed: "होय, दुरुस्त झाले",
+    feedbackNotFixed: "नाही, दुरुस्त झाले नाही",
+    feedbackRating: "हे कसे हाताळले गेले ते रेट करा",
+    ratingValue: "5 पैकी {value}",
+    feedbackFixedPlaceholder: "आणखी काही सांगायचे आहे? (पर्यायी)",
+    feedbackNotFixedPlaceholder: "अजून काय चुकीचे आहे?",
+    reopenHint: "हे पाठवल्यावर प्रकरण पुन्हा उघडेल आणि पोलिसांकडे परत जाईल.",
+    submitFeedback: "अभिप्राय पाठवा",
+    requestReopen: "पुन्हा उघडण्याची विनंती करा",
+    feedbackThanks: "दुरुस्तीची पुष्टी केल्याबद्दल धन्यवाद.",
+    feedbackReopened:
+      "तुम्ही पोलिसांना हे प्रकरण पुन्हा उघडण्यास सांगितले आहे.",
+    chooseRating: "रेटिंग निवडा",
+    describeProblem: "अजून काय चुकीचे आहे ते पोलिसांना सांगा",
+    reopenPartial:
+      "तुमची विनंती पाठवली, पण {total} पैकी {failed} फाइल्स अपलोड होऊ शकल्या नाहीत.",
+    feedbackFailed: "तुमचा अभिप्राय पाठवता आला नाही. कृपया पुन्हा प्रयत्न करा.",
+  },
+  comments: {
+    loadFailed: "संदेश लोड करता आले नाहीत",
+    attachmentTooLarge: "अटॅचमेंट जास्तीत जास्त {size}MB असू शकतात",
+    sendFailed: "तुमचा संदेश पाठवता आला नाही. कृपया पुन्हा प्रयत्न करा.",
+    you: "तुम्ही",
+    police: "पोलीस",
+    policeOfficer: "पोलीस · {name}",
+    officer: "अधिकारी",
+    reporter: "तक्रारदार",
+    attachment: "अटॅचमेंट",
+    loading: "संदेश लोड होत आहेत…",
+    emptyCitizen:
+      "अद्याप कोणतेही संदेश नाहीत. येथे पोलिसांना प्रश्न विचारा किंवा अधिक माहिती द्या.",
+    emptyPolice:
+      "अद्याप कोणतेही संदेश नाहीत. येथील संदेश थेट तक्रारदाराकडे जातात.",
+    removeAttachment: "अटॅचमेंट काढा",
+    attach: "फाइल जोडा",
+    placeholder: "संदेश लिहा…",
+    sending: "पाठवत आहे…",
+    send: "पाठवा",
+  },
+  sos: {
+    sendingIn: "SOS पाठवत आहे",
+    countdownMessage:
+      "पोलिसांना तुमच्या लोकेशनसह तातडीचा अलर्ट मिळेल, आणि ते {minutes} मिनिटे अपडेट होत राहील.",
+    sendNow: "आता पाठवा",
+    alerting: "पोलिसांना अलर्ट करत आहे…",
+    gettingLocation: "तुमचे लोकेशन मिळवत आहे",
+    locationPending:
+      "अजून तुमचे लोकेशन मिळाले नाही. पोलिसांना अलर्ट केले आहे आणि लोकेशन मिळताच जोडले जाईल.",
+    sendFailed:
+      "SOS पाठवता आला नाही. तुमचे कनेक्शन तपासा आणि पुन्हा प्रयत्न करा, किंवा 112 वर कॉल करा.",
+    sent: "SOS पाठवला",
+    activeMessage:
+      "पोलिसांना अलर्ट केले आहे आणि ते तुमचे लाइव्ह लोकेशन पाहू शकतात. अपडेट सुरू ठेवण्यासाठी हे पेज उघडे ठेवा.",
+    lastSent: "शेवटचे पाठवलेले लोकेशन",
+    waitingForLocation: "लोकेशनची वाट पाहत आहे",
+    position: "स्थान",
+    sharingFor: "शेअरिंगचा उरलेला वेळ",
+    locationUnavailable: "लोकेशन उपलब्ध नाही",
+    locationRetrying:
+      "तुमचे नवीनतम लोकेशन पाठवता आले नाही. पुन्हा प्रयत्न करत आहे…",
+    stopping: "थांबवत आहे…",
+    stop: "लोकेशन शेअर करणे थांबवा",
+    stopFailed: "लोकेशन शेअर करणे थांबवता आले नाही. कृपया पुन्हा प्रयत्न करा.",
+    viewIncidentLink: "घटना पहा",
+    stoppedTitle: "लोकेशन शेअर करणे थांबले",
+    stoppedMessage:
+      "तुमचा SOS अजूनही पोलिसांकडे आहे. तुम्ही घटना पेजवरून त्याचा मागोवा घेऊ शकता.",
+    viewIncident: "घटना पहा",
+    backHome: "होमवर परत जा",
+    notSent: "SOS पाठवला नाही",
+    tryAgain: "पुन्हा प्रयत्न करा",
+    goBack: "मागे जा",
+    call112: "112 वर कॉल करा",
+  },
+  report: {
+    title: "घटनेचा अहवाल द्या",
+    uploadFailed: "अपलोड अयशस्वी",
+    uploadFailuresConfirmed:
+      "तुमची पुष्टी जोडली गेली, पण {total} पैकी {failed} फाइल्स अपलोड होऊ शकल्या नाहीत. त्या पुन्हा अपलोड करा किंवा त्यांच्याशिवाय पुढे जा.",
+    uploadFailuresNew:
+      "तुमचा अहवाल अजून दाखल झालेला नाही: {total} पैकी {failed} फाइल्स अपलोड होऊ शकल्या नाहीत. त्या पुन्हा अपलोड करा किंवा त्यांच्याशिवाय पुढे जा.",
+    confirmFailed: "आधीच्या अहवालाची पुष्टी करता आली नाही",
+    fixFields: "कृपया चिन्हांकित फील्ड दुरुस्त करा",
+    submitFailed: "अहवाल सबमिट करता आला नाही",
+    geolocationUnsupported: "या डिव्हाइसवर लोकेशन उपलब्ध नाही",
+    locationFailed: "लोकेशन मिळू शकले नाही",
+    microphoneError: "मायक्रोफोन वापरता आला नाही",
+    recording: "REC {time}",
+    tapToStop: "थांबवण्यासाठी टॅप करा",
+    recordingVoiceNote: "व्हॉइस नोट रेकॉर्ड होत आहे",
+    savedOfflineTitle: "ऑफलाइन जतन केले",
+    savedOfflineText:
+      "तुमचा अहवाल आणि त्याचे मीडिया या डिव्हाइसवर जतन केले आहे आणि तुम्ही पुन्हा ऑनलाइन आल्यावर आपोआप सबमिट होईल.",
+    viewMyReports: "माझे अहवाल पहा",
+    resumeDraft: "तुमचा मसुदा पुढे सुरू करायचा?",
+    draftSaved: "{time} जतन केले",
+    resume: "पुढे सुरू करा",
+    captureTitle: "पुरावा नोंदवा",
+    captureHint: "फोटो किंवा व्हिडिओ घ्या, किंवा व्हॉइस नोट रेकॉर्ड करा",
+    takePhoto: "फोटो घ्या",
+    recordVideo: "व्हिडिओ रेकॉर्ड करा",
+    voiceNote: "व्हॉइस नोट",
+    voiceNoteItem: "व्हॉइस नोट",
+    recordVoiceNote: "व्हॉइस नोट रेकॉर्ड करा",
+    failed: "अयशस्वी",
+    category: "श्रेणी",
+    titleLabel: "शीर्षक *",
+    titlePlaceholder: "समस्येचे थोडक्यात वर्णन",
+    descriptionLabel: "वर्णन (ऐच्छिक)",
+    descriptionPlaceholder: "घटनेबद्दल अधिक तपशील द्या...",
+    optionalSuffix: " (ऐच्छिक)",
+    selectPlaceholder: "निवडा…",
+    anonymousTitle: "निनावी अहवाल द्या",
+    anonymousHint:
+      "पोलिसांना तुमचे नाव किंवा संपर्क तपशील दिसणार नाहीत. तरीही तुम्ही हा अहवाल ट्रॅक करू शकाल आणि अपडेट मिळवू शकाल.",
+    location: "स्थान",
+    locationHint: "(घटनेचा अचूक मागोवा घेण्यासाठी आवश्यक)",
+    gettingLocation: "तुमचे लोकेशन मिळवत आहोत...",
+    retryGps: "GPS पुन्हा वापरा",
+    enterManually: "स्वतः नोंदवा",
+    searchLocation: "घटनेचे स्थान शोधा",
+    addressPlaceholder: "उदा. 123 मेन स्ट्रीट, शहर, राज्य",
+    searching: "शोधत आहोत...",
+    search: "शोधा",
+    noPlaces:
+      "जुळणारी ठिकाणे सापडली नाहीत. तुम्ही लिहिलेला पत्ता नकाशावरील स्थानाशिवाय वापरू शकता.",
+    useAsTyped: "लिहिल्याप्रमाणे वापरा",
+    tryGps: "त्याऐवजी GPS वापरा",
+    pinnedManually: "स्वतः पिन केले · ",
+    dragPin: "बदलण्यासाठी पिन ओढा · ",
+    useMyGps: "माझे GPS लोकेशन वापरा",
+    refreshLocation: "लोकेशन रिफ्रेश करा",
+    searchAddress: "पत्ता शोधा",
+    editAddress: "पत्ता बदला",
+    enableLocation: "लोकेशन सुरू करा",
+    enableLocationHint: "घटनेचे स्थान नोंदवण्यासाठी टॅप करा",
+    duplicatesTitle: "ही तीच समस्या आहे का?",
+    duplicatesHint:
+      "हे खुले अहवाल जवळच आहेत. त्यापैकी एकाची पुष्टी केल्यास नवीन अहवाल दाखल करण्याऐवजी तुमचे फोटो त्यात जोडले जातील.",
+    metersAway: "{distance} मी. दूर",
+    sameIssue: "तीच समस्या",
+    submitNew: "नाही, नवीन अहवाल सबमिट करा",
+    retryUploads: "अयशस्वी अपलोड पुन्हा करा",
+    continueWithout: "त्यांच्याशिवाय पुढे जा",
+    submit: "अहवाल सबमिट करा",
+  },
+  validation: {
+    titleRequired: "कृपया शीर्षक लिहा",
+    titleTooShort: "शीर्षक किमान {min} अक्षरांचे असावे",
+    titleTooLong: "शीर्षक जास्तीत जास्त {max} अक्षरांचे असू शकते",
+    descriptionTooLong: "वर्णन जास्तीत जास्त {max} अक्षरांचे असू शकते",
+    categoryRequired: "कृपया एक श्रेणी निवडा",
+    categoryUnavailable: "ही श्रेणी आता उपलब्ध नाही",
+    locationInvalid: "स्थानाचे निर्देशांक अवैध आहेत",
+    locationOutsideArea: "हे स्थान आमच्या सेवा क्षेत्राबाहेर आहे",
+    locationSourceInvalid: "स्थानाचा स्रोत अवैध आहे",
+    mediaRequired: "कृपया किमान एक फोटो, व्हिडिओ किंवा व्हॉइस नोट जोडा",
+    mediaTooMany: "तुम्ही जास्तीत जास्त {max} फायली जोडू शकता",
+    mediaMalformed: "काही जोडलेल्या फायली सदोष आहेत",
+    mediaUnsupported: "{name} हा समर्थित फाइल प्रकार नाही",
+    mediaTooLarge: "{name} {maxMb}MB पेक्षा लहान असावी",
+    mediaNotUploaded: "{name} चे अपलोड अजून पूर्ण झालेले नाही",
+    imageUnprocessable:
+      "{name} या डिव्हाइसवर प्रक्रिया करता आली नाही. त्याऐवजी JPEG किंवा PNG फोटो निवडा.",
+    fieldRequired: "कृपया {label} भरा",
+    fieldUnchecked: "कृपया {label} ची खात्री करा",
+    fieldNotNumber: "{label} ही संख्या असावी",
+    fieldTooSmall: "{label} किमान {min} असावे",
+    fieldTooLarge: "{label} जास्तीत जास्त {max} असू शकते",
+    fieldNoChoice: "कृपया {label} निवडा",
+    fieldTooLong: "{label} जास्तीत जास्त {max} अक्षरांचे असू शकते",
+  },
+};
+
+export default mr;
@@ -0,0 +1,453 @@
+import type { Messages } from "./en";
+
+// Tamil
+const ta: Messages = {
+  common: {
+    cancel: "ரத்துசெய்",
+    discard: "நீக்கு",
+    general: "பொது",
+    untitledReport: "தலைப்பில்லாத புகார்",
+    noCategory: "வகை இல்லை",
+    locationUnavailable: "இருப்பிடம் கிடைக்கவில்லை",
+    before: "முன்",
+    after: "பின்",
+    incidentResolved: "சம்பவம் தீர்க்கப்பட்டது",
+    citizenReport: "குடிமகன் புகார்",
+    policeResolution: "காவல்துறை தீர்வு",
+    files: { one: "{count} கோப்பு", other: "{count} கோப்புகள்" },
+  },
+  nav: {
+    home: "முகப்பு",
+    history: "வரலாறு",
+    report: "புகார்",
+    alerts: "அறிவிப்புகள்",
+    profile: "சுயவிவரம்",
+    sos: "SOS",
+    sosLabel: "SOS அவசரம்",
+    switchToLight: "ஒளி பயன்முறைக்கு மாற்று",
+    switchToDark: "இருள் பயன்முறைக்கு மாற்று",
+  },
+  status: {
+    submitted: "பெறப்பட்டது",
+    in_review: "நடவடிக்கையில்",
+    action_taken: "நடவடிக்கை எடுக்கப்பட்டது",
+    resolved: "தீர்க்கப்பட்டது",
+    withdrawn: "திரும்பப் பெறப்பட்டது",
+  },
+  time: {
+    justNow: "இப்போது",
+  },
+  dashboard: {
+    welcomeBack: "மீண்டும் வருக,",
+    active: "செயலில்",
+    resolved: "தீர்க்கப்பட்டவை",
+    pending: "நிலுவையில்",
+    reportTitle: "சம்பவத்தைப் புகாரளி",
+    reportSubtitle: "ஏதேனும் பிரச்சினை கண்டீர்களா? எங்களுக்குத் தெரிவியுங்கள்.",
+    sosTitle: "SOS",
+    sosSubtitle:
+      "உடனடி உதவி தேவையா? உங்கள் நேரடி இருப்பிடத்துடன் காவல்துறையை எச்சரிக்கவும்.",
+    drafts: "வரைவுகள்",
+    savedAgo: "{time} சேமிக்கப்பட்டது",
+    discardDraft: "வரைவை நீக்கு",
+    publicFeed: "பொது ஊட்டம்",
+    viewAll: "அனைத்தையும் காண்க",
+    emptyTitle: "இன்னும் சம்பவங்கள் இல்லை",
+    emptyHint: "சமூகப் புகார்கள் இங்கே தோன்றும்",
+  },
+  feed: {
+    title: "பொது ஊட்டம்",
+    subtitle: "செயலில் வெளிப்படைத்தன்மை",
+    all: "அனைத்து சம்பவங்கள்",
+    resolved: "தீர்க்கப்பட்டவை",
+    emptyTitle: "காட்ட சம்பவங்கள் இல்லை",
+    emptyResolved: "இன்னும் தீர்க்கப்பட்ட சம்பவங்கள் இல்லை",
+    emptyAll: "புகாரளிக்கப்பட்ட சம்பவங்கள் இங்கே தோன்றும்",
+  },
+  history: {
+    title: "எனது புகார்கள்",
+    all: "அனைத்தும்",
+    active: "செயலில்",
+    resolved: "தீர்க்கப்பட்டவை",
+    waitingToUpload: {
+      one: "{count} புகார் பதிவேற்றக் காத்திருக்கிறது",
+      other: "{count} புகார்கள் பதிவேற்றக் காத்திருக்கின்றன",
+    },
+    syncing: "ஒத்திசைக்கிறது...",
+    syncNow: "இப்போது ஒத்திசை",
+    mediaPending: {
+      one: "{count} மீடியா கோப்பு நிலுவையில்",
+      other: "{count} மீடியா கோப்புகள் நிலுவையில்",
+    },
+    queued: "வரிசையில்",
+    lastAttemptFailed: "கடைசி முயற்சி தோல்வியடைந்தது: {error}",
+    notAccepted: "ஏற்கப்படவில்லை",
+    rejectedReason:
+      "ஏற்கப்படவில்லை: {error} இதை நீக்கிவிட்டு மீண்டும் புகாரளிக்கவும்.",
+    emptyTitle: "புகார்கள் எதுவும் இல்லை",
+    emptyAll: "ஒரு சம்பவத்தைப் புகாரளித்துத் தொடங்குங்கள்",
+    emptyActive: "செயலில் உள்ள புகார்கள் இல்லை",
+    emptyResolved: "தீர்க்கப்பட்ட புகார்கள் இல்லை",
+    downloadReceipt: "ரசீது (PDF)",
+    preparingReceipt: "தயாராகிறது...",
+    receiptFailed: "ரசீதை உருவாக்க முடியவில்லை. மீண்டும் முயற்சிக்கவும்.",
+  },
+  alerts: {
+    title: "அறிவிப்புகள்",
+    markAllRead: "அனைத்தையும் படித்ததாகக் குறி",
+    emptyTitle: "இன்னும் அறிவிப்புகள் இல்லை",
+    emptyHint: "உங்கள் புகார்கள் பற்றிய அறிவிப்புகள் இங்கே வரும்",
+  },
+  help: {
+    title: "உதவி & ஆதரவு",
+    getInTouch: "தொடர்பு கொள்ளுங்கள்",
+    emailUs: "மின்னஞ்சல் அனுப்புங்கள்",
+    callUs: "அழையுங்கள்",
+    faqTitle: "அடிக்கடி கேட்கப்படும் கேள்விகள்",
+    faqs: [
+      {
+        question: "ஒரு சம்பவத்தை எப்படிப் புகாரளிப்பது?",
+        answer:
+          'கீழே உள்ள வழிசெலுத்தல் பட்டியில் "புகார்" பொத்தானைத் தட்டவும். சம்பவ விவரங்களை நிரப்பி, இருந்தால் புகைப்படங்களைச் சேர்த்து, இருப்பிட அனுமதி அளித்து சமர்ப்பிக்கவும். உங்கள் புகார் பரிசீலிக்கப்பட்டு உரிய அதிகாரிகளுக்கு அனுப்பப்படும்.',
+      },
+      {
+        question: "பெயர் குறிப்பிடாமல் புகாரளிக்க முடியுமா?",
+        answer:
+          'ஆம். சமர்ப்பிக்கும் முன் "பெயர் குறிப்பிடாமல் புகாரளி" என்பதைத் தேர்வுசெய்தால், காவல்துறையினர் உங்கள் பெயரையோ தொடர்பு விவரங்களையோ பார்க்க முடியாது; பதிவுசெய்யப்பட்ட காரணத்துடன் ஒரு மேற்பார்வையாளர் மட்டுமே அவற்றைப் பார்க்க முடியும். புகாரைக் கண்காணிக்கவும் புதுப்பிப்புகளைப் பெறவும் உங்களுக்குக் கணக்கு தேவை; சமூக ஊட்டத்தில் உங்கள் அடையாளம் ஒருபோதும் காட்டப்படாது.',
+      },
+      {
+        question: "எனது புகார் பரிசீலிக்கப்பட எவ்வளவு நேரம் ஆகும்?",
+        answer:
+          "புகார்கள் பொதுவாக 24 மணி நேரத்திற்குள் பரிசீலிக்கப்படும். அவசரம் எனக் குறிக்கப்பட்ட சம்பவங்களுக்கு முன்னுரிமை அளிக்கப்பட்டு விரைவான பதில் கிடைக்கலாம்.",
+      },
+      {
+        question: "எனது சுயவிவரத் தகவலை எப்படிப் புதுப்பிப்பது?",
+        answer:
+          "உங்கள் சுயவிவரப் பக்கத்திற்குச் சென்று மாற்ற விரும்பும் தகவலைத் தட்டவும். மாற்றங்கள் தானாகச் சேமிக்கப்படும்.",
+      },
+      {
+        question: "செயலியின் மொழியை எப்படி மாற்றுவது?",
+        answer:
+          "உங்கள் சுயவிவரப் பக்கத்திற்குச் சென்று அமைப்புகளில் மொழியைத் தேர்வுசெய்யவும். உங்கள் தேர்வு உங்கள் கணக்கில் சேமிக்கப்பட்டு, நீங்கள் உள்நுழையும் ஒவ்வொரு சாதனத்திலும் பயன்படுத்தப்படும்.",
+      },
+      {
+        question: "எனது இருப்பிட அனுமதி ஏன் தேவை?",
+        answer:
+          "சம்பவ இருப்பிடத்தைத் துல்லியமாகக் குறிக்க, புகாரைச் சமர்ப்பிக்கும்போது மட்டுமே இருப்பிட அனுமதி கேட்கப்படுகிறது. Alerkaro பின்னணியில் உங்கள் இருப்பிடத்தைக் கண்காணிப்பதில்லை.",
+      },
+      {
+        question: "எனது கணக்கை எப்படி நீக்குவது?",
+        answer:
+          "உங்கள் பதிவுசெய்த மின்னஞ்சலுடன் எங்கள் ஆதரவுக் குழுவை alertkaro.tech@gmail.com இல் தொடர்பு கொள்ளுங்கள். 7 வேலை நாட்களுக்குள் உங்கள் கோரிக்கையை நிறைவேற்றுவோம்.",
+      },
+    ],
+    version: "பதிப்பு {version}",
+  },
+  privacy: {
+    title: "தனியுரிமை",
+    dataWeCollect: "நாங்கள் சேகரிக்கும் தரவு",
+    locationTitle: "இருப்பிடத் தரவு",
+    locationDesc:
+      "சம்பவப் புகார்களைச் சமர்ப்பிக்கும்போது அவற்றின் இருப்பிடத்தைக் குறிக்க மட்டுமே பயன்படுத்தப்படுகிறது. பின்னணியில் ஒருபோதும் கண்காணிக்கப்படுவதில்லை.",
+    contactInfoTitle: "தொடர்புத் தகவல்",
+    contactInfoDesc:
+      "கணக்கு நிர்வாகத்திற்காகப் பதிவின்போது உங்கள் பெயர், மின்னஞ்சல் மற்றும் தொலைபேசி எண் சேகரிக்கப்படுகின்றன.",
+    reportsTitle: "சம்பவப் புகார்கள்",
+    reportsDesc:
+      "விளக்கங்கள், புகைப்படங்கள் மற்றும் இருப்பிடம் உட்பட நீங்கள் சமர்ப்பிக்கும் புகார்கள் பாதுகாப்பாகச் சேமிக்கப்பட்டு உரிய அதிகாரிகளுடன் பகிரப்படுகின்றன.",
+    howWeUse: "உங்கள் தரவை நாங்கள் எப்படிப் பயன்படுத்துகிறோம்",
+    usage:
+      "உங்கள் தரவு Alerkaro-வின் பொதுப் பாதுகாப்பு அம்சங்களை இயக்க மட்டுமே பயன்படுத்தப்படுகிறது. உங்கள் தனிப்பட்ட தகவலை மூன்றாம் தரப்பினருக்கு விற்பதில்லை. விரைவான நடவடிக்கைக்காகச் சம்பவத் தரவு சரிபார்க்கப்பட்ட சட்ட அமலாக்க அமைப்புகளுடன் பகிரப்படுகிறது.",
+    aggregated:
+      "தளத்தை மேம்படுத்தவும் சமூகப் பாதுகாப்பு பற்றிய தகவல்களை உருவாக்கவும் தொகுக்கப்பட்ட, அடையாளம் நீக்கப்பட்ட தரவு பயன்படுத்தப்படலாம்.",
+    yourRights: "உங்கள் உரிமைகள்",
+    rights: [
+      "உங்கள் தரவின் நகலைக் கோருங்கள்",
+      "தவறான தகவலைத் திருத்துங்கள்",
+      "உங்கள் கணக்கையும் தொடர்புடைய தரவையும் நீக்குங்கள்",
+      "அத்தியாவசியமற்ற தகவல்தொடர்புகளிலிருந்து விலகுங்கள்",
+    ],
+    contact: "தொடர்பு",
+    contactText:
+      "தனியுரிமை தொடர்பான கேள்விகளுக்கு எங்களைத் தொடர்புகொள்ளுங்கள்:",
+    lastUpdated: "கடைசியாகப் புதுப்பிக்கப்பட்டது: {date}",
+  },
+  profile: {
+    reports: "புகார்கள்",
+    resolved: "தீர்க்கப்பட்டவை",
+    success: "வெற்றி",
+    accountInfo: "கணக்குத் தகவல்",
+    phone: "தொலைபேசி",
+    notSet: "அமைக்கப்படவில்லை",
+    memberSince: "உறுப்பினரான நாள்",
+    accountType: "கணக்கு வகை",
+    roles: {
+      citizen: "குடிமகன்",
+      police: "காவல்துறை",
+      admin: "நிர்வாகி",
+    },
+    settings: "அமைப்புகள்",
+    appearance: "தோற்றம்",
+    language: "மொழி",
+    languageError: "உங்கள் மொழியைச் சேமிக்க முடியவில்லை. மீண்டும் முயலவும்.",
+    notifications: "அறிவிப்புகள்",
+    privacy: "தனியுரிமை",
+    help: "உதவி & ஆதரவு",
+    signOut: "வெளியேறு",
+  },
+  track: {
+    title: "புகாரைக் கண்காணி",
+    subtitle:
+      "கண்காணிப்பு ஐடி மூலம் எந்தப் புகாரின் முன்னேற்றத்தையும் பாருங்கள். உள்நுழைவு தேவையில்லை.",
+    trackingIdLabel: "கண்காணிப்பு ஐடி",
+    trackingIdPlaceholder: "கண்காணிப்பு ஐடியை உள்ளிடவும்",
+    check: "நிலையைப் பார்",
+    detailTitle: "புகார் நிலை",
+    notFoundTitle: "புகார் எதுவும் கிடைக்கவில்லை",
+    notFoundHint:
+      "கண்காணிப்பு ஐடியைச் சரிபார்த்து மீண்டும் முயலவும். SOS அவசரங்களைப் பொதுவில் கண்காணிக்க முடியாது.",
+    loadFailed: "இந்தப் புகாரை ஏற்ற முடியவில்லை. மீண்டும் முயலவும்.",
+    trackAnother: "வேறு புகாரைக் கண்காணி",
+    share: "பகிர்",
+    linkCopied: "இணைப்பு நகலெடுக்கப்பட்டது",
+    shareTitle: "AlertKaro இல் புகார் #{id}",
+    reportedOn: "{date} அன்று புகாரளிக்கப்பட்டது",
+    lastUpdated: "கடைசிப் புதுப்பிப்பு {date}",
+    stepReceived: "பெறப்பட்டது",
+    stepReviewing: "பரிசீலனை",
+    stepAction: "நடவடிக்கை",
+    stepResolved: "தீர்வு",
+    policeAction: "காவல்துறை நடவடிக்கை",
+    resolutionNotes: "தீர்வுக் குறிப்புகள்",
+    resolvedOn: "{date} அன்று தீர்க்கப்பட்டது",
+    updates: "புதுப்பிப்புகள்",
+    noUpdates:
+      "இன்னும் புதுப்பிப்புகள் இல்லை. காவல்துறை செயல்படும்போது முன்னேற்றம் இங்கே தோன்றும்.",
+    privacyNote:
+      "இங்கே வழக்கின் முன்னேற்றம் மட்டுமே காட்டப்படுகிறது. புகாரளித்தவரின் அடையாளமும் விவரங்களும் தனிப்பட்டவையாகவே இருக்கும்.",
+  },
+  incident: {
+    title: "சம்பவ விவரங்கள்",
+    submitted: "புகார் வெற்றிகரமாகச் சமர்ப்பிக்கப்பட்டது!",
+    confirmed: "நன்றி! உங்கள் உறுதிப்படுத்தல் இந்தப் புகாரில் சேர்க்கப்பட்டது.",
+    publicTracking: "பொதுக் கண்காணிப்புப் பக்கம்",
+    youWithdrew: "இந்தப் புகாரை {date} அன்று திரும்பப் பெற்றீர்கள்",
+    withdrawnOn: "புகார் {date} அன்று திரும்பப் பெறப்பட்டது",
+    reportedAnonymously: "அநாமதேயமாகப் புகாரளிக்கப்பட்டது",
+    reportedByCitizen: "குடிமகனால் புகாரளிக்கப்பட்டது",
+    evidence: "ஆதாரம்",
+    details: "விவரங்கள்",
+    titleLabel: "தலைப்பு",
+    description: "விளக்கம்",
+    reportedOn: "புகாரளித்த தேதி",
+    resolutionEvidence: "தீர்வுக்கான ஆதாரம்",
+    partialFix: "பகுதித் தீர்வு",
+    afterResolved: "பின்பு — தீர்க்கப்பட்டது",
+    partlyFixedOn: "{date} அன்று பகுதியாகச் சரிசெய்யப்பட்டது",
+    updatedBy: "{name} மூலம்",
+    messages: "செய்திகள்",
+    supplementEntry: "புகாரளித்தவர் விவரங்களைச் சேர்த்தார்",
+    withdrawalEntry: "புகாரளித்தவர் திரும்பப் பெற்றார்",
+    supplementTitle: "உங்கள் புகாரில் சேர்க்கவும்",
+    supplementPlaceholder:
+      "காவல்துறை அறிய வேண்டியது ஏதேனும் உள்ளதா? திருத்தங்கள் அல்லது புதிய விவரங்கள்",
+    addEvidence: "படங்கள் அல்லது வீடியோக்களைச் சேர்",
+    removeFile: "{name} ஐ நீக்கு",
+    sending: "அனுப்புகிறது...",
+    sendToPolice: "காவல்துறைக்கு அனுப்பு",
+    supplementEmpty: "ஒரு குறிப்பு அல்லது குறைந்தது ஒரு கோப்பைச் சேர்க்கவும்",
+    supplementUploadFailed:
+      "உங்கள் கோப்புகளைப் பதிவேற்ற முடியவில்லை. மீண்டும் முயலவும்.",
+    supplementPartial:
+      "உங்கள் புதுப்பிப்பு அனுப்பப்பட்டது, ஆனால் {total} இல் {failed} கோப்புகளைப் பதிவேற்ற முடியவில்லை.",
+    supplementFailed:
+      "உங்கள் புதுப்பிப்பை அனுப்ப முடியவில்லை. மீண்டும் முயலவும்.",
+    withdrawLink: "இந்தப் புகாரைத் திரும்பப் பெறு",
+    withdrawPlaceholder: "இந்தப் புகாரை ஏன் திரும்பப் பெறுகிறீர்கள்?",
+    withdrawHint:
+      "காவல்துறை இதன் மீதான பணியை நிறுத்தும். இதைச் செயல்தவிர்க்க முடியாது.",
+    keepReport: "புகாரை வைத்திரு",
+    withdrawing: "திரும்பப் பெறுகிறது...",
+    withdraw: "புகாரைத் திரும்பப் பெறு",
+    withdrawReasonTooShort: "குறைந்தது {min} எழுத்துகளில் காரணம் கூறவும்",
+    withdrawFailed: "புகாரைத் திரும்பப் பெற முடியவில்லை. மீண்டும் முயலவும்.",
+    reopenEntry: "புகாரளித்தவர் மீண்டும் திறந்தார்",
+    feedbackTitle: "இது உண்மையில் சரிசெய்யப்பட்டதா?",
+    feedbackFixed: "ஆம், சரிசெய்யப்பட்டது",
+    feedbackNotFixed: "இல்லை, சரிசெய்யப்படவில்லை",
+    feedbackRating: "இது எப்படிக் கையாளப்பட்டது என மதிப்பிடுங்கள்",
+    ratingValue: "5 இல் {value}",
+    feedbackFixedPlaceholder: "ஏதாவது சேர்க்க விரும்புகிறீர்களா? (விருப்பம்)",
+    feedbackNotFixedPlaceholder: "இன்னும் என்ன சரியில்லை?",
+    reopenHint:
+      "இதை அனுப்பினால் வழக்கு மீண்டும் திறக்கப்பட்டு காவல்துறைக்குத் திருப்பி அனுப்பப்படும்.",
+    submitFeedback: "கருத்தை அனுப்பு",
+    requestReopen: "மீண்டும் திறக்கக் கோரு",
+    feedbackThanks: "சரிசெய்ததை உறுதிப்படுத்தியதற்கு நன்றி.",
+    feedbackReopened:
+      "இந்த வழக்கை மீண்டும் திறக்குமாறு காவல்துறையிடம் கேட்டுள்ளீர்கள்.",
+    chooseRating: "மதிப்பீட்டைத் தேர்ந்தெடுக்கவும்",
+    describeProblem: "இன்னும் என்ன சரியில்லை என்று காவல்துறைக்குச் சொல்லுங்கள்",
+    reopenPartial:
+      "உங்கள் கோரிக்கை அனுப்பப்பட்டது, ஆனால் {total} இல் {failed} கோப்புகளைப் பதிவேற்ற முடியவில்லை.",
+    feedbackFailed: "உங்கள் கருத்தை அனுப்ப முடியவில்லை. மீண்டும் முயலவும்.",
+  },
+  comments: {
+    loadFailed: "செய்திகளை ஏற்ற முடியவில்லை",
+    attachmentTooLarge: "இணைப்புகள் அதிகபட்சம் {size}MB வரை இருக்கலாம்",
+    sendFailed: "உங்கள் செய்தியை அனுப்ப முடியவில்லை. மீண்டும் முயலவும்.",
+    you: "நீங்கள்",
+    police: "காவல்துறை",
+    policeOfficer: "காவல்துறை · {name}",
+    officer: "அதிகாரி",
+    reporter: "புகாரளித்தவர்",
+    attachment: "இணைப்பு",
+    loading: "செய்திகள் ஏற்றப்படுகின்றன…",
+    emptyCitizen:
+      "இன்னும் செய்திகள் இல்லை. இங்கே காவல்துறையிடம் கேள்வி கேட்கலாம் அல்லது கூடுதல் விவரங்களைப் பகிரலாம்.",
+    emptyPolice:
+      "இன்னும் செய்திகள் இல்லை. இங்குள்ள செய்திகள் நேரடியாகப் புகாரளித்தவருக்குச் செல்லும்.",
+    removeAttachment: "இணைப்பை நீக்கு",
+    attach: "கோப்பை இணை",
+    placeholder: "செய்தியை எழுதுங்கள்…",
+    sending: "அனுப்புகிறது…",
+    send: "அனுப்பு",
+  },
+  sos: {
+    sendingIn: "SOS அனுப்பப்படுகிறது",
+    countdownMessage:
+      "உங்கள் இருப்பிடத்துடன் காவல்துறைக்கு அவசர எச்சரிக்கை செல்லும், அது {minutes} நிமிடங்கள் தொடர்ந்து புதுப்பிக்கப்படும்.",
+    sendNow: "இப்போதே அனுப்பு",
+    alerting: "காவல்துறைக்கு எச்சரிக்கை அனுப்பப்படுகிறது…",
+    gettingLocation: "உங்கள் இருப்பிடம் பெறப்படுகிறது",
+    locationPending:
+      "உங்கள் இருப்பிடத்தை இன்னும் பெற முடியவில்லை. காவல்துறைக்கு எச்சரிக்கை அனுப்பப்பட்டது; இருப்பிடம் கிடைத்தவுடன் சேர்க்கப்படும்.",
+    sendFailed:
+      "SOS அனுப்ப முடியவில்லை. இணைப்பைச் சரிபார்த்து மீண்டும் முயலவும், அல்லது 112 ஐ அழைக்கவும்.",
+    sent: "SOS அனுப்பப்பட்டது",
+    activeMessage:
+      "காவல்துறைக்கு எச்சரிக்கை அனுப்பப்பட்டது, அவர்கள் உங்கள் இருப்பிடத்தை நேரலையில் பார்க்கலாம். புதுப்பிப்புகள் தொடர இந்தப் பக்கத்தைத் திறந்தே வையுங்கள்.",
+    lastSent: "கடைசியாக அனுப்பிய இருப்பிடம்",
+    waitingForLocation: "இருப்பிடத்திற்காகக் காத்திருக்கிறது",
+    position: "நிலை",
+    sharingFor: "பகிர மீதமுள்ள நேரம்",
+    locationUnavailable: "இருப்பிடம் கிடைக்கவில்லை",
+    locationRetrying:
+      "உங்கள் சமீபத்திய இருப்பிடத்தை அனுப்ப முடியவில்லை. மீண்டும் முயல்கிறது…",
+    stopping: "நிறுத்துகிறது…",
+    stop: "இருப்பிடப் பகிர்வை நிறுத்து",
+    stopFailed: "இருப்பிடப் பகிர்வை நிறுத்த முடியவில்லை. மீண்டும் முயலவும்.",
+    viewIncidentLink: "சம்பவத்தைக் காண்க",
+    stoppedTitle: "இருப்பிடப் பகிர்வு நிறுத்தப்பட்டது",
+    stoppedMessage:
+      "உங்கள் SOS இன்னும் காவல்துறையிடம் உள்ளது. சம்பவப் பக்கத்தில் அதைப் பின்தொடரலாம்.",
+    viewIncident: "சம்பவத்தைக் காண்க",
+    backHome: "முகப்புக்குத் திரும்பு",
+    notSent: "SOS அனுப்பப்படவில்லை",
+    tryAgain: "மீண்டும் முயலவும்",
+    goBack: "பின் செல்",
+    call112: "112 ஐ அழைக்கவும்",
+  },
+  report: {
+    title: "சம்பவத்தைப் புகாரளி",
+    uploadFailed: "பதிவேற்றம் தோல்வியடைந்தது",
+    uploadFailuresConfirmed:
+      "உங்கள் உறுதிப்படுத்தல் சேர்க்கப்பட்டது, ஆனால் {total} கோப்புகளில் {failed} பதிவேற்றப்படவில்லை. மீண்டும் முயலவும் அல்லது அவை இல்லாமல் தொடரவும்.",
+    uploadFailuresNew:
+      "உங்கள் புகார் இன்னும் பதிவாகவில்லை: {total} கோப்புகளில் {failed} பதிவேற்றப்படவில்லை. மீண்டும் முயலவும் அல்லது அவை இல்லாமல் தொடரவும்.",
+    confirmFailed: "ஏற்கனவே உள்ள புகாரை உறுதிப்படுத்த முடியவில்லை",
+    fixFields: "குறிக்கப்பட்ட புலங்களைச் சரிசெய்யவும்",
+    submitFailed: "புகாரைச் சமர்ப்பிக்க முடியவில்லை",
+    geolocationUnsupported: "இந்தச் சாதனத்தில் இருப்பிடம் ஆதரிக்கப்படவில்லை",
+    locationFailed: "இருப்பிடத்தைப் பெற முடியவில்லை",
+    microphoneError: "மைக்ரோஃபோனை அணுக முடியவில்லை",
+    recording: "REC {time}",
+    tapToStop: "நிறுத்தத் தட்டவும்",
+    recordingVoiceNote: "குரல் குறிப்பு பதிவாகிறது",
+    savedOfflineTitle: "ஆஃப்லைனில் சேமிக்கப்பட்டது",
+    savedOfflineText:
+      "உங்கள் புகாரும் அதன் மீடியாவும் இந்தச் சாதனத்தில் சேமிக்கப்பட்டுள்ளன; நீங்கள் மீண்டும் இணையத்தில் இணைந்ததும் தானாகச் சமர்ப்பிக்கப்படும்.",
+    viewMyReports: "எனது புகார்களைக் காண்க",
+    resumeDraft: "உங்கள் வரைவைத் தொடரவா?",
+    draftSaved: "{time} சேமிக்கப்பட்டது",
+    resume: "தொடர்",
+    captureTitle: "ஆதாரத்தைப் பதிவுசெய்",
+    captureHint:
+      "புகைப்படம் அல்லது வீடியோ எடுக்கவும், அல்லது குரல் குறிப்பைப் பதிவுசெய்யவும்",
+    takePhoto: "புகைப்படம் எடு",
+    recordVideo: "வீடியோ பதிவுசெய்",
+    voiceNote: "குரல் குறிப்பு",
+    voiceNoteItem: "குரல் குறிப்பு",
+    recordVoiceNote: "குரல் குறிப்பைப் பதிவுசெய்",
+    failed: "தோல்வி",
+    category: "வகை",
+    titleLabel: "தலைப்பு *",
+    titlePlaceholder: "பிரச்சினையின் சுருக்கமான விளக்கம்",
+    descriptionLabel: "விளக்கம் (விருப்பத்தேர்வு)",
+    descriptionPlaceholder: "சம்பவம் பற்றி மேலும் விவரங்களைத் தரவும்...",
+    optionalSuffix: " (விருப்பத்தேர்வு)",
+    selectPlaceholder: "தேர்வுசெய்…",
+    anonymousTitle: "பெயர் குறிப்பிடாமல் புகாரளி",
+    anonymousHint:
+      "காவல்துறையினர் உங்கள் பெயரையோ தொடர்பு விவரங்களையோ பார்க்க மாட்டார்கள். இந்தப் புகாரை நீங்கள் தொடர்ந்து கண்காணிக்கலாம், புதுப்பிப்புகளையும் பெறலாம்.",
+    location: "இருப்பிடம்",
+    locationHint: "(சம்பவத்தைத் துல்லியமாகக் கண்காணிக்கத் தேவை)",
+    gettingLocation: "உங்கள் இருப்பிடத்தைப் பெறுகிறது...",
+    retryGps: "GPS மீண்டும் முயல்",
+    enterManually: "கைமுறையாக உள்ளிடு",
+    searchLocation: "சம்பவ இருப்பிடத்தைத் தேடுங்கள்",
+    addressPlaceholder: "எ.கா. 123 மெயின் தெரு, நகரம், மாநிலம்",
+    searching: "தேடுகிறது...",
+    search: "தேடு",
+    noPlaces:
+      "பொருந்தும் இடங்கள் இல்லை. வரைபட நிலை இல்லாமல், தட்டச்சு செய்த முகவரியையே பயன்படுத்தலாம்.",
+    useAsTyped: "தட்டச்சு செய்தபடி பயன்படுத்து",
+    tryGps: "பதிலாக GPS முயல்",
+    pinnedManually: "கைமுறையாகக் குறிக்கப்பட்டது · ",
+    dragPin: "சரிசெய்ய குறியை இழுக்கவும் · ",
+    useMyGps: "எனது GPS இருப்பிடத்தைப் பயன்படுத்து",
+    refreshLocation: "இருப்பிடத்தைப் புதுப்பி",
+    searchAddress: "முகவரியைத் தேடு",
+    editAddress: "முகவரியைத் திருத்து",
+    enableLocation: "இருப்பிடத்தை இயக்கு",
+    enableLocationHint: "சம்பவ இருப்பிடத்தைப் பதிவுசெய்யத் தட்டவும்",
+    duplicatesTitle: "இது அதே பிரச்சினையா?",
+    duplicatesHint:
+      "இந்தத் திறந்த புகார்கள் அருகில் உள்ளன. ஒன்றை உறுதிப்படுத்தினால், புதிய புகாருக்குப் பதிலாக உங்கள் புகைப்படங்கள் அதில் சேர்க்கப்படும்.",
+    metersAway: "{distance} மீ தொலைவில்",
+    sameIssue: "அதே பிரச்சினை",
+    submitNew: "இல்லை, புதிய புகாரைச் சமர்ப்பி",
+    retryUploads: "தோல்வியடைந்த பதிவேற்றங்களை மீண்டும் முயல்",
+    continueWithout: "அவை இல்லாமல் தொடர்",
+    submit: "புகாரைச் சமர்ப்பி",
+  },
+  validation: {
+    titleRequired: "தலைப்பை உள்ளிடவும்",
+    titleTooShort: "தலைப்பு குறைந்தது {min} எழுத்துகள் இருக்க வேண்டும்",
+    titleTooLong: "தலைப்பு அதிகபட்சம் {max} எழுத்துகள் இருக்கலாம்",
+    descriptionTooLong: "விவரம் அதிகபட்சம் {max} எழுத்துகள் இருக்கலாம்",
+    categoryRequired: "ஒரு வகையைத் தேர்ந்தெடுக்கவும்",
+    categoryUnavailable: "இந்த வகை இனி கிடைக்காது",
+    locationInvalid: "இருப்பிட ஆயத்தொலைவுகள் தவறானவை",
+    locationOutsideArea: "இந்த இடம் எங்கள் சேவைப் பகுதிக்கு வெளியே உள்ளது",
+    locationSourceInvalid: "இருப்பிட மூலம் தவறானது",
+    mediaRequired:
+      "குறைந்தது ஒரு புகைப்படம், வீடியோ அல்லது குரல் குறிப்பைச் சேர்க்கவும்",
+    mediaTooMany: "அதிகபட்சம் {max} கோப்புகளை இணைக்கலாம்",
+    mediaMalformed: "இணைக்கப்பட்ட சில கோப்புகள் சரியாக இல்லை",
+    mediaUnsupported: "{name} ஆதரிக்கப்படும் கோப்பு வகை அல்ல",
+    mediaTooLarge: "{name} {maxMb}MB-க்குக் குறைவாக இருக்க வேண்டும்",
+    mediaNotUploaded: "{name} இன்னும் பதிவேற்றி முடிக்கப்படவில்லை",
+    imageUnprocessable:
+      "{name} ஐ இந்தச் சாதனத்தில் செயலாக்க முடியவில்லை. அதற்குப் பதிலாக JPEG அல்லது PNG புகைப்படத்தைத் தேர்வுசெய்யவும்.",
+    fieldRequired: "{label} ஐ நிரப்பவும்",
+    fieldUnchecked: "{label} ஐ உறுதிப்படுத்தவும்",
+    fieldNotNumber: "{label} ஒரு எண்ணாக இருக்க வேண்டும்",
+    fieldTooSmall: "{label} குறைந்தது {min} ஆக இருக்க வேண்டும்",
+    fieldTooLarge: "{label} அதிகபட்சம் {max} ஆக இருக்கலாம்",
+    fieldNoChoice: "{label} ஐத் தேர்ந்தெடுக்கவும்",
+    fieldTooLong: "{label} அதிகபட்சம் {max} எழுத்துகள் இருக்கலாம்",
+  },
+};
+
+export default ta;
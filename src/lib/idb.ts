@@ -0,0 +1,74 @@
+// Thin promise wrapper around the browser's IndexedDB, shared by the
+// features that need to keep data (including media blobs) on the device.
+
+const DB_NAME = "alertkaro";
+const DB_VERSION = 2;
+
+export const OUTBOX_STORE = "outbox";
+export const DRAFTS_STORE = "drafts";
+
+function openDB(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+        db.createObjectStore(OUTBOX_STORE, { keyPath: "id" });
+      }
+      if (!db.objectStoreNames.contains(DRAFTS_STORE)) {
+        db.createObjectStore(DRAFTS_STORE, { keyPath: "id" });
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest,
+): Promise<T> {
+  const db = await openDB();
+
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = run(tx.objectStore(storeName));
+
+    tx.oncomplete = () => {
+      db.close();
+      resolve(request.result as T);
+    };
+    tx.onerror = () => {
+      db.close();
+      reject(tx.error);
+    };
+    tx.onabort = () => {
+      db.close();
+      reject(tx.error);
+    };
+  });
+}
+
+export function idbGetAll<T>(storeName: string): Promise<T[]> {
+  return withStore<T[]>(storeName, "readonly", (store) => store.getAll());
+}
+
+export function idbGet<T>(
+  storeName: string,
+  key: string,
+): Promise<T | undefined> {
+  return withStore<T | undefined>(storeName, "readonly", (store) =>
+    store.get(key),
+  );
+}
+
+export async function idbPut<T>(storeName: string, value: T): Promise<void> {
+  await withStore(storeName, "readwrite", (store) => store.put(value));
+}
+
+export async function idbDelete(storeName: string, key: string): Promise<void> {
+  await withStore(storeName, "readwrite", (store) => store.delete(key));
+}
@@ -0,0 +1,123 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { mediaKind } from "@/lib/incidentValidation";
+
+// Messages between the reporter and police on one incident. They live in
+// incident_comments, apart from the incident_updates status timeline; a
+// database trigger notifies the other side of each new comment.
+
+const MEDIA_BUCKET = "incident-media";
+
+export const COMMENT_MAX_LENGTH = 2000;
+export const COMMENT_ATTACHMENT_MAX_SIZE = 20 * 1024 * 1024; // 20MB
+
+export type CommentAttachmentType = "image" | "video" | "audio" | "file";
+
+export interface IncidentComment {
+  id: string;
+  incident_id: string;
+  author_id: string;
+  // "citizen", "police" or "admin" when the comment was written
+  author_role: string;
+  body: string | null;
+  attachment_url: string | null;
+  attachment_type: CommentAttachmentType | null;
+  attachment_name: string | null;
+  created_at: string;
+  // Null when the viewer may not see the author, e.g. police reading a
+  // reporter's comment
+  author: { full_name: string } | null;
+}
+
+const COMMENT_SELECT = "*, author:profiles(full_name)";
+
+export async function loadComments(
+  supabase: SupabaseClient,
+  incidentId: string,
+): Promise<IncidentComment[]> {
+  const { data, error } = await supabase
+    .from("incident_comments")
+    .select(COMMENT_SELECT)
+    .eq("incident_id", incidentId)
+    .order("created_at", { ascending: true });
+  if (error) throw error;
+  return (data || []) as unknown as IncidentComment[];
+}
+
+// Realtime payloads carry the bare row, so the author is fetched separately
+export async function loadComment(
+  supabase: SupabaseClient,
+  commentId: string,
+): Promise<IncidentComment | null> {
+  const { data, error } = await supabase
+    .from("incident_comments")
+    .select(COMMENT_SELECT)
+    .eq("id", commentId)
+    .maybeSingle();
+  if (error) throw error;
+  return data as unknown as IncidentComment | null;
+}
+
+function attachmentType(mimeType: string): CommentAttachmentType {
+  if (
+    mimeType.startsWith("image/") ||
+    mimeType.startsWith("video/") ||
+    mimeType.startsWith("audio/")
+  ) {
+    return mediaKind(mimeType);
+  }
+  return "file";
+}
+
+export async function postComment(
+  supabase: SupabaseClient,
+  {
+    incidentId,
+    authorId,
+    anonymous = false,
+    body,
+    file,
+  }: {
+    incidentId: string;
+    authorId: string;
+    // Set when the author is the reporter of an anonymous incident; the
+    // attachment then goes under anonymous/ instead of their own folder
+    anonymous?: boolean;
+    body: string;
+    file: File | null;
+  },
+): Promise<IncidentComment> {
+  let attachment: {
+    attachment_url: string;
+    attachment_type: CommentAttachmentType;
+    attachment_name: string;
+  } | null = null;
+
+  if (file) {
+    const folder = anonymous ? "anonymous" : authorId;
+    const path = `${folder}/${incidentId}/comments/${Date.now()}.${file.name.split(".").pop()}`;
+    const bucket = supabase.storage.from(MEDIA_BUCKET);
+    const { error: uploadError } = await bucket.upload(path, file, {
+      contentType: file.type || undefined,
+    });
+    if (uploadError) throw uploadError;
+
+    attachment = {
+      attachment_url: bucket.getPublicUrl(path).data.publicUrl,
+      attachment_type: attachmentType(file.type),
+      attachment_name: file.name,
+    };
+  }
+
+  const { data, error } = await supabase
+    .from("incident_comments")
+    .insert({
+      incident_id: incidentId,
+      author_id: authorId,
+      body: body.trim() || null,
+      ...attachment,
+    })
+    .select(COMMENT_SELECT)
+    .single();
+  if (error) throw error;
+  return data as unknown as IncidentComment;
+}
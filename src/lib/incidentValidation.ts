@@ -0,0 +1,197 @@
+import type { ReportPayload } from "@/lib/reportSubmission";
+import { CategoryField, validateFieldValues } from "@/lib/categoryFields";
+import { MessageParams, Messages, translate } from "@/lib/i18n";
+
+// Rules for a new incident report, shared by the report page (to flag
+// problems before uploading anything) and POST /api/incidents (which
+// enforces them).
+
+export const TITLE_MIN_LENGTH = 5;
+export const TITLE_MAX_LENGTH = 100;
+export const DESCRIPTION_MAX_LENGTH = 500;
+export const MAX_MEDIA_FILES = 10;
+export const MAX_MEDIA_SIZE = 50 * 1024 * 1024; // 50MB
+
+// MIME types accepted as evidence. SVG is left out on purpose: it can carry
+// script and is served back from a public bucket. The incident-media
+// bucket's allow-list (see the media_mime_types migration) must match.
+export const ALLOWED_MEDIA_TYPES = [
+  "image/jpeg",
+  "image/png",
+  "image/webp",
+  "image/gif",
+  "image/heic",
+  "image/heif",
+  "video/mp4",
+  "video/webm",
+  "video/quicktime",
+  "audio/webm",
+  "audio/mp4",
+  "audio/ogg",
+  "audio/mpeg",
+];
+
+export interface Bounds {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
+// Area reports may be filed in, as "south,west,north,east" in degrees.
+// Unset means anywhere on the map.
+function parseBounds(value: string | undefined): Bounds | null {
+  const parts = (value || "").split(",").map(Number);
+  if (parts.length !== 4 || parts.some((n) => !Number.isFinite(n))) {
+    return null;
+  }
+  const [south, west, north, east] = parts;
+  return { south, west, north, east };
+}
+
+export const SERVICE_AREA_BOUNDS = parseBounds(
+  process.env.NEXT_PUBLIC_SERVICE_AREA_BOUNDS,
+);
+
+// Category-specific fields are named "field_values.<key>"
+export type ReportField =
+  | "title"
+  | "description"
+  | "category_id"
+  | "location"
+  | "media"
+  | `field_values.${string}`;
+
+// A failed check as a key into the "validation" messages and its
+// parameters, so the server's errors too reach each reader in their own
+// language
+export interface ValidationError {
+  code: keyof Messages["validation"];
+  params?: MessageParams;
+}
+
+export type FieldErrors = Partial<Record<ReportField, ValidationError>>;
+
+// English text of an error, for logs and anywhere without a locale
+export function validationMessage({ code, params }: ValidationError) {
+  return translate("en", `validation.${code}`, params);
+}
+
+// What the report page tells the server about each uploaded file
+export interface ReportMediaInput {
+  file_name: string;
+  file_type: string;
+  file_size: number;
+}
+
+// The incident_media.file_type stored for a MIME type
+export function mediaKind(mimeType: string): "image" | "video" | "audio" {
+  if (mimeType.startsWith("video/")) return "video";
+  if (mimeType.startsWith("audio/")) return "audio";
+  return "image";
+}
+
+// Strip parameters such as ";codecs=opus" before comparing types
+function baseMimeType(mimeType: string) {
+  return mimeType.split(";")[0].trim().toLowerCase();
+}
+
+function isCoordinate(value: unknown, limit: number): value is number {
+  return (
+    typeof value === "number" &&
+    Number.isFinite(value) &&
+    Math.abs(value) <= limit
+  );
+}
+
+// Check everything about a report that can be checked without the
+// database, including the answers to the category's own fields. Returns an
+// empty object when the report is valid.
+export function validateReport(
+  payload: ReportPayload,
+  media: ReportMediaInput[],
+  categoryFields: CategoryField[] = [],
+): FieldErrors {
+  const errors: FieldErrors = {};
+
+  const title = typeof payload.title === "string" ? payload.title.trim() : "";
+  if (!title) {
+    errors.title = { code: "titleRequired" };
+  } else if (title.length < TITLE_MIN_LENGTH) {
+    errors.title = { code: "titleTooShort", params: { min: TITLE_MIN_LENGTH } };
+  } else if (title.length > TITLE_MAX_LENGTH) {
+    errors.title = { code: "titleTooLong", params: { max: TITLE_MAX_LENGTH } };
+  }
+
+  if (
+    payload.description !== null &&
+    (typeof payload.description !== "string" ||
+      payload.description.length > DESCRIPTION_MAX_LENGTH)
+  ) {
+    errors.description = {
+      code: "descriptionTooLong",
+      params: { max: DESCRIPTION_MAX_LENGTH },
+    };
+  }
+
+  if (typeof payload.category_id !== "string" || !payload.category_id) {
+    errors.category_id = { code: "categoryRequired" };
+  }
+
+  const { latitude, longitude } = payload;
+  if (latitude !== null || longitude !== null) {
+    if (!isCoordinate(latitude, 90) || !isCoordinate(longitude, 180)) {
+      errors.location = { code: "locationInvalid" };
+    } else if (
+      SERVICE_AREA_BOUNDS &&
+      (latitude < SERVICE_AREA_BOUNDS.south ||
+        latitude > SERVICE_AREA_BOUNDS.north ||
+        longitude < SERVICE_AREA_BOUNDS.west ||
+        longitude > SERVICE_AREA_BOUNDS.east)
+    ) {
+      errors.location = { code: "locationOutsideArea" };
+    }
+  }
+  if (
+    payload.location_source !== null &&
+    payload.location_source !== "device" &&
+    payload.location_source !== "manual"
+  ) {
+    errors.location = { code: "locationSourceInvalid" };
+  }
+
+  if (media.length === 0) {
+    errors.media = { code: "mediaRequired" };
+  } else if (media.length > MAX_MEDIA_FILES) {
+    errors.media = { code: "mediaTooMany", params: { max: MAX_MEDIA_FILES } };
+  } else {
+    const unsupported = media.find(
+      (item) => !ALLOWED_MEDIA_TYPES.includes(baseMimeType(item.file_type)),
+    );
+    const tooLarge = media.find((item) => item.file_size > MAX_MEDIA_SIZE);
+    if (unsupported) {
+      errors.media = {
+        code: "mediaUnsupported",
+        params: { name: unsupported.file_name },
+      };
+    } else if (tooLarge) {
+      errors.media = {
+        code: "mediaTooLarge",
+        params: {
+          name: tooLarge.file_name,
+          maxMb: MAX_MEDIA_SIZE / (1024 * 1024),
+        },
+      };
+    }
+  }
+
+  const fieldValueErrors = validateFieldValues(
+    categoryFields,
+    payload.field_values,
+  );
+  Object.entries(fieldValueErrors).forEach(([key, error]) => {
+    errors[`field_values.${key}`] = error;
+  });
+
+  return errors;
+}
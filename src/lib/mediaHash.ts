@@ -0,0 +1,41 @@
+// SHA-256 fingerprints of evidence files. The uploader hashes the exact
+// bytes it sends; police later re-download the stored file and compare, so
+// any change to the object in storage shows up.
+
+export type IntegrityStatus =
+  "checking" | "verified" | "modified" | "unavailable" | "no_hash";
+
+// Hex-encoded SHA-256 of a file or any other blob
+export async function sha256Hex(blob: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    await blob.arrayBuffer(),
+  );
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+// Download a stored file, bypassing any cached copy, and compare it with
+// the hash recorded at upload time
+export async function verifyMediaIntegrity(
+  url: string,
+  expectedSha256: string | null,
+): Promise<Exclude<IntegrityStatus, "checking">> {
+  if (!expectedSha256) return "no_hash";
+
+  try {
+    const response = await fetch(url, { cache: "no-store" });
+    if (!response.ok) return "unavailable";
+
+    const actual = await sha256Hex(await response.blob());
+    return actual === expectedSha256 ? "verified" : "modified";
+  } catch (error) {
+    console.error("Media integrity check error:", error);
+    return "unavailable";
+  }
+}
+
+export function shortHash(sha256: string) {
+  return `${sha256.slice(0, 8)}…${sha256.slice(-8)}`;
+}
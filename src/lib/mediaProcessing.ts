@@ -0,0 +1,279 @@
+import {
+  ExifMetadata,
+  readExifMetadata,
+  readJpegOrientation,
+  stripJpegMetadata,
+} from "@/lib/exif";
+
+// Client-side media pipeline run before anything is uploaded to the
+// incident-media bucket. Phone photos are downscaled and re-encoded so
+// uploads stay small on mobile data, and stripped of EXIF so nothing
+// identifying reaches the public feed; videos pass through untouched, but
+// get a still poster frame so lists can preview them without downloading
+// the whole clip.
+
+export interface ImageProcessingOptions {
+  // Longest edge of the output image, in pixels
+  maxDimension: number;
+  // Encoder quality between 0 and 1
+  quality: number;
+  // Preferred output format; falls back to JPEG where the browser
+  // cannot encode it (e.g. WebP on older Safari)
+  mimeType: "image/webp" | "image/jpeg";
+  // Return the original bytes when re-encoding would not make the file
+  // smaller and no resize was needed
+  keepSmallerOriginal: boolean;
+}
+
+export const DEFAULT_IMAGE_OPTIONS: ImageProcessingOptions = {
+  maxDimension: Number(process.env.NEXT_PUBLIC_IMAGE_MAX_DIMENSION) || 1920,
+  quality: Number(process.env.NEXT_PUBLIC_IMAGE_QUALITY) || 0.8,
+  mimeType: "image/webp",
+  keepSmallerOriginal: true,
+};
+
+// Formats we leave alone: re-encoding would drop animation or vector data
+const PASSTHROUGH_TYPES = ["image/gif", "image/svg+xml"];
+
+const EXTENSIONS: Record<string, string> = {
+  "image/webp": "webp",
+  "image/jpeg": "jpg",
+};
+
+// An image the browser could not decode or re-encode, e.g. HEIC outside
+// Safari. It is rejected rather than uploaded as picked, since the
+// original would still carry its EXIF and GPS data.
+export class UnsupportedImageError extends Error {
+  fileName: string;
+
+  constructor(fileName: string) {
+    super(`${fileName} could not be processed`);
+    this.name = "UnsupportedImageError";
+    this.fileName = fileName;
+  }
+}
+
+async function loadImage(
+  file: Blob,
+): Promise<CanvasImageSource & { width: number; height: number }> {
+  if (typeof createImageBitmap === "function") {
+    // Honour EXIF orientation so portrait photos are not rotated
+    return createImageBitmap(file, { imageOrientation: "from-image" });
+  }
+
+  const url = URL.createObjectURL(file);
+  try {
+    const img = new Image();
+    img.src = url;
+    await img.decode();
+    return img;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+function canvasToBlob(
+  canvas: HTMLCanvasElement,
+  mimeType: string,
+  quality: number,
+): Promise<Blob | null> {
+  return new Promise((resolve) => canvas.toBlob(resolve, mimeType, quality));
+}
+
+function renameFile(name: string, mimeType: string) {
+  const base = name.includes(".") ? name.slice(0, name.lastIndexOf(".")) : name;
+  return `${base}.${EXTENSIONS[mimeType]}`;
+}
+
+// Downscale and re-encode a single image. Non-images and passthrough
+// formats are returned unchanged; images the browser cannot decode or
+// encode throw UnsupportedImageError.
+export async function processImage(
+  file: File,
+  options: Partial<ImageProcessingOptions> = {},
+): Promise<File> {
+  const { maxDimension, quality, mimeType, keepSmallerOriginal } = {
+    ...DEFAULT_IMAGE_OPTIONS,
+    ...options,
+  };
+
+  if (
+    !file.type.startsWith("image/") ||
+    PASSTHROUGH_TYPES.includes(file.type)
+  ) {
+    return file;
+  }
+
+  let blob: Blob | null = null;
+  let scale = 1;
+  try {
+    const image = await loadImage(file);
+    scale = Math.min(1, maxDimension / Math.max(image.width, image.height));
+    const width = Math.round(image.width * scale);
+    const height = Math.round(image.height * scale);
+
+    const canvas = document.createElement("canvas");
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext("2d");
+    if (ctx) {
+      ctx.drawImage(image, 0, 0, width, height);
+
+      blob = await canvasToBlob(canvas, mimeType, quality);
+      // Browsers that can't encode the requested type silently return PNG
+      if (!blob || blob.type !== mimeType) {
+        blob = await canvasToBlob(canvas, "image/jpeg", quality);
+      }
+    }
+    if ("close" in image) image.close();
+  } catch (error) {
+    console.error("Image processing error:", error);
+  }
+  if (!blob) throw new UnsupportedImageError(file.name);
+
+  // Already small enough and not resized: keep the original bytes
+  if (keepSmallerOriginal && scale === 1 && blob.size >= file.size) {
+    return file;
+  }
+
+  return new File([blob], renameFile(file.name, blob.type), {
+    type: blob.type,
+    lastModified: file.lastModified,
+  });
+}
+
+export interface ProcessedMedia {
+  file: File;
+  // Capture time and embedded GPS read before sanitising, for police use
+  metadata: ExifMetadata | null;
+}
+
+// Full pipeline for a picked file: read EXIF, resize/re-encode, then make
+// sure the bytes that get uploaded carry no metadata at all. Throws
+// UnsupportedImageError for images that cannot be cleaned.
+export async function processMediaFile(
+  file: File,
+  options?: Partial<ImageProcessingOptions>,
+): Promise<ProcessedMedia> {
+  if (!file.type.startsWith("image/")) return { file, metadata: null };
+
+  const metadata = await readExifMetadata(file);
+
+  if (file.type === "image/jpeg") {
+    // A kept original still has its EXIF block, so strip it losslessly.
+    // Stripping also drops the orientation, so a rotated photo is always
+    // re-encoded upright instead.
+    const upright = (await readJpegOrientation(file)) === 1;
+    const processed = await processImage(file, {
+      ...options,
+      ...(upright ? {} : { keepSmallerOriginal: false }),
+    });
+    return { file: await stripJpegMetadata(processed), metadata };
+  }
+
+  // Other formats can only be cleaned by a canvas round-trip
+  const processed = await processImage(file, {
+    ...options,
+    keepSmallerOriginal: false,
+  });
+  return { file: processed, metadata };
+}
+
+export interface VideoPosterOptions {
+  // Longest edge of the poster, in pixels
+  maxDimension: number;
+  // JPEG quality between 0 and 1
+  quality: number;
+  // How far into the clip to take the frame, in seconds; clamped to the
+  // middle of shorter clips
+  seekSeconds: number;
+}
+
+export const DEFAULT_POSTER_OPTIONS: VideoPosterOptions = {
+  maxDimension: 640,
+  quality: 0.7,
+  seekSeconds: 1,
+};
+
+// Resolve once the element fires `event`, or reject on error or timeout
+function waitForVideo(
+  video: HTMLVideoElement,
+  event: "loadeddata" | "seeked",
+  timeoutMs = 10000,
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(
+      () => finish(new Error("Video timed out")),
+      timeoutMs,
+    );
+    const onEvent = () => finish();
+    const onError = () => finish(new Error("Video could not be decoded"));
+
+    function finish(error?: Error) {
+      clearTimeout(timer);
+      video.removeEventListener(event, onEvent);
+      video.removeEventListener("error", onError);
+      if (error) reject(error);
+      else resolve();
+    }
+
+    video.addEventListener(event, onEvent);
+    video.addEventListener("error", onError);
+  });
+}
+
+// Grab a still frame from a video as a JPEG. Returns null when the browser
+// cannot decode the clip; a missing poster is never a reason to fail an
+// upload.
+export async function createVideoPoster(
+  file: Blob,
+  options: Partial<VideoPosterOptions> = {},
+): Promise<Blob | null> {
+  const { maxDimension, quality, seekSeconds } = {
+    ...DEFAULT_POSTER_OPTIONS,
+    ...options,
+  };
+
+  const url = URL.createObjectURL(file);
+  const video = document.createElement("video");
+  video.muted = true;
+  video.playsInline = true;
+  video.preload = "auto";
+
+  try {
+    const loaded = waitForVideo(video, "loadeddata");
+    video.src = url;
+    await loaded;
+
+    // Freshly recorded WebM often reports an infinite duration until it
+    // has been played through, so fall back to a frame near the start
+    const target = Number.isFinite(video.duration)
+      ? Math.min(seekSeconds, video.duration / 2)
+      : 0.1;
+    const seeked = waitForVideo(video, "seeked");
+    video.currentTime = target;
+    await seeked;
+
+    if (!video.videoWidth || !video.videoHeight) return null;
+
+    const scale = Math.min(
+      1,
+      maxDimension / Math.max(video.videoWidth, video.videoHeight),
+    );
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.round(video.videoWidth * scale);
+    canvas.height = Math.round(video.videoHeight * scale);
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return null;
+    ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+
+    return await canvasToBlob(canvas, "image/jpeg", quality);
+  } catch (error) {
+    console.error("Video poster error:", error);
+    return null;
+  } finally {
+    video.removeAttribute("src");
+    video.load();
+    URL.revokeObjectURL(url);
+  }
+}
@@ -0,0 +1,84 @@
+import { OUTBOX_STORE, idbDelete, idbGetAll, idbPut } from "@/lib/idb";
+import type { ReportPayload, StagedMedia } from "@/lib/reportSubmission";
+import type { ProcessedMedia } from "@/lib/mediaProcessing";
+import type { ExifMetadata } from "@/lib/exif";
+import type { TranslatableName } from "@/lib/i18n";
+
+// Tag used for Background Sync registrations; must match public/sw.js.
+export const OUTBOX_SYNC_TAG = "alertkaro-outbox";
+
+export interface QueuedMedia {
+  id: string;
+  name: string;
+  type: string;
+  blob: Blob;
+  metadata: ExifMetadata | null;
+}
+
+export interface QueuedReport {
+  id: string;
+  userId: string;
+  payload: ReportPayload;
+  category: {
+    name: string;
+    name_translations: TranslatableName["name_translations"];
+    color: string;
+  } | null;
+  // Media still to upload; each file moves to `staged` once it is in
+  // storage, so an interrupted replay never uploads it twice. The report's
+  // id is the submission id the report page used, so a replay of a report
+  // that already reached the server does not create a second incident.
+  media: QueuedMedia[];
+  staged: StagedMedia[];
+  attempts: number;
+  lastError: string | null;
+  // Set once the server turned the report down as invalid. It stays listed
+  // so the reporter sees why, but is not sent again.
+  rejected: boolean;
+  createdAt: string;
+}
+
+export async function listQueuedReports(): Promise<QueuedReport[]> {
+  const reports = await idbGetAll<QueuedReport>(OUTBOX_STORE);
+  return reports.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+// Media not yet uploaded, under the upload id the report page gave it so
+// a replay resumes the same storage object
+export interface PendingMedia extends ProcessedMedia {
+  id: string;
+}
+
+export async function enqueueReport(
+  report: Omit<
+    QueuedReport,
+    "media" | "attempts" | "lastError" | "rejected" | "createdAt"
+  >,
+  media: PendingMedia[],
+): Promise<QueuedReport> {
+  const queued: QueuedReport = {
+    ...report,
+    media: media.map(({ id, file, metadata }) => ({
+      id,
+      name: file.name,
+      type: file.type,
+      blob: file,
+      metadata,
+    })),
+    attempts: 0,
+    lastError: null,
+    rejected: false,
+    createdAt: new Date().toISOString(),
+  };
+
+  await idbPut(OUTBOX_STORE, queued);
+  return queued;
+}
+
+export function saveQueuedReport(report: QueuedReport): Promise<void> {
+  return idbPut(OUTBOX_STORE, report);
+}
+
+export function removeQueuedReport(id: string): Promise<void> {
+  return idbDelete(OUTBOX_STORE, id);
+}
@@ -0,0 +1,508 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { Color, PDFDocument, PDFFont, PDFImage, PDFPage, rgb } from "pdf-lib";
+// fontkit's Indic shaping expects the regenerator global
+import "regenerator-runtime/runtime";
+import fontkit from "@pdf-lib/fontkit";
+import QRCode from "qrcode";
+import { trackingPath } from "@/lib/tracking";
+
+// PDF acknowledgment of a filed report, for the reporter to show insurers
+// or other departments. It is built in the browser: canvas turns the
+// WebP evidence and map tiles into images the PDF can embed, and the QR
+// code points at the public tracking page so anyone can check it.
+
+// {z}/{x}/{y} tile template for the map snapshot; tiles must be served
+// with CORS headers
+const MAP_TILE_URL =
+  process.env.NEXT_PUBLIC_RECEIPT_MAP_TILE_URL ||
+  "https://tile.openstreetmap.org/{z}/{x}/{y}.png";
+const MAP_ATTRIBUTION = "Map data (c) OpenStreetMap contributors";
+const MAP_ZOOM = 16;
+const TILE_SIZE = 256;
+
+const MAX_THUMBNAILS = 6;
+
+// Noto Sans (SIL Open Font License) in the scripts reports are written in:
+// Devanagari for Hindi and Marathi, and Tamil. Both also carry Latin, so
+// English text can be set in either.
+const FONT_URLS = {
+  regular: [
+    "/fonts/NotoSansDevanagari-Regular.ttf",
+    "/fonts/NotoSansTamil-Regular.ttf",
+  ],
+  bold: ["/fonts/NotoSansDevanagari-Bold.ttf", "/fonts/NotoSansTamil-Bold.ttf"],
+};
+
+const PAGE_WIDTH = 595.28; // A4
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 48;
+
+const BRAND = rgb(0.827, 0.184, 0.184);
+const TEXT = rgb(0.12, 0.16, 0.23);
+const MUTED = rgb(0.39, 0.45, 0.55);
+const RULE = rgb(0.89, 0.91, 0.94);
+
+interface ReceiptIncident {
+  id: string;
+  tracking_id: string;
+  title: string;
+  address: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  created_at: string;
+  category: { name: string } | null;
+  incident_media: {
+    file_url: string;
+    file_type: string;
+    thumbnail_url: string | null;
+    confirmation_id: string | null;
+  }[];
+}
+
+function receiptFileName(trackingId: string) {
+  return `AlertKaro-receipt-${trackingId}.pdf`;
+}
+
+function loadImage(url: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.crossOrigin = "anonymous";
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error(`Could not load ${url}`));
+    image.src = url;
+  });
+}
+
+async function canvasToJpeg(canvas: HTMLCanvasElement): Promise<ArrayBuffer> {
+  const blob = await new Promise<Blob | null>((resolve) =>
+    canvas.toBlob(resolve, "image/jpeg", 0.85),
+  );
+  if (!blob) throw new Error("Could not encode image");
+  return blob.arrayBuffer();
+}
+
+// Map around the report's position with a pin at the centre. Null when
+// the tiles cannot be loaded, so the receipt goes out without a map.
+async function renderMapSnapshot(
+  latitude: number,
+  longitude: number,
+  width: number,
+  height: number,
+): Promise<ArrayBuffer | null> {
+  const scale = TILE_SIZE * 2 ** MAP_ZOOM;
+  const sinLat = Math.sin((latitude * Math.PI) / 180);
+  const worldX = ((longitude + 180) / 360) * scale;
+  const worldY =
+    (0.5 - Math.log((1 + sinLat) / (1 - sinLat)) / (4 * Math.PI)) * scale;
+  const left = worldX - width / 2;
+  const top = worldY - height / 2;
+
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext("2d");
+  if (!context) return null;
+
+  try {
+    const tiles = [];
+    for (
+      let x = Math.floor(left / TILE_SIZE);
+      x <= Math.floor((left + width - 1) / TILE_SIZE);
+      x++
+    ) {
+      for (
+        let y = Math.floor(top / TILE_SIZE);
+        y <= Math.floor((top + height - 1) / TILE_SIZE);
+        y++
+      ) {
+        const url = MAP_TILE_URL.replace("{z}", String(MAP_ZOOM))
+          .replace("{x}", String(x))
+          .replace("{y}", String(y));
+        tiles.push(
+          loadImage(url).then((image) =>
+            context.drawImage(
+              image,
+              x * TILE_SIZE - left,
+              y * TILE_SIZE - top,
+              TILE_SIZE,
+              TILE_SIZE,
+            ),
+          ),
+        );
+      }
+    }
+    await Promise.all(tiles);
+
+    context.fillStyle = "#d32f2f";
+    context.strokeStyle = "#ffffff";
+    context.lineWidth = 3;
+    context.beginPath();
+    context.arc(width / 2, height / 2, 9, 0, Math.PI * 2);
+    context.fill();
+    context.stroke();
+
+    return await canvasToJpeg(canvas);
+  } catch (error) {
+    console.error("Receipt map error:", error);
+    return null;
+  }
+}
+
+// Square, centre-cropped JPEG of one evidence file; null if it will not load
+async function renderThumbnail(
+  url: string,
+  size: number,
+): Promise<ArrayBuffer | null> {
+  try {
+    const image = await loadImage(url);
+    const canvas = document.createElement("canvas");
+    canvas.width = size;
+    canvas.height = size;
+    const context = canvas.getContext("2d");
+    if (!context) return null;
+
+    const side = Math.min(image.naturalWidth, image.naturalHeight);
+    context.drawImage(
+      image,
+      (image.naturalWidth - side) / 2,
+      (image.naturalHeight - side) / 2,
+      side,
+      side,
+      0,
+      0,
+      size,
+      size,
+    );
+    return await canvasToJpeg(canvas);
+  } catch (error) {
+    console.error("Receipt thumbnail error:", error);
+    return null;
+  }
+}
+
+// One weight of the receipt's typeface, as a font per script
+interface FontFamily {
+  fonts: PDFFont[];
+  characterSets: Set<number>[];
+}
+
+async function embedFontFamily(
+  pdf: PDFDocument,
+  urls: string[],
+): Promise<FontFamily> {
+  const fonts = await Promise.all(
+    urls.map(async (url) => {
+      const response = await fetch(url);
+      if (!response.ok) throw new Error(`Could not load ${url}`);
+      return pdf.embedFont(await response.arrayBuffer(), { subset: true });
+    }),
+  );
+  return {
+    fonts,
+    characterSets: fonts.map((font) => new Set(font.getCharacterSet())),
+  };
+}
+
+// Split text into runs that one font can set. Characters every font has,
+// such as spaces, digits and Latin, stay in the run they follow; ones no
+// font has go to the first font, which shows its missing-glyph box.
+function textRuns(family: FontFamily, text: string) {
+  const runs: { font: PDFFont; text: string }[] = [];
+  for (const char of Array.from(text)) {
+    const code = char.codePointAt(0)!;
+    const last = runs[runs.length - 1];
+    if (
+      last &&
+      family.characterSets[family.fonts.indexOf(last.font)].has(code)
+    ) {
+      last.text += char;
+      continue;
+    }
+    const index = family.characterSets.findIndex((set) => set.has(code));
+    runs.push({ font: family.fonts[Math.max(index, 0)], text: char });
+  }
+  return runs;
+}
+
+function textWidth(family: FontFamily, text: string, size: number) {
+  return textRuns(family, text).reduce(
+    (width, run) => width + run.font.widthOfTextAtSize(run.text, size),
+    0,
+  );
+}
+
+function drawText(
+  page: PDFPage,
+  text: string,
+  options: {
+    x: number;
+    y: number;
+    size: number;
+    font: FontFamily;
+    color: Color;
+  },
+) {
+  let x = options.x;
+  for (const run of textRuns(options.font, text)) {
+    page.drawText(run.text, { ...options, x, font: run.font });
+    x += run.font.widthOfTextAtSize(run.text, options.size);
+  }
+}
+
+function wrapText(font: FontFamily, text: string, size: number, width: number) {
+  const lines: string[] = [];
+  let line = "";
+  for (const word of text.replace(/\s+/g, " ").split(" ")) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && textWidth(font, candidate, size) > width) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+}
+
+function formatTimestamp(date: string) {
+  return new Date(date).toLocaleString("en-IN", {
+    day: "numeric",
+    month: "long",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+    timeZoneName: "short",
+  });
+}
+
+async function buildReceipt(
+  incident: ReceiptIncident,
+  trackingUrl: string,
+): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create();
+  pdf.registerFontkit(fontkit);
+  pdf.setTitle(`AlertKaro acknowledgment #${incident.tracking_id}`);
+  pdf.setAuthor("AlertKaro");
+  pdf.setCreationDate(new Date());
+
+  const page: PDFPage = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  const [regular, bold] = await Promise.all([
+    embedFontFamily(pdf, FONT_URLS.regular),
+    embedFontFamily(pdf, FONT_URLS.bold),
+  ]);
+  const contentWidth = PAGE_WIDTH - MARGIN * 2;
+  let y = PAGE_HEIGHT - 96 - 36;
+
+  // Header
+  page.drawRectangle({
+    x: 0,
+    y: PAGE_HEIGHT - 96,
+    width: PAGE_WIDTH,
+    height: 96,
+    color: BRAND,
+  });
+  drawText(page, "AlertKaro", {
+    x: MARGIN,
+    y: PAGE_HEIGHT - 50,
+    size: 24,
+    font: bold,
+    color: rgb(1, 1, 1),
+  });
+  drawText(page, "Acknowledgment of Incident Report", {
+    x: MARGIN,
+    y: PAGE_HEIGHT - 72,
+    size: 12,
+    font: regular,
+    color: rgb(1, 1, 1),
+  });
+
+  // QR code to the public tracking page, top right of the details
+  const qrSize = 110;
+  const qr = await pdf.embedPng(
+    await QRCode.toDataURL(trackingUrl, { margin: 1, width: 330 }),
+  );
+  page.drawImage(qr, {
+    x: PAGE_WIDTH - MARGIN - qrSize,
+    y: y - qrSize + 12,
+    width: qrSize,
+    height: qrSize,
+  });
+  const scanText = "Scan to verify";
+  drawText(page, scanText, {
+    x: PAGE_WIDTH - MARGIN - qrSize / 2 - textWidth(regular, scanText, 9) / 2,
+    y: y - qrSize,
+    size: 9,
+    font: regular,
+    color: MUTED,
+  });
+
+  const detailsWidth = contentWidth - qrSize - 24;
+  const drawField = (label: string, value: string, valueSize = 12) => {
+    drawText(page, label.toUpperCase(), {
+      x: MARGIN,
+      y,
+      size: 8,
+      font: bold,
+      color: MUTED,
+    });
+    y -= valueSize + 4;
+    for (const line of wrapText(regular, value, valueSize, detailsWidth)) {
+      drawText(page, line, {
+        x: MARGIN,
+        y,
+        size: valueSize,
+        font: valueSize > 12 ? bold : regular,
+        color: TEXT,
+      });
+      y -= valueSize + 4;
+    }
+    y -= 10;
+  };
+
+  drawField("Tracking ID", `#${incident.tracking_id}`, 20);
+  drawField("Submitted", formatTimestamp(incident.created_at));
+  drawField("Category", incident.category?.name || "Uncategorised");
+  drawField("Title", incident.title);
+  drawField(
+    "Location",
+    [
+      incident.address,
+      incident.latitude !== null && incident.longitude !== null
+        ? `${incident.latitude.toFixed(5)}, ${incident.longitude.toFixed(5)}`
+        : null,
+    ]
+      .filter(Boolean)
+      .join(" - ") || "Not provided",
+  );
+
+  // Map snapshot
+  if (incident.latitude !== null && incident.longitude !== null) {
+    const mapHeight = 200;
+    const map = await renderMapSnapshot(
+      incident.latitude,
+      incident.longitude,
+      Math.round(contentWidth * 2),
+      mapHeight * 2,
+    );
+    if (map) {
+      const image = await pdf.embedJpg(map);
+      y -= mapHeight;
+      page.drawImage(image, {
+        x: MARGIN,
+        y,
+        width: contentWidth,
+        height: mapHeight,
+      });
+      y -= 12;
+      drawText(page, MAP_ATTRIBUTION, {
+        x: MARGIN,
+        y,
+        size: 7,
+        font: regular,
+        color: MUTED,
+      });
+      y -= 24;
+    }
+  }
+
+  // The reporter's own evidence; "me too" media came from other citizens
+  const previews = incident.incident_media
+    .filter((item) => !item.confirmation_id && item.file_type !== "audio")
+    .map((item) =>
+      item.file_type === "video" ? item.thumbnail_url : item.file_url,
+    )
+    .filter((url): url is string => !!url)
+    .slice(0, MAX_THUMBNAILS);
+
+  if (previews.length > 0) {
+    const thumbnails = (
+      await Promise.all(previews.map((url) => renderThumbnail(url, 240)))
+    ).filter((bytes): bytes is ArrayBuffer => !!bytes);
+
+    if (thumbnails.length > 0) {
+      drawText(page, "EVIDENCE", {
+        x: MARGIN,
+        y,
+        size: 8,
+        font: bold,
+        color: MUTED,
+      });
+      const gap = 8;
+      const size = (contentWidth - gap * (MAX_THUMBNAILS - 1)) / MAX_THUMBNAILS;
+      y -= size + 8;
+      const images: PDFImage[] = await Promise.all(
+        thumbnails.map((bytes) => pdf.embedJpg(bytes)),
+      );
+      images.forEach((image, index) => {
+        page.drawImage(image, {
+          x: MARGIN + index * (size + gap),
+          y,
+          width: size,
+          height: size,
+        });
+      });
+      y -= 24;
+    }
+  }
+
+  // Footer
+  page.drawLine({
+    start: { x: MARGIN, y: MARGIN + 52 },
+    end: { x: PAGE_WIDTH - MARGIN, y: MARGIN + 52 },
+    thickness: 1,
+    color: RULE,
+  });
+  const footerLines = [
+    "This receipt confirms that AlertKaro received the report above. It does not confirm the facts reported.",
+    `Check the current status at ${trackingUrl}`,
+    `Generated ${formatTimestamp(new Date().toISOString())}`,
+  ];
+  footerLines.forEach((line, index) => {
+    drawText(page, line, {
+      x: MARGIN,
+      y: MARGIN + 36 - index * 13,
+      size: 8,
+      font: regular,
+      color: MUTED,
+    });
+  });
+
+  return pdf.save();
+}
+
+// Build the receipt for one of the signed-in user's incidents and save it
+export async function downloadReceipt(
+  supabase: SupabaseClient,
+  incidentId: string,
+) {
+  const { data, error } = await supabase
+    .from("incidents")
+    .select(
+      `
+      id, tracking_id, title, address, latitude, longitude, created_at,
+      category:categories(name),
+      incident_media(file_url, file_type, thumbnail_url, confirmation_id)
+    `,
+    )
+    .eq("id", incidentId)
+    .single();
+  if (error) throw error;
+
+  const incident = data as unknown as ReceiptIncident;
+  const bytes = await buildReceipt(
+    incident,
+    `${window.location.origin}${trackingPath(incident.tracking_id)}`,
+  );
+
+  const url = URL.createObjectURL(
+    new Blob([bytes as BlobPart], { type: "application/pdf" }),
+  );
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = receiptFileName(incident.tracking_id);
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -0,0 +1,307 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { ExifMetadata } from "@/lib/exif";
+import { uploadResumable } from "@/lib/resumableUpload";
+import { sha256Hex } from "@/lib/mediaHash";
+import { createVideoPoster } from "@/lib/mediaProcessing";
+import {
+  FieldErrors,
+  mediaKind,
+  validationMessage,
+} from "@/lib/incidentValidation";
+import type { FieldValues } from "@/lib/categoryFields";
+
+const MEDIA_BUCKET = "incident-media";
+
+export interface ReportPayload {
+  category_id: string;
+  title: string;
+  description: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  address: string | null;
+  // Whether the coordinates came from the device's GPS or were chosen by
+  // the reporter on the map / by address search
+  location_source: "device" | "manual" | null;
+  // Hide the reporter's identity from police views
+  is_anonymous: boolean;
+  // Answers to the category's own fields, by field key
+  field_values: FieldValues;
+}
+
+export interface CreatedIncident {
+  id: string;
+  tracking_id: string;
+}
+
+// What the report page sends for each file already uploaded to storage
+export interface StagedMedia {
+  path: string;
+  file_name: string;
+  file_type: string;
+  file_size: number;
+  metadata: ExifMetadata | null;
+  // Hash of the uploaded bytes
+  sha256: string | null;
+  // Storage path of the poster frame uploaded alongside a video
+  poster_path?: string | null;
+}
+
+// Rejection from POST /api/incidents. fieldErrors names the form fields
+// that failed validation, when that was the reason.
+export class IncidentSubmissionError extends Error {
+  status: number;
+  fieldErrors: FieldErrors;
+
+  constructor(message: string, status: number, fieldErrors: FieldErrors) {
+    super(message);
+    this.name = "IncidentSubmissionError";
+    this.status = status;
+    this.fieldErrors = fieldErrors;
+  }
+}
+
+// True when the server refused a report as invalid, so sending it again
+// would only be refused again
+export function isRejectedSubmission(error: unknown): boolean {
+  return error instanceof IncidentSubmissionError && error.status === 400;
+}
+
+// Create the incident and its media records in one step on the server.
+// Media must already be staged under the same submission id; sending the
+// same submission again returns the incident it created the first time.
+export async function submitIncident(
+  submissionId: string,
+  payload: ReportPayload,
+  media: StagedMedia[],
+): Promise<CreatedIncident> {
+  const response = await fetch("/api/incidents", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ submission_id: submissionId, payload, media }),
+  });
+  const body = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    const fieldErrors: FieldErrors = body.fieldErrors || {};
+    throw new IncidentSubmissionError(
+      Object.values(fieldErrors)
+        .filter((error) => !!error)
+        .map(validationMessage)
+        .join(" ") ||
+        body.error ||
+        "Failed to submit report",
+      response.status,
+      fieldErrors,
+    );
+  }
+  return body.incident as CreatedIncident;
+}
+
+async function uploadToStorage(
+  supabase: SupabaseClient,
+  objectName: string,
+  file: File,
+  onProgress?: (fraction: number) => void,
+) {
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+  if (!session) throw new Error("Not signed in");
+
+  await uploadResumable({
+    bucket: MEDIA_BUCKET,
+    objectName,
+    file,
+    accessToken: session.access_token,
+    onProgress,
+  });
+}
+
+function objectExtension(file: File) {
+  return file.name.split(".").pop();
+}
+
+// Upload a poster frame next to a video at `${objectBase}.poster.jpg`.
+// Returns null for other files, and when no frame could be taken or the
+// upload failed, since the video itself is what matters.
+export async function uploadVideoPoster(
+  supabase: SupabaseClient,
+  objectBase: string,
+  file: File,
+): Promise<string | null> {
+  if (!file.type.startsWith("video/")) return null;
+
+  const poster = await createVideoPoster(file);
+  if (!poster) return null;
+
+  const path = `${objectBase}.poster.jpg`;
+  try {
+    await uploadToStorage(
+      supabase,
+      path,
+      new File([poster], "poster.jpg", { type: "image/jpeg" }),
+    );
+    return path;
+  } catch (error) {
+    console.error("Video poster upload error:", error);
+    return null;
+  }
+}
+
+// Storage folder for a reporter's uploads. Their user id names it, and
+// shows in every public file URL, so files for anonymous reports go under
+// anonymous/ instead.
+export function reporterFolder(userId: string, anonymous: boolean) {
+  return anonymous ? "anonymous" : userId;
+}
+
+export interface StageMediaOptions {
+  userId: string;
+  anonymous: boolean;
+  // Client-generated id for the report being submitted, which groups its
+  // files in storage until the incident exists; for evidence added to an
+  // existing incident, the incident's id
+  submissionId: string;
+  uploadId: string;
+  file: File;
+  metadata?: ExifMetadata | null;
+  onProgress?: (fraction: number) => void;
+}
+
+// Upload one evidence file (resumably) for a report that is about to be
+// submitted. Nothing is recorded in the database until submitIncident.
+export async function stageReportMedia(
+  supabase: SupabaseClient,
+  {
+    userId,
+    anonymous,
+    submissionId,
+    uploadId,
+    file,
+    metadata = null,
+    onProgress,
+  }: StageMediaOptions,
+): Promise<StagedMedia> {
+  const objectBase = `${reporterFolder(userId, anonymous)}/${submissionId}/${uploadId}`;
+  const path = `${objectBase}.${objectExtension(file)}`;
+  const sha256 = await sha256Hex(file);
+  await uploadToStorage(supabase, path, file, onProgress);
+  const poster_path = await uploadVideoPoster(supabase, objectBase, file);
+
+  return {
+    path,
+    file_name: file.name,
+    file_type: file.type,
+    file_size: file.size,
+    metadata,
+    sha256,
+    poster_path,
+  };
+}
+
+export interface MediaUploadOptions {
+  userId: string;
+  // Set when the uploader is the reporter of an anonymous incident
+  anonymous?: boolean;
+  incidentId: string;
+  // Stable per-file id; keeps the storage path identical across retries
+  // so an interrupted upload can resume
+  uploadId: string;
+  file: File;
+  metadata?: ExifMetadata | null;
+  // Set when the media backs a "me too" confirmation of someone else's
+  // incident rather than the uploader's own report
+  confirmationId?: string | null;
+  // Set when the media backs the reporter's request to reopen a resolved
+  // incident
+  feedbackId?: string | null;
+  onProgress?: (fraction: number) => void;
+}
+
+// Upload one evidence file to storage (resumably) and record it, with its
+// hash and any video poster, in incident_media for an incident that
+// already exists, such as one being confirmed. EXIF details read before
+// sanitising go to incident_media_metadata, which only police and admins
+// can read. Returns the new incident_media id.
+export async function uploadIncidentMedia(
+  supabase: SupabaseClient,
+  {
+    userId,
+    anonymous = false,
+    incidentId,
+    uploadId,
+    file,
+    metadata = null,
+    confirmationId = null,
+    feedbackId = null,
+    onProgress,
+  }: MediaUploadOptions,
+): Promise<string> {
+  const objectBase = `${reporterFolder(userId, anonymous)}/${incidentId}/${uploadId}`;
+  const fileName = `${objectBase}.${objectExtension(file)}`;
+  const sha256 = await sha256Hex(file);
+  await uploadToStorage(supabase, fileName, file, onProgress);
+  const posterPath = await uploadVideoPoster(supabase, objectBase, file);
+
+  const bucket = supabase.storage.from(MEDIA_BUCKET);
+  const publicUrl = bucket.getPublicUrl(fileName).data.publicUrl;
+
+  const { data: media, error: mediaError } = await supabase
+    .from("incident_media")
+    .insert({
+      incident_id: incidentId,
+      file_url: publicUrl,
+      file_name: file.name,
+      file_type: mediaKind(file.type),
+      file_size: file.size,
+      sha256,
+      thumbnail_url:
+        posterPath && bucket.getPublicUrl(posterPath).data.publicUrl,
+      ...(confirmationId && { confirmation_id: confirmationId }),
+      ...(feedbackId && { feedback_id: feedbackId }),
+    })
+    .select("id")
+    .single();
+
+  if (mediaError) throw mediaError;
+
+  if (metadata) {
+    const { error: metadataError } = await supabase
+      .from("incident_media_metadata")
+      .insert({ media_id: media.id, ...metadata });
+
+    // The evidence itself is saved; missing EXIF details are not fatal
+    if (metadataError) {
+      console.error("Media metadata error:", metadataError);
+    }
+  }
+
+  return media.id as string;
+}
+
+// True when an error came from the request never reaching the server, as
+// opposed to the server rejecting it.
+export function isNetworkError(error: unknown): boolean {
+  if (typeof navigator !== "undefined" && !navigator.onLine) return true;
+
+  // tus-js-client errors carry the HTTP response, or null when none arrived
+  if (
+    typeof error === "object" &&
+    error !== null &&
+    "originalResponse" in error &&
+    (error as { originalResponse: unknown }).originalResponse === null
+  ) {
+    return true;
+  }
+
+  const message =
+    error instanceof Error
+      ? error.message
+      : typeof error === "object" && error !== null && "message" in error
+        ? String((error as { message: unknown }).message)
+        : "";
+
+  return /Failed to fetch|NetworkError|Load failed|Network request failed/i.test(
+    message,
+  );
+}
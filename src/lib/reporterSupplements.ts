@@ -0,0 +1,69 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { StagedMedia } from "@/lib/reportSubmission";
+
+// Follow-ups the reporter can make before police act on an incident:
+// more evidence, a note, or withdrawing it. Each one becomes an
+// incident_updates entry (see the kind column) so police see it in the
+// timeline alongside status changes.
+
+export const SUPPLEMENT_NOTE_MAX_LENGTH = 1000;
+export const WITHDRAWAL_REASON_MIN_LENGTH = 10;
+
+// "reopen" is the reporter saying a resolution did not fix the problem
+export type IncidentUpdateKind =
+  "status" | "supplement" | "withdrawal" | "reopen";
+
+// Statuses in which the reporter can still add to or withdraw the report
+export const REPORTER_EDITABLE_STATUSES = ["submitted", "in_review"];
+
+export function isOpenToReporter(incident: {
+  status: string;
+  withdrawn_at?: string | null;
+}): boolean {
+  return (
+    REPORTER_EDITABLE_STATUSES.includes(incident.status) &&
+    !incident.withdrawn_at
+  );
+}
+
+// Record a note and/or files staged in storage (see stageReportMedia) in
+// one call, so the media and the timeline entry are saved together or not
+// at all. Returns the new update's id.
+export async function addIncidentSupplement(
+  supabase: SupabaseClient,
+  {
+    incidentId,
+    note,
+    media,
+  }: {
+    incidentId: string;
+    note: string;
+    media: StagedMedia[];
+  },
+): Promise<string> {
+  const { data, error } = await supabase.rpc("add_incident_supplement", {
+    p_incident_id: incidentId,
+    p_note: note,
+    p_media: media.map((item) => ({
+      path: item.path,
+      file_name: item.file_name,
+      metadata: item.metadata,
+      sha256: item.sha256,
+      poster_path: item.poster_path ?? null,
+    })),
+  });
+  if (error) throw error;
+  return data as string;
+}
+
+export async function withdrawIncident(
+  supabase: SupabaseClient,
+  incidentId: string,
+  reason: string,
+): Promise<void> {
+  const { error } = await supabase.rpc("withdraw_incident", {
+    p_incident_id: incidentId,
+    p_reason: reason,
+  });
+  if (error) throw error;
+}
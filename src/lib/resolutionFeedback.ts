@@ -0,0 +1,72 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+// The reporter's verdict on a resolution. A "not fixed" answer reopens the
+// incident; the submit_resolution_feedback function moves it back to
+// in_review and notifies the officers who worked on it.
+
+export const FEEDBACK_COMMENT_MAX_LENGTH = 1000;
+
+export interface IncidentFeedback {
+  id: string;
+  incident_id: string;
+  is_fixed: boolean;
+  rating: number;
+  comment: string | null;
+  created_at: string;
+}
+
+// Returns the new feedback's id, for attaching reopen evidence to it
+export async function submitResolutionFeedback(
+  supabase: SupabaseClient,
+  {
+    incidentId,
+    isFixed,
+    rating,
+    comment,
+  }: {
+    incidentId: string;
+    isFixed: boolean;
+    rating: number;
+    comment: string;
+  },
+): Promise<string> {
+  const { data, error } = await supabase.rpc("submit_resolution_feedback", {
+    p_incident_id: incidentId,
+    p_is_fixed: isFixed,
+    p_rating: rating,
+    p_comment: comment,
+  });
+  if (error) throw error;
+  return data as string;
+}
+
+export interface SatisfactionSummary {
+  responses: number;
+  // Mean rating out of 5; null without responses
+  averageRating: number | null;
+  // Share of responses saying the issue was fixed, 0-100
+  fixedRate: number | null;
+  reopened: number;
+}
+
+export function summarizeFeedback(
+  feedback: Pick<IncidentFeedback, "rating" | "is_fixed">[],
+): SatisfactionSummary {
+  if (feedback.length === 0) {
+    return {
+      responses: 0,
+      averageRating: null,
+      fixedRate: null,
+      reopened: 0,
+    };
+  }
+
+  const fixed = feedback.filter((f) => f.is_fixed).length;
+  return {
+    responses: feedback.length,
+    averageRating:
+      feedback.reduce((sum, f) => sum + f.rating, 0) / feedback.length,
+    fixedRate: (fixed / feedback.length) * 100,
+    reopened: feedback.length - fixed,
+  };
+}
@@ -0,0 +1,75 @@
+// Police resolution evidence. An incident can collect several uploads over
+// time (partial fixes, then the final fix), each an incident_resolutions
+// row; pages show them newest first and compare the latest one with the
+// reporter's original evidence.
+
+export const RESOLUTION_FILES_MAX = 5;
+
+export interface ResolutionEntry {
+  id: string;
+  resolution_media_url: string;
+  resolution_media_type: string;
+  resolution_thumbnail_url: string | null;
+  notes: string | null;
+  // Uploaded for a partial fix, before the incident was resolved
+  is_partial: boolean;
+  created_at: string;
+}
+
+interface EvidenceMedia {
+  file_url: string;
+  file_type: string;
+  thumbnail_url?: string | null;
+  confirmation_id?: string | null;
+  feedback_id?: string | null;
+}
+
+export function newestFirst<T extends { created_at: string }>(rows: T[]): T[] {
+  return [...rows].sort(
+    (a, b) =>
+      new Date(b.created_at).getTime() - new Date(a.created_at).getTime(),
+  );
+}
+
+// A still image for a media file: the file itself for photos, the poster
+// frame for videos; null for voice notes and videos without a poster
+export function stillImageUrl(
+  type: string,
+  url: string,
+  thumbnailUrl?: string | null,
+): string | null {
+  if (type === "image") return url;
+  if (type === "video") return thumbnailUrl ?? null;
+  return null;
+}
+
+// Images for a before/after comparison: the reporter's own first photo
+// (not "me too" or reopen evidence) against the latest resolution upload
+// that has a still image. Null when either side has none.
+export function beforeAfterPair(
+  media: EvidenceMedia[],
+  resolutions: Pick<
+    ResolutionEntry,
+    | "resolution_media_url"
+    | "resolution_media_type"
+    | "resolution_thumbnail_url"
+    | "created_at"
+  >[],
+): { before: string; after: string } | null {
+  const before = media
+    .filter((m) => !m.confirmation_id && !m.feedback_id)
+    .map((m) => stillImageUrl(m.file_type, m.file_url, m.thumbnail_url))
+    .find((url): url is string => !!url);
+
+  const after = newestFirst(resolutions)
+    .map((r) =>
+      stillImageUrl(
+        r.resolution_media_type,
+        r.resolution_media_url,
+        r.resolution_thumbnail_url,
+      ),
+    )
+    .find((url): url is string => !!url);
+
+  return before && after ? { before, after } : null;
+}
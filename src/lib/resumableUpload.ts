@@ -0,0 +1,68 @@
+import { Upload } from "tus-js-client";
+
+// Supabase Storage's TUS endpoint requires 6MB chunks
+const CHUNK_SIZE = 6 * 1024 * 1024;
+
+// Backoff between automatic retries of a failed chunk, in milliseconds
+export const RETRY_DELAYS = [0, 1000, 3000, 5000, 10000, 20000];
+
+interface ResumableUploadOptions {
+  bucket: string;
+  objectName: string;
+  file: File;
+  accessToken: string;
+  // Called with a 0-1 fraction as chunks are acknowledged
+  onProgress?: (fraction: number) => void;
+}
+
+// Upload a file to Supabase Storage over the TUS protocol. Interrupted
+// uploads of the same file to the same object resume from the last
+// acknowledged chunk instead of starting over.
+export function uploadResumable({
+  bucket,
+  objectName,
+  file,
+  accessToken,
+  onProgress,
+}: ResumableUploadOptions): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const upload = new Upload(file, {
+      endpoint: `${process.env.NEXT_PUBLIC_SUPABASE_URL}/storage/v1/upload/resumable`,
+      retryDelays: RETRY_DELAYS,
+      chunkSize: CHUNK_SIZE,
+      headers: {
+        authorization: `Bearer ${accessToken}`,
+        apikey: process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+        // Retries after a lost response may re-create the same object
+        "x-upsert": "true",
+      },
+      uploadDataDuringCreation: true,
+      removeFingerprintOnSuccess: true,
+      metadata: {
+        bucketName: bucket,
+        objectName,
+        contentType: file.type,
+        cacheControl: "3600",
+      },
+      // Resume only uploads aimed at this object, not the same file
+      // attached to another report
+      fingerprint: async (f) =>
+        `tus-${bucket}-${objectName}-${f instanceof File ? f.size : ""}`,
+      onProgress: (bytesSent, bytesTotal) => {
+        onProgress?.(bytesTotal > 0 ? bytesSent / bytesTotal : 0);
+      },
+      onSuccess: () => resolve(),
+      onError: (error) => reject(error),
+    });
+
+    upload
+      .findPreviousUploads()
+      .then((previousUploads) => {
+        if (previousUploads.length > 0) {
+          upload.resumeFromPreviousUpload(previousUploads[0]);
+        }
+        upload.start();
+      })
+      .catch(reject);
+  });
+}
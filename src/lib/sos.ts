@@ -0,0 +1,92 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+// One-tap SOS: an urgent incident filed straight from the device location,
+// which then keeps receiving the device's position for a while so officers
+// can follow the reporter on the map.
+
+export interface SosOptions {
+  // How long the device keeps sharing its location, in minutes
+  streamMinutes: number;
+  // Minimum gap between location updates sent to the server, in seconds
+  updateIntervalSeconds: number;
+}
+
+export const SOS_OPTIONS: SosOptions = {
+  streamMinutes: Number(process.env.NEXT_PUBLIC_SOS_STREAM_MINUTES) || 30,
+  updateIntervalSeconds:
+    Number(process.env.NEXT_PUBLIC_SOS_UPDATE_INTERVAL_SECONDS) || 15,
+};
+
+export interface SosPosition {
+  latitude: number;
+  longitude: number;
+  accuracy: number | null;
+}
+
+export interface StartedSos {
+  id: string;
+  tracking_id: string;
+  sos_expires_at: string;
+}
+
+// File the SOS incident. Position may be null when the device could not
+// get a fix in time; police still get the alert and updates fill it in.
+// No address is sent: police follow the live position on the map.
+export async function startSos(
+  supabase: SupabaseClient,
+  position: SosPosition | null,
+): Promise<StartedSos> {
+  const { data, error } = await supabase.rpc("start_sos", {
+    p_latitude: position?.latitude ?? null,
+    p_longitude: position?.longitude ?? null,
+    p_accuracy: position?.accuracy ?? null,
+    p_stream_minutes: SOS_OPTIONS.streamMinutes,
+  });
+
+  if (error) throw error;
+  return data as StartedSos;
+}
+
+// record_sos_location raises this once the SOS has expired or was stopped
+const SOS_ENDED_ERROR_CODE = "P0002";
+
+// Whether a failed location update means the SOS is over, rather than a
+// network or server hiccup worth retrying
+export function isSosEndedError(error: unknown) {
+  return (error as { code?: string } | null)?.code === SOS_ENDED_ERROR_CODE;
+}
+
+export async function sendSosLocation(
+  supabase: SupabaseClient,
+  incidentId: string,
+  position: SosPosition,
+) {
+  const { error } = await supabase.rpc("record_sos_location", {
+    p_incident_id: incidentId,
+    p_latitude: position.latitude,
+    p_longitude: position.longitude,
+    p_accuracy: position.accuracy,
+  });
+
+  if (error) throw error;
+}
+
+export async function stopSos(supabase: SupabaseClient, incidentId: string) {
+  const { error } = await supabase.rpc("stop_sos", {
+    p_incident_id: incidentId,
+  });
+
+  if (error) throw error;
+}
+
+// Whether an incident is still sharing live location
+export function isSosLive(incident: {
+  is_sos?: boolean | null;
+  sos_expires_at?: string | null;
+}) {
+  return (
+    !!incident.is_sos &&
+    !!incident.sos_expires_at &&
+    new Date(incident.sos_expires_at).getTime() > Date.now()
+  );
+}
@@ -39,13 +39,15 @@ export async function updateSession(request: NextRequest) {
     data: { user },
   } = await supabase.auth.getUser();
 
-  // Protected routes check
+  // Protected routes check. /track stays public so a case can be checked
+  // by its tracking ID from any device.
   const protectedPaths = [
     "/dashboard",
     "/report",
     "/history",
     "/profile",
     "/alerts",
+    "/sos",
     "/police",
     "/admin",
   ];
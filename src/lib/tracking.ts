@@ -0,0 +1,57 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { TranslatableName } from "@/lib/i18n";
+
+// Public view of a case by its tracking ID, for /track. It comes from the
+// get_public_incident function, which works without signing in and leaves
+// out everything that could identify the reporter.
+
+export interface PublicIncident {
+  tracking_id: string;
+  title: string;
+  status: string;
+  // Area only, never the street address
+  locality: string | null;
+  created_at: string;
+  updated_at: string;
+  category:
+    | (TranslatableName & {
+        icon: string;
+        color: string;
+      })
+    | null;
+  updates: {
+    id: string;
+    status: string;
+    notes: string | null;
+    created_at: string;
+  }[];
+  resolutions: {
+    id: string;
+    resolution_media_url: string;
+    resolution_media_type: string;
+    resolution_thumbnail_url: string | null;
+    notes: string | null;
+    created_at: string;
+  }[];
+}
+
+// Tracking IDs are shown with a leading "#", so people often paste it too
+export function normalizeTrackingId(value: string) {
+  return value.trim().replace(/^#+/, "").trim();
+}
+
+export function trackingPath(trackingId: string) {
+  return `/track/${encodeURIComponent(normalizeTrackingId(trackingId))}`;
+}
+
+// Null when no trackable case has this ID
+export async function getPublicIncident(
+  supabase: SupabaseClient,
+  trackingId: string,
+): Promise<PublicIncident | null> {
+  const { data, error } = await supabase.rpc("get_public_incident", {
+    p_tracking_id: normalizeTrackingId(trackingId),
+  });
+  if (error) throw error;
+  return (data as PublicIncident | null) ?? null;
+}
@@ -0,0 +1,37 @@
+-- EXIF details read from citizen photos before the uploaded copy is
+-- sanitised. Kept out of incident_media so the public feed, which reads
+-- incident_media, can never expose a reporter's GPS position.
+create table if not exists public.incident_media_metadata (
+  media_id uuid primary key references public.incident_media(id) on delete cascade,
+  captured_at timestamptz,
+  gps_latitude double precision,
+  gps_longitude double precision,
+  created_at timestamptz not null default now()
+);
+
+alter table public.incident_media_metadata enable row level security;
+
+create policy "Reporters can add metadata for their own media"
+  on public.incident_media_metadata for insert
+  to authenticated
+  with check (
+    exists (
+      select 1
+      from public.incident_media m
+      join public.incidents i on i.id = m.incident_id
+      where m.id = media_id
+        and i.user_id = auth.uid()
+    )
+  );
+
+create policy "Police and admins can read media metadata"
+  on public.incident_media_metadata for select
+  to authenticated
+  using (
+    exists (
+      select 1
+      from public.profiles p
+      where p.id = auth.uid()
+        and p.role in ('police', 'admin')
+    )
+  );
@@ -0,0 +1,77 @@
+-- "Me too" confirmations: a citizen who spots an already-reported issue
+-- confirms the existing incident instead of filing a duplicate. Media they
+-- attach is stored in incident_media, linked back to their confirmation.
+create table if not exists public.incident_confirmations (
+  id uuid primary key default gen_random_uuid(),
+  incident_id uuid not null references public.incidents(id) on delete cascade,
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  created_at timestamptz not null default now(),
+  unique (incident_id, user_id)
+);
+
+create index if not exists incident_confirmations_incident_id_idx
+  on public.incident_confirmations (incident_id);
+
+alter table public.incident_confirmations enable row level security;
+
+create policy "Citizens can confirm open incidents"
+  on public.incident_confirmations for insert
+  to authenticated
+  with check (
+    user_id = auth.uid()
+    and exists (
+      select 1
+      from public.incidents i
+      where i.id = incident_id
+        and i.status <> 'resolved'
+        and i.user_id <> auth.uid()
+    )
+  );
+
+create policy "Citizens can read their own confirmations"
+  on public.incident_confirmations for select
+  to authenticated
+  using (user_id = auth.uid());
+
+create policy "Police and admins can read confirmations"
+  on public.incident_confirmations for select
+  to authenticated
+  using (
+    exists (
+      select 1
+      from public.profiles p
+      where p.id = auth.uid()
+        and p.role in ('police', 'admin')
+    )
+  );
+
+alter table public.incident_media
+  add column if not exists confirmation_id uuid
+    references public.incident_confirmations(id) on delete set null;
+
+create policy "Confirmers can add media to the incident they confirmed"
+  on public.incident_media for insert
+  to authenticated
+  with check (
+    confirmation_id is not null
+    and exists (
+      select 1
+      from public.incident_confirmations c
+      where c.id = confirmation_id
+        and c.incident_id = incident_media.incident_id
+        and c.user_id = auth.uid()
+    )
+  );
+
+create policy "Confirmers can add metadata for their own media"
+  on public.incident_media_metadata for insert
+  to authenticated
+  with check (
+    exists (
+      select 1
+      from public.incident_media m
+      join public.incident_confirmations c on c.id = m.confirmation_id
+      where m.id = media_id
+        and c.user_id = auth.uid()
+    )
+  );
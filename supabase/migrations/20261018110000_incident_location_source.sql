@@ -0,0 +1,6 @@
+-- Where an incident's coordinates came from: the reporter's device GPS, or
+-- a position they chose by dragging the map pin or searching an address.
+-- Null for incidents reported before this was tracked.
+alter table public.incidents
+  add column if not exists location_source text
+    check (location_source in ('device', 'manual'));
@@ -0,0 +1,106 @@
+-- Area boundaries and automatic area assignment.
+--
+-- Admins draw each area's boundary as a GeoJSON Polygon or MultiPolygon
+-- (longitude/latitude order, WGS84). New incidents, and incidents whose
+-- coordinates change, are assigned to the smallest active area containing
+-- their position. backfill_incident_areas() does the same for existing rows.
+create extension if not exists postgis with schema extensions;
+
+alter table public.areas
+  add column if not exists boundary jsonb;
+
+alter table public.areas
+  add column if not exists boundary_geom extensions.geometry(MultiPolygon, 4326)
+    generated always as (
+      extensions.st_multi(
+        extensions.st_setsrid(extensions.st_geomfromgeojson(boundary::text), 4326)
+      )
+    ) stored;
+
+create index if not exists areas_boundary_geom_idx
+  on public.areas using gist (boundary_geom);
+
+create or replace function public.find_area_for_point(lat double precision, lng double precision)
+returns uuid
+language sql
+stable
+set search_path = public, extensions
+as $$
+  select a.id
+  from public.areas a
+  where a.is_active
+    and a.boundary_geom is not null
+    and st_contains(a.boundary_geom, st_setsrid(st_makepoint(lng, lat), 4326))
+  order by st_area(a.boundary_geom)
+  limit 1;
+$$;
+
+create or replace function public.assign_incident_area()
+returns trigger
+language plpgsql
+set search_path = public, extensions
+as $$
+begin
+  if new.latitude is null or new.longitude is null then
+    return new;
+  end if;
+
+  if tg_op = 'INSERT' then
+    if new.area_id is null then
+      new.area_id := public.find_area_for_point(new.latitude, new.longitude);
+    end if;
+  elsif new.latitude is distinct from old.latitude
+     or new.longitude is distinct from old.longitude then
+    new.area_id := coalesce(
+      public.find_area_for_point(new.latitude, new.longitude),
+      new.area_id
+    );
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists assign_incident_area on public.incidents;
+create trigger assign_incident_area
+  before insert or update of latitude, longitude on public.incidents
+  for each row execute function public.assign_incident_area();
+
+-- Assign areas to existing incidents. By default only incidents without an
+-- area are touched; pass false to recompute every incident, e.g. after
+-- boundaries were redrawn. Returns the number of incidents updated.
+create or replace function public.backfill_incident_areas(only_unassigned boolean default true)
+returns integer
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+declare
+  updated integer;
+begin
+  if not exists (
+    select 1 from public.profiles p
+    where p.id = auth.uid() and p.role = 'admin'
+  ) then
+    raise exception 'Only admins can backfill incident areas';
+  end if;
+
+  update public.incidents i
+  set area_id = matched.area_id
+  from (
+    select i2.id, public.find_area_for_point(i2.latitude, i2.longitude) as area_id
+    from public.incidents i2
+    where i2.latitude is not null
+      and i2.longitude is not null
+      and (not only_unassigned or i2.area_id is null)
+  ) matched
+  where i.id = matched.id
+    and matched.area_id is not null
+    and i.area_id is distinct from matched.area_id;
+
+  get diagnostics updated = row_count;
+  return updated;
+end;
+$$;
+
+grant execute on function public.backfill_incident_areas(boolean) to authenticated;
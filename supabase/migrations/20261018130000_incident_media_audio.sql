@@ -0,0 +1,20 @@
+-- Voice notes recorded in the report flow are stored alongside photos and
+-- videos as incident_media rows with file_type 'audio'.
+alter table public.incident_media
+  drop constraint if exists incident_media_file_type_check;
+
+alter table public.incident_media
+  add constraint incident_media_file_type_check
+    check (file_type in ('image', 'video', 'audio'));
+
+-- Browsers record voice notes as WebM/Opus, MP4/AAC (Safari) or Ogg. Only
+-- widen the bucket's allow-list when it has one.
+update storage.buckets
+set allowed_mime_types = (
+  select array_agg(distinct mime_type)
+  from unnest(
+    allowed_mime_types || array['audio/webm', 'audio/mp4', 'audio/ogg']
+  ) as mime_type
+)
+where id = 'incident-media'
+  and allowed_mime_types is not null;
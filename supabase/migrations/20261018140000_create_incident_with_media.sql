@@ -0,0 +1,23 @@
+-- Incidents are now created through POST /api/incidents, which validates
+-- the report and then calls create_incident_with_media (defined in the
+-- incident_creation migration) so the incident and all of its media
+-- records are written in one transaction.
+
+-- Client-generated id for a report submission. Media is staged in storage
+-- under it before the incident exists, and a retried submission (say,
+-- after a lost response) finds the incident it already created.
+alter table public.incidents
+  add column if not exists submission_id uuid;
+
+create unique index if not exists incidents_submission_id_key
+  on public.incidents (submission_id)
+  where submission_id is not null;
+
+-- The API lists a submission's staged files to check they were uploaded
+create policy "Users can list their own incident media"
+  on storage.objects for select
+  to authenticated
+  using (
+    bucket_id = 'incident-media'
+    and (storage.foldername(name))[1] = auth.uid()::text
+  );
@@ -0,0 +1,183 @@
+-- Anonymous reporting. An anonymous incident keeps its user_id so the
+-- reporter can still follow it in /history and get notifications, but
+-- police views show no identity. Supervisors can reveal the reporter of a
+-- single incident with a stated reason; every reveal is logged.
+
+alter table public.incidents
+  add column if not exists is_anonymous boolean not null default false;
+
+-- Police officers allowed to reveal anonymous reporters. Admins always can.
+alter table public.profiles
+  add column if not exists is_supervisor boolean not null default false;
+
+-- Profiles are self-editable, so only admins may change the flag
+create or replace function public.protect_supervisor_flag()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.is_supervisor is distinct from old.is_supervisor
+    and not exists (
+      select 1
+      from public.profiles p
+      where p.id = auth.uid()
+        and p.role = 'admin'
+    )
+  then
+    raise exception 'Only admins can change supervisor status'
+      using errcode = '42501';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists protect_supervisor_flag on public.profiles;
+create trigger protect_supervisor_flag
+  before update of is_supervisor on public.profiles
+  for each row execute function public.protect_supervisor_flag();
+
+create or replace function public.is_identity_supervisor()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from public.profiles p
+    where p.id = auth.uid()
+      and (p.role = 'admin' or (p.role = 'police' and p.is_supervisor))
+  );
+$$;
+
+-- Police officers cannot read the profile of a citizen who has only ever
+-- reported anonymously, so the identity stays hidden even outside the
+-- app's own views. Reporters who also filed named reports remain visible
+-- for those; the police views hide the name on their anonymous ones.
+create or replace function public.reporter_profile_visible(p_profile_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    p_profile_id = auth.uid()
+    or not exists (
+      select 1
+      from public.profiles v
+      where v.id = auth.uid()
+        and v.role = 'police'
+    )
+    or not exists (
+      select 1
+      from public.incidents i
+      where i.user_id = p_profile_id
+        and i.is_anonymous
+    )
+    or exists (
+      select 1
+      from public.incidents i
+      where i.user_id = p_profile_id
+        and not i.is_anonymous
+    );
+$$;
+
+create policy "Police cannot read anonymous reporters' profiles"
+  on public.profiles
+  as restrictive
+  for select
+  to authenticated
+  using (public.reporter_profile_visible(id));
+
+-- Who revealed which anonymous reporter, and why
+create table if not exists public.incident_identity_reveals (
+  id uuid primary key default gen_random_uuid(),
+  incident_id uuid not null references public.incidents(id) on delete cascade,
+  revealed_by uuid not null references public.profiles(id),
+  reason text not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists incident_identity_reveals_incident_id_idx
+  on public.incident_identity_reveals (incident_id);
+
+alter table public.incident_identity_reveals enable row level security;
+
+-- Rows are only written by reveal_incident_reporter
+create policy "Police and admins can read identity reveals"
+  on public.incident_identity_reveals for select
+  to authenticated
+  using (
+    exists (
+      select 1
+      from public.profiles p
+      where p.id = auth.uid()
+        and p.role in ('police', 'admin')
+    )
+  );
+
+create or replace function public.reveal_incident_reporter(
+  p_incident_id uuid,
+  p_reason text
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_reason text := trim(coalesce(p_reason, ''));
+  v_user_id uuid;
+  v_reporter jsonb;
+begin
+  if not public.is_identity_supervisor() then
+    raise exception 'Only supervisors can reveal a reporter''s identity'
+      using errcode = '42501';
+  end if;
+
+  if char_length(v_reason) < 10 then
+    raise exception 'Give a reason of at least 10 characters'
+      using errcode = '22023';
+  end if;
+
+  select i.user_id into v_user_id
+  from public.incidents i
+  where i.id = p_incident_id
+    and i.is_anonymous;
+
+  if not found then
+    raise exception 'No anonymous incident with that id'
+      using errcode = 'P0002';
+  end if;
+
+  insert into public.incident_identity_reveals (incident_id, revealed_by, reason)
+  values (p_incident_id, auth.uid(), v_reason);
+
+  insert into public.audit_logs (event_type, event_description, user_id, metadata)
+  values (
+    'identity_reveal',
+    'Revealed the reporter of an anonymous incident',
+    auth.uid(),
+    jsonb_build_object('incident_id', p_incident_id, 'reason', v_reason)
+  );
+
+  select jsonb_build_object(
+    'id', p.id,
+    'full_name', p.full_name,
+    'phone', p.phone,
+    'email', p.email,
+    'avatar_url', p.avatar_url
+  ) into v_reporter
+  from public.profiles p
+  where p.id = v_user_id;
+
+  return v_reporter;
+end;
+$$;
+
+grant execute on function public.reveal_incident_reporter(uuid, text)
+  to authenticated;
@@ -0,0 +1,214 @@
+-- One-tap SOS. An SOS is an ordinary incident with urgent priority that the
+-- reporter's device keeps updating with its position until
+-- sos_expires_at. Every position is kept in incident_location_updates;
+-- the incident row always holds the latest one, so police views and the
+-- area assignment trigger need nothing special.
+
+alter table public.incidents
+  add column if not exists is_sos boolean not null default false,
+  add column if not exists sos_expires_at timestamptz;
+
+create index if not exists incidents_active_sos_idx
+  on public.incidents (sos_expires_at)
+  where is_sos;
+
+-- The category SOS incidents are filed under. Inactive so it is not
+-- offered in the normal report flow.
+alter table public.categories
+  add column if not exists is_sos boolean not null default false;
+
+create unique index if not exists categories_single_sos_idx
+  on public.categories (is_sos)
+  where is_sos;
+
+insert into public.categories (name, description, icon, color, is_active, is_sos)
+select
+  'SOS Emergency',
+  'Urgent help requested with the one-tap SOS button',
+  'shield',
+  '#D32F2F',
+  false,
+  true
+where not exists (select 1 from public.categories where is_sos);
+
+create table if not exists public.incident_location_updates (
+  id uuid primary key default gen_random_uuid(),
+  incident_id uuid not null references public.incidents(id) on delete cascade,
+  latitude double precision not null,
+  longitude double precision not null,
+  -- Reported accuracy radius in metres, when the device gives one
+  accuracy double precision,
+  recorded_at timestamptz not null default now()
+);
+
+create index if not exists incident_location_updates_incident_id_idx
+  on public.incident_location_updates (incident_id, recorded_at desc);
+
+alter table public.incident_location_updates enable row level security;
+
+-- Rows are only written by start_sos and record_sos_location
+create policy "Reporters can read their own location updates"
+  on public.incident_location_updates for select
+  to authenticated
+  using (
+    exists (
+      select 1
+      from public.incidents i
+      where i.id = incident_id
+        and i.user_id = auth.uid()
+    )
+  );
+
+create policy "Police and admins can read location updates"
+  on public.incident_location_updates for select
+  to authenticated
+  using (
+    exists (
+      select 1
+      from public.profiles p
+      where p.id = auth.uid()
+        and p.role in ('police', 'admin')
+    )
+  );
+
+-- Start an SOS: file the urgent incident and its first position. Streaming
+-- is capped at two hours whatever the client asks for.
+create or replace function public.start_sos(
+  p_latitude double precision,
+  p_longitude double precision,
+  p_accuracy double precision,
+  p_address text,
+  p_stream_minutes integer
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_category_id uuid;
+  v_incident public.incidents;
+begin
+  if auth.uid() is null then
+    raise exception 'Not signed in' using errcode = '42501';
+  end if;
+
+  select id into v_category_id
+  from public.categories
+  where is_sos;
+
+  if v_category_id is null then
+    raise exception 'No SOS category is configured' using errcode = 'P0002';
+  end if;
+
+  insert into public.incidents (
+    user_id,
+    category_id,
+    title,
+    description,
+    priority,
+    latitude,
+    longitude,
+    address,
+    location_source,
+    is_sos,
+    sos_expires_at
+  )
+  values (
+    auth.uid(),
+    v_category_id,
+    'SOS Emergency',
+    'Sent with the one-tap SOS button. The reporter''s location updates live.',
+    'urgent',
+    p_latitude,
+    p_longitude,
+    p_address,
+    case when p_latitude is null then null else 'device' end,
+    true,
+    now() + make_interval(mins => least(greatest(coalesce(p_stream_minutes, 30), 1), 120))
+  )
+  returning * into v_incident;
+
+  if p_latitude is not null and p_longitude is not null then
+    insert into public.incident_location_updates (incident_id, latitude, longitude, accuracy)
+    values (v_incident.id, p_latitude, p_longitude, p_accuracy);
+  end if;
+
+  return jsonb_build_object(
+    'id', v_incident.id,
+    'tracking_id', v_incident.tracking_id,
+    'sos_expires_at', v_incident.sos_expires_at
+  );
+end;
+$$;
+
+-- Record a new position for the caller's own SOS while it is still live
+create or replace function public.record_sos_location(
+  p_incident_id uuid,
+  p_latitude double precision,
+  p_longitude double precision,
+  p_accuracy double precision
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if abs(p_latitude) > 90 or abs(p_longitude) > 180 then
+    raise exception 'Invalid coordinates' using errcode = '22023';
+  end if;
+
+  update public.incidents
+  set latitude = p_latitude,
+      longitude = p_longitude,
+      location_source = 'device'
+  where id = p_incident_id
+    and user_id = auth.uid()
+    and is_sos
+    and sos_expires_at > now();
+
+  if not found then
+    raise exception 'This SOS is no longer sharing location'
+      using errcode = 'P0002';
+  end if;
+
+  insert into public.incident_location_updates (incident_id, latitude, longitude, accuracy)
+  values (p_incident_id, p_latitude, p_longitude, p_accuracy);
+end;
+$$;
+
+-- Stop sharing location before the period runs out
+create or replace function public.stop_sos(p_incident_id uuid)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update public.incidents
+  set sos_expires_at = least(sos_expires_at, now())
+  where id = p_incident_id
+    and user_id = auth.uid()
+    and is_sos;
+$$;
+
+grant execute on function public.start_sos(double precision, double precision, double precision, text, integer)
+  to authenticated;
+grant execute on function public.record_sos_location(uuid, double precision, double precision, double precision)
+  to authenticated;
+grant execute on function public.stop_sos(uuid) to authenticated;
+
+-- Police views subscribe to incident changes to show SOS alerts live
+do $$
+begin
+  if not exists (
+    select 1
+    from pg_publication_tables
+    where pubname = 'supabase_realtime'
+      and schemaname = 'public'
+      and tablename = 'incidents'
+  ) then
+    alter publication supabase_realtime add table public.incidents;
+  end if;
+end;
+$$;
@@ -0,0 +1,22 @@
+-- Extra report fields per category. Admins define a schema on the
+-- category (see src/lib/categoryFields.ts for its shape); reports store
+-- the answers keyed by field key. Keys stay fixed once a field is created,
+-- so answers on older reports still line up after labels change.
+
+alter table public.categories
+  add column if not exists form_fields jsonb not null default '[]'::jsonb;
+
+alter table public.incidents
+  add column if not exists field_values jsonb not null default '{}'::jsonb;
+
+alter table public.categories
+  drop constraint if exists categories_form_fields_array;
+alter table public.categories
+  add constraint categories_form_fields_array
+    check (jsonb_typeof(form_fields) = 'array');
+
+alter table public.incidents
+  drop constraint if exists incidents_field_values_object;
+alter table public.incidents
+  add constraint incidents_field_values_object
+    check (jsonb_typeof(field_values) = 'object');
@@ -0,0 +1,50 @@
+-- SHA-256 of every evidence file, hex encoded, computed by the browser
+-- from the exact bytes it uploads. Police re-hash the stored object to
+-- check it has not been altered, and identical hashes across incidents
+-- mark the same file reported more than once. Rows from before hashing
+-- existed have no hash.
+
+alter table public.incident_media
+  add column if not exists sha256 text
+    check (sha256 ~ '^[0-9a-f]{64}$');
+
+alter table public.incident_resolutions
+  add column if not exists resolution_media_sha256 text
+    check (resolution_media_sha256 ~ '^[0-9a-f]{64}$');
+
+create index if not exists incident_media_sha256_idx
+  on public.incident_media (sha256)
+  where sha256 is not null;
+
+-- A recorded hash is the reference for later checks, so it can be set
+-- once but never changed or cleared
+create or replace function public.protect_media_hash()
+returns trigger
+language plpgsql
+as $$
+begin
+  -- Nested so each branch only touches columns its table has
+  if tg_table_name = 'incident_media' then
+    if old.sha256 is not null and new.sha256 is distinct from old.sha256 then
+      raise exception 'The hash of a media file cannot be changed'
+        using errcode = '42501';
+    end if;
+  elsif old.resolution_media_sha256 is not null
+    and new.resolution_media_sha256 is distinct from old.resolution_media_sha256 then
+    raise exception 'The hash of a media file cannot be changed'
+      using errcode = '42501';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists protect_media_hash on public.incident_media;
+create trigger protect_media_hash
+  before update on public.incident_media
+  for each row execute function public.protect_media_hash();
+
+drop trigger if exists protect_media_hash on public.incident_resolutions;
+create trigger protect_media_hash
+  before update on public.incident_resolutions
+  for each row execute function public.protect_media_hash();
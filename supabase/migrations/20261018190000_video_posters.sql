@@ -0,0 +1,10 @@
+-- Poster frames for video evidence: a small JPEG taken from the clip in
+-- the browser and uploaded next to it, so lists and the feed can show a
+-- preview without downloading the video. Null for photos, audio and
+-- videos uploaded before posters existed.
+
+alter table public.incident_media
+  add column if not exists thumbnail_url text;
+
+alter table public.incident_resolutions
+  add column if not exists resolution_thumbnail_url text;
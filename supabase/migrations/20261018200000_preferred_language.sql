@@ -0,0 +1,33 @@
+-- Languages for the citizen app. Each user's choice is stored on their
+-- profile so it follows them across devices; the codes match LOCALES in
+-- src/lib/i18n. Category names are entered by admins, so their
+-- translations live next to them, keyed by language code. A missing
+-- translation falls back to the name itself.
+
+alter table public.profiles
+  add column if not exists preferred_language text not null default 'en';
+
+alter table public.profiles
+  drop constraint if exists profiles_preferred_language_check;
+alter table public.profiles
+  add constraint profiles_preferred_language_check
+    check (preferred_language in ('en', 'hi', 'mr', 'ta'));
+
+alter table public.categories
+  add column if not exists name_translations jsonb not null default '{}'::jsonb;
+
+alter table public.categories
+  drop constraint if exists categories_name_translations_object;
+alter table public.categories
+  add constraint categories_name_translations_object
+    check (jsonb_typeof(name_translations) = 'object');
+
+-- The SOS category is created by a migration rather than an admin, so
+-- translate it here too
+update public.categories
+set name_translations = jsonb_build_object(
+  'hi', 'SOS आपातकाल',
+  'mr', 'SOS आणीबाणी',
+  'ta', 'SOS அவசரம்'
+)
+where is_sos and name_translations = '{}'::jsonb;
@@ -0,0 +1,89 @@
+-- Public case tracking at /track/<tracking id>, readable without signing
+-- in. Incidents stay closed to anonymous users; this function hands out a
+-- fixed, privacy-safe view of one case instead: its status, category, a
+-- coarse locality, public update notes and police resolution evidence.
+-- Nothing identifies the reporter (no user, description, exact address,
+-- coordinates or citizen media), and SOS incidents are never returned
+-- since they carry a person's live position.
+
+create or replace function public.get_public_incident(p_tracking_id text)
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_incident public.incidents;
+  v_parts text[];
+  v_locality text;
+begin
+  select * into v_incident
+  from public.incidents i
+  where upper(i.tracking_id) = upper(ltrim(btrim(p_tracking_id), '#'))
+    and not i.is_sos;
+
+  if not found then
+    return null;
+  end if;
+
+  -- Same area the public feed shows: the second and third parts of
+  -- "Street, Area, District, ..." so the street is left out
+  v_parts := regexp_split_to_array(coalesce(v_incident.address, ''), '\s*,\s*');
+  v_locality := case
+    when array_length(v_parts, 1) >= 3 then v_parts[2] || ', ' || v_parts[3]
+    when array_length(v_parts, 1) = 2 then v_parts[1] || ', ' || v_parts[2]
+    else nullif(v_parts[1], '')
+  end;
+
+  return jsonb_build_object(
+    'tracking_id', v_incident.tracking_id,
+    'title', v_incident.title,
+    'status', v_incident.status,
+    'locality', v_locality,
+    'created_at', v_incident.created_at,
+    'updated_at', v_incident.updated_at,
+    'category', (
+      select jsonb_build_object(
+        'name', c.name,
+        'name_translations', c.name_translations,
+        'icon', c.icon,
+        'color', c.color
+      )
+      from public.categories c
+      where c.id = v_incident.category_id
+    ),
+    'updates', coalesce((
+      select jsonb_agg(
+        jsonb_build_object(
+          'id', u.id,
+          'status', u.status,
+          'notes', u.notes,
+          'created_at', u.created_at
+        )
+        order by u.created_at desc
+      )
+      from public.incident_updates u
+      where u.incident_id = v_incident.id
+    ), '[]'::jsonb),
+    'resolutions', coalesce((
+      select jsonb_agg(
+        jsonb_build_object(
+          'id', r.id,
+          'resolution_media_url', r.resolution_media_url,
+          'resolution_media_type', r.resolution_media_type,
+          'resolution_thumbnail_url', r.resolution_thumbnail_url,
+          'notes', r.notes,
+          'created_at', r.created_at
+        )
+        order by r.created_at desc
+      )
+      from public.incident_resolutions r
+      where r.incident_id = v_incident.id
+    ), '[]'::jsonb)
+  );
+end;
+$$;
+
+grant execute on function public.get_public_incident(text)
+  to anon, authenticated;
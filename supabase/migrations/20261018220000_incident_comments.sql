@@ -0,0 +1,191 @@
+-- Conversation between the reporter and police on an incident. Comments
+-- are informal messages, kept apart from incident_updates, which stays the
+-- formal status timeline. Each comment notifies the other side: police
+-- comments go to the reporter, the reporter's go to the officers who have
+-- worked on the incident.
+
+create table if not exists public.incident_comments (
+  id uuid primary key default gen_random_uuid(),
+  incident_id uuid not null references public.incidents(id) on delete cascade,
+  author_id uuid not null references public.profiles(id) on delete cascade,
+  -- Copied from the author's profile when the comment is written, so the
+  -- thread can tell sides apart even where the profile itself is hidden
+  author_role text not null default 'citizen',
+  body text,
+  attachment_url text,
+  -- image, video, audio or file
+  attachment_type text,
+  attachment_name text,
+  created_at timestamptz not null default now(),
+  constraint incident_comments_not_empty
+    check (nullif(btrim(body), '') is not null or attachment_url is not null),
+  constraint incident_comments_body_length
+    check (char_length(body) <= 2000),
+  constraint incident_comments_attachment_type
+    check (attachment_type in ('image', 'video', 'audio', 'file'))
+);
+
+create index if not exists incident_comments_incident_id_idx
+  on public.incident_comments (incident_id, created_at);
+
+alter table public.incident_comments enable row level security;
+
+create policy "Reporters can read comments on their incidents"
+  on public.incident_comments for select
+  to authenticated
+  using (
+    exists (
+      select 1
+      from public.incidents i
+      where i.id = incident_id
+        and i.user_id = auth.uid()
+    )
+  );
+
+create policy "Police and admins can read comments"
+  on public.incident_comments for select
+  to authenticated
+  using (
+    exists (
+      select 1
+      from public.profiles p
+      where p.id = auth.uid()
+        and p.role in ('police', 'admin')
+    )
+  );
+
+create policy "Reporters can comment on their incidents"
+  on public.incident_comments for insert
+  to authenticated
+  with check (
+    author_id = auth.uid()
+    and exists (
+      select 1
+      from public.incidents i
+      where i.id = incident_id
+        and i.user_id = auth.uid()
+    )
+  );
+
+create policy "Police and admins can comment"
+  on public.incident_comments for insert
+  to authenticated
+  with check (
+    author_id = auth.uid()
+    and exists (
+      select 1
+      from public.profiles p
+      where p.id = auth.uid()
+        and p.role in ('police', 'admin')
+    )
+  );
+
+create or replace function public.set_incident_comment_role()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  select p.role into new.author_role
+  from public.profiles p
+  where p.id = new.author_id;
+
+  new.author_role := coalesce(new.author_role, 'citizen');
+  return new;
+end;
+$$;
+
+drop trigger if exists set_incident_comment_role on public.incident_comments;
+create trigger set_incident_comment_role
+  before insert on public.incident_comments
+  for each row execute function public.set_incident_comment_role();
+
+create or replace function public.notify_incident_comment()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_incident public.incidents;
+  v_preview text;
+begin
+  select * into v_incident
+  from public.incidents i
+  where i.id = new.incident_id;
+
+  v_preview := coalesce(
+    nullif(left(btrim(new.body), 140), ''),
+    'Sent an attachment'
+  );
+
+  if new.author_role in ('police', 'admin') then
+    if v_incident.user_id is distinct from new.author_id then
+      insert into public.notifications (user_id, incident_id, type, title, message, metadata)
+      values (
+        v_incident.user_id,
+        v_incident.id,
+        'comment',
+        'New message from police',
+        v_preview,
+        jsonb_build_object(
+          'tracking_id', v_incident.tracking_id,
+          'comment_id', new.id
+        )
+      );
+    end if;
+  else
+    -- Officers who have updated, resolved or replied on this incident
+    insert into public.notifications (user_id, incident_id, type, title, message, metadata)
+    select
+      officer.id,
+      v_incident.id,
+      'comment',
+      'New message from reporter',
+      v_preview,
+      jsonb_build_object(
+        'tracking_id', v_incident.tracking_id,
+        'comment_id', new.id
+      )
+    from (
+      select u.updated_by as id
+      from public.incident_updates u
+      where u.incident_id = v_incident.id
+      union
+      select r.uploaded_by
+      from public.incident_resolutions r
+      where r.incident_id = v_incident.id
+      union
+      select c.author_id
+      from public.incident_comments c
+      where c.incident_id = v_incident.id
+        and c.author_role in ('police', 'admin')
+    ) officer
+    where officer.id is not null
+      and officer.id <> new.author_id;
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists notify_incident_comment on public.incident_comments;
+create trigger notify_incident_comment
+  after insert on public.incident_comments
+  for each row execute function public.notify_incident_comment();
+
+-- Both sides of the thread receive new comments live
+do $$
+begin
+  if not exists (
+    select 1
+    from pg_publication_tables
+    where pubname = 'supabase_realtime'
+      and schemaname = 'public'
+      and tablename = 'incident_comments'
+  ) then
+    alter publication supabase_realtime add table public.incident_comments;
+  end if;
+end;
+$$;
@@ -0,0 +1,189 @@
+-- Reporter feedback on a resolution: was it actually fixed, a 1-5 rating
+-- and an optional comment. "Not fixed" is a reopen request: the incident
+-- goes back to in_review, which puts it in the police queues again, and
+-- the reporter can attach new evidence to the request. Ratings feed the
+-- satisfaction figures on police/analytics.
+
+create table if not exists public.incident_feedback (
+  id uuid primary key default gen_random_uuid(),
+  incident_id uuid not null references public.incidents(id) on delete cascade,
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  is_fixed boolean not null,
+  rating smallint not null check (rating between 1 and 5),
+  comment text check (char_length(comment) <= 1000),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists incident_feedback_incident_id_idx
+  on public.incident_feedback (incident_id, created_at desc);
+
+alter table public.incident_feedback enable row level security;
+
+-- Rows are only written by submit_resolution_feedback
+create policy "Reporters can read their own feedback"
+  on public.incident_feedback for select
+  to authenticated
+  using (user_id = auth.uid());
+
+create policy "Police and admins can read feedback"
+  on public.incident_feedback for select
+  to authenticated
+  using (
+    exists (
+      select 1
+      from public.profiles p
+      where p.id = auth.uid()
+        and p.role in ('police', 'admin')
+    )
+  );
+
+-- Set whenever the reporter reopens the incident, so police lists can
+-- flag it
+alter table public.incidents
+  add column if not exists reopened_at timestamptz;
+
+alter table public.incident_media
+  add column if not exists feedback_id uuid
+    references public.incident_feedback(id) on delete set null;
+
+create policy "Reporters can add evidence to their reopen requests"
+  on public.incident_media for insert
+  to authenticated
+  with check (
+    feedback_id is not null
+    and exists (
+      select 1
+      from public.incident_feedback f
+      where f.id = feedback_id
+        and f.incident_id = incident_media.incident_id
+        and f.user_id = auth.uid()
+        and not f.is_fixed
+    )
+  );
+
+create policy "Reporters can add metadata for their reopen evidence"
+  on public.incident_media_metadata for insert
+  to authenticated
+  with check (
+    exists (
+      select 1
+      from public.incident_media m
+      join public.incident_feedback f on f.id = m.feedback_id
+      where m.id = media_id
+        and f.user_id = auth.uid()
+    )
+  );
+
+-- Record the reporter's verdict on the latest resolution. Each resolution
+-- can be rated once; a reopened incident can be rated again after police
+-- resolve it the next time. Returns the feedback id.
+create or replace function public.submit_resolution_feedback(
+  p_incident_id uuid,
+  p_is_fixed boolean,
+  p_rating integer,
+  p_comment text
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_incident public.incidents;
+  v_comment text := nullif(trim(coalesce(p_comment, '')), '');
+  v_resolved_at timestamptz;
+  v_feedback_id uuid;
+begin
+  if auth.uid() is null then
+    raise exception 'Not signed in' using errcode = '42501';
+  end if;
+
+  select * into v_incident
+  from public.incidents i
+  where i.id = p_incident_id
+    and i.user_id = auth.uid();
+
+  if not found then
+    raise exception 'No incident of yours with that id'
+      using errcode = 'P0002';
+  end if;
+
+  if v_incident.status <> 'resolved' then
+    raise exception 'Only resolved incidents can be rated'
+      using errcode = '22023';
+  end if;
+
+  if p_rating is null or p_rating not between 1 and 5 then
+    raise exception 'Give a rating from 1 to 5' using errcode = '22023';
+  end if;
+
+  if not coalesce(p_is_fixed, true) and v_comment is null then
+    raise exception 'Tell the police what is still wrong'
+      using errcode = '22023';
+  end if;
+
+  select max(u.created_at) into v_resolved_at
+  from public.incident_updates u
+  where u.incident_id = p_incident_id
+    and u.status = 'resolved';
+
+  if exists (
+    select 1
+    from public.incident_feedback f
+    where f.incident_id = p_incident_id
+      and f.created_at >= coalesce(v_resolved_at, v_incident.updated_at)
+  ) then
+    raise exception 'You have already rated this resolution'
+      using errcode = '23505';
+  end if;
+
+  insert into public.incident_feedback (incident_id, user_id, is_fixed, rating, comment)
+  values (p_incident_id, auth.uid(), coalesce(p_is_fixed, true), p_rating, v_comment)
+  returning id into v_feedback_id;
+
+  if not coalesce(p_is_fixed, true) then
+    -- The status timeline records the reopen; sync_incident_status moves
+    -- the incident itself back to in_review
+    insert into public.incident_updates (incident_id, status, notes, updated_by)
+    values (
+      p_incident_id,
+      'in_review',
+      'Reopened by the reporter: ' || v_comment,
+      auth.uid()
+    );
+
+    update public.incidents
+    set reopened_at = now()
+    where id = p_incident_id;
+
+    -- Officers who have worked on the incident
+    insert into public.notifications (user_id, incident_id, type, title, message, metadata)
+    select
+      officer.id,
+      p_incident_id,
+      'reopened',
+      'Incident reopened by reporter',
+      left(v_comment, 140),
+      jsonb_build_object(
+        'tracking_id', v_incident.tracking_id,
+        'feedback_id', v_feedback_id
+      )
+    from (
+      select u.updated_by as id
+      from public.incident_updates u
+      where u.incident_id = p_incident_id
+      union
+      select r.uploaded_by
+      from public.incident_resolutions r
+      where r.incident_id = p_incident_id
+    ) officer
+    join public.profiles p on p.id = officer.id
+    where p.role in ('police', 'admin');
+  end if;
+
+  return v_feedback_id;
+end;
+$$;
+
+grant execute on function public.submit_resolution_feedback(uuid, boolean, integer, text)
+  to authenticated;
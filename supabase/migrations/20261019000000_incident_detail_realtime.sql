@@ -0,0 +1,25 @@
+-- The citizen incident page follows its status updates and police
+-- resolutions live. incidents is already published for the SOS views.
+do $$
+begin
+  if not exists (
+    select 1
+    from pg_publication_tables
+    where pubname = 'supabase_realtime'
+      and schemaname = 'public'
+      and tablename = 'incident_updates'
+  ) then
+    alter publication supabase_realtime add table public.incident_updates;
+  end if;
+
+  if not exists (
+    select 1
+    from pg_publication_tables
+    where pubname = 'supabase_realtime'
+      and schemaname = 'public'
+      and tablename = 'incident_resolutions'
+  ) then
+    alter publication supabase_realtime add table public.incident_resolutions;
+  end if;
+end;
+$$;
@@ -0,0 +1,250 @@
+-- Reporters can follow up on their own incident while police have not yet
+-- acted on it (submitted or in_review): add evidence, add notes that
+-- correct or extend the description, or withdraw a report filed by
+-- mistake. Each action is an incident_updates entry, so police see it in
+-- the same timeline as status changes. Withdrawal keeps the status as it
+-- was and marks the incident instead.
+
+alter table public.incident_updates
+  add column if not exists kind text not null default 'status';
+
+alter table public.incident_updates
+  drop constraint if exists incident_updates_kind_check;
+alter table public.incident_updates
+  add constraint incident_updates_kind_check
+    check (kind in ('status', 'supplement', 'withdrawal'));
+
+alter table public.incidents
+  add column if not exists withdrawn_at timestamptz,
+  add column if not exists withdrawal_reason text;
+
+-- Whether the reporter may still change the incident
+create or replace function public.incident_open_to_reporter(p_incident_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from public.incidents i
+    where i.id = p_incident_id
+      and i.user_id = auth.uid()
+      and i.status in ('submitted', 'in_review')
+      and i.withdrawn_at is null
+  );
+$$;
+
+create policy "Reporters can add evidence to their open incidents"
+  on public.incident_media for insert
+  to authenticated
+  with check (
+    confirmation_id is null
+    and feedback_id is null
+    and public.incident_open_to_reporter(incident_id)
+  );
+
+create policy "Reporters can add metadata for evidence on their open incidents"
+  on public.incident_media_metadata for insert
+  to authenticated
+  with check (
+    exists (
+      select 1
+      from public.incident_media m
+      where m.id = media_id
+        and m.confirmation_id is null
+        and m.feedback_id is null
+        and public.incident_open_to_reporter(m.incident_id)
+    )
+  );
+
+-- Record new evidence (already uploaded to incident_media) and/or a note
+-- in the timeline. Returns the update id.
+create or replace function public.add_incident_supplement(
+  p_incident_id uuid,
+  p_note text,
+  p_media_ids uuid[]
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_status text;
+  v_note text := nullif(trim(coalesce(p_note, '')), '');
+  v_media_count integer := 0;
+  v_update_id uuid;
+begin
+  if not public.incident_open_to_reporter(p_incident_id) then
+    raise exception 'This report can no longer be changed'
+      using errcode = '42501';
+  end if;
+
+  if char_length(v_note) > 1000 then
+    raise exception 'Keep the note under 1000 characters'
+      using errcode = '22023';
+  end if;
+
+  select count(*) into v_media_count
+  from public.incident_media m
+  where m.id = any(coalesce(p_media_ids, '{}'))
+    and m.incident_id = p_incident_id
+    and m.confirmation_id is null
+    and m.feedback_id is null;
+
+  if v_note is null and v_media_count = 0 then
+    raise exception 'Add a note or at least one file'
+      using errcode = '22023';
+  end if;
+
+  select i.status into v_status
+  from public.incidents i
+  where i.id = p_incident_id;
+
+  insert into public.incident_updates (incident_id, status, kind, notes, updated_by)
+  values (
+    p_incident_id,
+    v_status,
+    'supplement',
+    concat_ws(
+      E'\n\n',
+      case
+        when v_media_count = 1 then 'Added 1 evidence file'
+        when v_media_count > 1 then format('Added %s evidence files', v_media_count)
+      end,
+      v_note
+    ),
+    auth.uid()
+  )
+  returning id into v_update_id;
+
+  return v_update_id;
+end;
+$$;
+
+create or replace function public.withdraw_incident(
+  p_incident_id uuid,
+  p_reason text
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_reason text := trim(coalesce(p_reason, ''));
+  v_status text;
+begin
+  if not public.incident_open_to_reporter(p_incident_id) then
+    raise exception 'This report can no longer be withdrawn'
+      using errcode = '42501';
+  end if;
+
+  if char_length(v_reason) < 10 then
+    raise exception 'Give a reason of at least 10 characters'
+      using errcode = '22023';
+  end if;
+
+  if char_length(v_reason) > 1000 then
+    raise exception 'Keep the reason under 1000 characters'
+      using errcode = '22023';
+  end if;
+
+  update public.incidents
+  set withdrawn_at = now(),
+      withdrawal_reason = v_reason
+  where id = p_incident_id
+  returning status into v_status;
+
+  insert into public.incident_updates (incident_id, status, kind, notes, updated_by)
+  values (p_incident_id, v_status, 'withdrawal', v_reason, auth.uid());
+end;
+$$;
+
+grant execute on function public.incident_open_to_reporter(uuid) to authenticated;
+grant execute on function public.add_incident_supplement(uuid, text, uuid[]) to authenticated;
+grant execute on function public.withdraw_incident(uuid, text) to authenticated;
+
+-- The public tracking page shows a withdrawn case as withdrawn, and only
+-- police status changes: reporters' own notes could identify them
+create or replace function public.get_public_incident(p_tracking_id text)
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_incident public.incidents;
+  v_parts text[];
+  v_locality text;
+begin
+  select * into v_incident
+  from public.incidents i
+  where upper(i.tracking_id) = upper(ltrim(btrim(p_tracking_id), '#'))
+    and not i.is_sos;
+
+  if not found then
+    return null;
+  end if;
+
+  -- Same area the public feed shows: the second and third parts of
+  -- "Street, Area, District, ..." so the street is left out
+  v_parts := regexp_split_to_array(coalesce(v_incident.address, ''), '\s*,\s*');
+  v_locality := case
+    when array_length(v_parts, 1) >= 3 then v_parts[2] || ', ' || v_parts[3]
+    when array_length(v_parts, 1) = 2 then v_parts[1] || ', ' || v_parts[2]
+    else nullif(v_parts[1], '')
+  end;
+
+  return jsonb_build_object(
+    'tracking_id', v_incident.tracking_id,
+    'title', v_incident.title,
+    'status', case when v_incident.withdrawn_at is not null then 'withdrawn' else v_incident.status end,
+    'locality', v_locality,
+    'created_at', v_incident.created_at,
+    'updated_at', v_incident.updated_at,
+    'category', (
+      select jsonb_build_object(
+        'name', c.name,
+        'name_translations', c.name_translations,
+        'icon', c.icon,
+        'color', c.color
+      )
+      from public.categories c
+      where c.id = v_incident.category_id
+    ),
+    'updates', coalesce((
+      select jsonb_agg(
+        jsonb_build_object(
+          'id', u.id,
+          'status', u.status,
+          'notes', u.notes,
+          'created_at', u.created_at
+        )
+        order by u.created_at desc
+      )
+      from public.incident_updates u
+      where u.incident_id = v_incident.id
+        and u.kind = 'status'
+    ), '[]'::jsonb),
+    'resolutions', coalesce((
+      select jsonb_agg(
+        jsonb_build_object(
+          'id', r.id,
+          'resolution_media_url', r.resolution_media_url,
+          'resolution_media_type', r.resolution_media_type,
+          'resolution_thumbnail_url', r.resolution_thumbnail_url,
+          'notes', r.notes,
+          'created_at', r.created_at
+        )
+        order by r.created_at desc
+      )
+      from public.incident_resolutions r
+      where r.incident_id = v_incident.id
+    ), '[]'::jsonb)
+  );
+end;
+$$;
@@ -0,0 +1,10 @@
+-- Police can add resolution evidence more than once: a partial fix while
+-- the incident is action_taken, then the final one when it is resolved.
+-- Every upload stays as its own incident_resolutions row so both the
+-- citizen and police pages can show the full history.
+
+alter table public.incident_resolutions
+  add column if not exists is_partial boolean not null default false;
+
+create index if not exists incident_resolutions_incident_created_idx
+  on public.incident_resolutions (incident_id, created_at desc);
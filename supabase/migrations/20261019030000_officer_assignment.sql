@@ -0,0 +1,334 @@
+-- Assigning incidents to police officers. Officers can assign one or many
+-- incidents to any active officer (or to themselves); the assignee gets a
+-- notification. With auto-assignment switched on, new incidents go to the
+-- on-duty officer covering the incident's area and category who has the
+-- fewest open assignments.
+
+alter table public.incidents
+  add column if not exists assigned_to uuid
+    references public.profiles(id) on delete set null,
+  add column if not exists assigned_at timestamptz,
+  add column if not exists assigned_by uuid
+    references public.profiles(id) on delete set null;
+
+create index if not exists incidents_assigned_to_idx
+  on public.incidents (assigned_to);
+
+-- Whether the officer is working now, set by the officer. Coverage is set
+-- by admins: a null area or an empty category list means "any".
+alter table public.profiles
+  add column if not exists is_on_duty boolean not null default false,
+  add column if not exists duty_area_id uuid
+    references public.areas(id) on delete set null,
+  add column if not exists duty_category_ids uuid[] not null default '{}';
+
+-- Profiles are self-editable, so only admins may change coverage
+create or replace function public.protect_duty_coverage()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if (
+    new.duty_area_id is distinct from old.duty_area_id
+    or new.duty_category_ids is distinct from old.duty_category_ids
+  )
+    and not exists (
+      select 1
+      from public.profiles p
+      where p.id = auth.uid()
+        and p.role = 'admin'
+    )
+  then
+    raise exception 'Only admins can change duty coverage'
+      using errcode = '42501';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists protect_duty_coverage on public.profiles;
+create trigger protect_duty_coverage
+  before update of duty_area_id, duty_category_ids on public.profiles
+  for each row execute function public.protect_duty_coverage();
+
+-- One row holding the auto-assignment switch
+create table if not exists public.assignment_settings (
+  id boolean primary key default true check (id),
+  auto_assign boolean not null default false,
+  updated_at timestamptz not null default now(),
+  updated_by uuid references public.profiles(id) on delete set null
+);
+
+insert into public.assignment_settings (id)
+values (true)
+on conflict (id) do nothing;
+
+alter table public.assignment_settings enable row level security;
+
+create policy "Police can read assignment settings"
+  on public.assignment_settings for select
+  to authenticated
+  using (
+    exists (
+      select 1
+      from public.profiles p
+      where p.id = auth.uid()
+        and p.role in ('police', 'admin')
+    )
+  );
+
+create policy "Admins can change assignment settings"
+  on public.assignment_settings for update
+  to authenticated
+  using (
+    exists (
+      select 1
+      from public.profiles p
+      where p.id = auth.uid()
+        and p.role = 'admin'
+    )
+  );
+
+-- Open incidents assigned to each officer: not resolved and not withdrawn
+create or replace function public.officer_open_assignments(p_officer_id uuid)
+returns integer
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select count(*)::integer
+  from public.incidents i
+  where i.assigned_to = p_officer_id
+    and i.status <> 'resolved'
+    and i.withdrawn_at is null;
+$$;
+
+-- The on-duty officer covering an area and category with the fewest open
+-- assignments; ties go to whoever was assigned least recently. Null when
+-- no officer matches.
+create or replace function public.least_loaded_officer(
+  p_area_id uuid,
+  p_category_id uuid
+)
+returns uuid
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select p.id
+  from public.profiles p
+  where p.role = 'police'
+    and p.is_active is not false
+    and p.is_on_duty
+    and (p.duty_area_id is null or p.duty_area_id = p_area_id)
+    and (
+      cardinality(p.duty_category_ids) = 0
+      or p_category_id = any(p.duty_category_ids)
+    )
+  order by
+    public.officer_open_assignments(p.id),
+    (
+      select max(i.assigned_at)
+      from public.incidents i
+      where i.assigned_to = p.id
+    ) nulls first,
+    p.id
+  limit 1;
+$$;
+
+-- Assign incidents to an officer, or unassign them with a null officer.
+-- Returns how many incidents changed.
+create or replace function public.assign_incidents(
+  p_incident_ids uuid[],
+  p_officer_id uuid
+)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_count integer;
+begin
+  if auth.uid() is null then
+    raise exception 'Not signed in' using errcode = '42501';
+  end if;
+
+  if not exists (
+    select 1
+    from public.profiles p
+    where p.id = auth.uid()
+      and p.role in ('police', 'admin')
+  ) then
+    raise exception 'Only police can assign incidents'
+      using errcode = '42501';
+  end if;
+
+  if p_officer_id is not null and not exists (
+    select 1
+    from public.profiles p
+    where p.id = p_officer_id
+      and p.role in ('police', 'admin')
+      and p.is_active is not false
+  ) then
+    raise exception 'Officer not found' using errcode = 'P0002';
+  end if;
+
+  update public.incidents
+  set assigned_to = p_officer_id,
+      assigned_at = case when p_officer_id is null then null else now() end,
+      assigned_by = auth.uid()
+  where id = any(coalesce(p_incident_ids, '{}'))
+    and assigned_to is distinct from p_officer_id;
+
+  get diagnostics v_count = row_count;
+  return v_count;
+end;
+$$;
+
+grant execute on function public.officer_open_assignments(uuid) to authenticated;
+grant execute on function public.assign_incidents(uuid[], uuid) to authenticated;
+
+-- Runs after assign_incident_area (triggers of one timing fire in name
+-- order), so the incident's area is already known
+create or replace function public.auto_assign_officer()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.assigned_to is null
+    and exists (
+      select 1
+      from public.assignment_settings s
+      where s.auto_assign
+    )
+  then
+    new.assigned_to := public.least_loaded_officer(new.area_id, new.category_id);
+    if new.assigned_to is not null then
+      new.assigned_at := now();
+    end if;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists auto_assign_officer on public.incidents;
+create trigger auto_assign_officer
+  before insert on public.incidents
+  for each row execute function public.auto_assign_officer();
+
+create or replace function public.notify_incident_assignment()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.assigned_to is null
+    or new.assigned_to is not distinct from auth.uid()
+    or (tg_op = 'UPDATE' and new.assigned_to is not distinct from old.assigned_to)
+  then
+    return new;
+  end if;
+
+  insert into public.notifications (user_id, incident_id, type, title, message, metadata)
+  values (
+    new.assigned_to,
+    new.id,
+    'assigned',
+    'Incident assigned to you',
+    format('#%s: %s', new.tracking_id, new.title),
+    jsonb_build_object(
+      'tracking_id', new.tracking_id,
+      'assigned_by', new.assigned_by
+    )
+  );
+
+  return new;
+end;
+$$;
+
+drop trigger if exists notify_incident_assignment on public.incidents;
+create trigger notify_incident_assignment
+  after insert or update of assigned_to on public.incidents
+  for each row execute function public.notify_incident_assignment();
+
+-- Reporter messages now also reach the assigned officer, even before they
+-- have touched the incident
+create or replace function public.notify_incident_comment()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_incident public.incidents;
+  v_preview text;
+begin
+  select * into v_incident
+  from public.incidents i
+  where i.id = new.incident_id;
+
+  v_preview := coalesce(
+    nullif(left(btrim(new.body), 140), ''),
+    'Sent an attachment'
+  );
+
+  if new.author_role in ('police', 'admin') then
+    if v_incident.user_id is distinct from new.author_id then
+      insert into public.notifications (user_id, incident_id, type, title, message, metadata)
+      values (
+        v_incident.user_id,
+        v_incident.id,
+        'comment',
+        'New message from police',
+        v_preview,
+        jsonb_build_object(
+          'tracking_id', v_incident.tracking_id,
+          'comment_id', new.id
+        )
+      );
+    end if;
+  else
+    -- The assignee and officers who have updated, resolved or replied on
+    -- this incident
+    insert into public.notifications (user_id, incident_id, type, title, message, metadata)
+    select
+      officer.id,
+      v_incident.id,
+      'comment',
+      'New message from reporter',
+      v_preview,
+      jsonb_build_object(
+        'tracking_id', v_incident.tracking_id,
+        'comment_id', new.id
+      )
+    from (
+      select v_incident.assigned_to as id
+      union
+      select u.updated_by
+      from public.incident_updates u
+      where u.incident_id = v_incident.id
+      union
+      select r.uploaded_by
+      from public.incident_resolutions r
+      where r.incident_id = v_incident.id
+      union
+      select c.author_id
+      from public.incident_comments c
+      where c.incident_id = v_incident.id
+        and c.author_role in ('police', 'admin')
+    ) officer
+    where officer.id is not null
+      and officer.id <> new.author_id;
+  end if;
+
+  return new;
+end;
+$$;
@@ -0,0 +1,93 @@
+-- SOS incidents carry the live position of someone asking for help, so
+-- only the reporter and police may read them. Public feeds and anyone
+-- else querying incidents never see them.
+create policy "Only the reporter and police can read SOS incidents"
+  on public.incidents
+  as restrictive
+  for select
+  to anon, authenticated
+  using (
+    not is_sos
+    or user_id = auth.uid()
+    or exists (
+      select 1
+      from public.profiles p
+      where p.id = auth.uid()
+        and p.role in ('police', 'admin')
+    )
+  );
+
+-- The SOS page used to send the coordinates as the address, which views
+-- that show addresses printed as they were. Police follow the position
+-- from latitude/longitude and the location updates instead.
+update public.incidents
+set address = null
+where is_sos;
+
+-- Whatever the client sends, an SOS is filed without an address
+create or replace function public.start_sos(
+  p_latitude double precision,
+  p_longitude double precision,
+  p_accuracy double precision,
+  p_address text,
+  p_stream_minutes integer
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_category_id uuid;
+  v_incident public.incidents;
+begin
+  if auth.uid() is null then
+    raise exception 'Not signed in' using errcode = '42501';
+  end if;
+
+  select id into v_category_id
+  from public.categories
+  where is_sos;
+
+  if v_category_id is null then
+    raise exception 'No SOS category is configured' using errcode = 'P0002';
+  end if;
+
+  insert into public.incidents (
+    user_id,
+    category_id,
+    title,
+    description,
+    priority,
+    latitude,
+    longitude,
+    location_source,
+    is_sos,
+    sos_expires_at
+  )
+  values (
+    auth.uid(),
+    v_category_id,
+    'SOS Emergency',
+    'Sent with the one-tap SOS button. The reporter''s location updates live.',
+    'urgent',
+    p_latitude,
+    p_longitude,
+    case when p_latitude is null then null else 'device' end,
+    true,
+    now() + make_interval(mins => least(greatest(coalesce(p_stream_minutes, 30), 1), 120))
+  )
+  returning * into v_incident;
+
+  if p_latitude is not null and p_longitude is not null then
+    insert into public.incident_location_updates (incident_id, latitude, longitude, accuracy)
+    values (v_incident.id, p_latitude, p_longitude, p_accuracy);
+  end if;
+
+  return jsonb_build_object(
+    'id', v_incident.id,
+    'tracking_id', v_incident.tracking_id,
+    'sos_expires_at', v_incident.sos_expires_at
+  );
+end;
+$$;
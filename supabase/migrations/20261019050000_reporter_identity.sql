@@ -0,0 +1,64 @@
+-- Anonymous reporters' identity is withheld by the database rather than by
+-- the police views. Police no longer read citizens' profiles directly: a
+-- profile joined through an anonymous incident, its timeline or its
+-- comments would otherwise give the reporter away whenever they had also
+-- filed a named report. The reporter of an incident comes from the
+-- reporter computed field instead, which is null for anonymous incidents,
+-- so reveal_incident_reporter (supervisors only, logged) is how police
+-- learn who filed one. incidents.user_id itself, which would lead to the
+-- same person's named reports, is hidden by the incident_owner_column
+-- migration.
+
+create or replace function public.reporter_profile_visible(p_profile_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    p_profile_id = auth.uid()
+    or not exists (
+      select 1
+      from public.profiles v
+      where v.id = auth.uid()
+        and v.role = 'police'
+    )
+    or exists (
+      select 1
+      from public.profiles s
+      where s.id = p_profile_id
+        and s.role in ('police', 'admin')
+    );
+$$;
+
+-- The reporter of an incident for police and admins, selected like a
+-- column ("user:reporter"). Null for anonymous incidents. The incident is
+-- looked up again by id so a caller cannot pass in a made-up row.
+create or replace function public.reporter(p_incident public.incidents)
+returns jsonb
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select jsonb_build_object(
+    'id', p.id,
+    'full_name', p.full_name,
+    'phone', p.phone,
+    'email', p.email,
+    'avatar_url', p.avatar_url
+  )
+  from public.incidents i
+  join public.profiles p on p.id = i.user_id
+  where i.id = p_incident.id
+    and not i.is_anonymous
+    and exists (
+      select 1
+      from public.profiles v
+      where v.id = auth.uid()
+        and v.role in ('police', 'admin')
+    );
+$$;
+
+grant execute on function public.reporter(public.incidents) to authenticated;
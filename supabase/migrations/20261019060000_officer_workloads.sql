@@ -0,0 +1,24 @@
+-- Open assignments per officer, counted in the database so the officer
+-- picker does not have to fetch (and be capped on) every assigned incident
+create or replace function public.officer_workloads()
+returns table (officer_id uuid, open_assignments integer)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select i.assigned_to, count(*)::integer
+  from public.incidents i
+  where i.assigned_to is not null
+    and i.status <> 'resolved'
+    and i.withdrawn_at is null
+    and exists (
+      select 1
+      from public.profiles p
+      where p.id = auth.uid()
+        and p.role in ('police', 'admin')
+    )
+  group by i.assigned_to;
+$$;
+
+grant execute on function public.officer_workloads() to authenticated;
@@ -0,0 +1,28 @@
+-- MP3 voice notes (audio/mpeg) and recorded WebM videos (video/webm) were
+-- accepted by the app but missing from the bucket's allow-list, so their
+-- uploads failed. Widen it to every type in ALLOWED_MEDIA_TYPES
+-- (src/lib/incidentValidation.ts); keep the two lists in step. Only touch
+-- the bucket when it has an allow-list.
+update storage.buckets
+set allowed_mime_types = (
+  select array_agg(distinct mime_type)
+  from unnest(
+    allowed_mime_types || array[
+      'image/jpeg',
+      'image/png',
+      'image/webp',
+      'image/gif',
+      'image/heic',
+      'image/heif',
+      'video/mp4',
+      'video/webm',
+      'video/quicktime',
+      'audio/webm',
+      'audio/mp4',
+      'audio/ogg',
+      'audio/mpeg'
+    ]
+  ) as mime_type
+)
+where id = 'incident-media'
+  and allowed_mime_types is not null;
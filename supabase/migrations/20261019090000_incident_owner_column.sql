@@ -0,0 +1,214 @@
+-- incidents.user_id is no longer readable through the API. On an anonymous
+-- incident it is the reporter's account id, and with it an officer (or
+-- anyone reading the public feed) could find the same person's named
+-- reports, and so their name. Policies, triggers and security definer
+-- functions use the column as before. Reporters reach their own
+-- incidents through my_incidents; police and admin views read
+-- police_incidents, which carries the reporter computed field.
+--
+-- Both views list the columns of incidents as they are when
+-- grant_incident_columns() runs. A migration that adds a column to
+-- incidents must call it again.
+
+create or replace function public.grant_incident_columns()
+returns void
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_columns text;
+begin
+  select string_agg(quote_ident(a.attname), ', ' order by a.attnum)
+  into v_columns
+  from pg_attribute a
+  where a.attrelid = 'public.incidents'::regclass
+    and a.attnum > 0
+    and not a.attisdropped
+    and a.attname <> 'user_id';
+
+  -- Revoking the table-wide grant also revokes any column grants
+  revoke select on public.incidents from anon, authenticated;
+  execute format(
+    'grant select (%s) on public.incidents to anon, authenticated',
+    v_columns
+  );
+
+  -- Runs as its owner, past the policies on incidents, and filters to
+  -- the caller's own incidents itself
+  execute format(
+    'create or replace view public.my_incidents
+      with (security_barrier = true)
+      as select %s from public.incidents where user_id = auth.uid()',
+    v_columns
+  );
+
+  -- Runs as the caller, so the policies on incidents decide which rows
+  -- come back
+  execute format(
+    'create or replace view public.police_incidents
+      with (security_invoker = true)
+      as select %s from public.incidents',
+    v_columns
+  );
+
+  -- Read-only, whatever default privileges new views get
+  revoke all on public.my_incidents, public.police_incidents
+    from anon, authenticated;
+  grant select on public.my_incidents, public.police_incidents
+    to authenticated;
+end;
+$$;
+
+revoke execute on function public.grant_incident_columns() from public;
+
+select public.grant_incident_columns();
+
+-- The reporter computed field moves to police_incidents: a function taking
+-- a whole incidents row needs every column, user_id included, to be
+-- readable by the caller.
+drop function if exists public.reporter(public.incidents);
+
+create or replace function public.reporter(p_incident public.police_incidents)
+returns jsonb
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select jsonb_build_object(
+    'id', p.id,
+    'full_name', p.full_name,
+    'phone', p.phone,
+    'email', p.email,
+    'avatar_url', p.avatar_url
+  )
+  from public.incidents i
+  join public.profiles p on p.id = i.user_id
+  where i.id = p_incident.id
+    and not i.is_anonymous
+    and exists (
+      select 1
+      from public.profiles v
+      where v.id = auth.uid()
+        and v.role in ('police', 'admin')
+    );
+$$;
+
+grant execute on function public.reporter(public.police_incidents)
+  to authenticated;
+
+-- Whether the caller filed the incident. Policies on other tables check
+-- this instead of reading incidents.user_id, which the caller can no
+-- longer select.
+create or replace function public.is_incident_reporter(p_incident_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from public.incidents i
+    where i.id = p_incident_id
+      and i.user_id = auth.uid()
+  );
+$$;
+
+grant execute on function public.is_incident_reporter(uuid) to authenticated;
+
+drop policy "Reporters can add metadata for their own media"
+  on public.incident_media_metadata;
+create policy "Reporters can add metadata for their own media"
+  on public.incident_media_metadata for insert
+  to authenticated
+  with check (
+    exists (
+      select 1
+      from public.incident_media m
+      where m.id = media_id
+        and public.is_incident_reporter(m.incident_id)
+    )
+  );
+
+drop policy "Citizens can confirm open incidents"
+  on public.incident_confirmations;
+create policy "Citizens can confirm open incidents"
+  on public.incident_confirmations for insert
+  to authenticated
+  with check (
+    user_id = auth.uid()
+    and exists (
+      select 1
+      from public.incidents i
+      where i.id = incident_id
+        and i.status <> 'resolved'
+    )
+    and not public.is_incident_reporter(incident_id)
+  );
+
+drop policy "Reporters can read their own location updates"
+  on public.incident_location_updates;
+create policy "Reporters can read their own location updates"
+  on public.incident_location_updates for select
+  to authenticated
+  using (public.is_incident_reporter(incident_id));
+
+drop policy "Reporters can read comments on their incidents"
+  on public.incident_comments;
+create policy "Reporters can read comments on their incidents"
+  on public.incident_comments for select
+  to authenticated
+  using (public.is_incident_reporter(incident_id));
+
+drop policy "Reporters can comment on their incidents"
+  on public.incident_comments;
+create policy "Reporters can comment on their incidents"
+  on public.incident_comments for insert
+  to authenticated
+  with check (
+    author_id = auth.uid()
+    and public.is_incident_reporter(incident_id)
+  );
+
+-- Reports filed per user, for the admin user list
+create or replace function public.reporter_incident_counts()
+returns table (user_id uuid, incident_count integer)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select i.user_id, count(*)::integer
+  from public.incidents i
+  where exists (
+    select 1
+    from public.profiles p
+    where p.id = auth.uid()
+      and p.role = 'admin'
+  )
+  group by i.user_id;
+$$;
+
+grant execute on function public.reporter_incident_counts() to authenticated;
+
+-- Files for anonymous reports, and later uploads by their reporters, go
+-- under anonymous/ rather than the reporter's own folder, which is named
+-- after their user id and shows in every public file URL. Storage records
+-- the uploader as the object's owner, which is how they are listed.
+create policy "Users can upload anonymous incident media"
+  on storage.objects for insert
+  to authenticated
+  with check (
+    bucket_id = 'incident-media'
+    and (storage.foldername(name))[1] = 'anonymous'
+  );
+
+create policy "Users can list their own anonymous incident media"
+  on storage.objects for select
+  to authenticated
+  using (
+    bucket_id = 'incident-media'
+    and (storage.foldername(name))[1] = 'anonymous'
+    and owner = auth.uid()
+  );
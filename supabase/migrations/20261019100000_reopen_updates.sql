@@ -0,0 +1,126 @@
+-- A reporter reopening a resolved incident was recorded as an ordinary
+-- status update carrying their comment, so the public tracking page, which
+-- shows status updates, published what they wrote. Reopens now get their
+-- own kind of timeline entry, like supplements and withdrawals.
+
+alter table public.incident_updates
+  drop constraint if exists incident_updates_kind_check;
+alter table public.incident_updates
+  add constraint incident_updates_kind_check
+    check (kind in ('status', 'supplement', 'withdrawal', 'reopen'));
+
+update public.incident_updates u
+set kind = 'reopen',
+    notes = substr(u.notes, char_length('Reopened by the reporter: ') + 1)
+from public.incidents i
+where i.id = u.incident_id
+  and u.kind = 'status'
+  and u.updated_by = i.user_id
+  and u.notes like 'Reopened by the reporter: %';
+
+-- As before, but the reopen entry is the reporter's, not a status update
+create or replace function public.submit_resolution_feedback(
+  p_incident_id uuid,
+  p_is_fixed boolean,
+  p_rating integer,
+  p_comment text
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_incident public.incidents;
+  v_comment text := nullif(trim(coalesce(p_comment, '')), '');
+  v_resolved_at timestamptz;
+  v_feedback_id uuid;
+begin
+  if auth.uid() is null then
+    raise exception 'Not signed in' using errcode = '42501';
+  end if;
+
+  select * into v_incident
+  from public.incidents i
+  where i.id = p_incident_id
+    and i.user_id = auth.uid();
+
+  if not found then
+    raise exception 'No incident of yours with that id'
+      using errcode = 'P0002';
+  end if;
+
+  if v_incident.status <> 'resolved' then
+    raise exception 'Only resolved incidents can be rated'
+      using errcode = '22023';
+  end if;
+
+  if p_rating is null or p_rating not between 1 and 5 then
+    raise exception 'Give a rating from 1 to 5' using errcode = '22023';
+  end if;
+
+  if not coalesce(p_is_fixed, true) and v_comment is null then
+    raise exception 'Tell the police what is still wrong'
+      using errcode = '22023';
+  end if;
+
+  select max(u.created_at) into v_resolved_at
+  from public.incident_updates u
+  where u.incident_id = p_incident_id
+    and u.status = 'resolved';
+
+  if exists (
+    select 1
+    from public.incident_feedback f
+    where f.incident_id = p_incident_id
+      and f.created_at >= coalesce(v_resolved_at, v_incident.updated_at)
+  ) then
+    raise exception 'You have already rated this resolution'
+      using errcode = '23505';
+  end if;
+
+  insert into public.incident_feedback (incident_id, user_id, is_fixed, rating, comment)
+  values (p_incident_id, auth.uid(), coalesce(p_is_fixed, true), p_rating, v_comment)
+  returning id into v_feedback_id;
+
+  if not coalesce(p_is_fixed, true) then
+    -- The timeline records the reopen as the reporter's own entry;
+    -- sync_incident_status moves the incident itself back to in_review
+    insert into public.incident_updates (incident_id, status, kind, notes, updated_by)
+    values (p_incident_id, 'in_review', 'reopen', v_comment, auth.uid());
+
+    update public.incidents
+    set reopened_at = now()
+    where id = p_incident_id;
+
+    -- Officers who have worked on the incident
+    insert into public.notifications (user_id, incident_id, type, title, message, metadata)
+    select
+      officer.id,
+      p_incident_id,
+      'reopened',
+      'Incident reopened by reporter',
+      left(v_comment, 140),
+      jsonb_build_object(
+        'tracking_id', v_incident.tracking_id,
+        'feedback_id', v_feedback_id
+      )
+    from (
+      select u.updated_by as id
+      from public.incident_updates u
+      where u.incident_id = p_incident_id
+      union
+      select r.uploaded_by
+      from public.incident_resolutions r
+      where r.incident_id = p_incident_id
+    ) officer
+    join public.profiles p on p.id = officer.id
+    where p.role in ('police', 'admin');
+  end if;
+
+  return v_feedback_id;
+end;
+$$;
+
+grant execute on function public.submit_resolution_feedback(uuid, boolean, integer, text)
+  to authenticated;
@@ -0,0 +1,89 @@
+-- Police status notes are written for colleagues as often as for the
+-- public, so the tracking page no longer shows them all. Officers choose,
+-- per update, whether its note is public; notes are internal unless they
+-- do, including every note written before this.
+
+alter table public.incident_updates
+  add column if not exists is_public boolean not null default false;
+
+-- As before, but a status update's note only when it was made public
+create or replace function public.get_public_incident(p_tracking_id text)
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_incident public.incidents;
+  v_parts text[];
+  v_locality text;
+begin
+  select * into v_incident
+  from public.incidents i
+  where upper(i.tracking_id) = upper(ltrim(btrim(p_tracking_id), '#'))
+    and not i.is_sos;
+
+  if not found then
+    return null;
+  end if;
+
+  -- Same area the public feed shows: the second and third parts of
+  -- "Street, Area, District, ..." so the street is left out
+  v_parts := regexp_split_to_array(coalesce(v_incident.address, ''), '\s*,\s*');
+  v_locality := case
+    when array_length(v_parts, 1) >= 3 then v_parts[2] || ', ' || v_parts[3]
+    when array_length(v_parts, 1) = 2 then v_parts[1] || ', ' || v_parts[2]
+    else nullif(v_parts[1], '')
+  end;
+
+  return jsonb_build_object(
+    'tracking_id', v_incident.tracking_id,
+    'title', v_incident.title,
+    'status', case when v_incident.withdrawn_at is not null then 'withdrawn' else v_incident.status end,
+    'locality', v_locality,
+    'created_at', v_incident.created_at,
+    'updated_at', v_incident.updated_at,
+    'category', (
+      select jsonb_build_object(
+        'name', c.name,
+        'name_translations', c.name_translations,
+        'icon', c.icon,
+        'color', c.color
+      )
+      from public.categories c
+      where c.id = v_incident.category_id
+    ),
+    'updates', coalesce((
+      select jsonb_agg(
+        jsonb_build_object(
+          'id', u.id,
+          'status', u.status,
+          'notes', case when u.is_public then u.notes end,
+          'created_at', u.created_at
+        )
+        order by u.created_at desc
+      )
+      from public.incident_updates u
+      where u.incident_id = v_incident.id
+        and u.kind = 'status'
+    ), '[]'::jsonb),
+    'resolutions', coalesce((
+      select jsonb_agg(
+        jsonb_build_object(
+          'id', r.id,
+          'resolution_media_url', r.resolution_media_url,
+          'resolution_media_type', r.resolution_media_type,
+          'resolution_thumbnail_url', r.resolution_thumbnail_url,
+          'notes', r.notes,
+          'created_at', r.created_at
+        )
+        order by r.created_at desc
+      )
+      from public.incident_resolutions r
+      where r.incident_id = v_incident.id
+    ), '[]'::jsonb)
+  );
+end;
+$$;
+
@@ -0,0 +1,89 @@
+-- Evidence a reporter adds to an open incident is recorded by
+-- add_incident_supplement together with the timeline entry, as
+-- create_incident_with_media does for a new report. The app used to insert
+-- the incident_media rows first, which a failed call then left behind with
+-- no entry explaining them. Files are uploaded to storage beforehand, under
+-- the reporter's folder (anonymous/ for an anonymous incident) and the
+-- incident id.
+
+drop policy "Reporters can add evidence to their open incidents"
+  on public.incident_media;
+drop policy "Reporters can add metadata for evidence on their open incidents"
+  on public.incident_media_metadata;
+
+drop function if exists public.add_incident_supplement(uuid, text, uuid[]);
+
+-- Record new evidence and/or a note in the timeline. p_media lists
+-- uploaded files as record_staged_media takes them. Returns the update id.
+create or replace function public.add_incident_supplement(
+  p_incident_id uuid,
+  p_note text,
+  p_media jsonb
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_incident public.incidents;
+  v_note text := nullif(trim(coalesce(p_note, '')), '');
+  v_media jsonb := coalesce(p_media, '[]'::jsonb);
+  v_media_count integer := 0;
+  v_update_id uuid;
+begin
+  if not public.incident_open_to_reporter(p_incident_id) then
+    raise exception 'This report can no longer be changed'
+      using errcode = '42501';
+  end if;
+
+  if char_length(v_note) > 1000 then
+    raise exception 'Keep the note under 1000 characters'
+      using errcode = '22023';
+  end if;
+
+  if jsonb_typeof(v_media) <> 'array' or jsonb_array_length(v_media) > 5 then
+    raise exception 'Attach up to 5 files' using errcode = '22023';
+  end if;
+
+  select * into v_incident
+  from public.incidents i
+  where i.id = p_incident_id;
+
+  v_media_count := public.record_staged_media(
+    p_incident_id,
+    case when v_incident.is_anonymous
+      then 'anonymous'
+      else auth.uid()::text
+    end || '/' || p_incident_id::text || '/',
+    v_media
+  );
+
+  if v_note is null and v_media_count = 0 then
+    raise exception 'Add a note or at least one file'
+      using errcode = '22023';
+  end if;
+
+  insert into public.incident_updates (incident_id, status, kind, notes, updated_by)
+  values (
+    p_incident_id,
+    v_incident.status,
+    'supplement',
+    concat_ws(
+      E'\n\n',
+      case
+        when v_media_count = 1 then 'Added 1 evidence file'
+        when v_media_count > 1 then format('Added %s evidence files', v_media_count)
+      end,
+      v_note
+    ),
+    auth.uid()
+  )
+  returning id into v_update_id;
+
+  return v_update_id;
+end;
+$$;
+
+grant execute on function public.add_incident_supplement(uuid, text, jsonb)
+  to authenticated;
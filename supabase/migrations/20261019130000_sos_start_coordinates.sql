@@ -0,0 +1,84 @@
+-- start_sos no longer takes an address: an SOS is never filed with one, so
+-- the parameter only invited clients to send something that was thrown
+-- away. The first position is now checked the way record_sos_location
+-- checks later ones.
+drop function if exists public.start_sos(
+  double precision,
+  double precision,
+  double precision,
+  text,
+  integer
+);
+
+create or replace function public.start_sos(
+  p_latitude double precision,
+  p_longitude double precision,
+  p_accuracy double precision,
+  p_stream_minutes integer
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_category_id uuid;
+  v_incident public.incidents;
+begin
+  if auth.uid() is null then
+    raise exception 'Not signed in' using errcode = '42501';
+  end if;
+
+  if abs(p_latitude) > 90 or abs(p_longitude) > 180 then
+    raise exception 'Invalid coordinates' using errcode = '22023';
+  end if;
+
+  select id into v_category_id
+  from public.categories
+  where is_sos;
+
+  if v_category_id is null then
+    raise exception 'No SOS category is configured' using errcode = 'P0002';
+  end if;
+
+  insert into public.incidents (
+    user_id,
+    category_id,
+    title,
+    description,
+    priority,
+    latitude,
+    longitude,
+    location_source,
+    is_sos,
+    sos_expires_at
+  )
+  values (
+    auth.uid(),
+    v_category_id,
+    'SOS Emergency',
+    'Sent with the one-tap SOS button. The reporter''s location updates live.',
+    'urgent',
+    p_latitude,
+    p_longitude,
+    case when p_latitude is null then null else 'device' end,
+    true,
+    now() + make_interval(mins => least(greatest(coalesce(p_stream_minutes, 30), 1), 120))
+  )
+  returning * into v_incident;
+
+  if p_latitude is not null and p_longitude is not null then
+    insert into public.incident_location_updates (incident_id, latitude, longitude, accuracy)
+    values (v_incident.id, p_latitude, p_longitude, p_accuracy);
+  end if;
+
+  return jsonb_build_object(
+    'id', v_incident.id,
+    'tracking_id', v_incident.tracking_id,
+    'sos_expires_at', v_incident.sos_expires_at
+  );
+end;
+$$;
+
+grant execute on function public.start_sos(double precision, double precision, double precision, integer)
+  to authenticated;